@@ -0,0 +1,27 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'node:test';
+import { strict as assert } from 'assert';
+import { env } from 'process';
+import { TestRig } from './test-helper.js';
+
+test('should list files offline from a cassette', async (t) => {
+  const rig = new TestRig();
+  rig.setup(t.name);
+  rig.createFile('greeting.txt', 'hello');
+  rig.sync();
+
+  // The cassette serves a glob call and the answer, so neither network
+  // access nor credentials are needed.
+  delete env.GEMINI_API_KEY;
+  const result = rig.run({
+    prompt: 'Which text files are here?',
+    cassette: 'replay/should-list-files-offline-from-a-cassette.jsonl',
+  });
+
+  assert.ok(result.includes('The directory contains greeting.txt.'));
+});
@@ -23,6 +23,7 @@ export class TestRig {
   constructor() {
     this.bundlePath = join(__dirname, '..', 'bundle/gemini.js');
     this.testDir = null;
+    this.runCount = 0;
   }
 
   setup(testName) {
@@ -32,6 +33,15 @@ export class TestRig {
     mkdirSync(this.testDir, { recursive: true });
   }
 
+  cassettePath() {
+    return join(
+      __dirname,
+      'cassettes',
+      env.TEST_FILE_NAME.replace('.test.js', ''),
+      `${sanitizeTestName(this.testName)}-${this.runCount}.jsonl`,
+    );
+  }
+
   createFile(fileName, content) {
     const filePath = join(this.testDir, fileName);
     writeFileSync(filePath, content);
@@ -68,6 +78,19 @@ export class TestRig {
       }
     }
 
+    // Record or replay model responses so the suite can run offline. The
+    // prompts contain the date and the test directory, which change between
+    // runs, so cassettes are replayed leniently.
+    const cassetteMode = env.INTEGRATION_TEST_CASSETTE_MODE;
+    if (promptOrOptions?.cassette) {
+      command += ` --replay "${join(__dirname, 'cassettes', promptOrOptions.cassette)}" --replay-lenient`;
+    } else if (cassetteMode === 'replay') {
+      command += ` --replay "${this.cassettePath()}" --replay-lenient`;
+    } else if (cassetteMode === 'record') {
+      command += ` --record "${this.cassettePath()}"`;
+    }
+    this.runCount++;
+
     command += ` ${args.join(' ')}`;
 
     const output = execSync(command, execOptions);
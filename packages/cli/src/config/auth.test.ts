@@ -67,6 +67,23 @@ describe('validateAuthMethod', () => {
     });
   });
 
+  describe('USE_OPENAI_COMPATIBLE', () => {
+    it('should return null if a base url is configured', () => {
+      expect(
+        validateAuthMethod(AuthType.USE_OPENAI_COMPATIBLE, {
+          baseUrl: 'http://localhost:8000/v1',
+        }),
+      ).toBeNull();
+    });
+
+    it('should return an error message if no base url is configured', () => {
+      expect(validateAuthMethod(AuthType.USE_OPENAI_COMPATIBLE)).toBe(
+        'When using an OpenAI-compatible endpoint, you must set "openAICompatible.baseUrl" in your settings.json.\n' +
+          'Update your settings and try again!',
+      );
+    });
+  });
+
   it('should return an error message for an invalid auth method', () => {
     expect(validateAuthMethod('invalid-method')).toBe(
       'Invalid auth method selected.',
@@ -4,10 +4,13 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { AuthType } from '@google/gemini-cli-core';
+import { AuthType, OpenAICompatibleSettings } from '@google/gemini-cli-core';
 import { loadEnvironment } from './settings.js';
 
-export const validateAuthMethod = (authMethod: string): string | null => {
+export const validateAuthMethod = (
+  authMethod: string,
+  openAICompatible?: OpenAICompatibleSettings,
+): string | null => {
   loadEnvironment();
   if (
     authMethod === AuthType.LOGIN_WITH_GOOGLE ||
@@ -38,5 +41,15 @@ export const validateAuthMethod = (authMethod: string): string | null => {
     return null;
   }
 
+  if (authMethod === AuthType.USE_OPENAI_COMPATIBLE) {
+    if (!openAICompatible?.baseUrl) {
+      return (
+        'When using an OpenAI-compatible endpoint, you must set "openAICompatible.baseUrl" in your settings.json.\n' +
+        'Update your settings and try again!'
+      );
+    }
+    return null;
+  }
+
   return 'Invalid auth method selected.';
 };
@@ -6,7 +6,9 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as os from 'os';
-import { loadCliConfig } from './config.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadCliConfig, loadMcpServers } from './config.js';
 import { Settings } from './settings.js';
 import { Extension } from './extension.js';
 import * as ServerConfig from '@google/gemini-cli-core';
@@ -520,6 +522,7 @@ describe('loadCliConfig with allowed-mcp-server-names', () => {
     expect(config.getMcpServers()).toEqual({
       server1: { url: 'http://localhost:8080' },
     });
+    expect(config.getAllowedMcpServerNames()).toEqual(['server1']);
   });
 
   it('should allow multiple specified MCP servers', async () => {
@@ -597,3 +600,240 @@ describe('loadCliConfig extensions', () => {
     expect(config.getExtensionContextFilePaths()).toEqual(['/path/to/ext1.md']);
   });
 });
+
+describe('loadCliConfig record and replay', () => {
+  const originalArgv = process.argv;
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(os.homedir).mockReturnValue('/mock/home/user');
+    process.env.GEMINI_API_KEY = 'test-api-key';
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+    process.env = originalEnv;
+    vi.restoreAllMocks();
+  });
+
+  it('should not use a cassette by default', async () => {
+    process.argv = ['node', 'script.js'];
+    const config = await loadCliConfig({}, [], 'test-session');
+    expect(config.getCassette()).toBeUndefined();
+  });
+
+  it('should record to the file given by --record', async () => {
+    process.argv = ['node', 'script.js', '--record', '/tmp/session.jsonl'];
+    const config = await loadCliConfig({}, [], 'test-session');
+    expect(config.getCassette()).toEqual({
+      mode: ServerConfig.CassetteMode.RECORD,
+      path: '/tmp/session.jsonl',
+    });
+  });
+
+  it('should replay from the file given by GEMINI_REPLAY_FILE', async () => {
+    process.argv = ['node', 'script.js'];
+    process.env.GEMINI_REPLAY_FILE = '/tmp/session.jsonl';
+    const config = await loadCliConfig({}, [], 'test-session');
+    expect(config.getCassette()).toEqual({
+      mode: ServerConfig.CassetteMode.REPLAY,
+      path: '/tmp/session.jsonl',
+    });
+  });
+
+  it('should replay leniently with --replay-lenient', async () => {
+    process.argv = [
+      'node',
+      'script.js',
+      '--replay',
+      '/tmp/session.jsonl',
+      '--replay-lenient',
+    ];
+    const config = await loadCliConfig({}, [], 'test-session');
+    expect(config.getCassette()).toEqual({
+      mode: ServerConfig.CassetteMode.REPLAY,
+      path: '/tmp/session.jsonl',
+      lenient: true,
+    });
+  });
+});
+
+describe('loadCliConfig model routing', () => {
+  const originalArgv = process.argv;
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(os.homedir).mockReturnValue('/mock/home/user');
+    process.env.GEMINI_API_KEY = 'test-api-key';
+    delete process.env.GEMINI_MODEL;
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+    process.env = originalEnv;
+    vi.restoreAllMocks();
+  });
+
+  it('should use the default model when nothing is configured', async () => {
+    process.argv = ['node', 'script.js'];
+    const config = await loadCliConfig({}, [], 'test-session');
+    expect(config.getModel()).toBe(ServerConfig.DEFAULT_GEMINI_MODEL);
+  });
+
+  it('should use the chat model from settings', async () => {
+    process.argv = ['node', 'script.js'];
+    const config = await loadCliConfig(
+      {
+        modelRouting: {
+          chat: 'gemini-2.5-flash',
+          nextSpeaker: 'gemini-2.5-flash-lite',
+        },
+      },
+      [],
+      'test-session',
+    );
+    expect(config.getModel()).toBe('gemini-2.5-flash');
+    expect(
+      config.getModelForPurpose(ServerConfig.ModelPurpose.NEXT_SPEAKER),
+    ).toBe('gemini-2.5-flash-lite');
+  });
+
+  it('should prefer --model over the chat model from settings', async () => {
+    process.argv = ['node', 'script.js', '--model', 'gemini-2.5-pro'];
+    const config = await loadCliConfig(
+      { modelRouting: { chat: 'gemini-2.5-flash' } },
+      [],
+      'test-session',
+    );
+    expect(config.getModel()).toBe('gemini-2.5-pro');
+  });
+});
+
+describe('loadCliConfig headless approval', () => {
+  const originalArgv = process.argv;
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(os.homedir).mockReturnValue('/mock/home/user');
+    process.env.GEMINI_API_KEY = 'test-api-key';
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'approve-rules-'));
+  });
+
+  afterEach(() => {
+    process.argv = originalArgv;
+    process.env = originalEnv;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should default to read-only, or all with --yolo', async () => {
+    process.argv = ['node', 'script.js'];
+    let config = await loadCliConfig({}, [], 'test-session');
+    expect(config.getHeadlessApprovalPolicy()).toBe(
+      ServerConfig.HeadlessApprovalPolicy.READ_ONLY,
+    );
+
+    process.argv = ['node', 'script.js', '--yolo'];
+    config = await loadCliConfig({}, [], 'test-session');
+    expect(config.getHeadlessApprovalPolicy()).toBe(
+      ServerConfig.HeadlessApprovalPolicy.ALL,
+    );
+  });
+
+  it('should use the policy given by --approve', async () => {
+    process.argv = ['node', 'script.js', '--approve', 'edits'];
+    const config = await loadCliConfig({}, [], 'test-session');
+    expect(config.getHeadlessApprovalPolicy()).toBe(
+      ServerConfig.HeadlessApprovalPolicy.EDITS,
+    );
+  });
+
+  it('should put the rules of --approve-rules files before the rules in settings', async () => {
+    const rulesPath = path.join(tempDir, 'rules.json');
+    fs.writeFileSync(
+      rulesPath,
+      JSON.stringify({ rules: [{ decision: 'allow', command: 'npm test' }] }),
+    );
+    process.argv = ['node', 'script.js', '--approve-rules', rulesPath];
+    const config = await loadCliConfig(
+      { permissions: { rules: [{ decision: 'deny', tool: '*' }] } },
+      [],
+      'test-session',
+    );
+    expect(config.getPolicyEngine().getRules()).toEqual([
+      { decision: 'allow', command: 'npm test' },
+      { decision: 'deny', tool: '*' },
+    ]);
+  });
+
+  it('should reject invalid rule files', async () => {
+    const rulesPath = path.join(tempDir, 'rules.json');
+    fs.writeFileSync(rulesPath, JSON.stringify([{ decision: 'permit' }]));
+    process.argv = ['node', 'script.js', '--approve-rules', rulesPath];
+    await expect(loadCliConfig({}, [], 'test-session')).rejects.toThrow(
+      `Invalid rules in ${rulesPath}`,
+    );
+  });
+});
+
+describe('loadMcpServers', () => {
+  let workspaceDir: string;
+
+  const writeJson = (filePath: string, value: unknown) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(value));
+  };
+
+  beforeEach(() => {
+    vi.mocked(os.homedir).mockReturnValue('/mock/home/user');
+    workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-servers-'));
+    writeJson(path.join(workspaceDir, '.gemini', 'settings.json'), {
+      mcpServers: {
+        server1: { url: 'http://localhost:8080' },
+        server2: { url: 'http://localhost:8081' },
+      },
+    });
+    for (const name of ['ext1', 'ext2']) {
+      writeJson(
+        path.join(
+          workspaceDir,
+          '.gemini',
+          'extensions',
+          name,
+          'gemini-extension.json',
+        ),
+        {
+          name,
+          version: '1.0.0',
+          mcpServers: { [`${name}-server`]: { command: name } },
+        },
+      );
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceDir, { recursive: true, force: true });
+  });
+
+  it('should load the servers of the active extensions and the settings', () => {
+    expect(
+      Object.keys(loadMcpServers(workspaceDir, ['ext1'], undefined)),
+    ).toEqual(['server1', 'server2', 'ext1-server']);
+  });
+
+  it('should load only the allowed servers', () => {
+    expect(
+      Object.keys(
+        loadMcpServers(
+          workspaceDir,
+          ['ext1', 'ext2'],
+          ['server2', 'ext2-server'],
+        ),
+      ),
+    ).toEqual(['server2', 'ext2-server']);
+  });
+});
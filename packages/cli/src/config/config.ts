@@ -7,6 +7,7 @@
 import yargs from 'yargs/yargs';
 import { hideBin } from 'yargs/helpers';
 import process from 'node:process';
+import * as path from 'node:path';
 import {
   Config,
   loadServerHierarchicalMemory,
@@ -17,10 +18,21 @@ import {
   DEFAULT_GEMINI_EMBEDDING_MODEL,
   FileDiscoveryService,
   TelemetryTarget,
+  CassetteConfig,
+  CassetteMode,
+  ModelPurpose,
+  OutputFormat,
+  HeadlessApprovalPolicy,
+  MCPServerConfig,
 } from '@google/gemini-cli-core';
-import { Settings } from './settings.js';
+import { Settings, loadSettings } from './settings.js';
+import { loadPermissionRuleFiles } from './permissions.js';
 
-import { Extension, filterActiveExtensions } from './extension.js';
+import {
+  Extension,
+  filterActiveExtensions,
+  loadExtensions,
+} from './extension.js';
 import { getCliVersion } from '../utils/version.js';
 import { loadSandboxConfig } from './sandboxConfig.js';
 
@@ -53,6 +65,13 @@ interface CliArgs {
   allowedMcpServerNames: string[] | undefined;
   extensions: string[] | undefined;
   listExtensions: boolean | undefined;
+  record: string | undefined;
+  replay: string | undefined;
+  replayLenient: boolean | undefined;
+  resume: string | undefined;
+  outputFormat: string | undefined;
+  approve: string | undefined;
+  approveRules: string[] | undefined;
 }
 
 async function parseArguments(): Promise<CliArgs> {
@@ -66,13 +85,32 @@ async function parseArguments(): Promise<CliArgs> {
       alias: 'm',
       type: 'string',
       description: `Model`,
-      default: process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL,
+      default: process.env.GEMINI_MODEL,
     })
     .option('prompt', {
       alias: 'p',
       type: 'string',
       description: 'Prompt. Appended to input on stdin (if any).',
     })
+    .option('output-format', {
+      type: 'string',
+      choices: Object.values(OutputFormat),
+      description:
+        'Output format of non-interactive runs: plain text, a JSON document, or a stream of JSON events (one per line).',
+      default: OutputFormat.TEXT,
+    })
+    .option('approve', {
+      type: 'string',
+      choices: Object.values(HeadlessApprovalPolicy),
+      description:
+        'Which tool calls non-interactive runs execute without confirmation. Defaults to read-only, or all with --yolo.',
+    })
+    .option('approve-rules', {
+      type: 'array',
+      string: true,
+      description:
+        'JSON files with permission rules that take precedence over the rules in settings.',
+    })
     .option('sandbox', {
       alias: 's',
       type: 'boolean',
@@ -168,6 +206,29 @@ async function parseArguments(): Promise<CliArgs> {
       type: 'boolean',
       description: 'List all available extensions and exit.',
     })
+    .option('record', {
+      type: 'string',
+      description:
+        'Record all model requests and responses to the given JSONL cassette file.',
+      default: process.env.GEMINI_RECORD_FILE,
+    })
+    .option('replay', {
+      type: 'string',
+      description:
+        'Serve model responses from the given JSONL cassette file instead of calling the API.',
+      default: process.env.GEMINI_REPLAY_FILE,
+    })
+    .option('replay-lenient', {
+      type: 'boolean',
+      description:
+        'With --replay, serve the next recorded response for requests that differ from the recorded ones instead of failing.',
+    })
+    .conflicts('record', 'replay')
+    .option('resume', {
+      type: 'string',
+      description:
+        'Resume an auto-saved session by id, or the latest session if no id is given.',
+    })
 
     .version(await getCliVersion()) // This will enable the --version flag based on package.json
     .alias('v', 'version')
@@ -188,7 +249,7 @@ export async function loadHierarchicalGeminiMemory(
   debugMode: boolean,
   fileService: FileDiscoveryService,
   extensionContextFilePaths: string[] = [],
-): Promise<{ memoryContent: string; fileCount: number }> {
+): Promise<{ memoryContent: string; fileCount: number; filePaths: string[] }> {
   if (debugMode) {
     logger.debug(
       `CLI: Delegating hierarchical memory load to server for CWD: ${currentWorkingDirectory}`,
@@ -238,28 +299,42 @@ export async function loadCliConfig(
 
   const fileService = new FileDiscoveryService(process.cwd());
   // Call the (now wrapper) loadHierarchicalGeminiMemory which calls the server's version
-  const { memoryContent, fileCount } = await loadHierarchicalGeminiMemory(
-    process.cwd(),
-    debugMode,
-    fileService,
-    extensionContextFilePaths,
-  );
+  const { memoryContent, fileCount, filePaths } =
+    await loadHierarchicalGeminiMemory(
+      process.cwd(),
+      debugMode,
+      fileService,
+      extensionContextFilePaths,
+    );
 
-  let mcpServers = mergeMcpServers(settings, activeExtensions);
+  const mcpServers = getMcpServers(
+    settings,
+    activeExtensions,
+    argv.allowedMcpServerNames,
+  );
   const excludeTools = mergeExcludeTools(settings, activeExtensions);
 
-  if (argv.allowedMcpServerNames) {
-    const allowedNames = new Set(argv.allowedMcpServerNames.filter(Boolean));
-    if (allowedNames.size > 0) {
-      mcpServers = Object.fromEntries(
-        Object.entries(mcpServers).filter(([key]) => allowedNames.has(key)),
-      );
-    } else {
-      mcpServers = {};
-    }
+  const sandboxConfig = await loadSandboxConfig(settings, argv);
+
+  let cassette: CassetteConfig | undefined;
+  if (argv.replay) {
+    cassette = {
+      mode: CassetteMode.REPLAY,
+      path: path.resolve(argv.replay),
+      lenient: argv.replayLenient,
+    };
+  } else if (argv.record) {
+    cassette = { mode: CassetteMode.RECORD, path: path.resolve(argv.record) };
   }
 
-  const sandboxConfig = await loadSandboxConfig(settings, argv);
+  const approvalRules = loadPermissionRuleFiles(argv.approveRules ?? []);
+  const permissions =
+    approvalRules.length > 0
+      ? {
+          ...settings.permissions,
+          rules: [...approvalRules, ...(settings.permissions?.rules ?? [])],
+        }
+      : settings.permissions;
 
   return new Config({
     sessionId,
@@ -268,6 +343,7 @@ export async function loadCliConfig(
     targetDir: process.cwd(),
     debugMode,
     question: argv.prompt || '',
+    outputFormat: argv.outputFormat as OutputFormat,
     fullContext: argv.allFiles || argv.all_files || false,
     coreTools: settings.coreTools || undefined,
     excludeTools,
@@ -277,6 +353,7 @@ export async function loadCliConfig(
     mcpServers,
     userMemory: memoryContent,
     geminiMdFileCount: fileCount,
+    geminiMdFilePaths: filePaths,
     approvalMode: argv.yolo || false ? ApprovalMode.YOLO : ApprovalMode.DEFAULT,
     showMemoryUsage:
       argv.showMemoryUsage ||
@@ -310,17 +387,79 @@ export async function loadCliConfig(
     cwd: process.cwd(),
     fileDiscoveryService: fileService,
     bugCommand: settings.bugCommand,
-    model: argv.model!,
+    model:
+      argv.model ||
+      settings.modelRouting?.[ModelPurpose.CHAT] ||
+      DEFAULT_GEMINI_MODEL,
     extensionContextFilePaths,
     listExtensions: argv.listExtensions || false,
     activeExtensions: activeExtensions.map((e) => ({
       name: e.config.name,
       version: e.config.version,
     })),
+    allowedMcpServerNames: argv.allowedMcpServerNames,
     noBrowser: !!process.env.NO_BROWSER,
+    openAICompatible: settings.openAICompatible,
+    models: settings.models,
+    modelRouting: settings.modelRouting,
+    chatCompression: settings.chatCompression,
+    permissions,
+    maxConcurrentToolCalls: settings.maxConcurrentToolCalls,
+    toolLimits: settings.toolLimits,
+    languageServers: settings.languageServers,
+    verificationCommands: settings.verificationCommands,
+    repoMap: settings.repoMap,
+    headlessApprovalPolicy: argv.approve as HeadlessApprovalPolicy | undefined,
+    cassette,
+    resume: argv.resume === undefined ? undefined : argv.resume || 'latest',
   });
 }
 
+/**
+ * Loads the MCP servers from the settings and extensions of the workspace
+ * again, so that they can be reloaded when the settings files change. Only
+ * the extensions that are active in the session and the servers that it
+ * allows are used, as loadCliConfig determined from the command line.
+ */
+export function loadMcpServers(
+  workspaceDir: string,
+  activeExtensionNames: string[],
+  allowedMcpServerNames: string[] | undefined,
+): Record<string, MCPServerConfig> {
+  const settings = loadSettings(workspaceDir);
+  if (settings.errors.length > 0) {
+    throw new Error(
+      settings.errors
+        .map((error) => `Error in ${error.path}: ${error.message}`)
+        .join('\n'),
+    );
+  }
+  const activeNames = new Set(activeExtensionNames);
+  const activeExtensions = loadExtensions(workspaceDir).filter((extension) =>
+    activeNames.has(extension.config.name),
+  );
+  return getMcpServers(
+    settings.merged,
+    activeExtensions,
+    allowedMcpServerNames,
+  );
+}
+
+function getMcpServers(
+  settings: Settings,
+  extensions: Extension[],
+  allowedMcpServerNames: string[] | undefined,
+): Record<string, MCPServerConfig> {
+  const mcpServers = mergeMcpServers(settings, extensions);
+  if (!allowedMcpServerNames) {
+    return mcpServers;
+  }
+  const allowedNames = new Set(allowedMcpServerNames.filter(Boolean));
+  return Object.fromEntries(
+    Object.entries(mcpServers).filter(([key]) => allowedNames.has(key)),
+  );
+}
+
 function mergeMcpServers(settings: Settings, extensions: Extension[]) {
   const mcpServers = { ...(settings.mcpServers || {}) };
   for (const extension of extensions) {
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs';
+import {
+  Config,
+  getErrorMessage,
+  PermissionRule,
+} from '@google/gemini-cli-core';
+import stripJsonComments from 'strip-json-comments';
+import { LoadedSettings, SettingScope } from './settings.js';
+
+export interface ScopedPermissionRule {
+  rule: PermissionRule;
+  scope: SettingScope;
+}
+
+/** The order in which the rules of each scope are evaluated. */
+const SCOPE_ORDER = [
+  SettingScope.System,
+  SettingScope.Workspace,
+  SettingScope.User,
+];
+
+/**
+ * Lists the rules from settings in the order they are evaluated, which is the
+ * order of `settings.merged.permissions.rules`.
+ */
+export function listPermissionRules(
+  settings: LoadedSettings,
+): ScopedPermissionRule[] {
+  return SCOPE_ORDER.flatMap((scope) =>
+    (settings.forScope(scope).settings.permissions?.rules ?? []).map(
+      (rule) => ({ rule, scope }),
+    ),
+  );
+}
+
+function saveRules(
+  settings: LoadedSettings,
+  config: Config,
+  scope: SettingScope,
+  rules: PermissionRule[],
+): void {
+  settings.setValue(scope, 'permissions', {
+    ...settings.forScope(scope).settings.permissions,
+    rules,
+  });
+  config.getPolicyEngine().setRules(settings.merged.permissions?.rules ?? []);
+}
+
+/** Appends a rule to the settings of a scope and applies it right away. */
+export function addPermissionRule(
+  settings: LoadedSettings,
+  config: Config,
+  scope: SettingScope,
+  rule: PermissionRule,
+): void {
+  const rules = settings.forScope(scope).settings.permissions?.rules ?? [];
+  saveRules(settings, config, scope, [...rules, rule]);
+}
+
+/**
+ * Removes the rule at a (zero-based) position of `listPermissionRules`.
+ * Rules from system settings are managed by administrators and cannot be
+ * removed.
+ */
+export function removePermissionRule(
+  settings: LoadedSettings,
+  config: Config,
+  index: number,
+): ScopedPermissionRule {
+  const rules = listPermissionRules(settings);
+  const target = rules[index];
+  if (!target) {
+    throw new Error(
+      `Invalid rule number: ${index + 1}. There are ${rules.length} rule(s).`,
+    );
+  }
+  if (target.scope === SettingScope.System) {
+    throw new Error('Rules from system settings cannot be removed.');
+  }
+  const scopeRules = settings.forScope(target.scope).settings.permissions!
+    .rules!;
+  saveRules(
+    settings,
+    config,
+    target.scope,
+    scopeRules.filter((rule) => rule !== target.rule),
+  );
+  return target;
+}
+
+/**
+ * Saves "always allow" answers as workspace rules when the
+ * `permissions.persistAlwaysAllow` setting is enabled.
+ */
+export function persistAlwaysAllowRules(
+  settings: LoadedSettings,
+  config: Config,
+): void {
+  config
+    .getPolicyEngine()
+    .setRulePersistence((rule) =>
+      addPermissionRule(settings, config, SettingScope.Workspace, rule),
+    );
+}
+
+function isPermissionRule(value: unknown): value is PermissionRule {
+  const rule = value as PermissionRule;
+  return (
+    typeof rule === 'object' &&
+    rule !== null &&
+    ['allow', 'ask', 'deny'].includes(rule.decision)
+  );
+}
+
+/**
+ * Loads the rules of `--approve-rules` files. Each file contains either an
+ * array of rules or an object with a `rules` array, like the `permissions`
+ * setting.
+ */
+export function loadPermissionRuleFiles(filePaths: string[]): PermissionRule[] {
+  return filePaths.flatMap((filePath) => {
+    let content: unknown;
+    try {
+      content = JSON.parse(
+        stripJsonComments(fs.readFileSync(filePath, 'utf-8')),
+      );
+    } catch (error) {
+      throw new Error(
+        `Error reading rules from ${filePath}: ${getErrorMessage(error)}`,
+      );
+    }
+    const rules = Array.isArray(content)
+      ? content
+      : (content as { rules?: unknown })?.rules;
+    if (!Array.isArray(rules) || !rules.every(isPermissionRule)) {
+      throw new Error(
+        `Invalid rules in ${filePath}: expected an array of rules with a decision of allow, ask or deny.`,
+      );
+    }
+    return rules;
+  });
+}
@@ -262,6 +262,45 @@ describe('Settings Loading and Merging', () => {
       });
     });
 
+    it('should combine permission rules, with system rules first and user rules last', () => {
+      (mockFsExistsSync as Mock).mockReturnValue(true);
+      const systemSettingsContent = {
+        permissions: { rules: [{ decision: 'deny', command: 'rm' }] },
+      };
+      const userSettingsContent = {
+        permissions: {
+          rules: [{ decision: 'allow', tool: '*' }],
+          persistAlwaysAllow: true,
+        },
+      };
+      const workspaceSettingsContent = {
+        permissions: { rules: [{ decision: 'ask', mcpServer: 'github' }] },
+      };
+
+      (fs.readFileSync as Mock).mockImplementation(
+        (p: fs.PathOrFileDescriptor) => {
+          if (p === SYSTEM_SETTINGS_PATH)
+            return JSON.stringify(systemSettingsContent);
+          if (p === USER_SETTINGS_PATH)
+            return JSON.stringify(userSettingsContent);
+          if (p === MOCK_WORKSPACE_SETTINGS_PATH)
+            return JSON.stringify(workspaceSettingsContent);
+          return '';
+        },
+      );
+
+      const settings = loadSettings(MOCK_WORKSPACE_DIR);
+
+      expect(settings.merged.permissions).toEqual({
+        rules: [
+          { decision: 'deny', command: 'rm' },
+          { decision: 'ask', mcpServer: 'github' },
+          { decision: 'allow', tool: '*' },
+        ],
+        persistAlwaysAllow: true,
+      });
+    });
+
     it('should handle contextFileName correctly when only in user settings', () => {
       (mockFsExistsSync as Mock).mockImplementation(
         (p: fs.PathLike) => p === USER_SETTINGS_PATH,
@@ -15,6 +15,15 @@ import {
   BugCommandSettings,
   TelemetrySettings,
   AuthType,
+  OpenAICompatibleSettings,
+  ModelCapabilities,
+  ModelRoutingSettings,
+  ChatCompressionSettings,
+  PermissionSettings,
+  ToolLimits,
+  LanguageServerConfig,
+  VerificationCommands,
+  RepoMapSettings,
 } from '@google/gemini-cli-core';
 import stripJsonComments from 'strip-json-comments';
 import { DefaultLight } from '../ui/themes/default-light.js';
@@ -69,6 +78,16 @@ export interface Settings {
   bugCommand?: BugCommandSettings;
   checkpointing?: CheckpointingSettings;
   autoConfigureMaxOldSpaceSize?: boolean;
+  openAICompatible?: OpenAICompatibleSettings;
+  models?: Record<string, ModelCapabilities>;
+  modelRouting?: ModelRoutingSettings;
+  chatCompression?: ChatCompressionSettings;
+  permissions?: PermissionSettings;
+  maxConcurrentToolCalls?: number;
+  toolLimits?: Record<string, ToolLimits>;
+  languageServers?: Record<string, LanguageServerConfig>;
+  verificationCommands?: VerificationCommands;
+  repoMap?: RepoMapSettings;
 
   // Git-aware file filtering settings
   fileFiltering?: {
@@ -118,11 +137,25 @@ export class LoadedSettings {
   }
 
   private computeMergedSettings(): Settings {
-    return {
+    const merged: Settings = {
       ...this.user.settings,
       ...this.workspace.settings,
       ...this.system.settings,
     };
+    const scopes = [this.system, this.workspace, this.user];
+    if (scopes.some((scope) => scope.settings.permissions)) {
+      // Rules are combined rather than overridden, with the rules of the
+      // system settings taking precedence over workspace and user rules.
+      merged.permissions = {
+        ...this.user.settings.permissions,
+        ...this.workspace.settings.permissions,
+        ...this.system.settings.permissions,
+        rules: scopes.flatMap(
+          (scope) => scope.settings.permissions?.rules ?? [],
+        ),
+      };
+    }
+    return merged;
   }
 
   forScope(scope: SettingScope): SettingsFile {
@@ -141,10 +174,14 @@ export class LoadedSettings {
   setValue(
     scope: SettingScope,
     key: keyof Settings,
-    value: string | Record<string, MCPServerConfig> | undefined,
+    value:
+      | string
+      | Record<string, MCPServerConfig>
+      | PermissionSettings
+      | undefined,
   ): void {
     const settingsFile = this.forScope(scope);
-    // @ts-expect-error - value can be string | Record<string, MCPServerConfig>
+    // @ts-expect-error - value can be string | Record<string, MCPServerConfig> | PermissionSettings
     settingsFile.settings[key] = value;
     this._merged = this.computeMergedSettings();
     saveSettings(settingsFile);
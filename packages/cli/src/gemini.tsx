@@ -24,18 +24,17 @@ import { themeManager } from './ui/themes/theme-manager.js';
 import { getStartupWarnings } from './utils/startupWarnings.js';
 import { getUserStartupWarnings } from './utils/userStartupWarnings.js';
 import { runNonInteractive } from './nonInteractiveCli.js';
-import { loadExtensions, Extension } from './config/extension.js';
-import { cleanupCheckpoints } from './utils/cleanup.js';
+import { ExitCode, createOutputWriter } from './nonInteractiveOutput.js';
+import { loadExtensions } from './config/extension.js';
+import { cleanupCheckpoints, registerProcessCleanup } from './utils/cleanup.js';
 import {
-  ApprovalMode,
   Config,
-  EditTool,
-  ShellTool,
-  WriteFileTool,
   sessionId,
   logUserPrompt,
   AuthType,
+  CassetteMode,
   getOauthClient,
+  getErrorMessage,
 } from '@google/gemini-cli-core';
 import { validateAuthMethod } from './config/auth.js';
 import { setMaxSizedBoxDebugging } from './ui/components/shared/MaxSizedBox.js';
@@ -125,7 +124,13 @@ export async function main() {
 
   setMaxSizedBoxDebugging(config.getDebugMode());
 
-  await config.initialize();
+  try {
+    await config.initialize();
+  } catch (error) {
+    console.error(getErrorMessage(error));
+    process.exit(1);
+  }
+  registerProcessCleanup(config);
 
   if (settings.merged.theme) {
     if (!themeManager.setActiveTheme(settings.merged.theme)) {
@@ -145,7 +150,10 @@ export async function main() {
       if (settings.merged.selectedAuthType) {
         // Validate authentication here because the sandbox will interfere with the Oauth2 web redirect.
         try {
-          const err = validateAuthMethod(settings.merged.selectedAuthType);
+          const err = validateAuthMethod(
+            settings.merged.selectedAuthType,
+            settings.merged.openAICompatible,
+          );
           if (err) {
             throw new Error(err);
           }
@@ -202,8 +210,11 @@ export async function main() {
     input += await readStdin();
   }
   if (!input) {
-    console.error('No input provided via stdin.');
-    process.exit(1);
+    createOutputWriter(config.getOutputFormat()).finish(
+      ExitCode.INPUT_ERROR,
+      'No input provided via stdin.',
+    );
+    process.exit(ExitCode.INPUT_ERROR);
   }
 
   const prompt_id = Math.random().toString(16).slice(2);
@@ -216,14 +227,13 @@ export async function main() {
   });
 
   // Non-interactive mode handled by runNonInteractive
-  const nonInteractiveConfig = await loadNonInteractiveConfig(
+  // Tool calls are approved by the headless approval policy (--approve).
+  const nonInteractiveConfig = await validateNonInterActiveAuth(
+    settings.merged.selectedAuthType,
     config,
-    extensions,
-    settings,
   );
 
-  await runNonInteractive(nonInteractiveConfig, input, prompt_id);
-  process.exit(0);
+  process.exit(await runNonInteractive(nonInteractiveConfig, input, prompt_id));
 }
 
 function setWindowTitle(title: string, settings: LoadedSettings) {
@@ -256,43 +266,6 @@ process.on('unhandledRejection', (reason, _promise) => {
   process.exit(1);
 });
 
-async function loadNonInteractiveConfig(
-  config: Config,
-  extensions: Extension[],
-  settings: LoadedSettings,
-) {
-  let finalConfig = config;
-  if (config.getApprovalMode() !== ApprovalMode.YOLO) {
-    // Everything is not allowed, ensure that only read-only tools are configured.
-    const existingExcludeTools = settings.merged.excludeTools || [];
-    const interactiveTools = [
-      ShellTool.Name,
-      EditTool.Name,
-      WriteFileTool.Name,
-    ];
-
-    const newExcludeTools = [
-      ...new Set([...existingExcludeTools, ...interactiveTools]),
-    ];
-
-    const nonInteractiveSettings = {
-      ...settings.merged,
-      excludeTools: newExcludeTools,
-    };
-    finalConfig = await loadCliConfig(
-      nonInteractiveSettings,
-      extensions,
-      config.getSessionId(),
-    );
-    await finalConfig.initialize();
-  }
-
-  return await validateNonInterActiveAuth(
-    settings.merged.selectedAuthType,
-    finalConfig,
-  );
-}
-
 async function validateNonInterActiveAuth(
   selectedAuthType: AuthType | undefined,
   nonInteractiveConfig: Config,
@@ -300,18 +273,30 @@ async function validateNonInterActiveAuth(
   // making a special case for the cli. many headless environments might not have a settings.json set
   // so if GEMINI_API_KEY is set, we'll use that. However since the oauth things are interactive anyway, we'll
   // still expect that exists
+  const output = createOutputWriter(nonInteractiveConfig.getOutputFormat());
+  // Replayed responses come from the cassette, so no credentials are needed.
+  if (nonInteractiveConfig.getCassette()?.mode === CassetteMode.REPLAY) {
+    await nonInteractiveConfig.refreshAuth(
+      selectedAuthType || AuthType.USE_GEMINI,
+    );
+    return nonInteractiveConfig;
+  }
   if (!selectedAuthType && !process.env.GEMINI_API_KEY) {
-    console.error(
+    output.finish(
+      ExitCode.AUTH_ERROR,
       `Please set an Auth method in your ${USER_SETTINGS_PATH} OR specify GEMINI_API_KEY env variable file before running`,
     );
-    process.exit(1);
+    process.exit(ExitCode.AUTH_ERROR);
   }
 
   selectedAuthType = selectedAuthType || AuthType.USE_GEMINI;
-  const err = validateAuthMethod(selectedAuthType);
+  const err = validateAuthMethod(
+    selectedAuthType,
+    nonInteractiveConfig.getOpenAICompatibleSettings(),
+  );
   if (err != null) {
-    console.error(err);
-    process.exit(1);
+    output.finish(ExitCode.AUTH_ERROR, err);
+    process.exit(ExitCode.AUTH_ERROR);
   }
 
   await nonInteractiveConfig.refreshAuth(selectedAuthType);
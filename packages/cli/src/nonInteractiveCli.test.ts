@@ -7,8 +7,14 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { runNonInteractive } from './nonInteractiveCli.js';
-import { Config, GeminiClient, ToolRegistry } from '@google/gemini-cli-core';
+import {
+  Config,
+  GeminiClient,
+  OutputFormat,
+  ToolRegistry,
+} from '@google/gemini-cli-core';
 import { GenerateContentResponse, Part, FunctionCall } from '@google/genai';
+import { ExitCode } from './nonInteractiveOutput.js';
 
 // Mock dependencies
 vi.mock('@google/gemini-cli-core', async () => {
@@ -53,6 +59,7 @@ describe('runNonInteractive', () => {
       getToolRegistry: vi.fn().mockReturnValue(mockToolRegistry),
       getGeminiClient: vi.fn().mockReturnValue(mockGeminiClient),
       getContentGeneratorConfig: vi.fn().mockReturnValue({}),
+      getOutputFormat: vi.fn().mockReturnValue(OutputFormat.TEXT),
       initialize: vi.fn(),
     } as unknown as Config;
 
@@ -81,8 +88,13 @@ describe('runNonInteractive', () => {
     })();
     mockChat.sendMessageStream.mockResolvedValue(inputStream);
 
-    await runNonInteractive(mockConfig, 'Test input', 'prompt-id-1');
+    const exitCode = await runNonInteractive(
+      mockConfig,
+      'Test input',
+      'prompt-id-1',
+    );
 
+    expect(exitCode).toBe(ExitCode.SUCCESS);
     expect(mockChat.sendMessageStream).toHaveBeenCalledWith(
       {
         message: [{ text: 'Test input' }],
@@ -152,7 +164,7 @@ describe('runNonInteractive', () => {
     expect(mockProcessStdoutWrite).toHaveBeenCalledWith('Final answer');
   });
 
-  it('should handle error during tool execution', async () => {
+  it('should stop with a tool error exit code when a tool fails', async () => {
     const functionCall: FunctionCall = {
       id: 'fcError',
       name: 'errorTool',
@@ -180,46 +192,41 @@ describe('runNonInteractive', () => {
       yield { functionCalls: [functionCall] } as GenerateContentResponse;
     })();
 
-    const stream2 = (async function* () {
-      yield {
-        candidates: [
-          { content: { parts: [{ text: 'Could not complete request.' }] } },
-        ],
-      } as GenerateContentResponse;
-    })();
-    mockChat.sendMessageStream
-      .mockResolvedValueOnce(stream1)
-      .mockResolvedValueOnce(stream2);
+    mockChat.sendMessageStream.mockResolvedValueOnce(stream1);
     const consoleErrorSpy = vi
       .spyOn(console, 'error')
       .mockImplementation(() => {});
 
-    await runNonInteractive(mockConfig, 'Trigger tool error', 'prompt-id-3');
+    const exitCode = await runNonInteractive(
+      mockConfig,
+      'Trigger tool error',
+      'prompt-id-3',
+    );
 
+    expect(exitCode).toBe(ExitCode.TOOL_ERROR);
     expect(mockCoreExecuteToolCall).toHaveBeenCalled();
+    expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
     expect(consoleErrorSpy).toHaveBeenCalledWith(
       'Error executing tool errorTool: Tool execution failed badly',
     );
-    expect(mockChat.sendMessageStream).toHaveBeenLastCalledWith(
-      expect.objectContaining({
-        message: [errorResponsePart],
-      }),
-      expect.any(String),
-    );
-    expect(mockProcessStdoutWrite).toHaveBeenCalledWith(
-      'Could not complete request.',
-    );
+    expect(mockChat.sendMessageStream).toHaveBeenCalledTimes(1);
+    expect(mockProcessExit).not.toHaveBeenCalled();
   });
 
-  it('should exit with error if sendMessageStream throws initially', async () => {
+  it('should return an API error exit code if sendMessageStream throws initially', async () => {
     const apiError = new Error('API connection failed');
     mockChat.sendMessageStream.mockRejectedValue(apiError);
     const consoleErrorSpy = vi
       .spyOn(console, 'error')
       .mockImplementation(() => {});
 
-    await runNonInteractive(mockConfig, 'Initial fail', 'prompt-id-4');
+    const exitCode = await runNonInteractive(
+      mockConfig,
+      'Initial fail',
+      'prompt-id-4',
+    );
 
+    expect(exitCode).toBe(ExitCode.API_ERROR);
     expect(consoleErrorSpy).toHaveBeenCalledWith(
       '[API Error: API connection failed]',
     );
@@ -294,4 +301,179 @@ describe('runNonInteractive', () => {
       'Unfortunately the tool does not exist.',
     );
   });
+
+  it('should send refused tool calls back to the model and summarize them at exit', async () => {
+    const refusal =
+      'Not allowed by the approval policy of this non-interactive run (--approve=read-only).';
+    const refusalPart: Part = {
+      functionResponse: {
+        name: 'run_shell_command',
+        id: 'fcRefused',
+        response: {
+          error: `Tool call refused: ${refusal}`,
+          refused: true,
+          reason: refusal,
+        },
+      },
+    };
+    const { executeToolCall: mockCoreExecuteToolCall } = await import(
+      '@google/gemini-cli-core'
+    );
+    vi.mocked(mockCoreExecuteToolCall).mockResolvedValue({
+      callId: 'fcRefused',
+      responseParts: [refusalPart],
+      resultDisplay: refusal,
+      error: undefined,
+      refusal,
+    });
+    mockChat.sendMessageStream
+      .mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            functionCalls: [
+              {
+                id: 'fcRefused',
+                name: 'run_shell_command',
+                args: { command: 'rm -rf build' },
+              },
+            ],
+          } as GenerateContentResponse;
+        })(),
+      )
+      .mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            candidates: [
+              { content: { parts: [{ text: 'I cannot run commands.' }] } },
+            ],
+          } as GenerateContentResponse;
+        })(),
+      );
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+
+    const exitCode = await runNonInteractive(
+      mockConfig,
+      'Clean the build',
+      'prompt-id-9',
+    );
+
+    expect(exitCode).toBe(ExitCode.SUCCESS);
+    expect(mockChat.sendMessageStream).toHaveBeenLastCalledWith(
+      expect.objectContaining({ message: [refusalPart] }),
+      expect.any(String),
+    );
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      `1 tool call(s) were refused:\n  - run_shell_command: ${refusal}`,
+    );
+  });
+
+  describe('structured output formats', () => {
+    const writtenOutput = () =>
+      mockProcessStdoutWrite.mock.calls.map(([chunk]) => chunk).join('');
+
+    beforeEach(async () => {
+      const { executeToolCall: mockCoreExecuteToolCall } = await import(
+        '@google/gemini-cli-core'
+      );
+      vi.mocked(mockCoreExecuteToolCall).mockResolvedValue({
+        callId: 'fc1',
+        responseParts: [{ text: 'file contents' }],
+        resultDisplay: 'Read 1 file',
+        error: undefined,
+      });
+      mockChat.sendMessageStream
+        .mockResolvedValueOnce(
+          (async function* () {
+            yield {
+              functionCalls: [
+                { id: 'fc1', name: 'read_file', args: { path: 'a.ts' } },
+              ],
+            } as GenerateContentResponse;
+          })(),
+        )
+        .mockResolvedValueOnce(
+          (async function* () {
+            yield {
+              candidates: [{ content: { parts: [{ text: 'Done' }] } }],
+            } as GenerateContentResponse;
+          })(),
+        );
+    });
+
+    it('should write a single JSON document', async () => {
+      vi.mocked(mockConfig.getOutputFormat).mockReturnValue(OutputFormat.JSON);
+
+      await runNonInteractive(mockConfig, 'Read a.ts', 'prompt-id-6');
+
+      expect(JSON.parse(writtenOutput())).toEqual({
+        response: 'Done',
+        toolCalls: [
+          {
+            callId: 'fc1',
+            name: 'read_file',
+            args: { path: 'a.ts' },
+            result: 'Read 1 file',
+            durationMs: expect.any(Number),
+          },
+        ],
+        usage: expect.any(Object),
+        refusedToolCalls: [],
+        exitCode: ExitCode.SUCCESS,
+      });
+    });
+
+    it('should write one JSON event per line', async () => {
+      vi.mocked(mockConfig.getOutputFormat).mockReturnValue(
+        OutputFormat.STREAM_JSON,
+      );
+
+      await runNonInteractive(mockConfig, 'Read a.ts', 'prompt-id-7');
+
+      const events = writtenOutput()
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      expect(events.map((event) => event.type)).toEqual([
+        'tool_call_request',
+        'tool_call_response',
+        'content',
+        'result',
+      ]);
+      expect(events[0].value).toEqual(
+        expect.objectContaining({ callId: 'fc1', name: 'read_file' }),
+      );
+      expect(events[2].value).toBe('Done');
+      expect(events[3].value).toEqual({
+        usage: expect.any(Object),
+        refusedToolCalls: [],
+        exitCode: ExitCode.SUCCESS,
+      });
+    });
+
+    it('should report errors in the JSON document', async () => {
+      vi.mocked(mockConfig.getOutputFormat).mockReturnValue(OutputFormat.JSON);
+      mockChat.sendMessageStream.mockReset();
+      mockChat.sendMessageStream.mockRejectedValue(new Error('Quota exceeded'));
+
+      const exitCode = await runNonInteractive(
+        mockConfig,
+        'Read a.ts',
+        'prompt-id-8',
+      );
+
+      expect(exitCode).toBe(ExitCode.API_ERROR);
+      expect(JSON.parse(writtenOutput())).toEqual(
+        expect.objectContaining({
+          response: '',
+          error: {
+            code: 'API_ERROR',
+            message: '[API Error: Quota exceeded]',
+          },
+          exitCode: ExitCode.API_ERROR,
+        }),
+      );
+    });
+  });
 });
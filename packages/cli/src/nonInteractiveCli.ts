@@ -11,6 +11,11 @@ import {
   ToolRegistry,
   shutdownTelemetry,
   isTelemetrySdkInitialized,
+  UnauthorizedError,
+  getErrorMessage,
+  getToolEffects,
+  appendVerificationToResponse,
+  ToolCallResponseInfo,
 } from '@google/gemini-cli-core';
 import {
   Content,
@@ -20,6 +25,7 @@ import {
 } from '@google/genai';
 
 import { parseAndFormatApiError } from './ui/utils/errorParsing.js';
+import { ExitCode, createOutputWriter } from './nonInteractiveOutput.js';
 
 function getResponseText(response: GenerateContentResponse): string | null {
   if (response.candidates && response.candidates.length > 0) {
@@ -43,11 +49,17 @@ function getResponseText(response: GenerateContentResponse): string | null {
   return null;
 }
 
+/**
+ * Runs a single prompt to completion, including any tool calls, and reports
+ * the result in the configured output format.
+ *
+ * @returns The exit code for the process.
+ */
 export async function runNonInteractive(
   config: Config,
   input: string,
   prompt_id: string,
-): Promise<void> {
+): Promise<ExitCode> {
   await config.initialize();
   // Handle EPIPE errors when the output is piped to a command that closes early.
   process.stdout.on('error', (err: NodeJS.ErrnoException) => {
@@ -57,6 +69,7 @@ export async function runNonInteractive(
     }
   });
 
+  const output = createOutputWriter(config.getOutputFormat());
   const geminiClient = config.getGeminiClient();
   const toolRegistry: ToolRegistry = await config.getToolRegistry();
 
@@ -68,35 +81,54 @@ export async function runNonInteractive(
     while (true) {
       const functionCalls: FunctionCall[] = [];
 
-      const responseStream = await chat.sendMessageStream(
-        {
-          message: currentMessages[0]?.parts || [], // Ensure parts are always provided
-          config: {
-            abortSignal: abortController.signal,
-            tools: [
-              { functionDeclarations: toolRegistry.getFunctionDeclarations() },
-            ],
+      try {
+        const responseStream = await chat.sendMessageStream(
+          {
+            message: currentMessages[0]?.parts || [], // Ensure parts are always provided
+            config: {
+              abortSignal: abortController.signal,
+              tools: [
+                {
+                  functionDeclarations: toolRegistry.getFunctionDeclarations(),
+                },
+              ],
+            },
           },
-        },
-        prompt_id,
-      );
-
-      for await (const resp of responseStream) {
-        if (abortController.signal.aborted) {
-          console.error('Operation cancelled.');
-          return;
-        }
-        const textPart = getResponseText(resp);
-        if (textPart) {
-          process.stdout.write(textPart);
-        }
-        if (resp.functionCalls) {
-          functionCalls.push(...resp.functionCalls);
+          prompt_id,
+        );
+
+        for await (const resp of responseStream) {
+          if (abortController.signal.aborted) {
+            output.finish(ExitCode.ERROR, 'Operation cancelled.');
+            return ExitCode.ERROR;
+          }
+          const textPart = getResponseText(resp);
+          if (textPart) {
+            output.content(textPart);
+          }
+          if (resp.functionCalls) {
+            functionCalls.push(...resp.functionCalls);
+          }
         }
+      } catch (error) {
+        const exitCode =
+          error instanceof UnauthorizedError
+            ? ExitCode.AUTH_ERROR
+            : ExitCode.API_ERROR;
+        output.finish(
+          exitCode,
+          parseAndFormatApiError(
+            error,
+            config.getContentGeneratorConfig().authType,
+          ),
+        );
+        return exitCode;
       }
 
       if (functionCalls.length > 0) {
-        const toolResponseParts: Part[] = [];
+        const toolResponses: ToolCallResponseInfo[] = [];
+        const changedPaths = new Set<string>();
+        let lastChangingResponse = -1;
 
         for (const fc of functionCalls) {
           const callId = fc.id ?? `${fc.name}-${Date.now()}`;
@@ -108,25 +140,64 @@ export async function runNonInteractive(
             prompt_id,
           };
 
+          output.toolCallRequest(requestInfo);
+          const startTime = Date.now();
           const toolResponse = await executeToolCall(
             config,
             requestInfo,
             toolRegistry,
             abortController.signal,
           );
+          output.toolCallResponse({
+            callId,
+            name: requestInfo.name,
+            args: requestInfo.args,
+            result: toolResponse.resultDisplay,
+            error: toolResponse.error?.message,
+            refusal: toolResponse.refusal,
+            durationMs: Date.now() - startTime,
+          });
 
           if (toolResponse.error) {
             const isToolNotFound = toolResponse.error.message.includes(
               'not found in registry',
             );
-            console.error(
-              `Error executing tool ${fc.name}: ${toolResponse.resultDisplay || toolResponse.error.message}`,
-            );
             if (!isToolNotFound) {
-              process.exit(1);
+              output.finish(
+                ExitCode.TOOL_ERROR,
+                `Error executing tool ${fc.name}: ${toolResponse.error.message}`,
+              );
+              return ExitCode.TOOL_ERROR;
             }
           }
 
+          const tool = toolRegistry.getTool(requestInfo.name);
+          const writes =
+            tool && !toolResponse.error && !toolResponse.refusal
+              ? getToolEffects(tool, requestInfo.args).writes
+              : undefined;
+          if (writes?.length) {
+            writes.forEach((writtenPath) => changedPaths.add(writtenPath));
+            lastChangingResponse = toolResponses.length;
+          }
+          toolResponses.push(toolResponse);
+        }
+
+        // Check the changed files before the model sees the results.
+        if (lastChangingResponse !== -1) {
+          const verification = await config
+            .getVerificationService()
+            .verifyChanges([...changedPaths], abortController.signal);
+          if (verification) {
+            toolResponses[lastChangingResponse] = appendVerificationToResponse(
+              toolResponses[lastChangingResponse],
+              verification,
+            );
+          }
+        }
+
+        const toolResponseParts: Part[] = [];
+        for (const toolResponse of toolResponses) {
           if (toolResponse.responseParts) {
             const parts = Array.isArray(toolResponse.responseParts)
               ? toolResponse.responseParts
@@ -142,18 +213,13 @@ export async function runNonInteractive(
         }
         currentMessages = [{ role: 'user', parts: toolResponseParts }];
       } else {
-        process.stdout.write('\n'); // Ensure a final newline
-        return;
+        output.finish(ExitCode.SUCCESS);
+        return ExitCode.SUCCESS;
       }
     }
   } catch (error) {
-    console.error(
-      parseAndFormatApiError(
-        error,
-        config.getContentGeneratorConfig().authType,
-      ),
-    );
-    process.exit(1);
+    output.finish(ExitCode.ERROR, getErrorMessage(error));
+    return ExitCode.ERROR;
   } finally {
     if (isTelemetrySdkInitialized()) {
       await shutdownTelemetry();
@@ -0,0 +1,203 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  GeminiEventType,
+  ModelMetrics,
+  OutputFormat,
+  ToolCallRequestInfo,
+  ToolResultDisplay,
+  uiTelemetryService,
+} from '@google/gemini-cli-core';
+
+/**
+ * Exit codes of non-interactive runs. Scripts rely on them, so existing
+ * values must never change.
+ */
+export enum ExitCode {
+  SUCCESS = 0,
+  /** An unexpected error. */
+  ERROR = 1,
+  /** No prompt was given, neither with --prompt nor on stdin. */
+  INPUT_ERROR = 2,
+  /** Authentication is not configured or was rejected. */
+  AUTH_ERROR = 3,
+  /** The model API failed, e.g. because of quota or network errors. */
+  API_ERROR = 4,
+  /** A tool call failed, which ends non-interactive runs. */
+  TOOL_ERROR = 5,
+}
+
+export interface ToolCallRecord {
+  callId: string;
+  name: string;
+  args: Record<string, unknown>;
+  result?: ToolResultDisplay;
+  error?: string;
+  /** Why the call was refused by the approval policy, if it was. */
+  refusal?: string;
+  durationMs: number;
+}
+
+export interface RefusedToolCall {
+  name: string;
+  reason: string;
+}
+
+/** The document written by `--output-format json`. */
+export interface NonInteractiveResult {
+  response: string;
+  toolCalls: ToolCallRecord[];
+  /** Token usage per model. */
+  usage: Record<string, ModelMetrics['tokens']>;
+  /** Tool calls that were returned to the model without running. */
+  refusedToolCalls: RefusedToolCall[];
+  error?: { code: string; message: string };
+  exitCode: ExitCode;
+}
+
+/**
+ * Receives the progress of a non-interactive run and writes it to stdout in
+ * one of the output formats.
+ */
+export interface OutputWriter {
+  content(text: string): void;
+  toolCallRequest(request: ToolCallRequestInfo): void;
+  toolCallResponse(call: ToolCallRecord): void;
+  /** Ends the run. `errorMessage` describes why, unless it succeeded. */
+  finish(exitCode: ExitCode, errorMessage?: string): void;
+}
+
+const getTokenUsage = (): NonInteractiveResult['usage'] =>
+  Object.fromEntries(
+    Object.entries(uiTelemetryService.getMetrics().models).map(
+      ([model, metrics]) => [model, metrics.tokens],
+    ),
+  );
+
+const toRefusedToolCall = (
+  call: ToolCallRecord,
+): RefusedToolCall | undefined =>
+  call.refusal === undefined
+    ? undefined
+    : { name: call.name, reason: call.refusal };
+
+const toError = (exitCode: ExitCode, errorMessage?: string) =>
+  errorMessage === undefined
+    ? undefined
+    : { code: ExitCode[exitCode], message: errorMessage };
+
+function createTextWriter(): OutputWriter {
+  const refusedToolCalls: RefusedToolCall[] = [];
+  return {
+    content: (text) => {
+      process.stdout.write(text);
+    },
+    toolCallRequest: () => {},
+    toolCallResponse: (call) => {
+      const refused = toRefusedToolCall(call);
+      if (refused) {
+        refusedToolCalls.push(refused);
+      }
+      if (call.error !== undefined) {
+        const details =
+          typeof call.result === 'string' && call.result
+            ? call.result
+            : call.error;
+        console.error(`Error executing tool ${call.name}: ${details}`);
+      }
+    },
+    finish: (exitCode, errorMessage) => {
+      if (exitCode === ExitCode.SUCCESS) {
+        process.stdout.write('\n'); // Ensure a final newline
+      } else if (errorMessage && exitCode !== ExitCode.TOOL_ERROR) {
+        // Tool errors were already reported with the tool call.
+        console.error(errorMessage);
+      }
+      // Printed to stderr to keep stdout limited to the response.
+      if (refusedToolCalls.length > 0) {
+        console.error(
+          `${refusedToolCalls.length} tool call(s) were refused:\n` +
+            refusedToolCalls
+              .map(({ name, reason }) => `  - ${name}: ${reason}`)
+              .join('\n'),
+        );
+      }
+    },
+  };
+}
+
+function createJsonWriter(): OutputWriter {
+  let response = '';
+  const toolCalls: ToolCallRecord[] = [];
+  return {
+    content: (text) => {
+      response += text;
+    },
+    toolCallRequest: () => {},
+    toolCallResponse: (call) => {
+      toolCalls.push(call);
+    },
+    finish: (exitCode, errorMessage) => {
+      const result: NonInteractiveResult = {
+        response,
+        toolCalls,
+        usage: getTokenUsage(),
+        refusedToolCalls: toolCalls
+          .map(toRefusedToolCall)
+          .filter((call): call is RefusedToolCall => call !== undefined),
+        error: toError(exitCode, errorMessage),
+        exitCode,
+      };
+      process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+    },
+  };
+}
+
+/**
+ * Writes newline-delimited events that use the types and values of
+ * `ServerGeminiStreamEvent`, followed by a final `result` event.
+ */
+function createStreamJsonWriter(): OutputWriter {
+  const refusedToolCalls: RefusedToolCall[] = [];
+  const writeEvent = (event: { type: string; value?: unknown }) => {
+    process.stdout.write(JSON.stringify(event) + '\n');
+  };
+  return {
+    content: (text) =>
+      writeEvent({ type: GeminiEventType.Content, value: text }),
+    toolCallRequest: (request) =>
+      writeEvent({ type: GeminiEventType.ToolCallRequest, value: request }),
+    toolCallResponse: (call) => {
+      const refused = toRefusedToolCall(call);
+      if (refused) {
+        refusedToolCalls.push(refused);
+      }
+      writeEvent({ type: GeminiEventType.ToolCallResponse, value: call });
+    },
+    finish: (exitCode, errorMessage) => {
+      const error = toError(exitCode, errorMessage);
+      if (error) {
+        writeEvent({ type: GeminiEventType.Error, value: { error } });
+      }
+      writeEvent({
+        type: 'result',
+        value: { usage: getTokenUsage(), refusedToolCalls, exitCode },
+      });
+    },
+  };
+}
+
+export function createOutputWriter(format: OutputFormat): OutputWriter {
+  switch (format) {
+    case OutputFormat.JSON:
+      return createJsonWriter();
+    case OutputFormat.STREAM_JSON:
+      return createStreamJsonWriter();
+    default:
+      return createTextWriter();
+  }
+}
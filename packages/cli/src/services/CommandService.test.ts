@@ -9,7 +9,12 @@ import { CommandService } from './CommandService.js';
 import { type SlashCommand } from '../ui/commands/types.js';
 import { memoryCommand } from '../ui/commands/memoryCommand.js';
 import { helpCommand } from '../ui/commands/helpCommand.js';
+import { ignoreCommand } from '../ui/commands/ignoreCommand.js';
+import { indexCommand } from '../ui/commands/indexCommand.js';
+import { jobsCommand } from '../ui/commands/jobsCommand.js';
 import { clearCommand } from '../ui/commands/clearCommand.js';
+import { modelCommand } from '../ui/commands/modelCommand.js';
+import { permissionsCommand } from '../ui/commands/permissionsCommand.js';
 
 // Mock the command modules to isolate the service from the command implementations.
 vi.mock('../ui/commands/memoryCommand.js', () => ({
@@ -18,9 +23,24 @@ vi.mock('../ui/commands/memoryCommand.js', () => ({
 vi.mock('../ui/commands/helpCommand.js', () => ({
   helpCommand: { name: 'help', description: 'Mock Help' },
 }));
+vi.mock('../ui/commands/ignoreCommand.js', () => ({
+  ignoreCommand: { name: 'ignore', description: 'Mock Ignore' },
+}));
+vi.mock('../ui/commands/indexCommand.js', () => ({
+  indexCommand: { name: 'index', description: 'Mock Index' },
+}));
+vi.mock('../ui/commands/jobsCommand.js', () => ({
+  jobsCommand: { name: 'jobs', description: 'Mock Jobs' },
+}));
 vi.mock('../ui/commands/clearCommand.js', () => ({
   clearCommand: { name: 'clear', description: 'Mock Clear' },
 }));
+vi.mock('../ui/commands/modelCommand.js', () => ({
+  modelCommand: { name: 'model', description: 'Mock Model' },
+}));
+vi.mock('../ui/commands/permissionsCommand.js', () => ({
+  permissionsCommand: { name: 'permissions', description: 'Mock Permissions' },
+}));
 
 describe('CommandService', () => {
   describe('when using default production loader', () => {
@@ -46,25 +66,30 @@ describe('CommandService', () => {
         const tree = commandService.getCommands();
 
         // Post-condition assertions
-        expect(tree.length).toBe(3);
+        expect(tree.length).toBe(8);
 
         const commandNames = tree.map((cmd) => cmd.name);
         expect(commandNames).toContain('memory');
         expect(commandNames).toContain('help');
+        expect(commandNames).toContain('ignore');
+        expect(commandNames).toContain('index');
+        expect(commandNames).toContain('jobs');
         expect(commandNames).toContain('clear');
+        expect(commandNames).toContain('model');
+        expect(commandNames).toContain('permissions');
       });
 
       it('should overwrite any existing commands when called again', async () => {
         // Load once
         await commandService.loadCommands();
-        expect(commandService.getCommands().length).toBe(3);
+        expect(commandService.getCommands().length).toBe(8);
 
         // Load again
         await commandService.loadCommands();
         const tree = commandService.getCommands();
 
         // Should not append, but overwrite
-        expect(tree.length).toBe(3);
+        expect(tree.length).toBe(8);
       });
     });
 
@@ -76,8 +101,17 @@ describe('CommandService', () => {
         await commandService.loadCommands();
 
         const loadedTree = commandService.getCommands();
-        expect(loadedTree.length).toBe(3);
-        expect(loadedTree).toEqual([clearCommand, helpCommand, memoryCommand]);
+        expect(loadedTree.length).toBe(8);
+        expect(loadedTree).toEqual([
+          clearCommand,
+          helpCommand,
+          ignoreCommand,
+          indexCommand,
+          jobsCommand,
+          memoryCommand,
+          modelCommand,
+          permissionsCommand,
+        ]);
       });
     });
   });
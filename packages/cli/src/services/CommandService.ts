@@ -7,12 +7,22 @@
 import { SlashCommand } from '../ui/commands/types.js';
 import { memoryCommand } from '../ui/commands/memoryCommand.js';
 import { helpCommand } from '../ui/commands/helpCommand.js';
+import { ignoreCommand } from '../ui/commands/ignoreCommand.js';
+import { indexCommand } from '../ui/commands/indexCommand.js';
+import { jobsCommand } from '../ui/commands/jobsCommand.js';
 import { clearCommand } from '../ui/commands/clearCommand.js';
+import { modelCommand } from '../ui/commands/modelCommand.js';
+import { permissionsCommand } from '../ui/commands/permissionsCommand.js';
 
 const loadBuiltInCommands = async (): Promise<SlashCommand[]> => [
   clearCommand,
   helpCommand,
+  ignoreCommand,
+  indexCommand,
+  jobsCommand,
   memoryCommand,
+  modelCommand,
+  permissionsCommand,
 ];
 
 export class CommandService {
@@ -14,6 +14,8 @@ import {
   ToolRegistry,
   AccessibilitySettings,
   SandboxConfig,
+  ModelRegistry,
+  SavedSession,
 } from '@google/gemini-cli-core';
 import { LoadedSettings, SettingsFile, Settings } from '../config/settings.js';
 import process from 'node:process';
@@ -67,6 +69,8 @@ interface MockServerConfig {
   getAccessibility: Mock<() => AccessibilitySettings>;
   getProjectRoot: Mock<() => string | undefined>;
   getAllGeminiMdFilenames: Mock<() => string[]>;
+  getModelRegistry: Mock<() => ModelRegistry>;
+  getResumedSession: Mock<() => SavedSession | undefined>;
 }
 
 // Mock @google/gemini-cli-core and its Config class
@@ -77,6 +81,7 @@ vi.mock('@google/gemini-cli-core', async (importOriginal) => {
     .fn()
     .mockImplementation((optionsPassedToConstructor) => {
       const opts = { ...optionsPassedToConstructor }; // Clone
+      const jobManager = new actualCore.JobManager();
       // Basic mock structure, will be extended by the instance in tests
       return {
         apiKey: opts.apiKey || 'test-key',
@@ -129,6 +134,14 @@ vi.mock('@google/gemini-cli-core', async (importOriginal) => {
         getAllGeminiMdFilenames: vi.fn(() => ['GEMINI.md']),
         setFlashFallbackHandler: vi.fn(),
         getSessionId: vi.fn(() => 'test-session-id'),
+        getModelRegistry: vi.fn(
+          () => new actualCore.ModelRegistry(opts.models),
+        ),
+        getResumedSession: vi.fn(() => undefined),
+        getPolicyEngine: vi.fn(
+          () => new actualCore.PermissionPolicyEngine(opts.targetDir || '/'),
+        ),
+        getJobManager: vi.fn(() => jobManager),
       };
     });
   return {
@@ -158,6 +171,10 @@ vi.mock('./hooks/useAuthCommand', () => ({
   })),
 }));
 
+vi.mock('./hooks/useFileWatcher', () => ({
+  useFileWatcher: vi.fn(),
+}));
+
 vi.mock('./hooks/useLogger', () => ({
   useLogger: vi.fn(() => ({
     getPreviousUserMessages: vi.fn().mockResolvedValue([]),
@@ -40,12 +40,15 @@ import { Colors } from './colors.js';
 import { Help } from './components/Help.js';
 import { loadHierarchicalGeminiMemory } from '../config/config.js';
 import { LoadedSettings } from '../config/settings.js';
+import { persistAlwaysAllowRules } from '../config/permissions.js';
 import { Tips } from './components/Tips.js';
 import { useConsolePatcher } from './components/ConsolePatcher.js';
 import { DetailedMessagesDisplay } from './components/DetailedMessagesDisplay.js';
 import { HistoryItemDisplay } from './components/HistoryItemDisplay.js';
 import { ContextSummaryDisplay } from './components/ContextSummaryDisplay.js';
 import { useHistory } from './hooks/useHistoryManager.js';
+import { useSessionAutoSave } from './hooks/useSessionAutoSave.js';
+import { useFileWatcher } from './hooks/useFileWatcher.js';
 import process from 'node:process';
 import {
   getErrorMessage,
@@ -63,6 +66,7 @@ import {
   useSessionStats,
 } from './contexts/SessionContext.js';
 import { useGitBranchName } from './hooks/useGitBranchName.js';
+import { useRunningJobCount } from './hooks/useRunningJobCount.js';
 import { useBracketedPaste } from './hooks/useBracketedPaste.js';
 import { useTextBuffer } from './components/shared/text-buffer.js';
 import * as fs from 'fs';
@@ -101,6 +105,10 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
     checkForUpdates().then(setUpdateMessage);
   }, []);
 
+  useEffect(() => {
+    persistAlwaysAllowRules(settings, config);
+  }, [settings, config]);
+
   const { history, addItem, clearItems, loadHistory } = useHistory();
   const {
     consoleMessages,
@@ -166,13 +174,21 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
 
   useEffect(() => {
     if (settings.merged.selectedAuthType) {
-      const error = validateAuthMethod(settings.merged.selectedAuthType);
+      const error = validateAuthMethod(
+        settings.merged.selectedAuthType,
+        settings.merged.openAICompatible,
+      );
       if (error) {
         setAuthError(error);
         openAuthDialog();
       }
     }
-  }, [settings.merged.selectedAuthType, openAuthDialog, setAuthError]);
+  }, [
+    settings.merged.selectedAuthType,
+    settings.merged.openAICompatible,
+    openAuthDialog,
+    setAuthError,
+  ]);
 
   const {
     isEditorDialogOpen,
@@ -194,14 +210,16 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
       Date.now(),
     );
     try {
-      const { memoryContent, fileCount } = await loadHierarchicalGeminiMemory(
-        process.cwd(),
-        config.getDebugMode(),
-        config.getFileService(),
-        config.getExtensionContextFilePaths(),
-      );
+      const { memoryContent, fileCount, filePaths } =
+        await loadHierarchicalGeminiMemory(
+          process.cwd(),
+          config.getDebugMode(),
+          config.getFileService(),
+          config.getExtensionContextFilePaths(),
+        );
       config.setUserMemory(memoryContent);
       config.setGeminiMdFileCount(fileCount);
+      config.setGeminiMdFilePaths(filePaths);
       setGeminiMdFileCount(fileCount);
 
       addItem(
@@ -487,6 +505,8 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
     setModelSwitchedFromQuotaError,
   );
   pendingHistoryItems.push(...pendingGeminiHistoryItems);
+  useSessionAutoSave(config, history, loadHistory, streamingState);
+  useFileWatcher(config, settings, addItem, setGeminiMdFileCount);
   const { elapsedTime, currentLoadingPhrase } =
     useLoadingIndicator(streamingState);
   const showAutoAcceptIndicator = useAutoAcceptIndicator({ config });
@@ -598,6 +618,7 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
   }, [consoleMessages, config]);
 
   const branchName = useGitBranchName(config.getTargetDir());
+  const runningJobCount = useRunningJobCount(config.getJobManager());
 
   const contextFileNames = useMemo(() => {
     const fromSettings = settings.merged.contextFileName;
@@ -898,6 +919,9 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
           )}
           <Footer
             model={currentModel}
+            contextWindow={config
+              .getModelRegistry()
+              .getContextWindow(currentModel)}
             targetDir={config.getTargetDir()}
             debugMode={config.getDebugMode()}
             branchName={branchName}
@@ -909,6 +933,7 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
               config.getDebugMode() || config.getShowMemoryUsage()
             }
             promptTokenCount={sessionStats.lastPromptTokenCount}
+            runningJobCount={runningJobCount}
           />
         </Box>
       </Box>
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ignoreCommand } from './ignoreCommand.js';
+import { type CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+describe('ignoreCommand', () => {
+  let mockContext: CommandContext;
+  const mockExplainIgnore = vi.fn();
+  const mockRespectGitIgnore = vi.fn();
+  const checkCommand = ignoreCommand.subCommands!.find(
+    (command) => command.name === 'check',
+  )!;
+
+  beforeEach(() => {
+    mockExplainIgnore.mockReset();
+    mockRespectGitIgnore.mockReset().mockReturnValue(true);
+    mockContext = createMockCommandContext({
+      services: {
+        config: {
+          getTargetDir: () => '/project',
+          getFileService: () => ({ explainIgnore: mockExplainIgnore }),
+          getFileFilteringRespectGitIgnore: mockRespectGitIgnore,
+        },
+      },
+    });
+  });
+
+  it('should show the rule that ignores a path', async () => {
+    mockExplainIgnore.mockReturnValue({
+      gitIgnore: {
+        source: '/project/packages/a/.gitignore',
+        line: 2,
+        pattern: 'dist/',
+        ignored: true,
+      },
+    });
+
+    const result = await checkCommand.action!(
+      mockContext,
+      'packages/a/dist/index.js',
+    );
+
+    expect(mockExplainIgnore).toHaveBeenCalledWith('packages/a/dist/index.js');
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content:
+        'packages/a/dist/index.js is ignored.\n  - .gitignore: ignored by `dist/` (packages/a/.gitignore:2)\n  - .geminiignore: no matching rule',
+    });
+  });
+
+  it('should show negations and git ignore rules that are not applied', async () => {
+    mockRespectGitIgnore.mockReturnValue(false);
+    mockExplainIgnore.mockReturnValue({
+      gitIgnore: {
+        source: '/project/.gitignore',
+        line: 1,
+        pattern: '*.log',
+        ignored: true,
+      },
+      geminiIgnore: {
+        source: '/project/.geminiignore',
+        line: 3,
+        pattern: '!keep.log',
+        ignored: false,
+      },
+    });
+
+    const result = await checkCommand.action!(mockContext, '/project/keep.log');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content:
+        'keep.log is not ignored.\n  - .gitignore: ignored by `*.log` (.gitignore:1) (not applied: fileFiltering.respectGitIgnore is off)\n  - .geminiignore: re-included by `!keep.log` (.geminiignore:3)',
+    });
+  });
+
+  it('should reject paths outside the project', async () => {
+    const result = await checkCommand.action!(mockContext, '../other');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: '../other is not inside the project (/project).',
+    });
+  });
+
+  it('should require a path', async () => {
+    const result = await checkCommand.action!(mockContext, '  ');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'Usage: /ignore check <path>',
+    });
+  });
+});
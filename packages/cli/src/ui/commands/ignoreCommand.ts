@@ -0,0 +1,87 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as path from 'path';
+import { IgnoreRuleMatch, tildeifyPath } from '@google/gemini-cli-core';
+import { SlashCommand, SlashCommandActionReturn } from './types.js';
+
+const CHECK_USAGE = 'Usage: /ignore check <path>';
+
+const errorMessage = (content: string): SlashCommandActionReturn => ({
+  type: 'message',
+  messageType: 'error',
+  content,
+});
+
+/** Describes a rule as `pattern (file:line)`, relative to the project. */
+function formatRule(match: IgnoreRuleMatch, targetDir: string): string {
+  if (!match.source) {
+    return `\`${match.pattern}\` (built-in rule)`;
+  }
+  const relativeSource = path.relative(targetDir, match.source);
+  const source = relativeSource.startsWith('..')
+    ? tildeifyPath(match.source)
+    : relativeSource;
+  return `\`${match.pattern}\` (${source}:${match.line})`;
+}
+
+function formatMatch(
+  match: IgnoreRuleMatch | undefined,
+  targetDir: string,
+): string {
+  if (!match) {
+    return 'no matching rule';
+  }
+  return `${match.ignored ? 'ignored by' : 're-included by'} ${formatRule(match, targetDir)}`;
+}
+
+export const ignoreCommand: SlashCommand = {
+  name: 'ignore',
+  description:
+    'Explain which .gitignore or .geminiignore rule applies to a path. Usage: /ignore check <path>',
+  subCommands: [
+    {
+      name: 'check',
+      description:
+        'Show whether a path is ignored, and the rule and file that decide it.',
+      action: async (context, args): Promise<SlashCommandActionReturn> => {
+        const { config } = context.services;
+        if (!config) {
+          return errorMessage('Config not loaded.');
+        }
+        const filePath = args.trim();
+        if (!filePath) {
+          return errorMessage(CHECK_USAGE);
+        }
+
+        const targetDir = config.getTargetDir();
+        const relativePath = path.relative(
+          targetDir,
+          path.resolve(targetDir, filePath),
+        );
+        if (!relativePath || relativePath.startsWith('..')) {
+          return errorMessage(
+            `${filePath} is not inside the project (${targetDir}).`,
+          );
+        }
+
+        const explanation = config.getFileService().explainIgnore(filePath);
+        const respectGitIgnore = config.getFileFilteringRespectGitIgnore();
+        const ignored =
+          (respectGitIgnore && explanation.gitIgnore?.ignored) ||
+          explanation.geminiIgnore?.ignored;
+
+        let content = `${relativePath} is ${ignored ? '' : 'not '}ignored.\n`;
+        content += `  - .gitignore: ${formatMatch(explanation.gitIgnore, targetDir)}`;
+        if (!respectGitIgnore) {
+          content += ' (not applied: fileFiltering.respectGitIgnore is off)';
+        }
+        content += `\n  - .geminiignore: ${formatMatch(explanation.geminiIgnore, targetDir)}`;
+        return { type: 'message', messageType: 'info', content };
+      },
+    },
+  ],
+};
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { indexCommand } from './indexCommand.js';
+import { type CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { MessageType } from '../types.js';
+
+describe('indexCommand', () => {
+  let mockContext: CommandContext;
+  const mockGetStatus = vi.fn();
+  const mockRebuild = vi.fn();
+
+  const getSubCommand = (name: string) =>
+    indexCommand.subCommands!.find((command) => command.name === name)!;
+
+  beforeEach(() => {
+    mockGetStatus.mockReset();
+    mockRebuild.mockReset();
+    mockContext = createMockCommandContext({
+      services: {
+        config: {
+          getSemanticIndex: () => ({
+            getStatus: mockGetStatus,
+            rebuild: mockRebuild,
+          }),
+        },
+      },
+    });
+  });
+
+  it('should show the status of the index', async () => {
+    mockGetStatus.mockResolvedValue({
+      indexPath: '/tmp/project/semantic-index.json',
+      exists: true,
+      embedderId: 'gemini:gemini-embedding-001',
+      files: 12,
+      chunks: 30,
+    });
+
+    await indexCommand.action!(mockContext, '');
+
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      {
+        type: MessageType.INFO,
+        text: 'Semantic index:\n  - Files: 12\n  - Chunks: 30\n  - Embedding model: gemini:gemini-embedding-001\n  - Location: /tmp/project/semantic-index.json',
+      },
+      expect.any(Number),
+    );
+  });
+
+  it('should report a missing index', async () => {
+    mockGetStatus.mockResolvedValue({ exists: false, files: 0, chunks: 0 });
+
+    const result = await getSubCommand('status').action!(mockContext, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content:
+        'No semantic index was built for this project yet. Build it with /index rebuild, which sends the content of the project files to the Gemini API to be embedded.',
+    });
+  });
+
+  it('should rebuild the index', async () => {
+    mockRebuild.mockResolvedValue({
+      embeddedFiles: 5000,
+      removedFiles: 0,
+      totalFiles: 5000,
+      skippedFiles: 20,
+    });
+
+    const result = await getSubCommand('rebuild').action!(mockContext, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content:
+        'Indexed 5000 file(s). 20 file(s) were skipped because the index is full.',
+    });
+  });
+
+  it('should report errors of the rebuild', async () => {
+    mockRebuild.mockRejectedValue(new Error('quota exceeded'));
+
+    const result = await getSubCommand('rebuild').action!(mockContext, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'Failed to rebuild the semantic index: quota exceeded',
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getErrorMessage } from '@google/gemini-cli-core';
+import { MessageType } from '../types.js';
+import {
+  CommandContext,
+  SlashCommand,
+  SlashCommandActionReturn,
+} from './types.js';
+
+const errorMessage = (content: string): SlashCommandActionReturn => ({
+  type: 'message',
+  messageType: 'error',
+  content,
+});
+
+const showStatus = async (
+  context: CommandContext,
+): Promise<SlashCommandActionReturn | void> => {
+  const { config } = context.services;
+  if (!config) {
+    return errorMessage('Config not loaded.');
+  }
+
+  const status = await config.getSemanticIndex().getStatus();
+  if (!status.exists) {
+    return {
+      type: 'message',
+      messageType: 'info',
+      content:
+        'No semantic index was built for this project yet. Build it with /index rebuild, which sends the content of the project files to the Gemini API to be embedded.',
+    };
+  }
+
+  let message = 'Semantic index:\n';
+  message += `  - Files: ${status.files}\n`;
+  message += `  - Chunks: ${status.chunks}\n`;
+  message += `  - Embedding model: ${status.embedderId}\n`;
+  if (status.updatedAt) {
+    message += `  - Updated: ${new Date(status.updatedAt).toLocaleString()}\n`;
+  }
+  message += `  - Location: ${status.indexPath}`;
+  context.ui.addItem({ type: MessageType.INFO, text: message }, Date.now());
+};
+
+export const indexCommand: SlashCommand = {
+  name: 'index',
+  description:
+    'Show or build the semantic index of the project. Usage: /index [status|rebuild]',
+  action: showStatus,
+  subCommands: [
+    {
+      name: 'status',
+      description: 'Show how many files the semantic index covers.',
+      action: showStatus,
+    },
+    {
+      name: 'rebuild',
+      description:
+        'Build the semantic index, or discard it and build it again, by embedding every file.',
+      action: async (context): Promise<SlashCommandActionReturn> => {
+        const { config } = context.services;
+        if (!config) {
+          return errorMessage('Config not loaded.');
+        }
+
+        context.ui.addItem(
+          { type: MessageType.INFO, text: 'Rebuilding the semantic index...' },
+          Date.now(),
+        );
+        try {
+          const result = await config.getSemanticIndex().rebuild();
+          let content = `Indexed ${result.embeddedFiles} file(s).`;
+          if (result.skippedFiles > 0) {
+            content += ` ${result.skippedFiles} file(s) were skipped because the index is full.`;
+          }
+          return { type: 'message', messageType: 'info', content };
+        } catch (error) {
+          return errorMessage(
+            `Failed to rebuild the semantic index: ${getErrorMessage(error)}`,
+          );
+        }
+      },
+    },
+  ],
+};
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { JobInfo } from '@google/gemini-cli-core';
+import { jobsCommand } from './jobsCommand.js';
+import { type CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { MessageType } from '../types.js';
+
+const createJob = (job: Partial<JobInfo>): JobInfo => ({
+  name: 'dev',
+  command: 'npm run dev',
+  directory: '/project',
+  pid: 1234,
+  status: 'running',
+  exitCode: null,
+  signal: null,
+  startedAt: new Date(),
+  outputLength: 0,
+  ...job,
+});
+
+describe('jobsCommand', () => {
+  let mockContext: CommandContext;
+  let jobs: JobInfo[];
+  const mockStop = vi.fn();
+
+  const getSubCommand = (name: string) =>
+    jobsCommand.subCommands!.find((command) => command.name === name)!;
+
+  beforeEach(() => {
+    jobs = [
+      createJob({}),
+      createJob({ name: 'test', command: 'npm test', exitCode: 1 }),
+    ];
+    jobs[1].status = 'exited';
+    mockStop.mockReset();
+    mockContext = createMockCommandContext({
+      services: {
+        config: {
+          getJobManager: () => ({
+            list: () => jobs,
+            read: (name: string) => ({
+              job: jobs.find((job) => job.name === name),
+              output: 'line 1\nline 2\n',
+              cursor: 14,
+              droppedChars: 0,
+            }),
+            stop: mockStop,
+          }),
+        },
+      },
+    });
+  });
+
+  it('should list the jobs with their status', async () => {
+    await jobsCommand.action!(mockContext, '');
+
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      {
+        type: MessageType.INFO,
+        text: 'Background jobs:\n  - dev (running, PID 1234): npm run dev\n  - test (exited with code 1): npm test',
+      },
+      expect.any(Number),
+    );
+  });
+
+  it('should show the output of a job', async () => {
+    await getSubCommand('output').action!(mockContext, 'dev');
+
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      {
+        type: MessageType.INFO,
+        text: 'Output of dev (running, PID 1234):\nline 1\nline 2',
+      },
+      expect.any(Number),
+    );
+  });
+
+  it('should stop a job', async () => {
+    mockStop.mockResolvedValue(createJob({ status: 'stopped' }));
+
+    const result = await getSubCommand('stop').action!(mockContext, 'dev');
+
+    expect(mockStop).toHaveBeenCalledWith('dev');
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Job dev is stopped.',
+    });
+  });
+
+  it('should complete the names of jobs', async () => {
+    expect(await getSubCommand('stop').completion!(mockContext, 't')).toEqual([
+      'test',
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getErrorMessage, JobInfo } from '@google/gemini-cli-core';
+import { MessageType } from '../types.js';
+import {
+  CommandContext,
+  SlashCommand,
+  SlashCommandActionReturn,
+} from './types.js';
+
+/** Lines of output that `/jobs output` shows. */
+const OUTPUT_TAIL_LINES = 40;
+
+const errorMessage = (content: string): SlashCommandActionReturn => ({
+  type: 'message',
+  messageType: 'error',
+  content,
+});
+
+function formatStatus(job: JobInfo): string {
+  switch (job.status) {
+    case 'running':
+      return `running, PID ${job.pid ?? 'unknown'}`;
+    case 'stopped':
+      return 'stopped';
+    default:
+      return job.exitCode !== null
+        ? `exited with code ${job.exitCode}`
+        : `exited with signal ${job.signal}`;
+  }
+}
+
+const completeJobNames = async (
+  context: CommandContext,
+  partialArg: string,
+): Promise<string[]> =>
+  (context.services.config?.getJobManager().list() ?? [])
+    .map((job) => job.name)
+    .filter((name) => name.startsWith(partialArg));
+
+const listJobs = (context: CommandContext): SlashCommandActionReturn | void => {
+  const { config } = context.services;
+  if (!config) {
+    return errorMessage('Config not loaded.');
+  }
+
+  const jobs = config.getJobManager().list();
+  if (jobs.length === 0) {
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: 'No background jobs were started in this session.',
+    };
+  }
+
+  let message = 'Background jobs:\n';
+  for (const job of jobs) {
+    message += `  - ${job.name} (${formatStatus(job)}): ${job.command}\n`;
+  }
+  context.ui.addItem(
+    { type: MessageType.INFO, text: message.trimEnd() },
+    Date.now(),
+  );
+};
+
+export const jobsCommand: SlashCommand = {
+  name: 'jobs',
+  description: 'List background jobs. Usage: /jobs [list|output|stop] [name]',
+  action: listJobs,
+  subCommands: [
+    {
+      name: 'list',
+      description: 'List the background jobs of this session.',
+      action: listJobs,
+    },
+    {
+      name: 'output',
+      description: `Show the last ${OUTPUT_TAIL_LINES} lines of output of a job. Usage: /jobs output <name>`,
+      completion: completeJobNames,
+      action: (context, args): SlashCommandActionReturn | void => {
+        const { config } = context.services;
+        if (!config) {
+          return errorMessage('Config not loaded.');
+        }
+        const name = args.trim();
+        if (!name) {
+          return errorMessage('Usage: /jobs output <name>');
+        }
+
+        try {
+          const { job, output } = config.getJobManager().read(name);
+          const tail = output
+            .trimEnd()
+            .split('\n')
+            .slice(-OUTPUT_TAIL_LINES)
+            .join('\n');
+          context.ui.addItem(
+            {
+              type: MessageType.INFO,
+              text: `Output of ${job.name} (${formatStatus(job)}):\n${tail || '(empty)'}`,
+            },
+            Date.now(),
+          );
+        } catch (error) {
+          return errorMessage(getErrorMessage(error));
+        }
+      },
+    },
+    {
+      name: 'stop',
+      description: 'Stop a background job. Usage: /jobs stop <name>',
+      completion: completeJobNames,
+      action: async (context, args): Promise<SlashCommandActionReturn> => {
+        const { config } = context.services;
+        if (!config) {
+          return errorMessage('Config not loaded.');
+        }
+        const name = args.trim();
+        if (!name) {
+          return errorMessage('Usage: /jobs stop <name>');
+        }
+
+        try {
+          const job = await config.getJobManager().stop(name);
+          return {
+            type: 'message',
+            messageType: 'info',
+            content: `Job ${job.name} is ${formatStatus(job)}.`,
+          };
+        } catch (error) {
+          return errorMessage(getErrorMessage(error));
+        }
+      },
+    },
+  ],
+};
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach, Mock } from 'vitest';
+import { ModelRegistry } from '@google/gemini-cli-core';
+import { modelCommand } from './modelCommand.js';
+import { type CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { MessageType } from '../types.js';
+
+describe('modelCommand', () => {
+  let mockContext: CommandContext;
+  let mockSwitchModel: Mock;
+
+  beforeEach(() => {
+    mockSwitchModel = vi.fn().mockResolvedValue({
+      previousModel: 'gemini-2.5-pro',
+      model: 'gemini-2.5-flash',
+      compression: null,
+    });
+    mockContext = createMockCommandContext({
+      services: {
+        config: {
+          getModel: () => 'gemini-2.5-pro',
+          getSessionId: () => 'session-id',
+          getModelRegistry: () =>
+            new ModelRegistry({ 'my-model': { contextWindow: 8_192 } }),
+          getGeminiClient: () => ({ switchModel: mockSwitchModel }),
+        },
+      },
+      session: { stats: { promptCount: 3 } },
+    });
+  });
+
+  it('should show the current model when called without arguments', async () => {
+    const result = await modelCommand.action!(mockContext, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Current model: gemini-2.5-pro',
+    });
+    expect(mockSwitchModel).not.toHaveBeenCalled();
+  });
+
+  it('should switch the model and report it in the history', async () => {
+    const result = await modelCommand.action!(
+      mockContext,
+      ' gemini-2.5-flash ',
+    );
+
+    expect(result).toBeUndefined();
+    expect(mockSwitchModel).toHaveBeenCalledWith(
+      'gemini-2.5-flash',
+      'session-id########3',
+    );
+    expect(mockContext.ui.addItem).toHaveBeenCalledTimes(1);
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      {
+        type: MessageType.INFO,
+        text: 'Switched model from gemini-2.5-pro to gemini-2.5-flash.',
+      },
+      expect.any(Number),
+    );
+  });
+
+  it('should report when the history was compressed to fit the new model', async () => {
+    mockSwitchModel.mockResolvedValue({
+      previousModel: 'gemini-2.5-pro',
+      model: 'my-model',
+      compression: { originalTokenCount: 20_000, newTokenCount: 2_000 },
+    });
+
+    await modelCommand.action!(mockContext, 'my-model');
+
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      {
+        type: MessageType.INFO,
+        text: 'The conversation did not fit into the context window of my-model, so it was compressed (from 20000 to 2000 tokens).',
+      },
+      expect.any(Number),
+    );
+  });
+
+  it('should refuse embedding models', async () => {
+    const result = await modelCommand.action!(
+      mockContext,
+      'text-embedding-004',
+    );
+
+    expect(result).toMatchObject({ type: 'message', messageType: 'error' });
+    expect(mockSwitchModel).not.toHaveBeenCalled();
+  });
+
+  it('should return an error message if switching fails', async () => {
+    mockSwitchModel.mockRejectedValue(new Error('Boom'));
+
+    const result = await modelCommand.action!(mockContext, 'gemini-2.5-flash');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'Failed to switch model: Boom',
+    });
+  });
+
+  it('should complete model names from the registry', async () => {
+    const completions = await modelCommand.completion!(
+      mockContext,
+      'gemini-2.5-f',
+    );
+    expect(completions).toEqual(['gemini-2.5-flash-lite', 'gemini-2.5-flash']);
+
+    const all = await modelCommand.completion!(mockContext, '');
+    expect(all[0]).toBe('my-model');
+    expect(all).not.toContain('text-embedding-004');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getErrorMessage } from '@google/gemini-cli-core';
+import { MessageType } from '../types.js';
+import { SlashCommand, SlashCommandActionReturn } from './types.js';
+
+export const modelCommand: SlashCommand = {
+  name: 'model',
+  description: 'switch the model for this session. Usage: /model <name>',
+  action: async (context, args): Promise<SlashCommandActionReturn | void> => {
+    const config = context.services.config;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Config not loaded.',
+      };
+    }
+
+    const model = args.trim();
+    if (!model) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: `Current model: ${config.getModel()}`,
+      };
+    }
+
+    if (model === config.getModel()) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: `Already using ${model}.`,
+      };
+    }
+
+    const capabilities = config.getModelRegistry().getCapabilities(model);
+    if (capabilities.embeddingDimensions !== undefined) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `${model} is an embedding model and cannot be used for chat.`,
+      };
+    }
+
+    const geminiClient = config.getGeminiClient();
+    if (!geminiClient) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Chat is not initialized yet.',
+      };
+    }
+
+    try {
+      const promptId =
+        config.getSessionId() + '########' + context.session.stats.promptCount;
+      const { previousModel, compression } = await geminiClient.switchModel(
+        model,
+        promptId,
+      );
+      context.ui.addItem(
+        {
+          type: MessageType.INFO,
+          text: `Switched model from ${previousModel} to ${model}.`,
+        },
+        Date.now(),
+      );
+      if (compression) {
+        context.ui.addItem(
+          {
+            type: MessageType.INFO,
+            text: `The conversation did not fit into the context window of ${model}, so it was compressed (from ${compression.originalTokenCount} to ${compression.newTokenCount} tokens).`,
+          },
+          Date.now(),
+        );
+      }
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Failed to switch model: ${getErrorMessage(error)}`,
+      };
+    }
+  },
+  completion: async (context, partialArg) => {
+    const registry = context.services.config?.getModelRegistry();
+    if (!registry) {
+      return [];
+    }
+    const models = registry
+      .listModels()
+      .map((model) => (model.endsWith('*') ? model.slice(0, -1) : model))
+      .filter(
+        (model) =>
+          registry.getCapabilities(model).embeddingDimensions === undefined,
+      )
+      .filter((model) => model.startsWith(partialArg));
+    return [...new Set(models)];
+  },
+};
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  PermissionPolicyEngine,
+  ToolConfirmationOutcome,
+  Tool,
+} from '@google/gemini-cli-core';
+import { permissionsCommand } from './permissionsCommand.js';
+import { type CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { LoadedSettings, Settings } from '../../config/settings.js';
+import { MessageType } from '../types.js';
+
+describe('permissionsCommand', () => {
+  let tempDir: string;
+  let settings: LoadedSettings;
+  let policyEngine: PermissionPolicyEngine;
+  let mockContext: CommandContext;
+
+  const getSubCommand = (name: string) =>
+    permissionsCommand.subCommands!.find((command) => command.name === name)!;
+
+  const createSettingsFile = (name: string, fileSettings: Settings) => ({
+    path: path.join(tempDir, name, 'settings.json'),
+    settings: fileSettings,
+  });
+
+  const readSettingsFile = (name: string) =>
+    JSON.parse(
+      fs.readFileSync(path.join(tempDir, name, 'settings.json'), 'utf-8'),
+    );
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'permissions-command-'));
+    settings = new LoadedSettings(
+      createSettingsFile('system', {
+        permissions: { rules: [{ decision: 'deny', command: 'rm' }] },
+      }),
+      createSettingsFile('user', {}),
+      createSettingsFile('workspace', {
+        permissions: {
+          rules: [{ decision: 'allow', tool: 'read_file' }],
+          persistAlwaysAllow: true,
+        },
+      }),
+      [],
+    );
+    policyEngine = new PermissionPolicyEngine(
+      '/project',
+      settings.merged.permissions,
+    );
+    mockContext = createMockCommandContext({
+      services: {
+        config: { getPolicyEngine: () => policyEngine },
+      },
+    });
+    // Assigned directly so that the settings keep their methods.
+    mockContext.services.settings = settings;
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should list the rules in the order they apply', async () => {
+    policyEngine.rememberAlwaysAllow(
+      { name: 'web_fetch' } as Tool,
+      {},
+      ToolConfirmationOutcome.ProceedAlwaysTool,
+    );
+
+    await getSubCommand('list').action!(mockContext, '');
+
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      {
+        type: MessageType.INFO,
+        text:
+          'Permission rules (the first matching rule applies):\n' +
+          '  1. deny command=rm (system)\n' +
+          '  2. allow tool=read_file (workspace)\n\n' +
+          'Allowed for this session:\n' +
+          '  - allow tool=web_fetch',
+      },
+      expect.any(Number),
+    );
+  });
+
+  it('should add rules to the workspace or user settings', async () => {
+    const add = getSubCommand('add');
+
+    expect(
+      await add.action!(
+        mockContext,
+        'deny tool=run_shell_command command="git push"',
+      ),
+    ).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content:
+        'Added rule to workspace settings: deny tool=run_shell_command command="git push"',
+    });
+    await add.action!(mockContext, '--user ask mcpServer=github');
+
+    expect(readSettingsFile('workspace').permissions).toEqual({
+      rules: [
+        { decision: 'allow', tool: 'read_file' },
+        { decision: 'deny', tool: 'run_shell_command', command: 'git push' },
+      ],
+      persistAlwaysAllow: true,
+    });
+    expect(readSettingsFile('user').permissions).toEqual({
+      rules: [{ decision: 'ask', mcpServer: 'github' }],
+    });
+    expect(
+      policyEngine.evaluate({ name: 'run_shell_command' } as Tool, {
+        command: 'git push origin',
+      })?.decision,
+    ).toBe('deny');
+  });
+
+  it('should reject invalid rules', async () => {
+    const add = getSubCommand('add');
+
+    for (const args of ['', 'permit tool=x', 'allow', 'allow name=x']) {
+      expect(await add.action!(mockContext, args)).toMatchObject({
+        type: 'message',
+        messageType: 'error',
+      });
+    }
+  });
+
+  it('should remove rules by number', async () => {
+    const remove = getSubCommand('remove');
+
+    expect(await remove.action!(mockContext, '2')).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Removed rule from workspace settings: allow tool=read_file',
+    });
+    expect(readSettingsFile('workspace').permissions.rules).toEqual([]);
+    expect(policyEngine.getRules()).toEqual([
+      { decision: 'deny', command: 'rm' },
+    ]);
+
+    expect(await remove.action!(mockContext, '1')).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'Rules from system settings cannot be removed.',
+    });
+    expect(await remove.action!(mockContext, '5')).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'Invalid rule number: 5. There are 1 rule(s).',
+    });
+  });
+});
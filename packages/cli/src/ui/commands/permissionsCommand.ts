@@ -0,0 +1,171 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  formatPermissionRule,
+  getErrorMessage,
+  PermissionDecision,
+  PermissionRule,
+} from '@google/gemini-cli-core';
+import { SettingScope } from '../../config/settings.js';
+import {
+  addPermissionRule,
+  listPermissionRules,
+  removePermissionRule,
+} from '../../config/permissions.js';
+import { MessageType } from '../types.js';
+import { SlashCommand, SlashCommandActionReturn } from './types.js';
+
+const DECISIONS: PermissionDecision[] = ['allow', 'ask', 'deny'];
+const CONDITIONS = ['tool', 'mcpServer', 'path', 'command'] as const;
+
+const ADD_USAGE =
+  'Usage: /permissions add [--user] <allow|ask|deny> [tool=<name>] [mcpServer=<name>] [path=<glob>] [command=<pattern>]';
+
+const errorMessage = (content: string): SlashCommandActionReturn => ({
+  type: 'message',
+  messageType: 'error',
+  content,
+});
+
+/**
+ * Parses `<decision> key=value ...`, where values that contain spaces are
+ * quoted, e.g. `deny command="git push"`.
+ */
+function parseRule(args: string): PermissionRule {
+  const [decision, ...tokens] =
+    args.match(/(?:[^\s"]+|"(?:[^"\\]|\\.)*")+/g) ?? [];
+  if (!DECISIONS.includes(decision as PermissionDecision)) {
+    throw new Error(ADD_USAGE);
+  }
+  const rule: PermissionRule = { decision: decision as PermissionDecision };
+  for (const token of tokens) {
+    const separator = token.indexOf('=');
+    const key = token.slice(0, separator);
+    const rawValue = token.slice(separator + 1);
+    if (
+      separator === -1 ||
+      !CONDITIONS.includes(key as (typeof CONDITIONS)[number])
+    ) {
+      throw new Error(`Unknown condition: ${token}\n${ADD_USAGE}`);
+    }
+    const value = rawValue.startsWith('"') ? JSON.parse(rawValue) : rawValue;
+    if (!value) {
+      throw new Error(`Empty condition: ${token}`);
+    }
+    rule[key as (typeof CONDITIONS)[number]] = value;
+  }
+  if (tokens.length === 0) {
+    throw new Error(`A rule needs at least one condition.\n${ADD_USAGE}`);
+  }
+  return rule;
+}
+
+export const permissionsCommand: SlashCommand = {
+  name: 'permissions',
+  description: 'Commands for managing tool permission rules.',
+  subCommands: [
+    {
+      name: 'list',
+      description: 'List the permission rules in the order they apply.',
+      action: (context): SlashCommandActionReturn | void => {
+        const { config, settings } = context.services;
+        if (!config) {
+          return errorMessage('Config not loaded.');
+        }
+
+        const rules = listPermissionRules(settings);
+        const sessionRules = config.getPolicyEngine().getSessionRules();
+        if (rules.length === 0 && sessionRules.length === 0) {
+          return {
+            type: 'message',
+            messageType: 'info',
+            content:
+              'No permission rules are configured. Add one with /permissions add.',
+          };
+        }
+
+        let message = 'Permission rules (the first matching rule applies):\n';
+        rules.forEach(({ rule, scope }, index) => {
+          message += `  ${index + 1}. ${formatPermissionRule(rule)} (${scope.toLowerCase()})\n`;
+        });
+        if (sessionRules.length > 0) {
+          message += '\nAllowed for this session:\n';
+          for (const rule of sessionRules) {
+            message += `  - ${formatPermissionRule(rule)}\n`;
+          }
+        }
+        context.ui.addItem(
+          { type: MessageType.INFO, text: message.trimEnd() },
+          Date.now(),
+        );
+      },
+    },
+    {
+      name: 'add',
+      description:
+        'Add a rule to the workspace settings, or the user settings with --user.',
+      action: (context, args): SlashCommandActionReturn | void => {
+        const { config, settings } = context.services;
+        if (!config) {
+          return errorMessage('Config not loaded.');
+        }
+
+        let ruleArgs = args.trim();
+        let scope = SettingScope.Workspace;
+        if (ruleArgs.startsWith('--user')) {
+          scope = SettingScope.User;
+          ruleArgs = ruleArgs.slice('--user'.length).trim();
+        }
+
+        let rule: PermissionRule;
+        try {
+          rule = parseRule(ruleArgs);
+        } catch (error) {
+          return errorMessage(getErrorMessage(error));
+        }
+
+        addPermissionRule(settings, config, scope, rule);
+        return {
+          type: 'message',
+          messageType: 'info',
+          content: `Added rule to ${scope.toLowerCase()} settings: ${formatPermissionRule(rule)}`,
+        };
+      },
+    },
+    {
+      name: 'remove',
+      description:
+        'Remove a rule by its number in /permissions list. Usage: /permissions remove <number>',
+      action: (context, args): SlashCommandActionReturn | void => {
+        const { config, settings } = context.services;
+        if (!config) {
+          return errorMessage('Config not loaded.');
+        }
+
+        const number = Number(args.trim());
+        if (!args.trim() || !Number.isInteger(number)) {
+          return errorMessage('Usage: /permissions remove <number>');
+        }
+
+        try {
+          const { rule, scope } = removePermissionRule(
+            settings,
+            config,
+            number - 1,
+          );
+          return {
+            type: 'message',
+            messageType: 'info',
+            content: `Removed rule from ${scope.toLowerCase()} settings: ${formatPermissionRule(rule)}`,
+          };
+        } catch (error) {
+          return errorMessage(getErrorMessage(error));
+        }
+      },
+    },
+  ],
+};
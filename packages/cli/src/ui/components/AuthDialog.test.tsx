@@ -73,6 +73,10 @@ describe('AuthDialog', () => {
         settings: {},
         path: '',
       },
+      {
+        settings: {},
+        path: '',
+      },
       [],
     );
 
@@ -131,6 +135,10 @@ describe('AuthDialog', () => {
         settings: {},
         path: '',
       },
+      {
+        settings: {},
+        path: '',
+      },
       [],
     );
 
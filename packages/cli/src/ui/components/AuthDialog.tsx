@@ -48,6 +48,10 @@ export function AuthDialog({
       value: AuthType.USE_GEMINI,
     },
     { label: 'Vertex AI', value: AuthType.USE_VERTEX_AI },
+    {
+      label: 'OpenAI-compatible endpoint',
+      value: AuthType.USE_OPENAI_COMPATIBLE,
+    },
   ];
 
   const initialAuthIndex = items.findIndex((item) => {
@@ -63,7 +67,10 @@ export function AuthDialog({
   });
 
   const handleAuthSelect = (authMethod: AuthType) => {
-    const error = validateAuthMethod(authMethod);
+    const error = validateAuthMethod(
+      authMethod,
+      settings.merged.openAICompatible,
+    );
     if (error) {
       setErrorMessage(error);
     } else {
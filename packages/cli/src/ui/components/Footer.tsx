@@ -7,13 +7,14 @@
 import React from 'react';
 import { Box, Text } from 'ink';
 import { Colors } from '../colors.js';
-import { shortenPath, tildeifyPath, tokenLimit } from '@google/gemini-cli-core';
+import { shortenPath, tildeifyPath } from '@google/gemini-cli-core';
 import { ConsoleSummaryDisplay } from './ConsoleSummaryDisplay.js';
 import process from 'node:process';
 import { MemoryUsageDisplay } from './MemoryUsageDisplay.js';
 
 interface FooterProps {
   model: string;
+  contextWindow: number;
   targetDir: string;
   branchName?: string;
   debugMode: boolean;
@@ -23,10 +24,12 @@ interface FooterProps {
   showErrorDetails: boolean;
   showMemoryUsage?: boolean;
   promptTokenCount: number;
+  runningJobCount?: number;
 }
 
 export const Footer: React.FC<FooterProps> = ({
   model,
+  contextWindow,
   targetDir,
   branchName,
   debugMode,
@@ -36,9 +39,9 @@ export const Footer: React.FC<FooterProps> = ({
   showErrorDetails,
   showMemoryUsage,
   promptTokenCount,
+  runningJobCount = 0,
 }) => {
-  const limit = tokenLimit(model);
-  const percentage = promptTokenCount / limit;
+  const percentage = promptTokenCount / contextWindow;
 
   return (
     <Box marginTop={1} justifyContent="space-between" width="100%">
@@ -86,6 +89,14 @@ export const Footer: React.FC<FooterProps> = ({
             ({((1 - percentage) * 100).toFixed(0)}% context left)
           </Text>
         </Text>
+        {runningJobCount > 0 && (
+          <Text>
+            <Text color={Colors.Gray}>| </Text>
+            <Text color={Colors.AccentPurple}>
+              {runningJobCount} {runningJobCount === 1 ? 'job' : 'jobs'}{' '}
+            </Text>
+          </Text>
+        )}
         {corgiMode && (
           <Text>
             <Text color={Colors.Gray}>| </Text>
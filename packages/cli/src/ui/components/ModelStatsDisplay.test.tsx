@@ -9,6 +9,7 @@ import { describe, it, expect, vi } from 'vitest';
 import { ModelStatsDisplay } from './ModelStatsDisplay.js';
 import * as SessionContext from '../contexts/SessionContext.js';
 import { SessionMetrics } from '../contexts/SessionContext.js';
+import { ModelRegistry } from '@google/gemini-cli-core';
 
 // Mock the context to provide controlled data for testing
 vi.mock('../contexts/SessionContext.js', async (importOriginal) => {
@@ -21,7 +22,10 @@ vi.mock('../contexts/SessionContext.js', async (importOriginal) => {
 
 const useSessionStatsMock = vi.mocked(SessionContext.useSessionStats);
 
-const renderWithMockedStats = (metrics: SessionMetrics) => {
+const renderWithMockedStats = (
+  metrics: SessionMetrics,
+  modelRegistry?: ModelRegistry,
+) => {
   useSessionStatsMock.mockReturnValue({
     stats: {
       sessionStartTime: new Date(),
@@ -34,7 +38,7 @@ const renderWithMockedStats = (metrics: SessionMetrics) => {
     startNewPrompt: vi.fn(),
   });
 
-  return render(<ModelStatsDisplay />);
+  return render(<ModelStatsDisplay modelRegistry={modelRegistry} />);
 };
 
 describe('<ModelStatsDisplay />', () => {
@@ -70,6 +74,7 @@ describe('<ModelStatsDisplay />', () => {
             thoughts: 0,
             tool: 0,
           },
+          purposes: {},
         },
       },
       tools: {
@@ -102,6 +107,7 @@ describe('<ModelStatsDisplay />', () => {
             thoughts: 2,
             tool: 0,
           },
+          purposes: {},
         },
         'gemini-2.5-flash': {
           api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 50 },
@@ -113,6 +119,7 @@ describe('<ModelStatsDisplay />', () => {
             thoughts: 0,
             tool: 3,
           },
+          purposes: {},
         },
       },
       tools: {
@@ -145,6 +152,7 @@ describe('<ModelStatsDisplay />', () => {
             thoughts: 10,
             tool: 5,
           },
+          purposes: {},
         },
         'gemini-2.5-flash': {
           api: { totalRequests: 20, totalErrors: 2, totalLatencyMs: 500 },
@@ -156,6 +164,7 @@ describe('<ModelStatsDisplay />', () => {
             thoughts: 20,
             tool: 10,
           },
+          purposes: {},
         },
       },
       tools: {
@@ -191,6 +200,7 @@ describe('<ModelStatsDisplay />', () => {
             thoughts: 111111111,
             tool: 222222222,
           },
+          purposes: {},
         },
       },
       tools: {
@@ -219,6 +229,7 @@ describe('<ModelStatsDisplay />', () => {
             thoughts: 2,
             tool: 1,
           },
+          purposes: {},
         },
       },
       tools: {
@@ -236,4 +247,77 @@ describe('<ModelStatsDisplay />', () => {
     expect(output).not.toContain('gemini-2.5-flash');
     expect(output).toMatchSnapshot();
   });
+
+  it('should display model capabilities from the registry', () => {
+    const { lastFrame } = renderWithMockedStats(
+      {
+        models: {
+          'my-local-model': {
+            api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 100 },
+            tokens: {
+              prompt: 10,
+              candidates: 20,
+              total: 30,
+              cached: 0,
+              thoughts: 0,
+              tool: 0,
+            },
+            purposes: {},
+          },
+        },
+        tools: {
+          totalCalls: 0,
+          totalSuccess: 0,
+          totalFail: 0,
+          totalDurationMs: 0,
+          totalDecisions: { accept: 0, reject: 0, modify: 0 },
+          byName: {},
+        },
+      },
+      new ModelRegistry({
+        'my-local-model': { contextWindow: 32_768, supportsToolCalling: false },
+      }),
+    );
+
+    const output = lastFrame();
+    expect(output).toContain('Capabilities');
+    expect(output).toMatch(/Context Window\s+32,768/);
+    expect(output).toMatch(/Output Limit\s+unknown/);
+    expect(output).toMatch(/Tool Calling\s+no/);
+  });
+
+  it('should break down tokens by purpose when auxiliary calls were made', () => {
+    const { lastFrame } = renderWithMockedStats({
+      models: {
+        'gemini-2.5-flash': {
+          api: { totalRequests: 3, totalErrors: 0, totalLatencyMs: 300 },
+          tokens: {
+            prompt: 100,
+            candidates: 50,
+            total: 150,
+            cached: 0,
+            thoughts: 0,
+            tool: 0,
+          },
+          purposes: {
+            chat: { requests: 1, tokens: 100 },
+            nextSpeaker: { requests: 2, tokens: 50 },
+          },
+        },
+      },
+      tools: {
+        totalCalls: 0,
+        totalSuccess: 0,
+        totalFail: 0,
+        totalDurationMs: 0,
+        totalDecisions: { accept: 0, reject: 0, modify: 0 },
+        byName: {},
+      },
+    });
+
+    const output = lastFrame();
+    expect(output).toContain('Tokens by Purpose');
+    expect(output).toMatch(/Main Chat\s+100 \(1 req\)/);
+    expect(output).toMatch(/Next Speaker Check\s+50 \(2 req\)/);
+  });
 });
@@ -14,10 +14,19 @@ import {
   calculateErrorRate,
 } from '../utils/computeStats.js';
 import { useSessionStats, ModelMetrics } from '../contexts/SessionContext.js';
+import { ModelPurpose, ModelRegistry } from '@google/gemini-cli-core';
 
 const METRIC_COL_WIDTH = 28;
 const MODEL_COL_WIDTH = 22;
 
+const PURPOSE_LABELS: Record<string, string> = {
+  [ModelPurpose.CHAT]: 'Main Chat',
+  [ModelPurpose.NEXT_SPEAKER]: 'Next Speaker Check',
+  [ModelPurpose.EDIT_CORRECTION]: 'Edit Correction',
+  [ModelPurpose.COMPRESSION]: 'Compression',
+  [ModelPurpose.WEB_FETCH]: 'Web Fetch',
+};
+
 interface StatRowProps {
   title: string;
   values: Array<string | React.ReactElement>;
@@ -45,7 +54,13 @@ const StatRow: React.FC<StatRowProps> = ({
   </Box>
 );
 
-export const ModelStatsDisplay: React.FC = () => {
+interface ModelStatsDisplayProps {
+  modelRegistry?: ModelRegistry;
+}
+
+export const ModelStatsDisplay: React.FC<ModelStatsDisplayProps> = ({
+  modelRegistry,
+}) => {
   const { stats } = useSessionStats();
   const { models } = stats.metrics;
   const activeModels = Object.entries(models).filter(
@@ -78,6 +93,14 @@ export const ModelStatsDisplay: React.FC = () => {
   const hasCached = activeModels.some(
     ([, metrics]) => metrics.tokens.cached > 0,
   );
+  const purposes = [
+    ...new Set(
+      activeModels.flatMap(([, metrics]) => Object.keys(metrics.purposes)),
+    ),
+  ];
+  const hasAuxiliaryPurposes = purposes.some(
+    (purpose) => purpose !== ModelPurpose.CHAT,
+  );
 
   return (
     <Box
@@ -192,6 +215,63 @@ export const ModelStatsDisplay: React.FC = () => {
         isSubtle
         values={getModelValues((m) => m.tokens.candidates.toLocaleString())}
       />
+
+      {hasAuxiliaryPurposes && (
+        <>
+          <Box height={1} />
+
+          {/* Purpose Section */}
+          <StatRow title="Tokens by Purpose" values={[]} isSection />
+          {purposes.map((purpose) => (
+            <StatRow
+              key={purpose}
+              title={PURPOSE_LABELS[purpose] ?? purpose}
+              isSubtle
+              values={getModelValues((m) => {
+                const purposeMetrics = m.purposes[purpose];
+                return purposeMetrics
+                  ? `${purposeMetrics.tokens.toLocaleString()} (${purposeMetrics.requests} req)`
+                  : '-';
+              })}
+            />
+          ))}
+        </>
+      )}
+
+      {modelRegistry && (
+        <>
+          <Box height={1} />
+
+          {/* Capabilities Section */}
+          <StatRow title="Capabilities" values={[]} isSection />
+          <StatRow
+            title="Context Window"
+            values={modelNames.map((name) =>
+              modelRegistry.getContextWindow(name).toLocaleString(),
+            )}
+          />
+          <StatRow
+            title="Output Limit"
+            values={modelNames.map(
+              (name) =>
+                modelRegistry.getOutputTokenLimit(name)?.toLocaleString() ??
+                'unknown',
+            )}
+          />
+          <StatRow
+            title="Thinking"
+            values={modelNames.map((name) =>
+              modelRegistry.supportsThinking(name) ? 'yes' : 'no',
+            )}
+          />
+          <StatRow
+            title="Tool Calling"
+            values={modelNames.map((name) =>
+              modelRegistry.supportsToolCalling(name) ? 'yes' : 'no',
+            )}
+          />
+        </>
+      )}
     </Box>
   );
 };
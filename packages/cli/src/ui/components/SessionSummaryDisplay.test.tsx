@@ -50,6 +50,7 @@ describe('<SessionSummaryDisplay />', () => {
             thoughts: 300,
             tool: 200,
           },
+          purposes: {},
         },
       },
       tools: {
@@ -359,4 +359,39 @@ fileDiff Index: Dockerfile
 2 RUN npm install
 3 RUN npm run build`);
   });
+
+  it('should render a header for each file of a diff that covers several files', () => {
+    const multiFileDiff = `Index: a.js
+===================================================================
+--- a.js	Current
++++ a.js	Proposed
+@@ -1,1 +1,1 @@
+-const a = 1;
++const a = 2;
+Index: b.js
+===================================================================
+--- b.js	Current
++++ b.js	Proposed
+@@ -1,1 +1,1 @@
+-const b = 1;
++const b = 2;
+`;
+    const { lastFrame } = render(
+      <OverflowProvider>
+        <DiffRenderer
+          diffContent={multiFileDiff}
+          filename="a.js"
+          terminalWidth={80}
+        />
+      </OverflowProvider>,
+    );
+    const output = lastFrame();
+
+    expect(output).toEqual(`a.js
+1    - const a = 1;
+1    + const a = 2;
+b.js
+1    - const b = 1;
+1    + const b = 2;`);
+  });
 });
@@ -12,7 +12,7 @@ import { colorizeCode } from '../../utils/CodeColorizer.js';
 import { MaxSizedBox } from '../shared/MaxSizedBox.js';
 
 interface DiffLine {
-  type: 'add' | 'del' | 'context' | 'hunk' | 'other';
+  type: 'add' | 'del' | 'context' | 'hunk' | 'file' | 'other';
   oldLine?: number;
   newLine?: number;
   content: string;
@@ -25,8 +25,16 @@ function parseDiffWithLineNumbers(diffContent: string): DiffLine[] {
   let currentNewLine = 0;
   let inHunk = false;
   const hunkHeaderRegex = /^@@ -(\d+),?\d* \+(\d+),?\d* @@/;
+  // Starts the patch of another file when a diff covers several files.
+  const fileHeaderRegex = /^(?:Index: (.+)|diff --git a\/.+ b\/(.+))$/;
 
   for (const line of lines) {
+    const fileMatch = line.match(fileHeaderRegex);
+    if (fileMatch) {
+      inHunk = false;
+      result.push({ type: 'file', content: fileMatch[1] ?? fileMatch[2] });
+      continue;
+    }
     const hunkMatch = line.match(hunkHeaderRegex);
     if (hunkMatch) {
       currentOldLine = parseInt(hunkMatch[1], 10);
@@ -110,7 +118,7 @@ export const DiffRenderer: React.FC<DiffRendererProps> = ({
 
   const parsedLines = parseDiffWithLineNumbers(diffContent);
 
-  if (parsedLines.length === 0) {
+  if (parsedLines.every((line) => line.type === 'file')) {
     return (
       <Box borderStyle="round" borderColor={Colors.Gray} padding={1}>
         <Text dimColor>No changes detected.</Text>
@@ -118,15 +126,19 @@ export const DiffRenderer: React.FC<DiffRendererProps> = ({
     );
   }
 
+  const fileCount = parsedLines.filter((line) => line.type === 'file').length;
+
   // Check if the diff represents a new file (only additions and header lines)
-  const isNewFile = parsedLines.every(
-    (line) =>
-      line.type === 'add' ||
-      line.type === 'hunk' ||
-      line.type === 'other' ||
-      line.content.startsWith('diff --git') ||
-      line.content.startsWith('new file mode'),
-  );
+  const isNewFile =
+    fileCount <= 1 &&
+    parsedLines.every(
+      (line) =>
+        line.type === 'add' ||
+        line.type === 'hunk' ||
+        line.type === 'file' ||
+        line.type === 'other' ||
+        line.content.startsWith('new file mode'),
+    );
 
   let renderedOutput;
 
@@ -173,9 +185,16 @@ const renderDiffContent = (
     content: line.content.replace(/\t/g, ' '.repeat(tabWidth)),
   }));
 
+  // File headers are only shown when the diff covers several files.
+  const showFileHeaders =
+    normalizedLines.filter((l) => l.type === 'file').length > 1;
+
   // Filter out non-displayable lines (hunks, potentially 'other') using the normalized list
   const displayableLines = normalizedLines.filter(
-    (l) => l.type !== 'hunk' && l.type !== 'other',
+    (l) =>
+      l.type !== 'hunk' &&
+      l.type !== 'other' &&
+      (l.type !== 'file' || showFileHeaders),
   );
 
   if (displayableLines.length === 0) {
@@ -190,7 +209,7 @@ const renderDiffContent = (
   let baseIndentation = Infinity; // Start high to find the minimum
   for (const line of displayableLines) {
     // Only consider lines with actual content for indentation calculation
-    if (line.content.trim() === '') continue;
+    if (line.type === 'file' || line.content.trim() === '') continue;
 
     const firstCharIndex = line.content.search(/\S/); // Find index of first non-whitespace char
     const currentIndent = firstCharIndex === -1 ? 0 : firstCharIndex; // Indent is 0 if no non-whitespace found
@@ -215,6 +234,19 @@ const renderDiffContent = (
       key={key}
     >
       {displayableLines.reduce<React.ReactNode[]>((acc, line, index) => {
+        if (line.type === 'file') {
+          // Line numbers of the next file are unrelated to those of this one.
+          lastLineNumber = null;
+          acc.push(
+            <Box key={`file-${index}`}>
+              <Text bold wrap="truncate">
+                {line.content}
+              </Text>
+            </Box>,
+          );
+          return acc;
+        }
+
         // Determine the relevant line number for gap calculation based on type
         let relevantLineNumberForGapCalc: number | null = null;
         if (line.type === 'add' || line.type === 'context') {
@@ -55,4 +55,45 @@ describe('ToolConfirmationMessage', () => {
       '- https://raw.githubusercontent.com/google/gemini-react/main/README.md',
     );
   });
+
+  it('should show a combined diff without the editor option when it cannot be modified', () => {
+    const confirmationDetails: ToolCallConfirmationDetails = {
+      type: 'edit',
+      title: 'Confirm Edits: 2 files',
+      fileName: 'a.txt',
+      fileDiff: [
+        'Index: a.txt',
+        '===================================================================',
+        '--- a.txt\tCurrent',
+        '+++ a.txt\tProposed',
+        '@@ -1 +1 @@',
+        '-old a',
+        '+new a',
+        'Index: b.txt',
+        '===================================================================',
+        '--- b.txt\tCurrent',
+        '+++ b.txt\tProposed',
+        '@@ -1 +1 @@',
+        '-old b',
+        '+new b',
+      ].join('\n'),
+      canModifyWithEditor: false,
+      onConfirm: vi.fn(),
+    };
+
+    const { lastFrame } = render(
+      <ToolConfirmationMessage
+        confirmationDetails={confirmationDetails}
+        availableTerminalHeight={30}
+        terminalWidth={80}
+      />,
+    );
+
+    expect(lastFrame()).toContain('a.txt');
+    expect(lastFrame()).toContain('+ new a');
+    expect(lastFrame()).toContain('b.txt');
+    expect(lastFrame()).toContain('- old b');
+    expect(lastFrame()).not.toContain('+++');
+    expect(lastFrame()).not.toContain('Modify with external editor');
+  });
 });
@@ -114,12 +114,14 @@ export const ToolConfirmationMessage: React.FC<
         label: 'Yes, allow always',
         value: ToolConfirmationOutcome.ProceedAlways,
       },
-      {
+    );
+    if (confirmationDetails.canModifyWithEditor !== false) {
+      options.push({
         label: 'Modify with external editor',
         value: ToolConfirmationOutcome.ModifyWithEditor,
-      },
-      { label: 'No (esc)', value: ToolConfirmationOutcome.Cancel },
-    );
+      });
+    }
+    options.push({ label: 'No (esc)', value: ToolConfirmationOutcome.Cancel });
     bodyContent = (
       <DiffRenderer
         diffContent={confirmationDetails.fileDiff}
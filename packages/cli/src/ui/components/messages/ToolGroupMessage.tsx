@@ -88,6 +88,7 @@ export const ToolGroupMessage: React.FC<ToolGroupMessageProps> = ({
                 name={tool.name}
                 description={tool.description}
                 resultDisplay={tool.resultDisplay}
+                verification={tool.verification}
                 status={tool.status}
                 confirmationDetails={tool.confirmationDetails}
                 availableTerminalHeight={availableTerminalHeightPerToolMessage}
@@ -161,6 +161,19 @@ describe('<ToolMessage />', () => {
     expect(lastFrame()).toMatch(/MockDiff:--- a\/file\.txt/);
   });
 
+  it('renders the verification results after the result', () => {
+    const { lastFrame } = renderWithContext(
+      <ToolMessage
+        {...baseProps}
+        verification={'Verification after these changes:\n- `tsc` passed.'}
+      />,
+      StreamingState.Idle,
+    );
+    expect(lastFrame()).toMatch(
+      /MockMarkdown:Test result[\s\S]*Verification after these changes:\n\s*- `tsc` passed\./,
+    );
+  });
+
   it('renders emphasis correctly', () => {
     const { lastFrame: highEmphasisFrame } = renderWithContext(
       <ToolMessage {...baseProps} emphasis="high" />,
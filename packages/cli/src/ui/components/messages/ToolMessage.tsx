@@ -34,6 +34,7 @@ export const ToolMessage: React.FC<ToolMessageProps> = ({
   name,
   description,
   resultDisplay,
+  verification,
   status,
   availableTerminalHeight,
   terminalWidth,
@@ -105,6 +106,17 @@ export const ToolMessage: React.FC<ToolMessageProps> = ({
           </Box>
         </Box>
       )}
+      {verification && (
+        <Box paddingLeft={STATUS_INDICATOR_WIDTH} width="100%" marginTop={1}>
+          <MaxSizedBox maxHeight={availableHeight} maxWidth={childWidth}>
+            <Box>
+              <Text wrap="wrap" color={Colors.Gray}>
+                {verification}
+              </Text>
+            </Box>
+          </MaxSizedBox>
+        </Box>
+      )}
     </Box>
   );
 };
@@ -76,6 +76,7 @@ describe('SessionStatsContext', () => {
             thoughts: 20,
             tool: 10,
           },
+          purposes: {},
         },
       },
       tools: {
@@ -56,6 +56,9 @@ vi.mock('../../utils/version.js', () => ({
 import { act, renderHook } from '@testing-library/react';
 import { vi, describe, it, expect, beforeEach, afterEach, Mock } from 'vitest';
 import open from 'open';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { promises as fsPromises } from 'node:fs';
 import { useSlashCommandProcessor } from './slashCommandProcessor.js';
 import { MessageType, SlashCommandProcessorResult } from '../types.js';
 import {
@@ -65,6 +68,8 @@ import {
   getMCPDiscoveryState,
   getMCPServerStatus,
   GeminiClient,
+  CompressionStrategy,
+  ConversationBranches,
 } from '@google/gemini-cli-core';
 import { useSessionStats } from '../contexts/SessionContext.js';
 import { LoadedSettings } from '../../config/settings.js';
@@ -95,6 +100,9 @@ vi.mock('@google/gemini-cli-core', async (importOriginal) => {
     ...actual,
     getMCPServerStatus: vi.fn(),
     getMCPDiscoveryState: vi.fn(),
+    Logger: vi.fn().mockImplementation(() => ({
+      initialize: vi.fn().mockResolvedValue(undefined),
+    })),
   };
 });
 
@@ -143,6 +151,7 @@ describe('useSlashCommandProcessor', () => {
     mockTryCompressChat = vi.fn();
     mockGeminiClient = {
       tryCompressChat: mockTryCompressChat,
+      previewCompression: vi.fn(),
     } as unknown as GeminiClient;
     mockConfig = {
       getDebugMode: vi.fn(() => false),
@@ -1296,6 +1305,261 @@ describe('useSlashCommandProcessor', () => {
     });
   });
 
+  describe('/chat command', () => {
+    it('should list auto-saved sessions with their metadata', async () => {
+      Object.assign(mockGeminiClient, { getChat: vi.fn(() => ({})) });
+      Object.assign(mockConfig, {
+        getProjectTempDir: vi.fn(() => '/nonexistent/temp/dir'),
+        getSessionStore: () => ({
+          list: vi.fn().mockResolvedValue([
+            {
+              sessionId: 'session-1',
+              lastUpdated: '2025-07-01T10:00:00.000Z',
+              firstPrompt: 'Fix the\nflaky   test',
+              turnCount: 3,
+              model: 'gemini-2.5-pro',
+            },
+          ]),
+        }),
+      });
+      const hook = getProcessorHook();
+
+      await act(async () => {
+        await hook.result.current.handleSlashCommand('/chat list');
+      });
+
+      const { text } = mockAddItem.mock.calls[1][0];
+      expect(text).toContain('list of saved conversations: ');
+      expect(text).toContain('gemini --resume <id>');
+      expect(text).toMatch(
+        /- session-1 \(.+, 3 turn\(s\), gemini-2\.5-pro\): Fix the flaky test/,
+      );
+    });
+    describe('export and import', () => {
+      let tempDir: string;
+
+      beforeEach(async () => {
+        tempDir = await fsPromises.mkdtemp(
+          path.join(os.tmpdir(), 'chat-export-test-'),
+        );
+        Object.assign(mockGeminiClient, {
+          getChat: vi.fn(() => ({
+            getHistory: () => [{ role: 'user', parts: [{ text: 'Hi' }] }],
+          })),
+          setHistory: vi.fn(),
+          getConversationBranches: () => new ConversationBranches(),
+        });
+        Object.assign(mockConfig, { getTargetDir: vi.fn(() => tempDir) });
+      });
+
+      afterEach(async () => {
+        await fsPromises.rm(tempDir, { recursive: true, force: true });
+      });
+
+      it('should export the conversation to the given path', async () => {
+        const hook = getProcessorHook();
+
+        await act(async () => {
+          await hook.result.current.handleSlashCommand(
+            '/chat export markdown out/chat.md',
+          );
+        });
+
+        expect(mockAddItem).toHaveBeenNthCalledWith(
+          2,
+          expect.objectContaining({
+            type: MessageType.ERROR,
+            text: expect.stringContaining('Failed to export conversation'),
+          }),
+          expect.any(Number),
+        );
+
+        await fsPromises.mkdir(path.join(tempDir, 'out'));
+        await act(async () => {
+          await hook.result.current.handleSlashCommand(
+            '/chat export markdown out/chat.md',
+          );
+        });
+        const content = await fsPromises.readFile(
+          path.join(tempDir, 'out', 'chat.md'),
+          'utf-8',
+        );
+        expect(content).toContain('# Gemini CLI conversation');
+      });
+
+      it('should reject unknown export formats', async () => {
+        const hook = getProcessorHook();
+
+        await act(async () => {
+          await hook.result.current.handleSlashCommand('/chat export pdf');
+        });
+
+        expect(mockAddItem).toHaveBeenNthCalledWith(
+          2,
+          expect.objectContaining({
+            type: MessageType.ERROR,
+            text: 'Missing or unknown format. Usage: /chat export <markdown|html|json> [path]',
+          }),
+          expect.any(Number),
+        );
+      });
+
+      it('should import a conversation exported as JSON', async () => {
+        const history = [{ role: 'user', parts: [{ text: 'Old prompt' }] }];
+        const uiHistory = [
+          { id: 1, type: MessageType.USER, text: 'Old prompt' },
+        ];
+        await fsPromises.writeFile(
+          path.join(tempDir, 'chat.json'),
+          JSON.stringify({
+            version: 1,
+            exportedAt: '2025-07-01T10:00:00.000Z',
+            model: 'test-model',
+            history,
+            uiHistory,
+          }),
+        );
+        const hook = getProcessorHook();
+
+        await act(async () => {
+          await hook.result.current.handleSlashCommand(
+            '/chat import chat.json',
+          );
+        });
+
+        expect(mockGeminiClient.setHistory).toHaveBeenCalledWith(history);
+        expect(mockClearItems).toHaveBeenCalled();
+        expect(mockLoadHistory).toHaveBeenCalledWith(uiHistory);
+        expect(mockAddItem).toHaveBeenLastCalledWith(
+          expect.objectContaining({
+            type: MessageType.INFO,
+            text: `Imported conversation from ${path.join(tempDir, 'chat.json')}.`,
+          }),
+          expect.any(Number),
+        );
+      });
+    });
+  });
+
+  describe('/chat fork and /chat branches', () => {
+    const firstTurnHistory = [{ role: 'user', parts: [{ text: 'Context' }] }];
+    const currentHistory = [
+      ...firstTurnHistory,
+      { role: 'user', parts: [{ text: 'Refactor the parser' }] },
+    ];
+    let branches: ConversationBranches;
+
+    beforeEach(() => {
+      branches = new ConversationBranches();
+      branches.recordTurn({
+        prompt: 'Refactor the parser',
+        history: firstTurnHistory,
+        uiHistoryLength: 0,
+      });
+      Object.assign(mockGeminiClient, {
+        getChat: vi.fn(() => ({ getHistory: () => currentHistory })),
+        setHistory: vi.fn(),
+        getConversationBranches: () => branches,
+      });
+    });
+
+    it('should list the turns that can be forked from', async () => {
+      const hook = getProcessorHook();
+
+      await act(async () => {
+        await hook.result.current.handleSlashCommand('/chat fork');
+      });
+
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.INFO,
+          text: expect.stringContaining('  1. Refactor the parser'),
+        }),
+        expect.any(Number),
+      );
+    });
+
+    it('should rewind to before the turn and keep the previous branch', async () => {
+      const hook = getProcessorHook();
+
+      await act(async () => {
+        await hook.result.current.handleSlashCommand('/chat fork 1');
+      });
+
+      expect(mockGeminiClient.setHistory).toHaveBeenCalledWith(
+        firstTurnHistory,
+      );
+      expect(mockClearItems).toHaveBeenCalled();
+      expect(mockLoadHistory).toHaveBeenCalledWith([]);
+      expect(mockAddItem).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          type: MessageType.INFO,
+          text: expect.stringContaining(
+            'The previous conversation is kept as branch 1.',
+          ),
+        }),
+        expect.any(Number),
+      );
+      expect(branches.getActiveId()).toBe(2);
+
+      await act(async () => {
+        await hook.result.current.handleSlashCommand('/chat branches');
+      });
+      const { text } = mockAddItem.mock.calls.at(-1)![0];
+      expect(text).toContain('- 1 (1 turn(s)): Refactor the parser');
+      expect(text).toContain(
+        '* 2 (0 turn(s), forked from branch 1 before turn 1)',
+      );
+
+      await act(async () => {
+        await hook.result.current.handleSlashCommand('/chat branches 1');
+      });
+      expect(mockGeminiClient.setHistory).toHaveBeenLastCalledWith(
+        currentHistory,
+      );
+      expect(branches.getActiveId()).toBe(1);
+    });
+
+    it('should reject invalid turns', async () => {
+      const hook = getProcessorHook();
+
+      await act(async () => {
+        await hook.result.current.handleSlashCommand('/chat fork 2');
+      });
+
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.ERROR,
+          text: 'Invalid turn: 2. The current branch has 1 turn(s).',
+        }),
+        expect.any(Number),
+      );
+      expect(mockGeminiClient.setHistory).not.toHaveBeenCalled();
+    });
+
+    it('should not fork when files cannot be restored', async () => {
+      const hook = getProcessorHook();
+
+      await act(async () => {
+        await hook.result.current.handleSlashCommand(
+          '/chat fork 1 --restore-files',
+        );
+      });
+
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.ERROR,
+          text: expect.stringContaining('No file snapshot was taken'),
+        }),
+        expect.any(Number),
+      );
+      expect(branches.getActiveId()).toBe(1);
+    });
+  });
+
   describe('/compress command', () => {
     it('should call tryCompressChat(true)', async () => {
       const hook = getProcessorHook();
@@ -1328,5 +1592,31 @@ describe('useSlashCommandProcessor', () => {
         expect.any(Number),
       );
     });
+
+    it('should show a preview without compressing for --preview', async () => {
+      vi.mocked(mockGeminiClient.previewCompression).mockResolvedValue({
+        strategy: CompressionStrategy.SLIDING_WINDOW,
+        originalTokenCount: 100,
+        thresholdTokenCount: 700,
+        dropped: [{ role: 'user', parts: [{ text: 'Old question' }] }],
+        prunedToolOutputs: [],
+        kept: [],
+      });
+      const hook = getProcessorHook();
+
+      await act(async () => {
+        await hook.result.current.handleSlashCommand('/compress --preview');
+      });
+
+      expect(mockTryCompressChat).not.toHaveBeenCalled();
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.INFO,
+          text: expect.stringContaining('user: Old question'),
+        }),
+        expect.any(Number),
+      );
+    });
   });
 });
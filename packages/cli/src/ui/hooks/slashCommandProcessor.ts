@@ -31,6 +31,14 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { GIT_COMMIT_INFO } from '../../generated/git-commit.js';
 import { formatDuration, formatMemoryUsage } from '../utils/formatters.js';
+import { formatCompressionPreview } from '../utils/compressionPreview.js';
+import {
+  ConversationExport,
+  EXPORT_FORMATS,
+  parseConversationExport,
+  parseExportFormat,
+  renderConversation,
+} from '../utils/conversationExport.js';
 import { getCliVersion } from '../../utils/version.js';
 import { LoadedSettings } from '../../config/settings.js';
 import {
@@ -40,6 +48,11 @@ import {
 } from '../commands/types.js';
 import { CommandService } from '../../services/CommandService.js';
 
+const truncatePrompt = (prompt: string): string => {
+  const singleLine = prompt.replace(/\s+/g, ' ');
+  return singleLine.length > 60 ? `${singleLine.slice(0, 57)}...` : singleLine;
+};
+
 // This interface is for the old, inline command definitions.
 // It will be removed once all commands are migrated to the new system.
 export interface LegacySlashCommand {
@@ -695,7 +708,7 @@ export const useSlashCommandProcessor = (
       {
         name: 'chat',
         description:
-          'Manage conversation history. Usage: /chat <list|save|resume> <tag>',
+          'Manage conversation history. Usage: /chat <list|save|resume|export|import|fork|branches> [args]',
         action: async (_mainCommand, subCommand, args) => {
           const tag = (args || '').trim();
           const logger = new Logger(config?.getSessionId() || '');
@@ -712,7 +725,8 @@ export const useSlashCommandProcessor = (
           if (!subCommand) {
             addMessage({
               type: MessageType.ERROR,
-              content: 'Missing command\nUsage: /chat <list|save|resume> <tag>',
+              content:
+                'Missing command\nUsage: /chat <list|save|resume|export|import|fork|branches> [args]',
               timestamp: new Date(),
             });
             return;
@@ -767,6 +781,7 @@ export const useSlashCommandProcessor = (
 
               clearItems();
               chat.clearHistory();
+              config!.getGeminiClient().getConversationBranches().reset();
               const rolemap: { [key: string]: MessageType } = {
                 user: MessageType.USER,
                 model: MessageType.GEMINI,
@@ -807,19 +822,242 @@ export const useSlashCommandProcessor = (
               refreshStatic();
               return;
             }
-            case 'list':
+            case 'list': {
+              const lines = [
+                'list of saved conversations: ' +
+                  (await savedChatTags()).join(', '),
+              ];
+              const sessions = await config!.getSessionStore().list();
+              if (sessions.length > 0) {
+                lines.push(
+                  '',
+                  'Auto-saved sessions (continue one with `gemini --resume <id>`):',
+                  ...sessions.map(
+                    (session) =>
+                      `  - ${session.sessionId} (${new Date(session.lastUpdated).toLocaleString()}, ${session.turnCount} turn(s), ${session.model}): ${truncatePrompt(session.firstPrompt)}`,
+                  ),
+                );
+              }
               addMessage({
                 type: MessageType.INFO,
-                content:
-                  'list of saved conversations: ' +
-                  (await savedChatTags()).join(', '),
+                content: lines.join('\n'),
                 timestamp: new Date(),
               });
               return;
+            }
+            case 'export': {
+              const [formatArg, ...pathParts] = tag.split(/\s+/);
+              const format = parseExportFormat(formatArg);
+              if (!format) {
+                addMessage({
+                  type: MessageType.ERROR,
+                  content:
+                    'Missing or unknown format. Usage: /chat export <markdown|html|json> [path]',
+                  timestamp: new Date(),
+                });
+                return;
+              }
+              const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+              const filePath = path.resolve(
+                config!.getTargetDir(),
+                pathParts.join(' ') ||
+                  `gemini-conversation-${timestamp}.${EXPORT_FORMATS[format].extension}`,
+              );
+              try {
+                await fs.writeFile(
+                  filePath,
+                  renderConversation(format, {
+                    exportedAt: new Date().toISOString(),
+                    model: config!.getModel(),
+                    history: chat.getHistory(),
+                    uiHistory: history,
+                  }),
+                  'utf-8',
+                );
+                addMessage({
+                  type: MessageType.INFO,
+                  content: `Conversation exported to ${filePath}.`,
+                  timestamp: new Date(),
+                });
+              } catch (e) {
+                addMessage({
+                  type: MessageType.ERROR,
+                  content: `Failed to export conversation: ${e instanceof Error ? e.message : String(e)}`,
+                  timestamp: new Date(),
+                });
+              }
+              return;
+            }
+            case 'import': {
+              if (!tag) {
+                addMessage({
+                  type: MessageType.ERROR,
+                  content: 'Missing path. Usage: /chat import <path>',
+                  timestamp: new Date(),
+                });
+                return;
+              }
+              const filePath = path.resolve(config!.getTargetDir(), tag);
+              let conversation: ConversationExport;
+              try {
+                conversation = parseConversationExport(
+                  await fs.readFile(filePath, 'utf-8'),
+                );
+              } catch (e) {
+                addMessage({
+                  type: MessageType.ERROR,
+                  content: `Failed to import conversation from ${filePath}: ${e instanceof Error ? e.message : String(e)}`,
+                  timestamp: new Date(),
+                });
+                return;
+              }
+              config!.getGeminiClient().setHistory(conversation.history);
+              config!.getGeminiClient().getConversationBranches().reset();
+              clearItems();
+              loadHistory(conversation.uiHistory);
+              console.clear();
+              refreshStatic();
+              addMessage({
+                type: MessageType.INFO,
+                content: `Imported conversation from ${filePath}.`,
+                timestamp: new Date(),
+              });
+              return;
+            }
+            case 'fork': {
+              const geminiClient = config!.getGeminiClient();
+              const branches = geminiClient.getConversationBranches();
+              const turns = branches.getTurns();
+              const [turnArg, ...flags] = tag.split(/\s+/);
+              if (!turnArg) {
+                addMessage({
+                  type: MessageType.INFO,
+                  content:
+                    turns.length > 0
+                      ? [
+                          'Turns in the current branch:',
+                          ...turns.map(
+                            (turn, i) =>
+                              `  ${i + 1}. ${truncatePrompt(turn.prompt)}`,
+                          ),
+                          '',
+                          'Usage: /chat fork <turn> [--restore-files]',
+                        ].join('\n')
+                      : 'There are no turns to fork from yet.',
+                  timestamp: new Date(),
+                });
+                return;
+              }
+              const turnNumber = Number(turnArg);
+              const checkpoint = turns[turnNumber - 1];
+              if (!Number.isInteger(turnNumber) || !checkpoint) {
+                addMessage({
+                  type: MessageType.ERROR,
+                  content: `Invalid turn: ${turnArg}. The current branch has ${turns.length} turn(s).`,
+                  timestamp: new Date(),
+                });
+                return;
+              }
+              const restoreFiles = flags.includes('--restore-files');
+              if (restoreFiles && !checkpoint.commitHash) {
+                addMessage({
+                  type: MessageType.ERROR,
+                  content: `No file snapshot was taken before turn ${turnNumber}. Enable checkpointing to restore files when forking.`,
+                  timestamp: new Date(),
+                });
+                return;
+              }
+              const previousBranchId = branches.getActiveId();
+              branches.fork(turnNumber, {
+                history: chat.getHistory(),
+                uiHistory: history,
+              });
+              geminiClient.setHistory(checkpoint.history);
+              clearItems();
+              loadHistory(history.slice(0, checkpoint.uiHistoryLength));
+              console.clear();
+              refreshStatic();
+              const lines = [
+                `Rewound the conversation to before turn ${turnNumber}: ${truncatePrompt(checkpoint.prompt)}`,
+                `The previous conversation is kept as branch ${previousBranchId}. Use /chat branches to switch back.`,
+              ];
+              if (restoreFiles) {
+                try {
+                  await gitService?.restoreProjectFromSnapshot(
+                    checkpoint.commitHash!,
+                  );
+                  lines.push(
+                    'Restored the project files to their state before the turn.',
+                  );
+                } catch (e) {
+                  addMessage({
+                    type: MessageType.ERROR,
+                    content: `Failed to restore the project files: ${e instanceof Error ? e.message : String(e)}`,
+                    timestamp: new Date(),
+                  });
+                }
+              }
+              addMessage({
+                type: MessageType.INFO,
+                content: lines.join('\n'),
+                timestamp: new Date(),
+              });
+              return;
+            }
+            case 'branches': {
+              const geminiClient = config!.getGeminiClient();
+              const branches = geminiClient.getConversationBranches();
+              if (!tag) {
+                addMessage({
+                  type: MessageType.INFO,
+                  content: [
+                    'Conversation branches:',
+                    ...branches.list().map((branch) => {
+                      const origin = branch.forkedFrom
+                        ? `, forked from branch ${branch.forkedFrom.id} before turn ${branch.forkedFrom.turn}`
+                        : '';
+                      const lastPrompt = branch.lastPrompt
+                        ? `: ${truncatePrompt(branch.lastPrompt)}`
+                        : '';
+                      return `  ${branch.isActive ? '*' : '-'} ${branch.id} (${branch.turnCount} turn(s)${origin})${lastPrompt}`;
+                    }),
+                    '',
+                    'Switch with /chat branches <id>.',
+                  ].join('\n'),
+                  timestamp: new Date(),
+                });
+                return;
+              }
+              let state;
+              try {
+                state = branches.switchTo(Number(tag), {
+                  history: chat.getHistory(),
+                  uiHistory: history,
+                });
+              } catch (e) {
+                addMessage({
+                  type: MessageType.ERROR,
+                  content: e instanceof Error ? e.message : String(e),
+                  timestamp: new Date(),
+                });
+                return;
+              }
+              geminiClient.setHistory(state.history);
+              clearItems();
+              loadHistory(state.uiHistory as HistoryItem[]);
+              console.clear();
+              refreshStatic();
+              addMessage({
+                type: MessageType.INFO,
+                content: `Switched to branch ${tag}. Project files were not changed.`,
+                timestamp: new Date(),
+              });
+              return;
+            }
             default:
               addMessage({
                 type: MessageType.ERROR,
-                content: `Unknown /chat command: ${subCommand}. Available: list, save, resume`,
+                content: `Unknown /chat command: ${subCommand}. Available: list, save, resume, export, import, fork, branches`,
                 timestamp: new Date(),
               });
               return;
@@ -858,8 +1096,30 @@ export const useSlashCommandProcessor = (
       {
         name: 'compress',
         altName: 'summarize',
-        description: 'Compresses the context by replacing it with a summary.',
-        action: async (_mainCommand, _subCommand, _args) => {
+        description:
+          'Compresses the context by replacing it with a summary. Use --preview to see what would change.',
+        action: async (_mainCommand, subCommand, _args) => {
+          if (subCommand === '--preview') {
+            try {
+              const plan = await config!
+                .getGeminiClient()!
+                .previewCompression();
+              addMessage({
+                type: MessageType.INFO,
+                content: plan
+                  ? formatCompressionPreview(plan)
+                  : 'There is nothing to compress.',
+                timestamp: new Date(),
+              });
+            } catch (e) {
+              addMessage({
+                type: MessageType.ERROR,
+                content: `Failed to preview compression: ${e instanceof Error ? e.message : String(e)}`,
+                timestamp: new Date(),
+              });
+            }
+            return;
+          }
           if (pendingCompressionItemRef.current !== null) {
             addMessage({
               type: MessageType.ERROR,
@@ -1052,6 +1312,7 @@ export const useSlashCommandProcessor = (
     setPendingCompressionItem,
     clearItems,
     refreshStatic,
+    history,
   ]);
 
   const handleSlashCommand = useCallback(
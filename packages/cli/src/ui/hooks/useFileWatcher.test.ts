@@ -0,0 +1,105 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import {
+  Config,
+  FileWatcherOptions,
+  FileWatcherService,
+} from '@google/gemini-cli-core';
+import { useFileWatcher } from './useFileWatcher.js';
+import { LoadedSettings } from '../../config/settings.js';
+import { MessageType } from '../types.js';
+import { loadMcpServers } from '../../config/config.js';
+
+const mockStart = vi.fn();
+const mockStop = vi.fn();
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('@google/gemini-cli-core')>();
+  return {
+    ...actual,
+    FileWatcherService: vi.fn(() => ({ start: mockStart, stop: mockStop })),
+  };
+});
+
+vi.mock('../../config/config.js', () => ({
+  loadMcpServers: vi.fn(),
+}));
+
+describe('useFileWatcher', () => {
+  const config = {
+    getTargetDir: () => '/project',
+    getGeminiMdFileCount: () => 3,
+    getActiveExtensions: () => [{ name: 'docs-extension', version: '1.0.0' }],
+    getAllowedMcpServerNames: () => ['docs'],
+  } as unknown as Config;
+  const settings = {
+    system: { path: '/etc/gemini-cli/settings.json' },
+    user: { path: '/home/user/.gemini/settings.json' },
+    workspace: { path: '/project/.gemini/settings.json' },
+  } as unknown as LoadedSettings;
+  const addItem = vi.fn();
+  const onMemoryChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const getOptions = () =>
+    (FileWatcherService as unknown as Mock).mock
+      .calls[0][1] as FileWatcherOptions;
+
+  it('should watch the settings files while mounted', () => {
+    const { unmount } = renderHook(() =>
+      useFileWatcher(config, settings, addItem, onMemoryChange),
+    );
+
+    expect(FileWatcherService).toHaveBeenCalledWith(config, expect.anything());
+    expect(getOptions().settingsPaths).toEqual([
+      '/etc/gemini-cli/settings.json',
+      '/home/user/.gemini/settings.json',
+      '/project/.gemini/settings.json',
+    ]);
+    expect(mockStart).toHaveBeenCalled();
+
+    unmount();
+
+    expect(mockStop).toHaveBeenCalled();
+  });
+
+  it('should show what was reloaded and update the context file count', () => {
+    renderHook(() => useFileWatcher(config, settings, addItem, onMemoryChange));
+
+    getOptions().onReload('Reloaded memory.');
+    getOptions().onError!('Error reloading.');
+
+    expect(onMemoryChange).toHaveBeenCalledWith(3);
+    expect(addItem).toHaveBeenCalledWith(
+      { type: MessageType.INFO, text: 'Reloaded memory.' },
+      expect.any(Number),
+    );
+    expect(addItem).toHaveBeenCalledWith(
+      { type: MessageType.ERROR, text: 'Error reloading.' },
+      expect.any(Number),
+    );
+  });
+
+  it('should reload the MCP servers that the session allows', async () => {
+    vi.mocked(loadMcpServers).mockReturnValue({});
+    renderHook(() => useFileWatcher(config, settings, addItem, onMemoryChange));
+
+    await getOptions().loadMcpServers!();
+
+    expect(loadMcpServers).toHaveBeenCalledWith(
+      '/project',
+      ['docs-extension'],
+      ['docs'],
+    );
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect } from 'react';
+import { Config, FileWatcherService } from '@google/gemini-cli-core';
+import { LoadedSettings } from '../../config/settings.js';
+import { loadMcpServers } from '../../config/config.js';
+import { UseHistoryManagerReturn } from './useHistoryManager.js';
+import { MessageType } from '../types.js';
+
+/**
+ * Reloads the user memory, the file filtering and the MCP servers while the
+ * UI is open, whenever the context files, ignore files or settings files they
+ * come from change, and tells the user what was reloaded.
+ */
+export function useFileWatcher(
+  config: Config,
+  settings: LoadedSettings,
+  addItem: UseHistoryManagerReturn['addItem'],
+  onMemoryChange: (fileCount: number) => void,
+): void {
+  useEffect(() => {
+    const watcher = new FileWatcherService(config, {
+      settingsPaths: [
+        settings.system.path,
+        settings.user.path,
+        settings.workspace.path,
+      ],
+      loadMcpServers: async () =>
+        loadMcpServers(
+          config.getTargetDir(),
+          config.getActiveExtensions().map((extension) => extension.name),
+          config.getAllowedMcpServerNames(),
+        ),
+      onReload: (message) => {
+        onMemoryChange(config.getGeminiMdFileCount());
+        addItem({ type: MessageType.INFO, text: message }, Date.now());
+      },
+      onError: (message) => {
+        addItem({ type: MessageType.ERROR, text: message }, Date.now());
+      },
+    });
+    watcher.start();
+    return () => watcher.stop();
+  }, [config, settings, addItem, onMemoryChange]);
+}
@@ -33,6 +33,7 @@ const mockSendMessageStream = vi
   .fn()
   .mockReturnValue((async function* () {})());
 const mockStartChat = vi.fn();
+const mockRecordTurn = vi.fn();
 
 const MockedGeminiClientClass = vi.hoisted(() =>
   vi.fn().mockImplementation(function (this: any, _config: any) {
@@ -40,6 +41,8 @@ const MockedGeminiClientClass = vi.hoisted(() =>
     this.startChat = mockStartChat;
     this.sendMessageStream = mockSendMessageStream;
     this.addHistory = vi.fn();
+    this.getHistory = vi.fn(() => []);
+    this.getConversationBranches = () => ({ recordTurn: mockRecordTurn });
   }),
 );
 
@@ -1045,6 +1048,34 @@ describe('useGeminiStream', () => {
     });
   });
 
+  describe('Conversation Branches', () => {
+    it('should record a checkpoint when the user starts a turn', async () => {
+      const { result } = renderTestHook();
+
+      await act(async () => {
+        await result.current.submitQuery('  Fix the tests  ');
+      });
+
+      expect(mockRecordTurn).toHaveBeenCalledWith({
+        prompt: 'Fix the tests',
+        history: [],
+        uiHistoryLength: 0,
+        commitHash: undefined,
+      });
+    });
+
+    it('should not record a checkpoint for slash commands', async () => {
+      mockHandleSlashCommand.mockResolvedValue({ type: 'handled' });
+      const { result } = renderTestHook();
+
+      await act(async () => {
+        await result.current.submitQuery('/help');
+      });
+
+      expect(mockRecordTurn).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Memory Refresh on save_memory', () => {
     it('should call performMemoryRefresh when a save_memory tool call completes successfully', async () => {
       const mockPerformMemoryRefresh = vi.fn();
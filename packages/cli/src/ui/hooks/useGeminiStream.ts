@@ -488,6 +488,35 @@ export const useGeminiStream = (
     ],
   );
 
+  /**
+   * Remembers the state before a user turn, so that `/chat fork` can rewind
+   * the conversation (and with checkpointing, the project files) to it.
+   */
+  const recordTurnCheckpoint = useCallback(
+    async (prompt: string, uiHistoryLength: number) => {
+      let commitHash: string | undefined;
+      if (config.getCheckpointingEnabled()) {
+        try {
+          commitHash =
+            (await gitService?.createFileSnapshot(
+              `Snapshot before prompt: ${prompt}`,
+            )) || (await gitService?.getCurrentCommitHash());
+        } catch (error) {
+          onDebugMessage(
+            `Failed to create snapshot before the turn: ${getErrorMessage(error)}`,
+          );
+        }
+      }
+      geminiClient.getConversationBranches().recordTurn({
+        prompt,
+        history: geminiClient.getHistory(),
+        uiHistoryLength,
+        commitHash,
+      });
+    },
+    [config, gitService, geminiClient, onDebugMessage],
+  );
+
   const submitQuery = useCallback(
     async (
       query: PartListUnion,
@@ -531,6 +560,9 @@ export const useGeminiStream = (
 
       if (!options?.isContinuation) {
         startNewPrompt();
+        if (typeof query === 'string') {
+          await recordTurnCheckpoint(query.trim(), history.length);
+        }
       }
 
       setIsResponding(true);
@@ -593,6 +625,8 @@ export const useGeminiStream = (
       config,
       startNewPrompt,
       getPromptCount,
+      recordTurnCheckpoint,
+      history,
     ],
   );
 
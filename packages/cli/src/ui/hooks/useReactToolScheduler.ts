@@ -250,6 +250,7 @@ export function mapToDisplay(
             status: mapCoreStatusToDisplayStatus(trackedCall.status),
             resultDisplay: trackedCall.response.resultDisplay,
             confirmationDetails: undefined,
+            verification: trackedCall.response.verification,
           };
         case 'error':
           return {
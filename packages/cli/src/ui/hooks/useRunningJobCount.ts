@@ -0,0 +1,23 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { JobManager } from '@google/gemini-cli-core';
+
+const countRunningJobs = (jobManager: JobManager) =>
+  jobManager.list().filter((job) => job.status === 'running').length;
+
+/** The number of background jobs that are running, kept up to date. */
+export function useRunningJobCount(jobManager: JobManager): number {
+  const [count, setCount] = useState(() => countRunningJobs(jobManager));
+
+  useEffect(() => {
+    setCount(countRunningJobs(jobManager));
+    return jobManager.subscribe(() => setCount(countRunningJobs(jobManager)));
+  }, [jobManager]);
+
+  return count;
+}
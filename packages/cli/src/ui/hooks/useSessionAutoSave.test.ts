@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { Config, SavedSession } from '@google/gemini-cli-core';
+import { useSessionAutoSave } from './useSessionAutoSave.js';
+import { HistoryItem, MessageType, StreamingState } from '../types.js';
+
+describe('useSessionAutoSave', () => {
+  const chatHistory = [{ role: 'user', parts: [{ text: 'Hello' }] }];
+  const history: HistoryItem[] = [
+    { id: 1, type: MessageType.USER, text: 'Hello' },
+    { id: 2, type: MessageType.GEMINI, text: 'Hi!' },
+  ];
+  let mockSave: ReturnType<typeof vi.fn>;
+  let resumedSession: SavedSession | undefined;
+  let config: Config;
+
+  beforeEach(() => {
+    mockSave = vi.fn().mockResolvedValue(undefined);
+    resumedSession = undefined;
+    config = {
+      getResumedSession: () => resumedSession,
+      getGeminiClient: () => ({
+        getChat: () => ({ getHistory: () => chatHistory }),
+      }),
+      getSessionStore: () => ({ save: mockSave }),
+      getSessionId: () => 'session-1',
+      getModel: () => 'test-model',
+    } as unknown as Config;
+  });
+
+  it('should save the session when a turn completes', () => {
+    const { rerender } = renderHook(
+      ({ streamingState }) =>
+        useSessionAutoSave(config, history, vi.fn(), streamingState),
+      { initialProps: { streamingState: StreamingState.Responding } },
+    );
+    expect(mockSave).not.toHaveBeenCalled();
+
+    rerender({ streamingState: StreamingState.Idle });
+
+    expect(mockSave).toHaveBeenCalledTimes(1);
+    expect(mockSave).toHaveBeenCalledWith({
+      metadata: {
+        sessionId: 'session-1',
+        lastUpdated: expect.any(String),
+        firstPrompt: 'Hello',
+        turnCount: 1,
+        model: 'test-model',
+        resumedFrom: undefined,
+      },
+      history: chatHistory,
+      uiHistory: history,
+    });
+  });
+
+  it('should not save a session without user prompts', () => {
+    renderHook(() =>
+      useSessionAutoSave(
+        config,
+        [{ id: 1, type: MessageType.INFO, text: 'Welcome' }],
+        vi.fn(),
+        StreamingState.Idle,
+      ),
+    );
+
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+
+  it('should restore the UI history of a resumed session without saving it again', () => {
+    resumedSession = {
+      metadata: {
+        sessionId: 'previous-session',
+        lastUpdated: '2025-07-01T10:00:00.000Z',
+        firstPrompt: 'Hello',
+        turnCount: 1,
+        model: 'test-model',
+      },
+      history: chatHistory,
+      uiHistory: history,
+    };
+    const loadHistory = vi.fn();
+
+    const { rerender } = renderHook(
+      ({ currentHistory }) =>
+        useSessionAutoSave(
+          config,
+          currentHistory,
+          loadHistory,
+          StreamingState.Idle,
+        ),
+      { initialProps: { currentHistory: [] as HistoryItem[] } },
+    );
+    expect(loadHistory).toHaveBeenCalledWith(history);
+
+    rerender({ currentHistory: history });
+    expect(mockSave).not.toHaveBeenCalled();
+
+    const newHistory: HistoryItem[] = [
+      ...history,
+      { id: 3, type: MessageType.USER, text: 'Continue' },
+    ];
+    rerender({ currentHistory: newHistory });
+    expect(mockSave).toHaveBeenCalledWith(
+      expect.objectContaining({
+        metadata: expect.objectContaining({
+          turnCount: 2,
+          resumedFrom: 'previous-session',
+        }),
+      }),
+    );
+  });
+});
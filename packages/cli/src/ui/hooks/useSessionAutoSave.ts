@@ -0,0 +1,81 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useRef } from 'react';
+import { Config } from '@google/gemini-cli-core';
+import {
+  HistoryItem,
+  HistoryItemUser,
+  MessageType,
+  StreamingState,
+} from '../types.js';
+
+/**
+ * Restores the UI history of a resumed session on mount, and saves the
+ * session whenever a turn completes so that it can be resumed with
+ * `--resume` after the CLI exits or crashes.
+ */
+export function useSessionAutoSave(
+  config: Config,
+  history: HistoryItem[],
+  loadHistory: (newHistory: HistoryItem[]) => void,
+  streamingState: StreamingState,
+): void {
+  const savedHistoryRef = useRef<HistoryItem[] | null>(null);
+
+  useEffect(() => {
+    const resumedSession = config.getResumedSession();
+    if (resumedSession) {
+      const uiHistory = resumedSession.uiHistory as HistoryItem[];
+      savedHistoryRef.current = uiHistory;
+      loadHistory(uiHistory);
+    }
+  }, [config, loadHistory]);
+
+  useEffect(() => {
+    if (
+      streamingState !== StreamingState.Idle ||
+      history === savedHistoryRef.current
+    ) {
+      return;
+    }
+    const userPrompts = history.filter(
+      (item): item is HistoryItem & HistoryItemUser =>
+        item.type === MessageType.USER,
+    );
+    const geminiClient = config.getGeminiClient();
+    if (userPrompts.length === 0 || !geminiClient) {
+      return;
+    }
+
+    let chatHistory;
+    try {
+      chatHistory = geminiClient.getChat().getHistory(true);
+    } catch {
+      // The chat is not initialized yet, e.g. while authenticating.
+      return;
+    }
+
+    savedHistoryRef.current = history;
+    config
+      .getSessionStore()
+      .save({
+        metadata: {
+          sessionId: config.getSessionId(),
+          lastUpdated: new Date().toISOString(),
+          firstPrompt: userPrompts[0].text,
+          turnCount: userPrompts.length,
+          model: config.getModel(),
+          resumedFrom: config.getResumedSession()?.metadata.sessionId,
+        },
+        history: chatHistory,
+        uiHistory: history,
+      })
+      .catch((error) => {
+        console.debug('Failed to auto-save the session:', error);
+      });
+  }, [config, history, streamingState]);
+}
@@ -24,6 +24,8 @@ import {
   ToolCall, // Import from core
   Status as ToolCallStatusType,
   ApprovalMode, // Import from core
+  PermissionPolicyEngine,
+  DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
 } from '@google/gemini-cli-core';
 import {
   HistoryItemWithoutId,
@@ -45,11 +47,15 @@ const mockToolRegistry = {
   getTool: vi.fn(),
 };
 
+const policyEngine = new PermissionPolicyEngine('/test/dir');
+
 const mockConfig = {
   getToolRegistry: vi.fn(() => mockToolRegistry as unknown as ToolRegistry),
   getApprovalMode: vi.fn(() => ApprovalMode.DEFAULT),
   getUsageStatisticsEnabled: () => true,
   getDebugMode: () => false,
+  getPolicyEngine: () => policyEngine,
+  getMaxConcurrentToolCalls: () => DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
 };
 
 const mockTool: Tool = {
@@ -50,6 +50,8 @@ export interface IndividualToolCallDisplay {
   status: ToolCallStatus;
   confirmationDetails: ToolCallConfirmationDetails | undefined;
   renderOutputAsMarkdown?: boolean;
+  /** Results of the verification commands that ran after the call. */
+  verification?: string;
 }
 
 export interface CompressionProps {
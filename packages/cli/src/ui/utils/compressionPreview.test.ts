@@ -0,0 +1,60 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CompressionStrategy } from '@google/gemini-cli-core';
+import { formatCompressionPreview } from './compressionPreview.js';
+
+describe('formatCompressionPreview', () => {
+  it('should list what would be elided, summarized and kept', () => {
+    const preview = formatCompressionPreview({
+      strategy: CompressionStrategy.PRUNE_TOOL_OUTPUTS,
+      originalTokenCount: 9000,
+      thresholdTokenCount: 7000.5,
+      summarized: [
+        { role: 'user', parts: [{ text: 'Read   the\nfile.' }] },
+        {
+          role: 'model',
+          parts: [{ functionCall: { name: 'read_file', args: {} } }],
+        },
+      ],
+      dropped: [],
+      prunedToolOutputs: [{ index: 2, name: 'read_file', characters: 5013 }],
+      kept: [{ role: 'user', parts: [{ text: 'Thanks.' }] }],
+    });
+
+    expect(preview).toBe(
+      [
+        'Compression preview (strategy: pruneToolOutputs)',
+        'The history is 9000 tokens. It is compressed automatically at 7000 tokens.',
+        'Tool outputs that would be elided (1):',
+        '  - read_file (5013 characters)',
+        'Messages that would be summarized (2):',
+        '  - user: Read the file.',
+        '  - model: [call read_file]',
+        'Messages that would be kept: 1',
+      ].join('\n'),
+    );
+  });
+
+  it('should truncate long lists and messages', () => {
+    const preview = formatCompressionPreview({
+      strategy: CompressionStrategy.SLIDING_WINDOW,
+      originalTokenCount: 100,
+      thresholdTokenCount: 700,
+      dropped: Array.from({ length: 12 }, () => ({
+        role: 'user',
+        parts: [{ text: 'x'.repeat(100) }],
+      })),
+      prunedToolOutputs: [],
+      kept: [],
+    });
+
+    expect(preview).toContain('Messages that would be dropped (12):');
+    expect(preview).toContain(`  - user: ${'x'.repeat(77)}...`);
+    expect(preview).toContain('  ... and 2 more');
+  });
+});
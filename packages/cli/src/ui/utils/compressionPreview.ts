@@ -0,0 +1,73 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { type Content } from '@google/genai';
+import { type CompressionPlan } from '@google/gemini-cli-core';
+
+const MAX_LISTED_ITEMS = 10;
+const MAX_MESSAGE_LENGTH = 80;
+
+const describeContent = (content: Content): string => {
+  const text = (content.parts ?? [])
+    .map((part) => {
+      if (part.text) {
+        return part.text;
+      }
+      if (part.functionCall) {
+        return `[call ${part.functionCall.name}]`;
+      }
+      if (part.functionResponse) {
+        return `[response of ${part.functionResponse.name}]`;
+      }
+      return '[data]';
+    })
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const truncated =
+    text.length > MAX_MESSAGE_LENGTH
+      ? `${text.slice(0, MAX_MESSAGE_LENGTH - 3)}...`
+      : text;
+  return `${content.role ?? 'unknown'}: ${truncated}`;
+};
+
+const formatList = (title: string, items: string[]): string[] => {
+  if (items.length === 0) {
+    return [];
+  }
+  const lines = [`${title} (${items.length}):`];
+  for (const item of items.slice(0, MAX_LISTED_ITEMS)) {
+    lines.push(`  - ${item}`);
+  }
+  if (items.length > MAX_LISTED_ITEMS) {
+    lines.push(`  ... and ${items.length - MAX_LISTED_ITEMS} more`);
+  }
+  return lines;
+};
+
+/**
+ * Describes what compressing the history would do, for `/compress --preview`.
+ */
+export const formatCompressionPreview = (plan: CompressionPlan): string =>
+  [
+    `Compression preview (strategy: ${plan.strategy})`,
+    `The history is ${plan.originalTokenCount} tokens. It is compressed automatically at ${Math.floor(plan.thresholdTokenCount)} tokens.`,
+    ...formatList(
+      'Tool outputs that would be elided',
+      plan.prunedToolOutputs.map(
+        (output) => `${output.name} (${output.characters} characters)`,
+      ),
+    ),
+    ...formatList(
+      'Messages that would be summarized',
+      (plan.summarized ?? []).map(describeContent),
+    ),
+    ...formatList(
+      'Messages that would be dropped',
+      plan.dropped.map(describeContent),
+    ),
+    `Messages that would be kept: ${plan.kept.length}`,
+  ].join('\n');
@@ -25,6 +25,7 @@ describe('calculateErrorRate', () => {
         thoughts: 0,
         tool: 0,
       },
+      purposes: {},
     };
     expect(calculateErrorRate(metrics)).toBe(0);
   });
@@ -40,6 +41,7 @@ describe('calculateErrorRate', () => {
         thoughts: 0,
         tool: 0,
       },
+      purposes: {},
     };
     expect(calculateErrorRate(metrics)).toBe(20);
   });
@@ -57,6 +59,7 @@ describe('calculateAverageLatency', () => {
         thoughts: 0,
         tool: 0,
       },
+      purposes: {},
     };
     expect(calculateAverageLatency(metrics)).toBe(0);
   });
@@ -72,6 +75,7 @@ describe('calculateAverageLatency', () => {
         thoughts: 0,
         tool: 0,
       },
+      purposes: {},
     };
     expect(calculateAverageLatency(metrics)).toBe(150);
   });
@@ -89,6 +93,7 @@ describe('calculateCacheHitRate', () => {
         thoughts: 0,
         tool: 0,
       },
+      purposes: {},
     };
     expect(calculateCacheHitRate(metrics)).toBe(0);
   });
@@ -104,6 +109,7 @@ describe('calculateCacheHitRate', () => {
         thoughts: 0,
         tool: 0,
       },
+      purposes: {},
     };
     expect(calculateCacheHitRate(metrics)).toBe(25);
   });
@@ -153,6 +159,7 @@ describe('computeSessionStats', () => {
             thoughts: 0,
             tool: 0,
           },
+          purposes: {},
         },
       },
       tools: {
@@ -187,6 +194,7 @@ describe('computeSessionStats', () => {
             thoughts: 0,
             tool: 0,
           },
+          purposes: {},
         },
       },
       tools: {
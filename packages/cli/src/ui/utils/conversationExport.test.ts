@@ -0,0 +1,106 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseConversationExport,
+  parseExportFormat,
+  renderConversation,
+} from './conversationExport.js';
+import { HistoryItem, MessageType, ToolCallStatus } from '../types.js';
+
+const uiHistory: HistoryItem[] = [
+  { id: 1, type: MessageType.USER, text: 'Fix the <b>bug</b>' },
+  { id: 2, type: 'gemini', text: 'Sure, editing the file.' },
+  {
+    id: 3,
+    type: 'tool_group',
+    tools: [
+      {
+        callId: 'call-1',
+        name: 'Edit',
+        description: 'src/app.ts',
+        status: ToolCallStatus.Success,
+        resultDisplay: {
+          fileName: 'app.ts',
+          fileDiff: '-const a = 1;\n+const a = 2;',
+        },
+        confirmationDetails: undefined,
+      },
+      {
+        callId: 'call-2',
+        name: 'Shell',
+        description: 'npm test',
+        status: ToolCallStatus.Error,
+        resultDisplay: 'Output with ``` fences',
+        confirmationDetails: undefined,
+      },
+    ],
+  },
+  { id: 4, type: MessageType.ERROR, text: 'Something failed' },
+  { id: 5, type: 'stats', duration: '1s' },
+];
+
+const conversation = {
+  exportedAt: '2025-07-01T10:00:00.000Z',
+  model: 'gemini-2.5-pro',
+  history: [{ role: 'user', parts: [{ text: 'Fix the <b>bug</b>' }] }],
+  uiHistory,
+};
+
+describe('conversationExport', () => {
+  it('should parse format names', () => {
+    expect(parseExportFormat('md')).toBe('markdown');
+    expect(parseExportFormat('HTML')).toBe('html');
+    expect(parseExportFormat('json')).toBe('json');
+    expect(parseExportFormat('pdf')).toBeUndefined();
+    expect(parseExportFormat(undefined)).toBeUndefined();
+  });
+
+  it('should render Markdown', () => {
+    const markdown = renderConversation('markdown', conversation);
+
+    expect(markdown).toContain('## User\n\nFix the <b>bug</b>');
+    expect(markdown).toContain('## Gemini\n\nSure, editing the file.');
+    expect(markdown).toContain('### Tool: Edit (success)\n\nsrc/app.ts');
+    expect(markdown).toContain('```diff\n-const a = 1;\n+const a = 2;\n```');
+    // Fences are longer than any backtick run in the output.
+    expect(markdown).toContain('````\nOutput with ``` fences\n````');
+    expect(markdown).toContain('> **Error:** Something failed');
+    expect(markdown).not.toContain('1s');
+  });
+
+  it('should render a self-contained HTML page', () => {
+    const html = renderConversation('html', conversation);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<style>');
+    expect(html).toContain('Fix the &lt;b&gt;bug&lt;/b&gt;');
+    expect(html).toContain('<span class="added">+const a = 2;</span>');
+    expect(html).toContain('<div class="tool error">');
+  });
+
+  it('should round-trip the JSON format', () => {
+    const json = renderConversation('json', conversation);
+
+    expect(parseConversationExport(json)).toEqual({
+      version: 1,
+      ...conversation,
+    });
+  });
+
+  it('should reject files that are not exported conversations', () => {
+    expect(() => parseConversationExport('not json')).toThrow(
+      'The file is not valid JSON.',
+    );
+    expect(() => parseConversationExport('{"history": []}')).toThrow(
+      'The file is not a conversation exported as JSON.',
+    );
+    expect(() =>
+      parseConversationExport('{"version": 2, "history": [], "uiHistory": []}'),
+    ).toThrow('Unsupported conversation export version: 2.');
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { type Content } from '@google/genai';
+import {
+  HistoryItem,
+  IndividualToolCallDisplay,
+  ToolCallStatus,
+} from '../types.js';
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string }> = {
+  markdown: { extension: 'md' },
+  html: { extension: 'html' },
+  json: { extension: 'json' },
+};
+
+const CONVERSATION_EXPORT_VERSION = 1;
+
+/** The lossless JSON format written by `/chat export json`. */
+export interface ConversationExport {
+  version: number;
+  exportedAt: string;
+  model: string;
+  /** The history sent to the model. */
+  history: Content[];
+  /** The history shown by the UI. */
+  uiHistory: HistoryItem[];
+}
+
+export const parseExportFormat = (
+  format: string | undefined,
+): ExportFormat | undefined => {
+  switch (format?.toLowerCase()) {
+    case 'markdown':
+    case 'md':
+      return 'markdown';
+    case 'html':
+      return 'html';
+    case 'json':
+      return 'json';
+    default:
+      return undefined;
+  }
+};
+
+const TOOL_STATUS_LABELS: Record<ToolCallStatus, string> = {
+  [ToolCallStatus.Pending]: 'pending',
+  [ToolCallStatus.Canceled]: 'canceled',
+  [ToolCallStatus.Confirming]: 'awaiting confirmation',
+  [ToolCallStatus.Executing]: 'executing',
+  [ToolCallStatus.Success]: 'success',
+  [ToolCallStatus.Error]: 'error',
+};
+
+/** Returns a code fence that is longer than any backtick run in the text. */
+const fence = (text: string, language = ''): string => {
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const marker = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${marker}${language}\n${text}\n${marker}`;
+};
+
+const quote = (text: string): string =>
+  text
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n');
+
+const toolToMarkdown = (tool: IndividualToolCallDisplay): string => {
+  const lines = [
+    `### Tool: ${tool.name} (${TOOL_STATUS_LABELS[tool.status]})`,
+    '',
+    tool.description,
+  ];
+  const result = tool.resultDisplay;
+  if (typeof result === 'string' && result.length > 0) {
+    lines.push('', tool.renderOutputAsMarkdown ? result : fence(result));
+  } else if (result && typeof result === 'object') {
+    lines.push(
+      '',
+      `\`${result.fileName}\``,
+      '',
+      fence(result.fileDiff, 'diff'),
+    );
+  }
+  return lines.join('\n');
+};
+
+const itemToMarkdown = (item: HistoryItem): string | undefined => {
+  switch (item.type) {
+    case 'user':
+      return `## User\n\n${item.text}`;
+    case 'user_shell':
+      return `## User (shell)\n\n${fence(`$ ${item.text}`, 'sh')}`;
+    case 'gemini':
+      return `## Gemini\n\n${item.text}`;
+    case 'gemini_content':
+      // Continuation of a long Gemini response that was split for rendering.
+      return item.text;
+    case 'info':
+      return quote(`**Info:** ${item.text}`);
+    case 'error':
+      return quote(`**Error:** ${item.text}`);
+    case 'tool_group':
+      return item.tools.map(toolToMarkdown).join('\n\n');
+    case 'compression':
+      return quote(
+        `**Info:** Chat history compressed from ${item.compression.originalTokenCount ?? 'unknown'} to ${item.compression.newTokenCount ?? 'unknown'} tokens.`,
+      );
+    default:
+      // Stats, about and quit items only make sense in the live UI.
+      return undefined;
+  }
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const diffToHtml = (diff: string): string =>
+  diff
+    .split('\n')
+    .map((line) => {
+      const className = line.startsWith('+')
+        ? 'added'
+        : line.startsWith('-')
+          ? 'removed'
+          : '';
+      return className
+        ? `<span class="${className}">${escapeHtml(line)}</span>`
+        : escapeHtml(line);
+    })
+    .join('\n');
+
+const toolToHtml = (tool: IndividualToolCallDisplay): string => {
+  const parts = [
+    `<div class="tool ${tool.status.toLowerCase()}">`,
+    `<div class="tool-header"><strong>${escapeHtml(tool.name)}</strong> <span class="status">${TOOL_STATUS_LABELS[tool.status]}</span></div>`,
+    `<div class="tool-description">${escapeHtml(tool.description)}</div>`,
+  ];
+  const result = tool.resultDisplay;
+  if (typeof result === 'string' && result.length > 0) {
+    parts.push(`<pre>${escapeHtml(result)}</pre>`);
+  } else if (result && typeof result === 'object') {
+    parts.push(
+      `<div class="file-name">${escapeHtml(result.fileName)}</div>`,
+      `<pre class="diff">${diffToHtml(result.fileDiff)}</pre>`,
+    );
+  }
+  parts.push('</div>');
+  return parts.join('\n');
+};
+
+const itemToHtml = (item: HistoryItem): string | undefined => {
+  switch (item.type) {
+    case 'user':
+      return `<section class="message user"><h2>User</h2><div class="text">${escapeHtml(item.text)}</div></section>`;
+    case 'user_shell':
+      return `<section class="message user"><h2>User (shell)</h2><pre>$ ${escapeHtml(item.text)}</pre></section>`;
+    case 'gemini':
+      return `<section class="message gemini"><h2>Gemini</h2><div class="text">${escapeHtml(item.text)}</div></section>`;
+    case 'gemini_content':
+      return `<section class="message gemini"><div class="text">${escapeHtml(item.text)}</div></section>`;
+    case 'info':
+      return `<div class="notice info">${escapeHtml(item.text)}</div>`;
+    case 'error':
+      return `<div class="notice error">${escapeHtml(item.text)}</div>`;
+    case 'tool_group':
+      return `<section class="tools">\n${item.tools.map(toolToHtml).join('\n')}\n</section>`;
+    case 'compression':
+      return `<div class="notice info">Chat history compressed from ${item.compression.originalTokenCount ?? 'unknown'} to ${item.compression.newTokenCount ?? 'unknown'} tokens.</div>`;
+    default:
+      return undefined;
+  }
+};
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+h1 { font-size: 1.5rem; }
+h2 { font-size: 1rem; margin: 0 0 0.5rem; }
+.meta { color: #656d76; }
+.message { border-left: 4px solid #d0d7de; padding: 0.5rem 1rem; margin: 1rem 0; }
+.message.user { border-color: #8250df; }
+.message.gemini { border-color: #0969da; }
+.text { white-space: pre-wrap; }
+.tool { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.5rem 1rem; margin: 0.5rem 0; }
+.tool.error, .tool.canceled { border-color: #cf222e; }
+.status, .tool-description, .file-name { color: #656d76; }
+pre { background: #f6f8fa; padding: 0.5rem; overflow-x: auto; white-space: pre-wrap; }
+.added { color: #1a7f37; }
+.removed { color: #cf222e; }
+.notice { padding: 0.25rem 1rem; margin: 0.5rem 0; }
+.notice.info { color: #9a6700; }
+.notice.error { color: #cf222e; }
+`;
+
+export const renderConversation = (
+  format: ExportFormat,
+  conversation: Omit<ConversationExport, 'version'>,
+): string => {
+  const { exportedAt, model, uiHistory } = conversation;
+  switch (format) {
+    case 'markdown':
+      return [
+        '# Gemini CLI conversation',
+        `Exported on ${exportedAt} using ${model}.`,
+        ...uiHistory.map(itemToMarkdown).filter((text) => text !== undefined),
+      ].join('\n\n');
+    case 'html':
+      return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8">',
+        '<title>Gemini CLI conversation</title>',
+        `<style>${HTML_STYLE}</style>`,
+        '</head>',
+        '<body>',
+        '<h1>Gemini CLI conversation</h1>',
+        `<p class="meta">Exported on ${escapeHtml(exportedAt)} using ${escapeHtml(model)}.</p>`,
+        ...uiHistory.map(itemToHtml).filter((html) => html !== undefined),
+        '</body>',
+        '</html>',
+        '',
+      ].join('\n');
+    case 'json':
+      return JSON.stringify(
+        { version: CONVERSATION_EXPORT_VERSION, ...conversation },
+        null,
+        2,
+      );
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+};
+
+/** Parses a conversation written by `/chat export json`. */
+export const parseConversationExport = (json: string): ConversationExport => {
+  let conversation;
+  try {
+    conversation = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (
+    typeof conversation !== 'object' ||
+    conversation === null ||
+    !Array.isArray(conversation.history) ||
+    !Array.isArray(conversation.uiHistory)
+  ) {
+    throw new Error('The file is not a conversation exported as JSON.');
+  }
+  if (conversation.version !== CONVERSATION_EXPORT_VERSION) {
+    throw new Error(
+      `Unsupported conversation export version: ${conversation.version}.`,
+    );
+  }
+  return conversation as ConversationExport;
+};
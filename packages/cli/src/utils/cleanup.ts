@@ -5,8 +5,9 @@
  */
 
 import { promises as fs } from 'fs';
+import { constants } from 'os';
 import { join } from 'path';
-import { getProjectTempDir } from '@google/gemini-cli-core';
+import { Config, getProjectTempDir } from '@google/gemini-cli-core';
 
 export async function cleanupCheckpoints() {
   const tempDir = getProjectTempDir(process.cwd());
@@ -17,3 +18,18 @@ export async function cleanupCheckpoints() {
     // Ignore errors if the directory doesn't exist or fails to delete.
   }
 }
+
+/**
+ * Kills the background jobs and language servers of the session when the CLI
+ * exits, including when its terminal is closed, so that dev servers and
+ * watchers do not outlive it.
+ */
+export function registerProcessCleanup(config: Config) {
+  process.on('exit', () => {
+    config.getJobManager().stopAll();
+    config.getLspManager().killAll();
+  });
+  for (const signal of ['SIGHUP', 'SIGTERM'] as const) {
+    process.on(signal, () => process.exit(128 + constants.signals[signal]));
+  }
+}
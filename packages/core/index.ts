@@ -9,4 +9,5 @@ export {
   DEFAULT_GEMINI_MODEL,
   DEFAULT_GEMINI_FLASH_MODEL,
   DEFAULT_GEMINI_EMBEDDING_MODEL,
+  ModelPurpose,
 } from './src/config/models.js';
@@ -14,6 +14,7 @@ import {
 } from '../telemetry/index.js';
 
 import { loadServerHierarchicalMemory } from '../utils/memoryDiscovery.js';
+import { DEFAULT_GEMINI_FLASH_MODEL, ModelPurpose } from './models.js';
 
 // Mock dependencies that might be called during Config construction or createServerConfig
 vi.mock('../tools/tool-registry', () => {
@@ -208,6 +209,27 @@ describe('Server Config (config.ts)', () => {
     expect(fileService).toBeDefined();
   });
 
+  describe('getModelForPurpose', () => {
+    it('should use the main model unless a purpose is routed', () => {
+      const config = new Config({
+        ...baseParams,
+        modelRouting: { [ModelPurpose.NEXT_SPEAKER]: 'gemini-2.5-flash-lite' },
+      });
+      expect(config.getModelForPurpose(ModelPurpose.CHAT)).toBe(MODEL);
+      expect(config.getModelForPurpose(ModelPurpose.COMPRESSION)).toBe(MODEL);
+      expect(config.getModelForPurpose(ModelPurpose.NEXT_SPEAKER)).toBe(
+        'gemini-2.5-flash-lite',
+      );
+    });
+
+    it('should default edit correction to Flash', () => {
+      const config = new Config(baseParams);
+      expect(config.getModelForPurpose(ModelPurpose.EDIT_CORRECTION)).toBe(
+        DEFAULT_GEMINI_FLASH_MODEL,
+      );
+    });
+  });
+
   describe('Telemetry Settings', () => {
     it('should return default telemetry target if not provided', () => {
       const params: ConfigParameters = {
@@ -283,6 +305,7 @@ describe('Server Config (config.ts)', () => {
       const mockMemoryData = {
         memoryContent: 'new memory content',
         fileCount: 5,
+        filePaths: ['/path/to/GEMINI.md'],
       };
 
       (loadServerHierarchicalMemory as Mock).mockResolvedValue(mockMemoryData);
@@ -298,7 +321,11 @@ describe('Server Config (config.ts)', () => {
 
       expect(config.getUserMemory()).toBe(mockMemoryData.memoryContent);
       expect(config.getGeminiMdFileCount()).toBe(mockMemoryData.fileCount);
-      expect(result).toEqual(mockMemoryData);
+      expect(config.getGeminiMdFilePaths()).toEqual(mockMemoryData.filePaths);
+      expect(result).toEqual({
+        memoryContent: mockMemoryData.memoryContent,
+        fileCount: mockMemoryData.fileCount,
+      });
     });
 
     it('should propagate errors from loadServerHierarchicalMemory', async () => {
@@ -310,4 +337,18 @@ describe('Server Config (config.ts)', () => {
       await expect(config.refreshMemory()).rejects.toThrow(testError);
     });
   });
+
+  describe('reloadFileService', () => {
+    it('should replace the file service and the semantic index that uses it', () => {
+      const config = new Config(baseParams);
+      const fileService = config.getFileService();
+      const semanticIndex = config.getSemanticIndex();
+
+      const reloaded = config.reloadFileService();
+
+      expect(reloaded).not.toBe(fileService);
+      expect(config.getFileService()).toBe(reloaded);
+      expect(config.getSemanticIndex()).not.toBe(semanticIndex);
+    });
+  });
 });
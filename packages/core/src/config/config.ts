@@ -17,7 +17,23 @@ import { ReadFileTool } from '../tools/read-file.js';
 import { GrepTool } from '../tools/grep.js';
 import { GlobTool } from '../tools/glob.js';
 import { EditTool } from '../tools/edit.js';
+import { MultiReplaceTool } from '../tools/multi-replace.js';
+import { ApplyPatchTool } from '../tools/apply-patch.js';
+import { NotebookEditTool } from '../tools/notebook-edit.js';
+import {
+  FindReferencesTool,
+  GoToDefinitionTool,
+  HoverTool,
+  RenameSymbolTool,
+  WorkspaceSymbolsTool,
+} from '../tools/lsp.js';
 import { ShellTool } from '../tools/shell.js';
+import {
+  ReadJobOutputTool,
+  StartJobTool,
+  StopJobTool,
+  WaitForJobOutputTool,
+} from '../tools/jobs.js';
 import { WriteFileTool } from '../tools/write-file.js';
 import { WebFetchTool } from '../tools/web-fetch.js';
 import { ReadManyFilesTool } from '../tools/read-many-files.js';
@@ -42,8 +58,33 @@ import {
 import {
   DEFAULT_GEMINI_EMBEDDING_MODEL,
   DEFAULT_GEMINI_FLASH_MODEL,
+  ModelPurpose,
 } from './models.js';
 import { ClearcutLogger } from '../telemetry/clearcut-logger/clearcut-logger.js';
+import { CassetteConfig } from '../core/recordReplayContentGenerator.js';
+import { ModelCapabilities, ModelRegistry } from '../core/modelRegistry.js';
+import { ChatCompressionSettings } from '../core/compression.js';
+import { SavedSession, SessionStore } from '../services/sessionStore.js';
+import { JobManager } from '../services/jobManager.js';
+import { LspManager } from '../services/lspManager.js';
+import { LanguageServerConfig } from '../services/lspClient.js';
+import {
+  VerificationCommands,
+  VerificationService,
+} from '../services/verificationService.js';
+import { SemanticIndex } from '../services/semanticIndex.js';
+import { SemanticSearchTool } from '../tools/semantic-search.js';
+import { CodeOutlineTool } from '../tools/code-outline.js';
+import {
+  DEFAULT_REPO_MAP_MAX_TOKENS,
+  RepoMapSettings,
+} from '../utils/codeOutline.js';
+import { DEFAULT_MAX_CONCURRENT_TOOL_CALLS } from '../core/toolConcurrency.js';
+import { DEFAULT_MAX_TOOL_OUTPUT_CHARS } from '../utils/toolOutput.js';
+import {
+  PermissionPolicyEngine,
+  PermissionSettings,
+} from '../core/policyEngine.js';
 
 export enum ApprovalMode {
   DEFAULT = 'default',
@@ -51,6 +92,30 @@ export enum ApprovalMode {
   YOLO = 'yolo',
 }
 
+/** How non-interactive runs write their result to stdout. */
+export enum OutputFormat {
+  TEXT = 'text',
+  /** A single JSON document once the run ends. */
+  JSON = 'json',
+  /** One JSON event per line while the run progresses. */
+  STREAM_JSON = 'stream-json',
+}
+
+/**
+ * Which tool calls non-interactive runs execute, since they cannot ask for
+ * confirmation. Permission rules take precedence.
+ */
+export enum HeadlessApprovalPolicy {
+  /** No tool calls run. */
+  NONE = 'none',
+  /** Only tools that read files or search run. */
+  READ_ONLY = 'read-only',
+  /** Read-only tools and tools that edit files run. */
+  EDITS = 'edits',
+  /** All tool calls run. */
+  ALL = 'all',
+}
+
 export interface AccessibilitySettings {
   disableLoadingPhrases?: boolean;
 }
@@ -66,6 +131,27 @@ export interface TelemetrySettings {
   logPrompts?: boolean;
 }
 
+export interface OpenAICompatibleSettings {
+  baseUrl?: string;
+  model?: string;
+  apiKeyEnvVar?: string;
+}
+
+/**
+ * Maps call purposes to the model that should serve them. Purposes that are
+ * not listed use the session's main model, except edit correction, which
+ * defaults to Flash.
+ */
+export type ModelRoutingSettings = Partial<Record<ModelPurpose, string>>;
+
+/** Limits of the calls of a tool. */
+export interface ToolLimits {
+  /** Milliseconds after which a call is stopped. Calls run without limit if unset. */
+  timeout?: number;
+  /** Characters of output that are returned to the model. */
+  maxOutputChars?: number;
+}
+
 export interface ActiveExtension {
   name: string;
   version: string;
@@ -92,6 +178,8 @@ export class MCPServerConfig {
     readonly description?: string,
     readonly includeTools?: string[],
     readonly excludeTools?: string[],
+    // Characters of tool output that are returned to the model
+    readonly maxOutputChars?: number,
   ) {}
 }
 
@@ -122,6 +210,7 @@ export interface ConfigParameters {
   mcpServers?: Record<string, MCPServerConfig>;
   userMemory?: string;
   geminiMdFileCount?: number;
+  geminiMdFilePaths?: string[];
   approvalMode?: ApprovalMode;
   showMemoryUsage?: boolean;
   contextFileName?: string | string[];
@@ -141,7 +230,28 @@ export interface ConfigParameters {
   extensionContextFilePaths?: string[];
   listExtensions?: boolean;
   activeExtensions?: ActiveExtension[];
+  /** The only MCP servers that may be used, by name. All may if unset. */
+  allowedMcpServerNames?: string[];
   noBrowser?: boolean;
+  openAICompatible?: OpenAICompatibleSettings;
+  cassette?: CassetteConfig;
+  models?: Record<string, ModelCapabilities>;
+  modelRouting?: ModelRoutingSettings;
+  chatCompression?: ChatCompressionSettings;
+  /** Id of a saved session to continue, or `latest`. */
+  resume?: string;
+  outputFormat?: OutputFormat;
+  permissions?: PermissionSettings;
+  headlessApprovalPolicy?: HeadlessApprovalPolicy;
+  maxConcurrentToolCalls?: number;
+  /** Limits of the calls of each tool, by tool name. */
+  toolLimits?: Record<string, ToolLimits>;
+  /** Language servers for the code intelligence tools, by name. */
+  languageServers?: Record<string, LanguageServerConfig>;
+  /** Commands that check the files changed by tools, by glob. */
+  verificationCommands?: VerificationCommands;
+  /** The map of top-level symbols sent at the start of a chat. */
+  repoMap?: RepoMapSettings;
 }
 
 export class Config {
@@ -159,9 +269,10 @@ export class Config {
   private readonly toolDiscoveryCommand: string | undefined;
   private readonly toolCallCommand: string | undefined;
   private readonly mcpServerCommand: string | undefined;
-  private readonly mcpServers: Record<string, MCPServerConfig> | undefined;
+  private mcpServers: Record<string, MCPServerConfig> | undefined;
   private userMemory: string;
   private geminiMdFileCount: number;
+  private geminiMdFilePaths: string[];
   private approvalMode: ApprovalMode;
   private readonly showMemoryUsage: boolean;
   private readonly accessibility: AccessibilitySettings;
@@ -181,9 +292,31 @@ export class Config {
   private readonly model: string;
   private readonly extensionContextFilePaths: string[];
   private readonly noBrowser: boolean;
+  private readonly openAICompatible: OpenAICompatibleSettings | undefined;
+  private readonly cassette: CassetteConfig | undefined;
+  private readonly modelRegistry: ModelRegistry;
+  private readonly modelRouting: ModelRoutingSettings;
+  private readonly chatCompression: ChatCompressionSettings | undefined;
+  private readonly resume: string | undefined;
+  private resumedSession: SavedSession | undefined;
+  private sessionStore: SessionStore | undefined;
+  private jobManager: JobManager | undefined;
+  private lspManager: LspManager | undefined;
+  private verificationService: VerificationService | undefined;
+  private semanticIndex: SemanticIndex | undefined;
   private modelSwitchedDuringSession: boolean = false;
+  private readonly outputFormat: OutputFormat;
+  private readonly permissions: PermissionSettings | undefined;
+  private readonly headlessApprovalPolicy: HeadlessApprovalPolicy;
+  private readonly maxConcurrentToolCalls: number;
+  private readonly toolLimits: Record<string, ToolLimits>;
+  private readonly languageServers: Record<string, LanguageServerConfig>;
+  private readonly verificationCommands: VerificationCommands;
+  private readonly repoMap: Required<RepoMapSettings>;
+  private policyEngine: PermissionPolicyEngine | undefined;
   private readonly listExtensions: boolean;
   private readonly _activeExtensions: ActiveExtension[];
+  private readonly allowedMcpServerNames: string[] | undefined;
   flashFallbackHandler?: FlashFallbackHandler;
   private quotaErrorOccurred: boolean = false;
 
@@ -204,6 +337,7 @@ export class Config {
     this.mcpServers = params.mcpServers;
     this.userMemory = params.userMemory ?? '';
     this.geminiMdFileCount = params.geminiMdFileCount ?? 0;
+    this.geminiMdFilePaths = params.geminiMdFilePaths ?? [];
     this.approvalMode = params.approvalMode ?? ApprovalMode.DEFAULT;
     this.showMemoryUsage = params.showMemoryUsage ?? false;
     this.accessibility = params.accessibility ?? {};
@@ -229,7 +363,30 @@ export class Config {
     this.extensionContextFilePaths = params.extensionContextFilePaths ?? [];
     this.listExtensions = params.listExtensions ?? false;
     this._activeExtensions = params.activeExtensions ?? [];
+    this.allowedMcpServerNames = params.allowedMcpServerNames;
     this.noBrowser = params.noBrowser ?? false;
+    this.openAICompatible = params.openAICompatible;
+    this.cassette = params.cassette;
+    this.modelRegistry = new ModelRegistry(params.models);
+    this.modelRouting = params.modelRouting ?? {};
+    this.chatCompression = params.chatCompression;
+    this.resume = params.resume;
+    this.outputFormat = params.outputFormat ?? OutputFormat.TEXT;
+    this.permissions = params.permissions;
+    this.headlessApprovalPolicy =
+      params.headlessApprovalPolicy ??
+      (this.approvalMode === ApprovalMode.YOLO
+        ? HeadlessApprovalPolicy.ALL
+        : HeadlessApprovalPolicy.READ_ONLY);
+    this.maxConcurrentToolCalls =
+      params.maxConcurrentToolCalls ?? DEFAULT_MAX_CONCURRENT_TOOL_CALLS;
+    this.toolLimits = params.toolLimits ?? {};
+    this.languageServers = params.languageServers ?? {};
+    this.verificationCommands = params.verificationCommands ?? {};
+    this.repoMap = {
+      enabled: params.repoMap?.enabled ?? false,
+      maxTokens: params.repoMap?.maxTokens ?? DEFAULT_REPO_MAP_MAX_TOKENS,
+    };
 
     if (params.contextFileName) {
       setGeminiMdFilename(params.contextFileName);
@@ -259,12 +416,20 @@ export class Config {
       }
     }
     this.toolRegistry = await this.createToolRegistry();
+    if (this.resume !== undefined) {
+      this.resumedSession =
+        (await this.getSessionStore().load(this.resume)) ?? undefined;
+      if (!this.resumedSession) {
+        throw new Error(`No saved session found for "${this.resume}".`);
+      }
+    }
   }
 
   async refreshAuth(authMethod: AuthType) {
     this.contentGeneratorConfig = await createContentGeneratorConfig(
       this.model,
       authMethod,
+      this.openAICompatible,
     );
 
     this.geminiClient = new GeminiClient(this);
@@ -347,6 +512,10 @@ export class Config {
     return this.fullContext;
   }
 
+  getRepoMapSettings(): Required<RepoMapSettings> {
+    return this.repoMap;
+  }
+
   getCoreTools(): string[] | undefined {
     return this.coreTools;
   }
@@ -371,6 +540,10 @@ export class Config {
     return this.mcpServers;
   }
 
+  setMcpServers(mcpServers: Record<string, MCPServerConfig> | undefined): void {
+    this.mcpServers = mcpServers;
+  }
+
   getUserMemory(): string {
     return this.userMemory;
   }
@@ -387,6 +560,15 @@ export class Config {
     this.geminiMdFileCount = count;
   }
 
+  /** The context files that the user memory was loaded from. */
+  getGeminiMdFilePaths(): string[] {
+    return this.geminiMdFilePaths;
+  }
+
+  setGeminiMdFilePaths(filePaths: string[]): void {
+    this.geminiMdFilePaths = filePaths;
+  }
+
   getApprovalMode(): ApprovalMode {
     return this.approvalMode;
   }
@@ -462,6 +644,15 @@ export class Config {
     return this.fileDiscoveryService;
   }
 
+  /** Replaces the file service so that ignore files are read again. */
+  reloadFileService(): FileDiscoveryService {
+    this.fileDiscoveryService = new FileDiscoveryService(this.targetDir);
+    // The semantic index filters files with the file service it was created
+    // with, and is stored on disk, so it is created again when next used.
+    this.semanticIndex = undefined;
+    return this.fileDiscoveryService;
+  }
+
   getUsageStatisticsEnabled(): boolean {
     return this.usageStatisticsEnabled;
   }
@@ -478,10 +669,139 @@ export class Config {
     return this._activeExtensions;
   }
 
+  getAllowedMcpServerNames(): string[] | undefined {
+    return this.allowedMcpServerNames;
+  }
+
   getNoBrowser(): boolean {
     return this.noBrowser;
   }
 
+  getOpenAICompatibleSettings(): OpenAICompatibleSettings | undefined {
+    return this.openAICompatible;
+  }
+
+  getCassette(): CassetteConfig | undefined {
+    return this.cassette;
+  }
+
+  getModelRegistry(): ModelRegistry {
+    return this.modelRegistry;
+  }
+
+  /**
+   * Returns the model to use for the given purpose. The main chat always uses
+   * the session model, which may change during the session (e.g. on fallback
+   * to Flash).
+   */
+  getModelForPurpose(purpose: ModelPurpose): string {
+    if (purpose === ModelPurpose.CHAT) {
+      return this.getModel();
+    }
+    const routed = this.modelRouting[purpose];
+    if (routed) {
+      return routed;
+    }
+    return purpose === ModelPurpose.EDIT_CORRECTION
+      ? DEFAULT_GEMINI_FLASH_MODEL
+      : this.getModel();
+  }
+
+  getChatCompression(): ChatCompressionSettings | undefined {
+    return this.chatCompression;
+  }
+
+  /** Background jobs of the session, e.g. dev servers and watchers. */
+  getJobManager(): JobManager {
+    if (!this.jobManager) {
+      this.jobManager = new JobManager();
+    }
+    return this.jobManager;
+  }
+
+  /** Language servers of the session, which are started on first use. */
+  getLspManager(): LspManager {
+    if (!this.lspManager) {
+      this.lspManager = new LspManager(this.languageServers, this.targetDir);
+    }
+    return this.lspManager;
+  }
+
+  /** Runs the verification commands after tools change files. */
+  getVerificationService(): VerificationService {
+    if (!this.verificationService) {
+      this.verificationService = new VerificationService(
+        this.verificationCommands,
+        this.targetDir,
+      );
+    }
+    return this.verificationService;
+  }
+
+  /** The semantic index of the project, which embeds with the Gemini API. */
+  getSemanticIndex(): SemanticIndex {
+    if (!this.semanticIndex) {
+      this.semanticIndex = new SemanticIndex(
+        this.targetDir,
+        this.getProjectTempDir(),
+        this.getFileService(),
+        {
+          id: `gemini:${this.embeddingModel}`,
+          embed: (texts) => this.getGeminiClient().generateEmbedding(texts),
+        },
+      );
+    }
+    return this.semanticIndex;
+  }
+
+  getSessionStore(): SessionStore {
+    if (!this.sessionStore) {
+      this.sessionStore = new SessionStore(this.getProjectTempDir());
+    }
+    return this.sessionStore;
+  }
+
+  /** The saved session that this session continues, if any. */
+  getResumedSession(): SavedSession | undefined {
+    return this.resumedSession;
+  }
+
+  getOutputFormat(): OutputFormat {
+    return this.outputFormat;
+  }
+
+  getHeadlessApprovalPolicy(): HeadlessApprovalPolicy {
+    return this.headlessApprovalPolicy;
+  }
+
+  /** How many tool calls may run at the same time. */
+  getMaxConcurrentToolCalls(): number {
+    return this.maxConcurrentToolCalls;
+  }
+
+  /** The limits configured for a tool, falling back to the given defaults. */
+  getToolLimits(
+    toolName: string,
+    defaults: ToolLimits = { maxOutputChars: DEFAULT_MAX_TOOL_OUTPUT_CHARS },
+  ): ToolLimits {
+    return { ...defaults, ...this.toolLimits[toolName] };
+  }
+
+  /** Where the full output of calls whose output was truncated is saved. */
+  getToolOutputDir(): string {
+    return path.join(this.getProjectTempDir(), 'tool-output');
+  }
+
+  getPolicyEngine(): PermissionPolicyEngine {
+    if (!this.policyEngine) {
+      this.policyEngine = new PermissionPolicyEngine(
+        this.targetDir,
+        this.permissions,
+      );
+    }
+    return this.policyEngine;
+  }
+
   async getGitService(): Promise<GitService> {
     if (!this.gitService) {
       this.gitService = new GitService(this.targetDir);
@@ -491,15 +811,17 @@ export class Config {
   }
 
   async refreshMemory(): Promise<{ memoryContent: string; fileCount: number }> {
-    const { memoryContent, fileCount } = await loadServerHierarchicalMemory(
-      this.getWorkingDir(),
-      this.getDebugMode(),
-      this.getFileService(),
-      this.getExtensionContextFilePaths(),
-    );
+    const { memoryContent, fileCount, filePaths } =
+      await loadServerHierarchicalMemory(
+        this.getWorkingDir(),
+        this.getDebugMode(),
+        this.getFileService(),
+        this.getExtensionContextFilePaths(),
+      );
 
     this.setUserMemory(memoryContent);
     this.setGeminiMdFileCount(fileCount);
+    this.setGeminiMdFilePaths(filePaths);
 
     return { memoryContent, fileCount };
   }
@@ -543,15 +865,32 @@ export class Config {
 
     registerCoreTool(LSTool, targetDir, this);
     registerCoreTool(ReadFileTool, targetDir, this);
-    registerCoreTool(GrepTool, targetDir);
+    registerCoreTool(GrepTool, targetDir, this);
     registerCoreTool(GlobTool, targetDir, this);
     registerCoreTool(EditTool, this);
+    registerCoreTool(MultiReplaceTool, this);
+    registerCoreTool(ApplyPatchTool, this);
+    registerCoreTool(NotebookEditTool, this);
     registerCoreTool(WriteFileTool, this);
     registerCoreTool(WebFetchTool, this);
     registerCoreTool(ReadManyFilesTool, targetDir, this);
     registerCoreTool(ShellTool, this);
+    registerCoreTool(StartJobTool, this);
+    registerCoreTool(ReadJobOutputTool, this);
+    registerCoreTool(WaitForJobOutputTool, this);
+    registerCoreTool(StopJobTool, this);
     registerCoreTool(MemoryTool);
     registerCoreTool(WebSearchTool, this);
+    registerCoreTool(SemanticSearchTool, this);
+    registerCoreTool(CodeOutlineTool, this);
+    // The code intelligence tools need a language server to answer them.
+    if (this.getLspManager().hasServers()) {
+      registerCoreTool(GoToDefinitionTool, this);
+      registerCoreTool(FindReferencesTool, this);
+      registerCoreTool(HoverTool, this);
+      registerCoreTool(WorkspaceSymbolsTool, this);
+      registerCoreTool(RenameSymbolTool, this);
+    }
 
     await registry.discoverTools();
     return registry;
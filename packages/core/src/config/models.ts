@@ -7,3 +7,16 @@
 export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-pro';
 export const DEFAULT_GEMINI_FLASH_MODEL = 'gemini-2.5-flash';
 export const DEFAULT_GEMINI_EMBEDDING_MODEL = 'gemini-embedding-001';
+
+/**
+ * The reasons a model is called. Each purpose can be routed to a different
+ * model through the `modelRouting` setting, and API telemetry is tagged with
+ * it.
+ */
+export enum ModelPurpose {
+  CHAT = 'chat',
+  NEXT_SPEAKER = 'nextSpeaker',
+  EDIT_CORRECTION = 'editCorrection',
+  COMPRESSION = 'compression',
+  WEB_FETCH = 'webFetch',
+}
@@ -13,16 +13,17 @@ import {
   GenerateContentResponse,
   GoogleGenAI,
 } from '@google/genai';
-import { findIndexAfterFraction, GeminiClient } from './client.js';
+import { GeminiClient } from './client.js';
 import { AuthType, ContentGenerator } from './contentGenerator.js';
 import { GeminiChat } from './geminiChat.js';
 import { Config } from '../config/config.js';
 import { Turn } from './turn.js';
+import { CompressionStrategy } from './compression.js';
 import { getCoreSystemPrompt } from './prompts.js';
-import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
+import { DEFAULT_GEMINI_FLASH_MODEL, ModelPurpose } from '../config/models.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
 import { setSimulate429 } from '../utils/testUtils.js';
-import { tokenLimit } from './tokenLimits.js';
+import { ModelRegistry } from './modelRegistry.js';
 
 // --- Mocks ---
 const mockChatCreateFn = vi.fn();
@@ -66,56 +67,9 @@ vi.mock('../telemetry/index.js', () => ({
   logApiError: vi.fn(),
 }));
 
-describe('findIndexAfterFraction', () => {
-  const history: Content[] = [
-    { role: 'user', parts: [{ text: 'This is the first message.' }] },
-    { role: 'model', parts: [{ text: 'This is the second message.' }] },
-    { role: 'user', parts: [{ text: 'This is the third message.' }] },
-    { role: 'model', parts: [{ text: 'This is the fourth message.' }] },
-    { role: 'user', parts: [{ text: 'This is the fifth message.' }] },
-  ];
-
-  it('should throw an error for non-positive numbers', () => {
-    expect(() => findIndexAfterFraction(history, 0)).toThrow(
-      'Fraction must be between 0 and 1',
-    );
-  });
-
-  it('should throw an error for a fraction greater than or equal to 1', () => {
-    expect(() => findIndexAfterFraction(history, 1)).toThrow(
-      'Fraction must be between 0 and 1',
-    );
-  });
-
-  it('should handle a fraction in the middle', () => {
-    // Total length is 257. 257 * 0.5 = 128.5
-    // 0: 53
-    // 1: 53 + 54 = 107
-    // 2: 107 + 53 = 160
-    // 160 >= 128.5, so index is 2
-    expect(findIndexAfterFraction(history, 0.5)).toBe(2);
-  });
-
-  it('should handle an empty history', () => {
-    expect(findIndexAfterFraction([], 0.5)).toBe(0);
-  });
-
-  it('should handle a history with only one item', () => {
-    expect(findIndexAfterFraction(history.slice(0, 1), 0.5)).toBe(0);
-  });
-
-  it('should handle history with weird parts', () => {
-    const historyWithEmptyParts: Content[] = [
-      { role: 'user', parts: [{ text: 'Message 1' }] },
-      { role: 'model', parts: [{ fileData: { fileUri: 'derp' } }] },
-      { role: 'user', parts: [{ text: 'Message 2' }] },
-    ];
-    expect(findIndexAfterFraction(historyWithEmptyParts, 0.5)).toBe(1);
-  });
-});
-
 describe('Gemini Client (client.ts)', () => {
   let client: GeminiClient;
+  let modelRegistry: ModelRegistry;
   beforeEach(async () => {
     vi.resetAllMocks();
 
@@ -154,6 +108,7 @@ describe('Gemini Client (client.ts)', () => {
       getTool: vi.fn().mockReturnValue(null),
     };
     const fileService = new FileDiscoveryService('/test/dir');
+    modelRegistry = new ModelRegistry();
     const MockedConfig = vi.mocked(Config, true);
     const contentGeneratorConfig = {
       model: 'test-model',
@@ -174,6 +129,9 @@ describe('Gemini Client (client.ts)', () => {
         getUserAgent: vi.fn().mockReturnValue('test-agent'),
         getUserMemory: vi.fn().mockReturnValue(''),
         getFullContext: vi.fn().mockReturnValue(false),
+        getRepoMapSettings: vi
+          .fn()
+          .mockReturnValue({ enabled: false, maxTokens: 2000 }),
         getSessionId: vi.fn().mockReturnValue('test-session-id'),
         getProxy: vi.fn().mockReturnValue(undefined),
         getWorkingDir: vi.fn().mockReturnValue('/test/dir'),
@@ -181,6 +139,13 @@ describe('Gemini Client (client.ts)', () => {
         getQuotaErrorOccurred: vi.fn().mockReturnValue(false),
         setQuotaErrorOccurred: vi.fn(),
         getNoBrowser: vi.fn().mockReturnValue(false),
+        getCassette: vi.fn().mockReturnValue(undefined),
+        getModelRegistry: vi.fn().mockReturnValue(modelRegistry),
+        getModelForPurpose: vi.fn(() => mock.getModel()),
+        setModel: vi.fn(),
+        getChatCompression: vi.fn().mockReturnValue(undefined),
+        getResumedSession: vi.fn().mockReturnValue(undefined),
+        getUsageStatisticsEnabled: vi.fn().mockReturnValue(false),
       };
       return mock as unknown as Config;
     });
@@ -366,6 +331,146 @@ describe('Gemini Client (client.ts)', () => {
         contents,
       });
     });
+
+    it('should use the model routed for the purpose', async () => {
+      const contents = [{ role: 'user', parts: [{ text: 'hello' }] }];
+      const schema = { type: 'string' };
+      vi.mocked(client['config'].getModelForPurpose).mockReturnValue(
+        'gemini-2.5-flash-lite',
+      );
+      const mockGenerator: Partial<ContentGenerator> = {
+        generateContent: mockGenerateContentFn,
+      };
+      client['contentGenerator'] = mockGenerator as ContentGenerator;
+
+      await client.generateJson(
+        contents,
+        schema,
+        new AbortController().signal,
+        ModelPurpose.NEXT_SPEAKER,
+      );
+
+      expect(client['config'].getModelForPurpose).toHaveBeenCalledWith(
+        ModelPurpose.NEXT_SPEAKER,
+      );
+      expect(mockGenerateContentFn).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'gemini-2.5-flash-lite' }),
+      );
+    });
+  });
+
+  describe('switchModel', () => {
+    const history = [
+      { role: 'user', parts: [{ text: 'hello' }] },
+      { role: 'model', parts: [{ text: 'hi there' }] },
+    ];
+    const mockCountTokens = vi.fn();
+
+    beforeEach(() => {
+      client['chat'] = {
+        getHistory: vi.fn().mockReturnValue(history),
+      } as unknown as GeminiChat;
+      client['contentGenerator'] = {
+        countTokens: mockCountTokens,
+      } as unknown as ContentGenerator;
+      vi.spyOn(modelRegistry, 'getContextWindow').mockReturnValue(1000);
+    });
+
+    it('should re-create the chat with the curated history on the new model', async () => {
+      mockCountTokens.mockResolvedValue({ totalTokens: 100 });
+      const tryCompressChatSpy = vi.spyOn(client, 'tryCompressChat');
+      vi.mocked(client['config'].getModel)
+        .mockReturnValueOnce('old-model')
+        .mockReturnValueOnce('old-model')
+        .mockReturnValue('new-model');
+
+      const result = await client.switchModel('new-model', 'prompt-id-1');
+
+      expect(client['config'].setModel).toHaveBeenCalledWith('new-model');
+      expect(client.getChat()).toBeInstanceOf(GeminiChat);
+      expect(client.getChat().getHistory()).toEqual(history);
+      expect(tryCompressChatSpy).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        previousModel: 'old-model',
+        model: 'new-model',
+        compression: null,
+      });
+    });
+
+    it('should compress with the current model before switching if the history does not fit', async () => {
+      mockCountTokens.mockResolvedValue({ totalTokens: 900 });
+      const compression = { originalTokenCount: 900, newTokenCount: 200 };
+      const setModel = vi.mocked(client['config'].setModel);
+      const tryCompressChatSpy = vi
+        .spyOn(client, 'tryCompressChat')
+        .mockImplementation(async () => {
+          expect(setModel).not.toHaveBeenCalled();
+          return compression;
+        });
+
+      const result = await client.switchModel('small-model', 'prompt-id-1');
+
+      expect(modelRegistry.getContextWindow).toHaveBeenCalledWith(
+        'small-model',
+      );
+      expect(tryCompressChatSpy).toHaveBeenCalledWith('prompt-id-1', true);
+      expect(setModel).toHaveBeenCalledWith('small-model');
+      expect(result.compression).toBe(compression);
+    });
+
+    it('should refuse to switch if the compressed history still does not fit', async () => {
+      mockCountTokens
+        .mockResolvedValueOnce({ totalTokens: 5000 })
+        .mockResolvedValueOnce({ totalTokens: 1200 });
+      vi.spyOn(client, 'tryCompressChat').mockResolvedValue({
+        originalTokenCount: 5000,
+        newTokenCount: 1200,
+      });
+      vi.mocked(client['config'].getModel).mockReturnValue('old-model');
+      const chat = client.getChat();
+
+      await expect(
+        client.switchModel('small-model', 'prompt-id-1'),
+      ).rejects.toThrow(
+        'The conversation is 1200 tokens long even after compression, which does not fit into the context window of small-model (1000 tokens).',
+      );
+
+      expect(client['config'].setModel).not.toHaveBeenCalledWith('small-model');
+      expect(client.getChat()).toBe(chat);
+    });
+
+    it('should keep the current model and chat if the switch fails', async () => {
+      mockCountTokens.mockResolvedValue({ totalTokens: 900 });
+      vi.spyOn(client, 'tryCompressChat').mockRejectedValue(
+        new Error('Compression failed'),
+      );
+      vi.mocked(client['config'].getModel).mockReturnValue('old-model');
+      const chat = client.getChat();
+
+      await expect(
+        client.switchModel('small-model', 'prompt-id-1'),
+      ).rejects.toThrow('Compression failed');
+
+      expect(client['config'].setModel).not.toHaveBeenCalledWith('small-model');
+      expect(client.getChat()).toBe(chat);
+    });
+
+    it('should restore the previous model if the new chat cannot be created', async () => {
+      mockCountTokens.mockResolvedValue({ totalTokens: 100 });
+      vi.spyOn(
+        client as unknown as { createChat: () => Promise<GeminiChat> },
+        'createChat',
+      ).mockRejectedValue(new Error('Unsupported model'));
+      vi.mocked(client['config'].getModel).mockReturnValue('old-model');
+      const chat = client.getChat();
+
+      await expect(
+        client.switchModel('new-model', 'prompt-id-1'),
+      ).rejects.toThrow('Unsupported model');
+
+      expect(client['config'].setModel).toHaveBeenLastCalledWith('old-model');
+      expect(client.getChat()).toBe(chat);
+    });
   });
 
   describe('addHistory', () => {
@@ -386,6 +491,49 @@ describe('Gemini Client (client.ts)', () => {
     });
   });
 
+  describe('setTools', () => {
+    it('should offer the registered tools to the active chat', async () => {
+      const declarations = [{ name: 'docs_search' }];
+      const toolRegistry = await client['config'].getToolRegistry();
+      vi.mocked(toolRegistry.getFunctionDeclarations).mockReturnValue(
+        declarations,
+      );
+      const mockChat = { setTools: vi.fn() };
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      client['chat'] = mockChat as any;
+
+      await client.setTools();
+
+      expect(mockChat.setTools).toHaveBeenCalledWith([
+        { functionDeclarations: declarations },
+      ]);
+    });
+  });
+
+  describe('initialize', () => {
+    it('should start the chat from the history of a resumed session', async () => {
+      const history: Content[] = [
+        { role: 'user', parts: [{ text: 'Saved question' }] },
+        { role: 'model', parts: [{ text: 'Saved answer' }] },
+      ];
+      vi.mocked(client['config'].getResumedSession).mockReturnValue({
+        metadata: {
+          sessionId: 'saved-session',
+          lastUpdated: new Date().toISOString(),
+          firstPrompt: 'Saved question',
+          turnCount: 1,
+          model: 'test-model',
+        },
+        history,
+        uiHistory: [],
+      });
+
+      await client.initialize(client['config'].getContentGeneratorConfig());
+
+      expect(client.getHistory()).toEqual(history);
+    });
+  });
+
   describe('resetChat', () => {
     it('should create a new chat session, clearing the old history', async () => {
       // 1. Get the initial chat instance and add some history.
@@ -419,10 +567,6 @@ describe('Gemini Client (client.ts)', () => {
     const mockSendMessage = vi.fn();
 
     beforeEach(() => {
-      vi.mock('./tokenLimits', () => ({
-        tokenLimit: vi.fn(),
-      }));
-
       const mockGenerator: Partial<ContentGenerator> = {
         countTokens: mockCountTokens,
       };
@@ -444,7 +588,9 @@ describe('Gemini Client (client.ts)', () => {
 
     it('should not trigger summarization if token count is below threshold', async () => {
       const MOCKED_TOKEN_LIMIT = 1000;
-      vi.mocked(tokenLimit).mockReturnValue(MOCKED_TOKEN_LIMIT);
+      vi.spyOn(modelRegistry, 'getContextWindow').mockReturnValue(
+        MOCKED_TOKEN_LIMIT,
+      );
 
       mockCountTokens.mockResolvedValue({
         totalTokens: MOCKED_TOKEN_LIMIT * 0.699, // TOKEN_THRESHOLD_FOR_SUMMARIZATION = 0.7
@@ -454,14 +600,16 @@ describe('Gemini Client (client.ts)', () => {
       const result = await client.tryCompressChat('prompt-id-2');
       const newChat = client.getChat();
 
-      expect(tokenLimit).toHaveBeenCalled();
+      expect(modelRegistry.getContextWindow).toHaveBeenCalledWith('test-model');
       expect(result).toBeNull();
       expect(newChat).toBe(initialChat);
     });
 
     it('should trigger summarization if token count is at threshold', async () => {
       const MOCKED_TOKEN_LIMIT = 1000;
-      vi.mocked(tokenLimit).mockReturnValue(MOCKED_TOKEN_LIMIT);
+      vi.spyOn(modelRegistry, 'getContextWindow').mockReturnValue(
+        MOCKED_TOKEN_LIMIT,
+      );
 
       const originalTokenCount = 1000 * 0.7;
       const newTokenCount = 100;
@@ -480,7 +628,7 @@ describe('Gemini Client (client.ts)', () => {
       const result = await client.tryCompressChat('prompt-id-3');
       const newChat = client.getChat();
 
-      expect(tokenLimit).toHaveBeenCalled();
+      expect(modelRegistry.getContextWindow).toHaveBeenCalledWith('test-model');
       expect(mockSendMessage).toHaveBeenCalled();
 
       // Assert that summarization happened and returned the correct stats
@@ -521,6 +669,115 @@ describe('Gemini Client (client.ts)', () => {
       // Assert that the chat was reset
       expect(newChat).not.toBe(initialChat);
     });
+
+    describe('with configured strategies', () => {
+      const history: Content[] = [
+        { role: 'user', parts: [{ text: 'Read the file.' }] },
+        {
+          role: 'model',
+          parts: [{ functionCall: { name: 'read_file', args: {} } }],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                name: 'read_file',
+                response: { output: 'x'.repeat(5_000) },
+              },
+            },
+          ],
+        },
+        { role: 'model', parts: [{ text: 'Done.' }] },
+        { role: 'user', parts: [{ text: 'Thanks.' }] },
+        { role: 'model', parts: [{ text: 'Anything else?' }] },
+      ];
+      let mockStartChat: ReturnType<typeof vi.fn>;
+
+      beforeEach(() => {
+        vi.mocked(client.getChat().getHistory).mockReturnValue(history);
+        vi.spyOn(modelRegistry, 'getContextWindow').mockReturnValue(1000);
+        mockStartChat = vi.fn().mockResolvedValue(client.getChat());
+        client['startChat'] = mockStartChat;
+      });
+
+      it('should drop the older history with the sliding window strategy', async () => {
+        vi.mocked(client['config'].getChatCompression).mockReturnValue({
+          strategy: CompressionStrategy.SLIDING_WINDOW,
+        });
+        mockCountTokens
+          .mockResolvedValueOnce({ totalTokens: 800 })
+          .mockResolvedValueOnce({ totalTokens: 50 });
+
+        const result = await client.tryCompressChat('prompt-id-5');
+
+        expect(mockSendMessage).not.toHaveBeenCalled();
+        expect(mockStartChat).toHaveBeenCalledWith(history.slice(4));
+        expect(result).toEqual({ originalTokenCount: 800, newTokenCount: 50 });
+      });
+
+      it('should only elide old tool outputs when that is enough', async () => {
+        vi.mocked(client['config'].getChatCompression).mockReturnValue({
+          strategy: CompressionStrategy.PRUNE_TOOL_OUTPUTS,
+        });
+        mockCountTokens
+          .mockResolvedValueOnce({ totalTokens: 800 })
+          .mockResolvedValueOnce({ totalTokens: 300 })
+          .mockResolvedValueOnce({ totalTokens: 300 });
+
+        const result = await client.tryCompressChat('prompt-id-6');
+
+        expect(mockSendMessage).not.toHaveBeenCalled();
+        const newHistory = mockStartChat.mock.calls[0][0] as Content[];
+        expect(newHistory).toHaveLength(history.length);
+        expect(newHistory[2].parts?.[0].functionResponse?.response).toEqual({
+          output:
+            '[Output of read_file elided to save context: 5013 characters]',
+        });
+        expect(result).toEqual({ originalTokenCount: 800, newTokenCount: 300 });
+      });
+
+      it('should summarize when pruning tool outputs is not enough', async () => {
+        vi.mocked(client['config'].getChatCompression).mockReturnValue({
+          strategy: CompressionStrategy.PRUNE_TOOL_OUTPUTS,
+        });
+        mockCountTokens
+          .mockResolvedValueOnce({ totalTokens: 800 })
+          .mockResolvedValueOnce({ totalTokens: 750 })
+          .mockResolvedValueOnce({ totalTokens: 100 });
+        mockSendMessage.mockResolvedValue({ text: 'This is a summary.' });
+
+        const result = await client.tryCompressChat('prompt-id-7');
+
+        expect(mockSendMessage).toHaveBeenCalled();
+        expect(mockStartChat).toHaveBeenCalledWith([
+          { role: 'user', parts: [{ text: 'This is a summary.' }] },
+          expect.objectContaining({ role: 'model' }),
+          ...history.slice(4),
+        ]);
+        expect(result).toEqual({ originalTokenCount: 800, newTokenCount: 100 });
+      });
+
+      it('should preview the compression without changing the chat', async () => {
+        vi.mocked(client['config'].getChatCompression).mockReturnValue({
+          strategy: CompressionStrategy.SLIDING_WINDOW,
+          tokenThreshold: 0.5,
+        });
+        mockCountTokens.mockResolvedValue({ totalTokens: 100 });
+
+        const plan = await client.previewCompression();
+
+        expect(plan).toMatchObject({
+          strategy: CompressionStrategy.SLIDING_WINDOW,
+          originalTokenCount: 100,
+          thresholdTokenCount: 500,
+          dropped: history.slice(0, 4),
+          kept: history.slice(4),
+        });
+        expect(mockStartChat).not.toHaveBeenCalled();
+        expect(client.getChat().setHistory).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('sendMessageStream', () => {
@@ -15,6 +15,7 @@ import {
   GenerateContentResponse,
 } from '@google/genai';
 import { getFolderStructure } from '../utils/getFolderStructure.js';
+import { buildRepoMap } from '../utils/codeOutline.js';
 import {
   Turn,
   ServerGeminiStreamEvent,
@@ -30,7 +31,6 @@ import { reportError } from '../utils/errorReporting.js';
 import { GeminiChat } from './geminiChat.js';
 import { retryWithBackoff } from '../utils/retry.js';
 import { getErrorMessage } from '../utils/errors.js';
-import { tokenLimit } from './tokenLimits.js';
 import {
   AuthType,
   ContentGenerator,
@@ -38,44 +38,31 @@ import {
   createContentGenerator,
 } from './contentGenerator.js';
 import { ProxyAgent, setGlobalDispatcher } from 'undici';
-import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
-
-function isThinkingSupported(model: string) {
-  if (model.startsWith('gemini-2.5')) return true;
-  return false;
-}
-
-/**
- * Returns the index of the content after the fraction of the total characters in the history.
- *
- * Exported for testing purposes.
- */
-export function findIndexAfterFraction(
-  history: Content[],
-  fraction: number,
-): number {
-  if (fraction <= 0 || fraction >= 1) {
-    throw new Error('Fraction must be between 0 and 1');
-  }
-
-  const contentLengths = history.map(
-    (content) => JSON.stringify(content).length,
-  );
-
-  const totalCharacters = contentLengths.reduce(
-    (sum, length) => sum + length,
-    0,
-  );
-  const targetCharacters = totalCharacters * fraction;
-
-  let charactersSoFar = 0;
-  for (let i = 0; i < contentLengths.length; i++) {
-    charactersSoFar += contentLengths[i];
-    if (charactersSoFar >= targetCharacters) {
-      return i;
-    }
-  }
-  return contentLengths.length;
+import { DEFAULT_GEMINI_FLASH_MODEL, ModelPurpose } from '../config/models.js';
+import {
+  logApiError,
+  logApiRequest,
+  logApiResponse,
+} from '../telemetry/loggers.js';
+import {
+  ApiErrorEvent,
+  ApiRequestEvent,
+  ApiResponseEvent,
+} from '../telemetry/types.js';
+import {
+  CompressionPlan,
+  CompressionStrategy,
+  findCompressionSplitIndex,
+  pruneToolOutputs,
+  resolveChatCompressionSettings,
+} from './compression.js';
+import { ConversationBranches } from './conversationBranches.js';
+
+export interface ModelSwitchInfo {
+  previousModel: string;
+  model: string;
+  /** Set when the history had to be compressed to fit the new model. */
+  compression: ChatCompressionInfo | null;
 }
 
 export class GeminiClient {
@@ -87,16 +74,9 @@ export class GeminiClient {
     topP: 1,
   };
   private readonly MAX_TURNS = 100;
-  /**
-   * Threshold for compression token count as a fraction of the model's token limit.
-   * If the chat history exceeds this threshold, it will be compressed.
-   */
-  private readonly COMPRESSION_TOKEN_THRESHOLD = 0.7;
-  /**
-   * The fraction of the latest chat history to keep. A value of 0.3
-   * means that only the last 30% of the chat history will be kept after compression.
-   */
-  private readonly COMPRESSION_PRESERVE_THRESHOLD = 0.3;
+  /** The prompt that auxiliary calls (e.g. edit correction) are logged under. */
+  private lastPromptId = '';
+  private readonly conversationBranches = new ConversationBranches();
 
   constructor(private config: Config) {
     if (config.getProxy()) {
@@ -112,7 +92,11 @@ export class GeminiClient {
       this.config,
       this.config.getSessionId(),
     );
-    this.chat = await this.startChat();
+    // A resumed session already starts with the environment context.
+    const resumedSession = this.config.getResumedSession();
+    this.chat = resumedSession
+      ? await this.createChat(resumedSession.history)
+      : await this.startChat();
   }
 
   getContentGenerator(): ContentGenerator {
@@ -137,12 +121,105 @@ export class GeminiClient {
     return this.getChat().getHistory();
   }
 
+  getConversationBranches(): ConversationBranches {
+    return this.conversationBranches;
+  }
+
   setHistory(history: Content[]) {
     this.getChat().setHistory(history);
   }
 
+  /**
+   * Offers the tools that are registered now to the model, e.g. after the
+   * tools of MCP servers were discovered again.
+   */
+  async setTools(): Promise<void> {
+    const model = this.config.getModel();
+    if (!this.config.getModelRegistry().supportsToolCalling(model)) {
+      return;
+    }
+    const toolRegistry = await this.config.getToolRegistry();
+    const tools: Tool[] = [
+      { functionDeclarations: toolRegistry.getFunctionDeclarations() },
+    ];
+    this.getChat().setTools(tools);
+  }
+
   async resetChat(): Promise<void> {
     this.chat = await this.startChat();
+    this.conversationBranches.reset();
+  }
+
+  /**
+   * Switches the session to another model, keeping the conversation.
+   *
+   * The chat is re-created so that model-specific settings (thinking, tools)
+   * match the new model. If the history does not fit comfortably in the new
+   * model's context window, it is compressed with the current model first,
+   * which can still read all of it. If anything fails, the session stays on
+   * the current model and chat.
+   */
+  async switchModel(
+    model: string,
+    prompt_id: string,
+  ): Promise<ModelSwitchInfo> {
+    const previousModel = this.config.getModel();
+    const previousChat = this.getChat();
+    try {
+      const mustCompress = await this.exceedsCompressionThreshold(model);
+      const compression = mustCompress
+        ? await this.tryCompressChat(prompt_id, true)
+        : null;
+      if (mustCompress) {
+        // Compression may not shrink the history enough for a much smaller
+        // model, whose first request would then fail.
+        const totalTokens = await this.countHistoryTokens();
+        const contextWindow = this.config
+          .getModelRegistry()
+          .getContextWindow(model);
+        if (totalTokens !== undefined && totalTokens >= contextWindow) {
+          throw new Error(
+            `The conversation is ${totalTokens} tokens long even after compression, which does not fit into the context window of ${model} (${contextWindow} tokens).`,
+          );
+        }
+      }
+      const history = this.getChat().getHistory(true);
+      this.config.setModel(model);
+      this.chat = await this.createChat(history);
+      return { previousModel, model: this.config.getModel(), compression };
+    } catch (error) {
+      this.config.setModel(previousModel);
+      this.chat = previousChat;
+      throw error;
+    }
+  }
+
+  /** Whether the history exceeds the compression threshold of a model. */
+  private async exceedsCompressionThreshold(model: string): Promise<boolean> {
+    const totalTokens = await this.countHistoryTokens();
+    if (totalTokens === undefined) {
+      return false;
+    }
+    const { tokenThreshold } = resolveChatCompressionSettings(
+      this.config.getChatCompression(),
+    );
+    return (
+      totalTokens >=
+      tokenThreshold * this.config.getModelRegistry().getContextWindow(model)
+    );
+  }
+
+  /** The number of tokens of the curated history, with the current model. */
+  private async countHistoryTokens(): Promise<number | undefined> {
+    const history = this.getChat().getHistory(true);
+    if (history.length === 0) {
+      return 0;
+    }
+    const { totalTokens } = await this.getContentGenerator().countTokens({
+      model: this.config.getModel(),
+      contents: history,
+    });
+    return totalTokens;
   }
 
   private async getEnvironment(): Promise<Part[]> {
@@ -168,6 +245,23 @@ export class GeminiClient {
     const initialParts: Part[] = [{ text: context }];
     const toolRegistry = await this.config.getToolRegistry();
 
+    const repoMap = this.config.getRepoMapSettings();
+    if (repoMap.enabled) {
+      try {
+        const map = await buildRepoMap(
+          cwd,
+          this.config.getFileService(),
+          repoMap.maxTokens,
+          AbortSignal.timeout(30000),
+        );
+        if (map) {
+          initialParts.push({ text: `\n--- Repository Map ---\n${map}` });
+        }
+      } catch (error) {
+        console.error('Error building the repository map:', error);
+      }
+    }
+
     // Add full file context if the flag is set
     if (this.config.getFullContext()) {
       try {
@@ -211,9 +305,6 @@ export class GeminiClient {
 
   private async startChat(extraHistory?: Content[]): Promise<GeminiChat> {
     const envParts = await this.getEnvironment();
-    const toolRegistry = await this.config.getToolRegistry();
-    const toolDeclarations = toolRegistry.getFunctionDeclarations();
-    const tools: Tool[] = [{ functionDeclarations: toolDeclarations }];
     const history: Content[] = [
       {
         role: 'user',
@@ -225,11 +316,23 @@ export class GeminiClient {
       },
       ...(extraHistory ?? []),
     ];
+    return this.createChat(history);
+  }
+
+  /**
+   * Creates a chat session for the current model, with the given history.
+   */
+  private async createChat(history: Content[]): Promise<GeminiChat> {
+    const toolRegistry = await this.config.getToolRegistry();
+    const toolDeclarations = toolRegistry.getFunctionDeclarations();
+    const tools: Tool[] = [{ functionDeclarations: toolDeclarations }];
     try {
       const userMemory = this.config.getUserMemory();
       const systemInstruction = getCoreSystemPrompt(userMemory);
-      const generateContentConfigWithThinking = isThinkingSupported(
-        this.config.getModel(),
+      const modelRegistry = this.config.getModelRegistry();
+      const model = this.config.getModel();
+      const generateContentConfigWithThinking = modelRegistry.supportsThinking(
+        model,
       )
         ? {
             ...this.generateContentConfig,
@@ -244,7 +347,7 @@ export class GeminiClient {
         {
           systemInstruction,
           ...generateContentConfigWithThinking,
-          tools,
+          ...(modelRegistry.supportsToolCalling(model) ? { tools } : {}),
         },
         history,
       );
@@ -266,6 +369,7 @@ export class GeminiClient {
     turns: number = this.MAX_TURNS,
     originalModel?: string,
   ): AsyncGenerator<ServerGeminiStreamEvent, Turn> {
+    this.lastPromptId = prompt_id;
     // Ensure turns never exceeds MAX_TURNS to prevent infinite loops
     const boundedTurns = Math.min(turns, this.MAX_TURNS);
     if (!boundedTurns) {
@@ -319,12 +423,11 @@ export class GeminiClient {
     contents: Content[],
     schema: SchemaUnion,
     abortSignal: AbortSignal,
-    model?: string,
+    purpose: ModelPurpose = ModelPurpose.CHAT,
     config: GenerateContentConfig = {},
   ): Promise<Record<string, unknown>> {
-    // Use current model from config instead of hardcoded Flash model
     const modelToUse =
-      model || this.config.getModel() || DEFAULT_GEMINI_FLASH_MODEL;
+      this.config.getModelForPurpose(purpose) || DEFAULT_GEMINI_FLASH_MODEL;
     try {
       const userMemory = this.config.getUserMemory();
       const systemInstruction = getCoreSystemPrompt(userMemory);
@@ -346,11 +449,13 @@ export class GeminiClient {
           contents,
         });
 
-      const result = await retryWithBackoff(apiCall, {
-        onPersistent429: async (authType?: string, error?: unknown) =>
-          await this.handleFlashFallback(authType, error),
-        authType: this.config.getContentGeneratorConfig()?.authType,
-      });
+      const result = await this.logApiCall(modelToUse, purpose, () =>
+        retryWithBackoff(apiCall, {
+          onPersistent429: async (authType?: string, error?: unknown) =>
+            await this.handleFlashFallback(authType, error),
+          authType: this.config.getContentGeneratorConfig()?.authType,
+        }),
+      );
 
       const text = getResponseText(result);
       if (!text) {
@@ -410,8 +515,9 @@ export class GeminiClient {
     contents: Content[],
     generationConfig: GenerateContentConfig,
     abortSignal: AbortSignal,
+    purpose: ModelPurpose = ModelPurpose.CHAT,
   ): Promise<GenerateContentResponse> {
-    const modelToUse = this.config.getModel();
+    const modelToUse = this.config.getModelForPurpose(purpose);
     const configToUse: GenerateContentConfig = {
       ...this.generateContentConfig,
       ...generationConfig,
@@ -434,12 +540,13 @@ export class GeminiClient {
           contents,
         });
 
-      const result = await retryWithBackoff(apiCall, {
-        onPersistent429: async (authType?: string, error?: unknown) =>
-          await this.handleFlashFallback(authType, error),
-        authType: this.config.getContentGeneratorConfig()?.authType,
-      });
-      return result;
+      return await this.logApiCall(modelToUse, purpose, () =>
+        retryWithBackoff(apiCall, {
+          onPersistent429: async (authType?: string, error?: unknown) =>
+            await this.handleFlashFallback(authType, error),
+          authType: this.config.getContentGeneratorConfig()?.authType,
+        }),
+      );
     } catch (error: unknown) {
       if (abortSignal.aborted) {
         throw error;
@@ -460,6 +567,53 @@ export class GeminiClient {
     }
   }
 
+  /**
+   * Logs a call made outside of the chat session to telemetry, tagged with its
+   * purpose so that usage can be broken down per purpose.
+   */
+  private async logApiCall(
+    model: string,
+    purpose: ModelPurpose,
+    apiCall: () => Promise<GenerateContentResponse>,
+  ): Promise<GenerateContentResponse> {
+    const promptId = this.lastPromptId;
+    logApiRequest(
+      this.config,
+      new ApiRequestEvent(model, promptId, undefined, purpose),
+    );
+    const startTime = Date.now();
+    try {
+      const response = await apiCall();
+      logApiResponse(
+        this.config,
+        new ApiResponseEvent(
+          model,
+          Date.now() - startTime,
+          promptId,
+          response.usageMetadata,
+          undefined,
+          undefined,
+          purpose,
+        ),
+      );
+      return response;
+    } catch (error) {
+      logApiError(
+        this.config,
+        new ApiErrorEvent(
+          model,
+          getErrorMessage(error),
+          Date.now() - startTime,
+          promptId,
+          error instanceof Error ? error.name : 'unknown',
+          undefined,
+          purpose,
+        ),
+      );
+      throw error;
+    }
+  }
+
   async generateEmbedding(texts: string[]): Promise<number[][]> {
     if (!texts || texts.length === 0) {
       return [];
@@ -499,6 +653,69 @@ export class GeminiClient {
     prompt_id: string,
     force: boolean = false,
   ): Promise<ChatCompressionInfo | null> {
+    const plan = await this.planCompression(force);
+    if (!plan) {
+      return null;
+    }
+
+    let history = plan.kept;
+    if (plan.summarized) {
+      this.getChat().setHistory(plan.summarized);
+
+      const { text: summary } = await this.getChat().sendMessage(
+        {
+          message: {
+            text: 'First, reason in your scratchpad. Then, generate the <state_snapshot>.',
+          },
+          config: {
+            systemInstruction: { text: getCompressionPrompt() },
+          },
+        },
+        prompt_id,
+        ModelPurpose.COMPRESSION,
+      );
+      history = [
+        {
+          role: 'user',
+          parts: [{ text: summary }],
+        },
+        {
+          role: 'model',
+          parts: [{ text: 'Got it. Thanks for the additional context!' }],
+        },
+        ...history,
+      ];
+    }
+    this.chat = await this.startChat(history);
+
+    const { totalTokens: newTokenCount } =
+      await this.getContentGenerator().countTokens({
+        // model might change after calling `sendMessage`, so we get the newest value from config
+        model: this.config.getModel(),
+        contents: this.getChat().getHistory(),
+      });
+    if (newTokenCount === undefined) {
+      console.warn('Could not determine compressed history token count.');
+      return null;
+    }
+
+    return {
+      originalTokenCount: plan.originalTokenCount,
+      newTokenCount,
+    };
+  }
+
+  /**
+   * Returns what `/compress` would do to the current history, without
+   * changing it or calling the model for a summary.
+   */
+  async previewCompression(): Promise<CompressionPlan | null> {
+    return this.planCompression(true);
+  }
+
+  private async planCompression(
+    force: boolean,
+  ): Promise<CompressionPlan | null> {
     const curatedHistory = this.getChat().getHistory(true);
 
     // Regardless of `force`, don't do anything if the history is empty.
@@ -518,69 +735,67 @@ export class GeminiClient {
       return null;
     }
 
+    const settings = resolveChatCompressionSettings(
+      this.config.getChatCompression(),
+    );
+    const thresholdTokenCount =
+      settings.tokenThreshold *
+      this.config.getModelRegistry().getContextWindow(model);
+
     // Don't compress if not forced and we are under the limit.
-    if (
-      !force &&
-      originalTokenCount < this.COMPRESSION_TOKEN_THRESHOLD * tokenLimit(model)
-    ) {
+    if (!force && originalTokenCount < thresholdTokenCount) {
       return null;
     }
 
-    let compressBeforeIndex = findIndexAfterFraction(
+    const splitIndex = findCompressionSplitIndex(
       curatedHistory,
-      1 - this.COMPRESSION_PRESERVE_THRESHOLD,
-    );
-    // Find the first user message after the index. This is the start of the next turn.
-    while (
-      compressBeforeIndex < curatedHistory.length &&
-      curatedHistory[compressBeforeIndex]?.role !== 'user'
-    ) {
-      compressBeforeIndex++;
-    }
-
-    const historyToCompress = curatedHistory.slice(0, compressBeforeIndex);
-    const historyToKeep = curatedHistory.slice(compressBeforeIndex);
-
-    this.getChat().setHistory(historyToCompress);
-
-    const { text: summary } = await this.getChat().sendMessage(
-      {
-        message: {
-          text: 'First, reason in your scratchpad. Then, generate the <state_snapshot>.',
-        },
-        config: {
-          systemInstruction: { text: getCompressionPrompt() },
-        },
-      },
-      prompt_id,
+      settings.preserveThreshold,
     );
-    this.chat = await this.startChat([
-      {
-        role: 'user',
-        parts: [{ text: summary }],
-      },
-      {
-        role: 'model',
-        parts: [{ text: 'Got it. Thanks for the additional context!' }],
-      },
-      ...historyToKeep,
-    ]);
-
-    const { totalTokens: newTokenCount } =
-      await this.getContentGenerator().countTokens({
-        // model might change after calling `sendMessage`, so we get the newest value from config
-        model: this.config.getModel(),
-        contents: this.getChat().getHistory(),
-      });
-    if (newTokenCount === undefined) {
-      console.warn('Could not determine compressed history token count.');
-      return null;
-    }
-
-    return {
+    const olderHistory = curatedHistory.slice(0, splitIndex);
+    const plan: CompressionPlan = {
+      strategy: settings.strategy,
       originalTokenCount,
-      newTokenCount,
+      thresholdTokenCount,
+      dropped: [],
+      prunedToolOutputs: [],
+      kept: curatedHistory.slice(splitIndex),
     };
+
+    switch (settings.strategy) {
+      case CompressionStrategy.SLIDING_WINDOW:
+        if (olderHistory.length === 0) {
+          return null;
+        }
+        return { ...plan, dropped: olderHistory };
+      case CompressionStrategy.PRUNE_TOOL_OUTPUTS: {
+        const { history: prunedHistory, pruned } = pruneToolOutputs(
+          olderHistory,
+          settings.maxToolOutputChars,
+        );
+        if (pruned.length > 0) {
+          const kept = [...prunedHistory, ...plan.kept];
+          const { totalTokens: prunedTokenCount } =
+            await this.getContentGenerator().countTokens({
+              model,
+              contents: kept,
+            });
+          if (
+            prunedTokenCount !== undefined &&
+            prunedTokenCount < thresholdTokenCount
+          ) {
+            return { ...plan, prunedToolOutputs: pruned, kept };
+          }
+        }
+        // Pruning alone is not enough, so summarize the pruned history too.
+        return {
+          ...plan,
+          prunedToolOutputs: pruned,
+          summarized: prunedHistory,
+        };
+      }
+      default:
+        return { ...plan, summarized: olderHistory };
+    }
   }
 
   /**
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Content } from '@google/genai';
+import {
+  CompressionStrategy,
+  DEFAULT_CHAT_COMPRESSION_SETTINGS,
+  findCompressionSplitIndex,
+  findIndexAfterFraction,
+  pruneToolOutputs,
+  resolveChatCompressionSettings,
+} from './compression.js';
+
+describe('findIndexAfterFraction', () => {
+  const history: Content[] = [
+    { role: 'user', parts: [{ text: 'This is the first message.' }] },
+    { role: 'model', parts: [{ text: 'This is the second message.' }] },
+    { role: 'user', parts: [{ text: 'This is the third message.' }] },
+    { role: 'model', parts: [{ text: 'This is the fourth message.' }] },
+    { role: 'user', parts: [{ text: 'This is the fifth message.' }] },
+  ];
+
+  it('should throw an error for non-positive numbers', () => {
+    expect(() => findIndexAfterFraction(history, 0)).toThrow(
+      'Fraction must be between 0 and 1',
+    );
+  });
+
+  it('should throw an error for a fraction greater than or equal to 1', () => {
+    expect(() => findIndexAfterFraction(history, 1)).toThrow(
+      'Fraction must be between 0 and 1',
+    );
+  });
+
+  it('should handle a fraction in the middle', () => {
+    // Total length is 257. 257 * 0.5 = 128.5
+    // 0: 53
+    // 1: 53 + 54 = 107
+    // 2: 107 + 53 = 160
+    // 160 >= 128.5, so index is 2
+    expect(findIndexAfterFraction(history, 0.5)).toBe(2);
+  });
+
+  it('should handle an empty history', () => {
+    expect(findIndexAfterFraction([], 0.5)).toBe(0);
+  });
+
+  it('should handle a history with only one item', () => {
+    expect(findIndexAfterFraction(history.slice(0, 1), 0.5)).toBe(0);
+  });
+
+  it('should handle history with weird parts', () => {
+    const historyWithEmptyParts: Content[] = [
+      { role: 'user', parts: [{ text: 'Message 1' }] },
+      { role: 'model', parts: [{ fileData: { fileUri: 'derp' } }] },
+      { role: 'user', parts: [{ text: 'Message 2' }] },
+    ];
+    expect(findIndexAfterFraction(historyWithEmptyParts, 0.5)).toBe(1);
+  });
+});
+
+describe('resolveChatCompressionSettings', () => {
+  it('should use the defaults when nothing is configured', () => {
+    expect(resolveChatCompressionSettings()).toEqual(
+      DEFAULT_CHAT_COMPRESSION_SETTINGS,
+    );
+  });
+
+  it('should keep valid settings and ignore invalid ones', () => {
+    expect(
+      resolveChatCompressionSettings({
+        strategy: CompressionStrategy.SLIDING_WINDOW,
+        tokenThreshold: 0.9,
+        preserveThreshold: 1.5,
+        maxToolOutputChars: -1,
+      }),
+    ).toEqual({
+      strategy: CompressionStrategy.SLIDING_WINDOW,
+      tokenThreshold: 0.9,
+      preserveThreshold: DEFAULT_CHAT_COMPRESSION_SETTINGS.preserveThreshold,
+      maxToolOutputChars: DEFAULT_CHAT_COMPRESSION_SETTINGS.maxToolOutputChars,
+    });
+    expect(
+      resolveChatCompressionSettings({
+        strategy: 'unknown' as CompressionStrategy,
+      }).strategy,
+    ).toBe(CompressionStrategy.SUMMARIZE);
+  });
+});
+
+describe('findCompressionSplitIndex', () => {
+  it('should not start the preserved history with a tool response', () => {
+    const history: Content[] = [
+      { role: 'user', parts: [{ text: 'List the files.' }] },
+      { role: 'model', parts: [{ functionCall: { name: 'ls', args: {} } }] },
+      {
+        role: 'user',
+        parts: [{ functionResponse: { name: 'ls', response: {} } }],
+      },
+      { role: 'model', parts: [{ text: 'There are no files.' }] },
+      { role: 'user', parts: [{ text: 'Thanks.' }] },
+    ];
+    // The fraction ends on the tool response.
+    expect(findIndexAfterFraction(history, 0.5)).toBe(2);
+    expect(findCompressionSplitIndex(history, 0.5)).toBe(4);
+  });
+});
+
+describe('pruneToolOutputs', () => {
+  it('should only elide tool outputs longer than the limit', () => {
+    const history: Content[] = [
+      {
+        role: 'user',
+        parts: [
+          { functionResponse: { name: 'small', response: { output: 'ok' } } },
+          {
+            functionResponse: {
+              name: 'large',
+              response: { output: 'x'.repeat(100) },
+            },
+          },
+        ],
+      },
+    ];
+
+    const { history: pruned, pruned: prunedOutputs } = pruneToolOutputs(
+      history,
+      50,
+    );
+
+    expect(prunedOutputs).toEqual([
+      { index: 0, name: 'large', characters: 113 },
+    ]);
+    expect(pruned[0].parts?.[0]).toBe(history[0].parts?.[0]);
+    expect(pruned[0].parts?.[1].functionResponse).toEqual({
+      name: 'large',
+      response: {
+        output: '[Output of large elided to save context: 113 characters]',
+      },
+    });
+    // The original history is left untouched.
+    expect(history[0].parts?.[1].functionResponse?.response).toEqual({
+      output: 'x'.repeat(100),
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Content } from '@google/genai';
+
+export enum CompressionStrategy {
+  /** Replaces the older part of the history with a model-written summary. */
+  SUMMARIZE = 'summarize',
+  /**
+   * Elides large tool outputs in the older part of the history, and only
+   * summarizes when that is not enough.
+   */
+  PRUNE_TOOL_OUTPUTS = 'pruneToolOutputs',
+  /** Drops the older part of the history without summarizing it. */
+  SLIDING_WINDOW = 'slidingWindow',
+}
+
+export interface ChatCompressionSettings {
+  strategy?: CompressionStrategy;
+  /**
+   * Fraction of the model's context window at which the history is
+   * compressed automatically.
+   */
+  tokenThreshold?: number;
+  /**
+   * Fraction of the latest history that is kept verbatim. A value of 0.3
+   * means that the last 30% of the history is never summarized or dropped.
+   */
+  preserveThreshold?: number;
+  /** Tool outputs longer than this are elided by `pruneToolOutputs`. */
+  maxToolOutputChars?: number;
+}
+
+export const DEFAULT_CHAT_COMPRESSION_SETTINGS: Required<ChatCompressionSettings> =
+  {
+    strategy: CompressionStrategy.SUMMARIZE,
+    tokenThreshold: 0.7,
+    preserveThreshold: 0.3,
+    maxToolOutputChars: 2_000,
+  };
+
+/**
+ * Fills in defaults for missing settings. Thresholds outside of (0, 1) and
+ * unknown strategies are ignored rather than failing in the middle of a chat.
+ */
+export function resolveChatCompressionSettings(
+  settings: ChatCompressionSettings = {},
+): Required<ChatCompressionSettings> {
+  const fraction = (value: number | undefined, fallback: number) =>
+    value !== undefined && value > 0 && value < 1 ? value : fallback;
+  const defaults = DEFAULT_CHAT_COMPRESSION_SETTINGS;
+  return {
+    strategy: Object.values(CompressionStrategy).includes(
+      settings.strategy as CompressionStrategy,
+    )
+      ? (settings.strategy as CompressionStrategy)
+      : defaults.strategy,
+    tokenThreshold: fraction(settings.tokenThreshold, defaults.tokenThreshold),
+    preserveThreshold: fraction(
+      settings.preserveThreshold,
+      defaults.preserveThreshold,
+    ),
+    maxToolOutputChars:
+      settings.maxToolOutputChars !== undefined &&
+      settings.maxToolOutputChars >= 0
+        ? settings.maxToolOutputChars
+        : defaults.maxToolOutputChars,
+  };
+}
+
+export interface PrunedToolOutput {
+  /** Index of the content holding the tool output in the history. */
+  index: number;
+  name: string;
+  /** Length of the elided output. */
+  characters: number;
+}
+
+/** Describes what compressing the history will do, before doing it. */
+export interface CompressionPlan {
+  strategy: CompressionStrategy;
+  originalTokenCount: number;
+  /** Token count at which the history is compressed automatically. */
+  thresholdTokenCount: number;
+  /**
+   * Contents that will be replaced by a summary. Undefined when the plan
+   * does not need a summary.
+   */
+  summarized?: Content[];
+  /** Contents that will be dropped without a summary. */
+  dropped: Content[];
+  /** Tool outputs that will be replaced by a placeholder. */
+  prunedToolOutputs: PrunedToolOutput[];
+  /** Contents that will be kept, after the summary if there is one. */
+  kept: Content[];
+}
+
+/**
+ * Returns the index of the content after the fraction of the total characters in the history.
+ *
+ * Exported for testing purposes.
+ */
+export function findIndexAfterFraction(
+  history: Content[],
+  fraction: number,
+): number {
+  if (fraction <= 0 || fraction >= 1) {
+    throw new Error('Fraction must be between 0 and 1');
+  }
+
+  const contentLengths = history.map(
+    (content) => JSON.stringify(content).length,
+  );
+
+  const totalCharacters = contentLengths.reduce(
+    (sum, length) => sum + length,
+    0,
+  );
+  const targetCharacters = totalCharacters * fraction;
+
+  let charactersSoFar = 0;
+  for (let i = 0; i < contentLengths.length; i++) {
+    charactersSoFar += contentLengths[i];
+    if (charactersSoFar >= targetCharacters) {
+      return i;
+    }
+  }
+  return contentLengths.length;
+}
+
+function isTurnStart(content: Content): boolean {
+  return (
+    content.role === 'user' &&
+    !content.parts?.some((part) => part.functionResponse)
+  );
+}
+
+/**
+ * Returns the index where the preserved part of the history starts: the
+ * first user turn after `1 - preserveThreshold` of the history. Tool
+ * responses are skipped so that the preserved part never starts with a
+ * response to a function call it does not contain.
+ */
+export function findCompressionSplitIndex(
+  history: Content[],
+  preserveThreshold: number,
+): number {
+  let index = findIndexAfterFraction(history, 1 - preserveThreshold);
+  while (index < history.length && !isTurnStart(history[index])) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Replaces the response of every function call whose serialized response is
+ * longer than `maxChars` with a short placeholder.
+ */
+export function pruneToolOutputs(
+  history: Content[],
+  maxChars: number,
+): { history: Content[]; pruned: PrunedToolOutput[] } {
+  const pruned: PrunedToolOutput[] = [];
+  const prunedHistory = history.map((content, index) => {
+    if (!content.parts?.some((part) => part.functionResponse)) {
+      return content;
+    }
+    const parts = content.parts.map((part) => {
+      if (!part.functionResponse) {
+        return part;
+      }
+      const characters = JSON.stringify(
+        part.functionResponse.response ?? {},
+      ).length;
+      if (characters <= maxChars) {
+        return part;
+      }
+      const name = part.functionResponse.name ?? 'unknown';
+      pruned.push({ index, name, characters });
+      return {
+        ...part,
+        functionResponse: {
+          ...part.functionResponse,
+          response: {
+            output: `[Output of ${name} elided to save context: ${characters} characters]`,
+          },
+        },
+      };
+    });
+    return { ...content, parts };
+  });
+  return { history: prunedHistory, pruned };
+}
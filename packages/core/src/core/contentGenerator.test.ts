@@ -13,11 +13,14 @@ import {
 import { createCodeAssistContentGenerator } from '../code_assist/codeAssist.js';
 import { GoogleGenAI } from '@google/genai';
 import { Config } from '../config/config.js';
+import { OpenAIContentGenerator } from '../openai/openaiContentGenerator.js';
 
 vi.mock('../code_assist/codeAssist.js');
 vi.mock('@google/genai');
 
-const mockConfig = {} as unknown as Config;
+const mockConfig = {
+  getCassette: vi.fn().mockReturnValue(undefined),
+} as unknown as Config;
 
 describe('createContentGenerator', () => {
   it('should create a CodeAssistContentGenerator', async () => {
@@ -60,6 +63,18 @@ describe('createContentGenerator', () => {
     });
     expect(generator).toBe((mockGenerator as GoogleGenAI).models);
   });
+
+  it('should create an OpenAI-compatible content generator', async () => {
+    const generator = await createContentGenerator(
+      {
+        model: 'test-model',
+        baseUrl: 'http://localhost:8000/v1',
+        authType: AuthType.USE_OPENAI_COMPATIBLE,
+      },
+      mockConfig,
+    );
+    expect(generator).toBeInstanceOf(OpenAIContentGenerator);
+  });
 });
 
 describe('createContentGeneratorConfig', () => {
@@ -129,4 +144,39 @@ describe('createContentGeneratorConfig', () => {
     expect(config.apiKey).toBeUndefined();
     expect(config.vertexai).toBeUndefined();
   });
+
+  it('should configure an OpenAI-compatible endpoint from settings', async () => {
+    process.env.MY_LLM_KEY = 'env-llm-key';
+    const config = await createContentGeneratorConfig(
+      'gemini-2.5-pro',
+      AuthType.USE_OPENAI_COMPATIBLE,
+      {
+        baseUrl: 'http://localhost:8000/v1',
+        model: 'qwen2.5-coder',
+        apiKeyEnvVar: 'MY_LLM_KEY',
+      },
+    );
+    expect(config.baseUrl).toBe('http://localhost:8000/v1');
+    expect(config.model).toBe('qwen2.5-coder');
+    expect(config.apiKey).toBe('env-llm-key');
+  });
+
+  it('should read OPENAI_API_KEY by default for OpenAI-compatible endpoints', async () => {
+    process.env.OPENAI_API_KEY = 'env-openai-key';
+    const config = await createContentGeneratorConfig(
+      'local-model',
+      AuthType.USE_OPENAI_COMPATIBLE,
+      { baseUrl: 'http://localhost:8000/v1' },
+    );
+    expect(config.apiKey).toBe('env-openai-key');
+    expect(config.model).toBe('local-model');
+  });
+
+  it('should not configure an OpenAI-compatible endpoint without a base url', async () => {
+    const config = await createContentGeneratorConfig(
+      undefined,
+      AuthType.USE_OPENAI_COMPATIBLE,
+    );
+    expect(config.baseUrl).toBeUndefined();
+  });
 });
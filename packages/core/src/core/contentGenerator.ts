@@ -15,8 +15,16 @@ import {
 } from '@google/genai';
 import { createCodeAssistContentGenerator } from '../code_assist/codeAssist.js';
 import { DEFAULT_GEMINI_MODEL } from '../config/models.js';
-import { Config } from '../config/config.js';
+import { Config, OpenAICompatibleSettings } from '../config/config.js';
 import { getEffectiveModel } from './modelCheck.js';
+import { OpenAIContentGenerator } from '../openai/openaiContentGenerator.js';
+import {
+  CassetteMode,
+  RecordingContentGenerator,
+  ReplayContentGenerator,
+} from './recordReplayContentGenerator.js';
+
+export const DEFAULT_OPENAI_API_KEY_ENV_VAR = 'OPENAI_API_KEY';
 
 /**
  * Interface abstracting the core functionalities for generating content and counting tokens.
@@ -40,18 +48,21 @@ export enum AuthType {
   USE_GEMINI = 'gemini-api-key',
   USE_VERTEX_AI = 'vertex-ai',
   CLOUD_SHELL = 'cloud-shell',
+  USE_OPENAI_COMPATIBLE = 'openai-compatible',
 }
 
 export type ContentGeneratorConfig = {
   model: string;
   apiKey?: string;
   vertexai?: boolean;
+  baseUrl?: string;
   authType?: AuthType | undefined;
 };
 
 export async function createContentGeneratorConfig(
   model: string | undefined,
   authType: AuthType | undefined,
+  openAICompatible?: OpenAICompatibleSettings,
 ): Promise<ContentGeneratorConfig> {
   const geminiApiKey = process.env.GEMINI_API_KEY || undefined;
   const googleApiKey = process.env.GOOGLE_API_KEY || undefined;
@@ -95,6 +106,20 @@ export async function createContentGeneratorConfig(
     return contentGeneratorConfig;
   }
 
+  if (
+    authType === AuthType.USE_OPENAI_COMPATIBLE &&
+    openAICompatible?.baseUrl
+  ) {
+    const apiKeyEnvVar =
+      openAICompatible.apiKeyEnvVar || DEFAULT_OPENAI_API_KEY_ENV_VAR;
+    contentGeneratorConfig.baseUrl = openAICompatible.baseUrl;
+    contentGeneratorConfig.apiKey = process.env[apiKeyEnvVar] || undefined;
+    // The endpoint serves its own models, so prefer the one from settings.
+    contentGeneratorConfig.model = openAICompatible.model || effectiveModel;
+
+    return contentGeneratorConfig;
+  }
+
   return contentGeneratorConfig;
 }
 
@@ -102,6 +127,27 @@ export async function createContentGenerator(
   config: ContentGeneratorConfig,
   gcConfig: Config,
   sessionId?: string,
+): Promise<ContentGenerator> {
+  const cassette = gcConfig.getCassette();
+  if (cassette?.mode === CassetteMode.REPLAY) {
+    return ReplayContentGenerator.load(cassette.path, cassette.lenient);
+  }
+
+  const contentGenerator = await createApiContentGenerator(
+    config,
+    gcConfig,
+    sessionId,
+  );
+  if (cassette?.mode === CassetteMode.RECORD) {
+    return RecordingContentGenerator.create(contentGenerator, cassette.path);
+  }
+  return contentGenerator;
+}
+
+async function createApiContentGenerator(
+  config: ContentGeneratorConfig,
+  gcConfig: Config,
+  sessionId?: string,
 ): Promise<ContentGenerator> {
   const version = process.env.CLI_VERSION || process.version;
   const httpOptions = {
@@ -134,6 +180,14 @@ export async function createContentGenerator(
     return googleGenAI.models;
   }
 
+  if (config.authType === AuthType.USE_OPENAI_COMPATIBLE && config.baseUrl) {
+    return new OpenAIContentGenerator({
+      baseUrl: config.baseUrl,
+      apiKey: config.apiKey,
+      headers: httpOptions.headers,
+    });
+  }
+
   throw new Error(
     `Error creating contentGenerator: Unsupported authType: ${config.authType}`,
   );
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Content } from '@google/genai';
+import { ConversationBranches } from './conversationBranches.js';
+
+const userContent = (text: string): Content => ({
+  role: 'user',
+  parts: [{ text }],
+});
+
+describe('ConversationBranches', () => {
+  let branches: ConversationBranches;
+
+  beforeEach(() => {
+    branches = new ConversationBranches();
+    branches.recordTurn({ prompt: 'first', history: [], uiHistoryLength: 0 });
+    branches.recordTurn({
+      prompt: 'second',
+      history: [userContent('first')],
+      uiHistoryLength: 2,
+      commitHash: 'abc123',
+    });
+  });
+
+  it('should start with a single active branch', () => {
+    expect(branches.list()).toEqual([
+      {
+        id: 1,
+        isActive: true,
+        turnCount: 2,
+        lastPrompt: 'second',
+        forkedFrom: undefined,
+      },
+    ]);
+  });
+
+  it('should fork a new branch from the state before a turn', () => {
+    const checkpoint = branches.fork(2, {
+      history: [userContent('first'), userContent('second')],
+      uiHistory: ['first', 'second'],
+    });
+
+    expect(checkpoint).toEqual({
+      prompt: 'second',
+      history: [userContent('first')],
+      uiHistoryLength: 2,
+      commitHash: 'abc123',
+    });
+    expect(branches.getActiveId()).toBe(2);
+    expect(branches.getTurns().map((turn) => turn.prompt)).toEqual(['first']);
+    expect(branches.list()).toEqual([
+      expect.objectContaining({ id: 1, isActive: false, turnCount: 2 }),
+      expect.objectContaining({
+        id: 2,
+        isActive: true,
+        turnCount: 1,
+        forkedFrom: { id: 1, turn: 2 },
+      }),
+    ]);
+  });
+
+  it('should reject turns that do not exist', () => {
+    const current = { history: [], uiHistory: [] };
+    expect(() => branches.fork(0, current)).toThrow(
+      'Invalid turn: 0. The current branch has 2 turn(s).',
+    );
+    expect(() => branches.fork(3, current)).toThrow('Invalid turn: 3.');
+    expect(() => branches.fork(1.5, current)).toThrow('Invalid turn: 1.5.');
+  });
+
+  it('should switch between branches and keep their state', () => {
+    const original = {
+      history: [userContent('first'), userContent('second')],
+      uiHistory: ['first', 'second'],
+    };
+    branches.fork(1, original);
+    const forked = {
+      history: [userContent('other')],
+      uiHistory: ['other'],
+    };
+
+    expect(branches.switchTo(1, forked)).toBe(original);
+    expect(branches.getActiveId()).toBe(1);
+    expect(branches.switchTo(2, original)).toBe(forked);
+  });
+
+  it('should reject switching to unknown or active branches', () => {
+    const current = { history: [], uiHistory: [] };
+    expect(() => branches.switchTo(5, current)).toThrow('Unknown branch: 5.');
+    expect(() => branches.switchTo(1, current)).toThrow(
+      'Branch 1 is already active.',
+    );
+  });
+
+  it('should drop all branches on reset', () => {
+    branches.fork(1, { history: [], uiHistory: [] });
+    branches.reset();
+
+    expect(branches.list()).toEqual([
+      {
+        id: 1,
+        isActive: true,
+        turnCount: 0,
+        lastPrompt: undefined,
+        forkedFrom: undefined,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Content } from '@google/genai';
+
+/** The state of a conversation right before a user turn. */
+export interface TurnCheckpoint {
+  /** The prompt that started the turn. */
+  prompt: string;
+  /** The history sent to the model before the turn. */
+  history: Content[];
+  /** The number of items the UI showed before the turn. */
+  uiHistoryLength: number;
+  /** Snapshot of the project files before the turn, if checkpointing is enabled. */
+  commitHash?: string;
+}
+
+/** Both histories of a conversation, as needed to switch to it. */
+export interface BranchState {
+  history: Content[];
+  /** The history shown by the UI, which is opaque to the core package. */
+  uiHistory: unknown[];
+}
+
+export interface BranchSummary {
+  id: number;
+  isActive: boolean;
+  turnCount: number;
+  lastPrompt?: string;
+  /** The branch and turn this branch was forked from. */
+  forkedFrom?: { id: number; turn: number };
+}
+
+interface ConversationBranch {
+  id: number;
+  turns: TurnCheckpoint[];
+  forkedFrom?: { id: number; turn: number };
+  /** Saved when the branch is left; stale while the branch is active. */
+  state?: BranchState;
+}
+
+/**
+ * Keeps the alternative versions of a conversation that were created by
+ * rewinding it to an earlier turn, so that none of them is lost.
+ *
+ * Only the active branch changes as the conversation goes on. Its state lives
+ * in the chat and the UI, and is handed over when forking or switching.
+ */
+export class ConversationBranches {
+  private branches: ConversationBranch[] = [];
+  private activeId = 0;
+
+  constructor() {
+    this.reset();
+  }
+
+  /** Drops all branches, e.g. when the conversation is cleared. */
+  reset(): void {
+    this.branches = [{ id: 1, turns: [] }];
+    this.activeId = 1;
+  }
+
+  recordTurn(checkpoint: TurnCheckpoint): void {
+    this.getActive().turns.push(checkpoint);
+  }
+
+  /** The turns of the active branch, oldest first. */
+  getTurns(): readonly TurnCheckpoint[] {
+    return this.getActive().turns;
+  }
+
+  getActiveId(): number {
+    return this.activeId;
+  }
+
+  /**
+   * Keeps the current conversation as it is and starts a new branch from the
+   * state right before the given (1-based) turn.
+   *
+   * @returns The checkpoint of that turn, which the caller restores.
+   */
+  fork(turn: number, current: BranchState): TurnCheckpoint {
+    const active = this.getActive();
+    if (!Number.isInteger(turn) || turn < 1 || turn > active.turns.length) {
+      throw new Error(
+        `Invalid turn: ${turn}. The current branch has ${active.turns.length} turn(s).`,
+      );
+    }
+    active.state = current;
+    const branch: ConversationBranch = {
+      id: Math.max(...this.branches.map((b) => b.id)) + 1,
+      turns: active.turns.slice(0, turn - 1),
+      forkedFrom: { id: active.id, turn },
+    };
+    this.branches.push(branch);
+    this.activeId = branch.id;
+    return active.turns[turn - 1];
+  }
+
+  /**
+   * Saves the current conversation in the active branch and makes another
+   * branch active.
+   *
+   * @returns The state of the branch that was switched to.
+   */
+  switchTo(id: number, current: BranchState): BranchState {
+    const target = this.branches.find((branch) => branch.id === id);
+    if (!target) {
+      throw new Error(`Unknown branch: ${id}.`);
+    }
+    if (target.id === this.activeId) {
+      throw new Error(`Branch ${id} is already active.`);
+    }
+    this.getActive().state = current;
+    this.activeId = target.id;
+    // Only inactive branches have a saved state, and target was not active.
+    return target.state!;
+  }
+
+  list(): BranchSummary[] {
+    return this.branches.map((branch) => ({
+      id: branch.id,
+      isActive: branch.id === this.activeId,
+      turnCount: branch.turns.length,
+      lastPrompt: branch.turns.at(-1)?.prompt,
+      forkedFrom: branch.forkedFrom,
+    }));
+  }
+
+  private getActive(): ConversationBranch {
+    return this.branches.find((branch) => branch.id === this.activeId)!;
+  }
+}
@@ -18,7 +18,12 @@ import {
   ToolConfirmationOutcome,
   ToolConfirmationPayload,
   ToolResult,
+  ToolEffects,
   Config,
+  PermissionPolicyEngine,
+  DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
+  PermissionRule,
+  ApprovalMode,
 } from '../index.js';
 import { Part, PartListUnion } from '@google/genai';
 
@@ -123,6 +128,8 @@ describe('CoreToolScheduler', () => {
       getSessionId: () => 'test-session-id',
       getUsageStatisticsEnabled: () => true,
       getDebugMode: () => false,
+      getPolicyEngine: () => new PermissionPolicyEngine('/test/dir'),
+      getMaxConcurrentToolCalls: () => DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
     } as unknown as Config;
 
     const scheduler = new CoreToolScheduler({
@@ -191,6 +198,8 @@ describe('CoreToolScheduler with payload', () => {
       getSessionId: () => 'test-session-id',
       getUsageStatisticsEnabled: () => true,
       getDebugMode: () => false,
+      getPolicyEngine: () => new PermissionPolicyEngine('/test/dir'),
+      getMaxConcurrentToolCalls: () => DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
     } as unknown as Config;
 
     const scheduler = new CoreToolScheduler({
@@ -238,6 +247,295 @@ describe('CoreToolScheduler with payload', () => {
   });
 });
 
+describe('CoreToolScheduler with permission rules', () => {
+  const createScheduler = (
+    mockTool: MockTool,
+    rules: PermissionRule[],
+    approvalMode = ApprovalMode.DEFAULT,
+  ) => {
+    const toolRegistry = {
+      getTool: () => mockTool,
+      getFunctionDeclarations: () => [],
+    };
+    const policyEngine = new PermissionPolicyEngine('/test/dir', { rules });
+    const onAllToolCallsComplete = vi.fn();
+    const onToolCallsUpdate = vi.fn();
+    const scheduler = new CoreToolScheduler({
+      config: {
+        getSessionId: () => 'test-session-id',
+        getUsageStatisticsEnabled: () => true,
+        getDebugMode: () => false,
+        getPolicyEngine: () => policyEngine,
+        getMaxConcurrentToolCalls: () => DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
+      } as unknown as Config,
+      toolRegistry: Promise.resolve(toolRegistry as any),
+      onAllToolCallsComplete,
+      onToolCallsUpdate,
+      approvalMode,
+      getPreferredEditor: () => 'vscode',
+    });
+    return {
+      scheduler,
+      policyEngine,
+      onAllToolCallsComplete,
+      onToolCallsUpdate,
+    };
+  };
+
+  const request = {
+    callId: '1',
+    name: 'mockTool',
+    args: { command: 'rm -rf build' },
+    isClientInitiated: false,
+    prompt_id: 'prompt-id-3',
+  };
+
+  it('should reject calls denied by a rule, even in YOLO mode', async () => {
+    const mockTool = new MockTool();
+    const { scheduler, onAllToolCallsComplete } = createScheduler(
+      mockTool,
+      [{ decision: 'deny', command: 'rm' }],
+      ApprovalMode.YOLO,
+    );
+
+    await scheduler.schedule([request], new AbortController().signal);
+
+    const [completedCall] = onAllToolCallsComplete.mock.calls[0][0];
+    expect(completedCall.status).toBe('error');
+    expect(completedCall.response.error.message).toBe(
+      'Tool call denied by permission rule: deny command=rm',
+    );
+    expect(mockTool.executeFn).not.toHaveBeenCalled();
+  });
+
+  it('should run calls allowed by a rule without confirmation', async () => {
+    const mockTool = new MockTool();
+    mockTool.shouldConfirm = true;
+    const { scheduler, onAllToolCallsComplete } = createScheduler(mockTool, [
+      { decision: 'allow', tool: 'mock*' },
+    ]);
+
+    await scheduler.schedule([request], new AbortController().signal);
+
+    await vi.waitFor(() => {
+      expect(onAllToolCallsComplete).toHaveBeenCalled();
+    });
+    expect(onAllToolCallsComplete.mock.calls[0][0][0].status).toBe('success');
+  });
+
+  it('should ask for confirmation when a rule requires it', async () => {
+    const mockTool = new MockTool();
+    const { scheduler, onToolCallsUpdate } = createScheduler(
+      mockTool,
+      [{ decision: 'ask', tool: 'mockTool' }],
+      ApprovalMode.YOLO,
+    );
+
+    await scheduler.schedule([request], new AbortController().signal);
+
+    const [waitingCall] = onToolCallsUpdate.mock.calls.at(-1)![0];
+    expect(waitingCall.status).toBe('awaiting_approval');
+    expect(waitingCall.confirmationDetails).toEqual(
+      expect.objectContaining({ type: 'info', title: 'Confirm mockTool' }),
+    );
+  });
+
+  it('should remember "always allow" answers', async () => {
+    const mockTool = new MockTool();
+    mockTool.shouldConfirm = true;
+    const { scheduler, policyEngine } = createScheduler(mockTool, []);
+    const signal = new AbortController().signal;
+
+    await scheduler.schedule([request], signal);
+    await scheduler.handleConfirmationResponse(
+      '1',
+      async () => {},
+      ToolConfirmationOutcome.ProceedAlways,
+      signal,
+    );
+
+    expect(policyEngine.getSessionRules()).toEqual([
+      { decision: 'allow', tool: 'mockTool', command: 'rm' },
+    ]);
+  });
+});
+
+describe('CoreToolScheduler conflict-aware execution', () => {
+  class FileTool extends BaseTool<Record<string, unknown>, ToolResult> {
+    private readonly running = new Map<string, () => void>();
+
+    constructor(
+      name: string,
+      private readonly effects: (
+        params: Record<string, unknown>,
+      ) => ToolEffects,
+      private readonly events: string[],
+    ) {
+      super(name, name, 'A file tool', {});
+    }
+
+    getEffects(params: Record<string, unknown>): ToolEffects {
+      return this.effects(params);
+    }
+
+    async execute(params: Record<string, unknown>): Promise<ToolResult> {
+      const id = params['id'] as string;
+      this.events.push(`start ${id}`);
+      await new Promise<void>((resolve) => this.running.set(id, resolve));
+      return { llmContent: 'done', returnDisplay: 'done' };
+    }
+
+    finish(id: string) {
+      this.running.get(id)!();
+    }
+  }
+
+  const setup = (
+    maxConcurrentToolCalls = DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
+    verificationCommands: string[] = [],
+  ) => {
+    const events: string[] = [];
+    const verificationService = {
+      getCommandsFor: vi.fn(() => verificationCommands),
+      verifyChanges: vi.fn(async () => 'Verification after these changes:'),
+    };
+    const tools = {
+      write: new FileTool(
+        'write',
+        (params) => ({ writes: [params['file'] as string] }),
+        events,
+      ),
+      read: new FileTool(
+        'read',
+        (params) => ({ reads: [params['file'] as string] }),
+        events,
+      ),
+    };
+    const onAllToolCallsComplete = vi.fn();
+    const scheduler = new CoreToolScheduler({
+      config: {
+        getSessionId: () => 'test-session-id',
+        getUsageStatisticsEnabled: () => true,
+        getDebugMode: () => false,
+        getPolicyEngine: () => new PermissionPolicyEngine('/test/dir'),
+        getMaxConcurrentToolCalls: () => maxConcurrentToolCalls,
+        getVerificationService: () => verificationService,
+      } as unknown as Config,
+      toolRegistry: Promise.resolve({
+        getTool: (name: keyof typeof tools) => tools[name],
+      } as any),
+      onAllToolCallsComplete,
+      getPreferredEditor: () => 'vscode',
+    });
+    const request = (id: string, name: string, file: string) => ({
+      callId: id,
+      name,
+      args: { id, file },
+      isClientInitiated: false,
+      prompt_id: 'prompt-id-4',
+    });
+    return {
+      events,
+      tools,
+      scheduler,
+      onAllToolCallsComplete,
+      request,
+      verificationService,
+    };
+  };
+
+  it('should run reads in parallel and serialize writes to the same file', async () => {
+    const { events, tools, scheduler, onAllToolCallsComplete, request } =
+      setup();
+
+    await scheduler.schedule(
+      [
+        request('1', 'write', '/project/a.ts'),
+        request('2', 'read', '/project/b.ts'),
+        request('3', 'write', '/project/a.ts'),
+        request('4', 'read', '/project'),
+      ],
+      new AbortController().signal,
+    );
+
+    expect(events).toEqual(['start 1', 'start 2']);
+
+    tools.write.finish('1');
+    await vi.waitFor(() => expect(events).toContain('start 3'));
+    expect(events).not.toContain('start 4');
+
+    tools.write.finish('3');
+    await vi.waitFor(() => expect(events).toContain('start 4'));
+    tools.read.finish('2');
+    tools.read.finish('4');
+
+    await vi.waitFor(() => expect(onAllToolCallsComplete).toHaveBeenCalled());
+    expect(
+      onAllToolCallsComplete.mock.calls[0][0].map(
+        (call: ToolCall) => call.status,
+      ),
+    ).toEqual(['success', 'success', 'success', 'success']);
+  });
+
+  it('should honour the concurrency limit', async () => {
+    const { events, tools, scheduler, request } = setup(2);
+
+    await scheduler.schedule(
+      [
+        request('1', 'read', '/project/a.ts'),
+        request('2', 'read', '/project/b.ts'),
+        request('3', 'read', '/project/c.ts'),
+      ],
+      new AbortController().signal,
+    );
+
+    expect(events).toEqual(['start 1', 'start 2']);
+
+    tools.read.finish('2');
+    await vi.waitFor(() => expect(events).toContain('start 3'));
+  });
+
+  it('should verify the changed files before completing the batch', async () => {
+    const {
+      tools,
+      scheduler,
+      onAllToolCallsComplete,
+      request,
+      verificationService,
+    } = setup(DEFAULT_MAX_CONCURRENT_TOOL_CALLS, ['tsc --noEmit']);
+
+    await scheduler.schedule(
+      [
+        request('1', 'write', '/project/a.ts'),
+        request('2', 'write', '/project/b.ts'),
+        request('3', 'read', '/project/c.ts'),
+      ],
+      new AbortController().signal,
+    );
+    tools.write.finish('1');
+    tools.write.finish('2');
+    tools.read.finish('3');
+
+    await vi.waitFor(() => expect(onAllToolCallsComplete).toHaveBeenCalled());
+    expect(verificationService.verifyChanges).toHaveBeenCalledWith(
+      ['/project/a.ts', '/project/b.ts'],
+      expect.any(AbortSignal),
+    );
+    const [first, second] = onAllToolCallsComplete.mock.calls[0][0];
+    expect(first.response.verification).toBeUndefined();
+    expect(second.response.verification).toBe(
+      'Verification after these changes:',
+    );
+    expect(second.response.responseParts).toEqual({
+      functionResponse: {
+        id: '2',
+        name: 'write',
+        response: { output: 'done\n\nVerification after these changes:' },
+      },
+    });
+  });
+});
+
 describe('convertToFunctionResponse', () => {
   const toolName = 'testTool';
   const callId = 'call1';
@@ -18,6 +18,7 @@ import {
   logToolCall,
   ToolCallEvent,
   ToolConfirmationPayload,
+  ToolEffects,
 } from '../index.js';
 import { Part, PartListUnion } from '@google/genai';
 import { getResponseTextFromParts } from '../utils/generateContentResponseUtilities.js';
@@ -27,6 +28,14 @@ import {
   modifyWithEditor,
 } from '../tools/modifiable-tool.js';
 import * as Diff from 'diff';
+import { getErrorMessage } from '../utils/errors.js';
+import { VerificationService } from '../services/verificationService.js';
+import { formatPermissionRule } from './policyEngine.js';
+import {
+  effectsConflict,
+  getToolEffects,
+  ToolCallExecution,
+} from './toolConcurrency.js';
 
 export type ValidatingToolCall = {
   status: 'validating';
@@ -197,6 +206,45 @@ export function convertToFunctionResponse(
   );
 }
 
+/**
+ * Appends the results of the verification commands to a response, for the
+ * model and for display.
+ */
+export function appendVerificationToResponse(
+  response: ToolCallResponseInfo,
+  verification: string,
+): ToolCallResponseInfo {
+  const parts = Array.isArray(response.responseParts)
+    ? response.responseParts
+    : [response.responseParts];
+  const responseParts = parts.map((part) => {
+    if (
+      typeof part === 'string' ||
+      part.functionResponse?.id !== response.callId
+    ) {
+      return part;
+    }
+    const { output } = part.functionResponse.response ?? {};
+    return {
+      ...part,
+      functionResponse: {
+        ...part.functionResponse,
+        response: {
+          ...part.functionResponse.response,
+          output: output ? `${output}\n\n${verification}` : verification,
+        },
+      },
+    };
+  });
+  return {
+    ...response,
+    responseParts: Array.isArray(response.responseParts)
+      ? responseParts
+      : responseParts[0],
+    verification,
+  };
+}
+
 const createErrorResponse = (
   request: ToolCallRequestInfo,
   error: Error,
@@ -213,6 +261,10 @@ const createErrorResponse = (
   resultDisplay: error.message,
 });
 
+interface PlannedExecution extends ToolCallExecution {
+  effects: ToolEffects;
+}
+
 interface CoreToolSchedulerOptions {
   toolRegistry: Promise<ToolRegistry>;
   outputUpdateHandler?: OutputUpdateHandler;
@@ -232,6 +284,10 @@ export class CoreToolScheduler {
   private approvalMode: ApprovalMode;
   private getPreferredEditor: () => EditorType | undefined;
   private config: Config;
+  private executions = new Map<string, PlannedExecution>();
+  private startedCount = 0;
+  private signal: AbortSignal | undefined;
+  private verifying = false;
 
   constructor(options: CoreToolSchedulerOptions) {
     this.config = options.config;
@@ -394,9 +450,12 @@ export class CoreToolScheduler {
   }
 
   private isRunning(): boolean {
-    return this.toolCalls.some(
-      (call) =>
-        call.status === 'executing' || call.status === 'awaiting_approval',
+    return (
+      this.verifying ||
+      this.toolCalls.some(
+        (call) =>
+          call.status === 'executing' || call.status === 'awaiting_approval',
+      )
     );
   }
 
@@ -409,6 +468,7 @@ export class CoreToolScheduler {
         'Cannot schedule new tool calls while other tool calls are actively running (executing or awaiting approval).',
       );
     }
+    this.signal = signal;
     const requestsToProcess = Array.isArray(request) ? request : [request];
     const toolRegistry = await this.toolRegistry;
 
@@ -445,13 +505,39 @@ export class CoreToolScheduler {
 
       const { request: reqInfo, tool: toolInstance } = toolCall;
       try {
-        if (this.approvalMode === ApprovalMode.YOLO) {
+        const permission = this.config
+          .getPolicyEngine()
+          .evaluate(toolInstance, reqInfo.args);
+        if (permission?.decision === 'deny') {
+          this.setStatusInternal(
+            reqInfo.callId,
+            'error',
+            createErrorResponse(
+              reqInfo,
+              new Error(
+                `Tool call denied by permission rule: ${formatPermissionRule(permission.rule)}`,
+              ),
+            ),
+          );
+        } else if (
+          permission?.decision === 'allow' ||
+          (!permission && this.approvalMode === ApprovalMode.YOLO)
+        ) {
           this.setStatusInternal(reqInfo.callId, 'scheduled');
         } else {
-          const confirmationDetails = await toolInstance.shouldConfirmExecute(
+          let confirmationDetails = await toolInstance.shouldConfirmExecute(
             reqInfo.args,
             signal,
           );
+          if (!confirmationDetails && permission?.decision === 'ask') {
+            // The tool would run without confirmation, but a rule requires it.
+            confirmationDetails = {
+              type: 'info',
+              title: `Confirm ${toolInstance.displayName}`,
+              prompt: toolInstance.getDescription(reqInfo.args),
+              onConfirm: async () => {},
+            };
+          }
 
           if (confirmationDetails) {
             const originalOnConfirm = confirmationDetails.onConfirm;
@@ -506,6 +592,9 @@ export class CoreToolScheduler {
 
     if (toolCall && toolCall.status === 'awaiting_approval') {
       await originalOnConfirm(outcome);
+      this.config
+        .getPolicyEngine()
+        .rememberAlwaysAllow(toolCall.tool, toolCall.request.args, outcome);
     }
 
     this.toolCalls = this.toolCalls.map((call) => {
@@ -593,13 +682,15 @@ export class CoreToolScheduler {
       payload.newContent,
       toolCall.request.args,
     );
-    const updatedDiff = Diff.createPatch(
-      modifyContext.getFilePath(toolCall.request.args),
-      currentContent,
-      payload.newContent,
-      'Current',
-      'Proposed',
-    );
+    const updatedDiff = modifyContext.getUpdatedDiff
+      ? modifyContext.getUpdatedDiff(updatedParams)
+      : Diff.createPatch(
+          modifyContext.getFilePath(toolCall.request.args),
+          currentContent,
+          payload.newContent,
+          'Current',
+          'Proposed',
+        );
 
     this.setArgsInternal(toolCall.request.callId, updatedParams);
     this.setStatusInternal(toolCall.request.callId, 'awaiting_approval', {
@@ -609,81 +700,141 @@ export class CoreToolScheduler {
   }
 
   private attemptExecutionOfScheduledCalls(signal: AbortSignal): void {
-    const allCallsFinalOrScheduled = this.toolCalls.every(
+    const allCallsReady = this.toolCalls.every(
       (call) =>
-        call.status === 'scheduled' ||
-        call.status === 'cancelled' ||
-        call.status === 'success' ||
-        call.status === 'error',
+        call.status !== 'validating' && call.status !== 'awaiting_approval',
     );
+    if (!allCallsReady) {
+      return;
+    }
 
-    if (allCallsFinalOrScheduled) {
-      const callsToExecute = this.toolCalls.filter(
-        (call) => call.status === 'scheduled',
-      );
+    const scheduledCalls = this.toolCalls.filter(
+      (call): call is ScheduledToolCall => call.status === 'scheduled',
+    );
+    if (signal.aborted) {
+      for (const call of scheduledCalls) {
+        this.setStatusInternal(
+          call.request.callId,
+          'cancelled',
+          'User cancelled tool execution.',
+        );
+      }
+      return;
+    }
 
-      callsToExecute.forEach((toolCall) => {
-        if (toolCall.status !== 'scheduled') return;
-
-        const scheduledCall = toolCall;
-        const { callId, name: toolName } = scheduledCall.request;
-        this.setStatusInternal(callId, 'executing');
-
-        const liveOutputCallback =
-          scheduledCall.tool.canUpdateOutput && this.outputUpdateHandler
-            ? (outputChunk: string) => {
-                if (this.outputUpdateHandler) {
-                  this.outputUpdateHandler(callId, outputChunk);
-                }
-                this.toolCalls = this.toolCalls.map((tc) =>
-                  tc.request.callId === callId && tc.status === 'executing'
-                    ? { ...tc, liveOutput: outputChunk }
-                    : tc,
-                );
-                this.notifyToolCallsUpdate();
-              }
-            : undefined;
+    for (const call of scheduledCalls) {
+      this.planExecution(call);
+    }
 
-        scheduledCall.tool
-          .execute(scheduledCall.request.args, signal, liveOutputCallback)
-          .then((toolResult: ToolResult) => {
-            if (signal.aborted) {
-              this.setStatusInternal(
-                callId,
-                'cancelled',
-                'User cancelled tool execution.',
-              );
-              return;
-            }
+    let runningCount = this.toolCalls.filter(
+      (call) => call.status === 'executing',
+    ).length;
+    for (const call of scheduledCalls) {
+      if (runningCount >= this.config.getMaxConcurrentToolCalls()) {
+        break;
+      }
+      const execution = this.executions.get(call.request.callId)!;
+      if (execution.waitedFor.some((callId) => this.isPending(callId))) {
+        continue;
+      }
+      execution.order = this.startedCount++;
+      runningCount++;
+      this.executeCall(call, signal);
+    }
+  }
 
-            const response = convertToFunctionResponse(
-              toolName,
-              callId,
-              toolResult.llmContent,
-            );
+  /**
+   * Makes a call wait for the earlier calls that it conflicts with, e.g.
+   * because they write the same file.
+   */
+  private planExecution(call: ScheduledToolCall): void {
+    const { callId } = call.request;
+    if (this.executions.has(callId)) {
+      return;
+    }
+    const effects = getToolEffects(call.tool, call.request.args);
+    const waitedFor = [...this.executions.entries()]
+      .filter(
+        ([otherCallId, other]) =>
+          this.isPending(otherCallId) &&
+          effectsConflict(effects, other.effects),
+      )
+      .map(([otherCallId]) => otherCallId);
+    this.executions.set(callId, { effects, waitedFor });
+  }
 
-            const successResponse: ToolCallResponseInfo = {
-              callId,
-              responseParts: response,
-              resultDisplay: toolResult.returnDisplay,
-              error: undefined,
-            };
-            this.setStatusInternal(callId, 'success', successResponse);
-          })
-          .catch((executionError: Error) => {
-            this.setStatusInternal(
-              callId,
-              'error',
-              createErrorResponse(
-                scheduledCall.request,
-                executionError instanceof Error
-                  ? executionError
-                  : new Error(String(executionError)),
-              ),
+  private isPending(callId: string): boolean {
+    return this.toolCalls.some(
+      (call) =>
+        call.request.callId === callId &&
+        (call.status === 'scheduled' || call.status === 'executing'),
+    );
+  }
+
+  private executeCall(scheduledCall: ScheduledToolCall, signal: AbortSignal) {
+    const { callId, name: toolName } = scheduledCall.request;
+    const executions = this.executions;
+    this.setStatusInternal(callId, 'executing');
+
+    const liveOutputCallback =
+      scheduledCall.tool.canUpdateOutput && this.outputUpdateHandler
+        ? (outputChunk: string) => {
+            if (this.outputUpdateHandler) {
+              this.outputUpdateHandler(callId, outputChunk);
+            }
+            this.toolCalls = this.toolCalls.map((tc) =>
+              tc.request.callId === callId && tc.status === 'executing'
+                ? { ...tc, liveOutput: outputChunk }
+                : tc,
             );
-          });
+            this.notifyToolCallsUpdate();
+          }
+        : undefined;
+
+    scheduledCall.tool
+      .execute(scheduledCall.request.args, signal, liveOutputCallback)
+      .then((toolResult: ToolResult) => {
+        if (signal.aborted) {
+          this.setStatusInternal(
+            callId,
+            'cancelled',
+            'User cancelled tool execution.',
+          );
+          return;
+        }
+
+        const response = convertToFunctionResponse(
+          toolName,
+          callId,
+          toolResult.llmContent,
+        );
+
+        const successResponse: ToolCallResponseInfo = {
+          callId,
+          responseParts: response,
+          resultDisplay: toolResult.returnDisplay,
+          error: undefined,
+        };
+        this.setStatusInternal(callId, 'success', successResponse);
+      })
+      .catch((executionError: Error) => {
+        this.setStatusInternal(
+          callId,
+          'error',
+          createErrorResponse(
+            scheduledCall.request,
+            executionError instanceof Error
+              ? executionError
+              : new Error(String(executionError)),
+          ),
+        );
+      })
+      .finally(() => {
+        // Start the calls that waited for this one, unless the batch is over.
+        if (this.executions === executions) {
+          this.attemptExecutionOfScheduledCalls(signal);
+        }
       });
-    }
   }
 
   private checkAndNotifyCompletion(): void {
@@ -694,19 +845,100 @@ export class CoreToolScheduler {
         call.status === 'cancelled',
     );
 
-    if (this.toolCalls.length > 0 && allCallsAreTerminal) {
-      const completedCalls = [...this.toolCalls] as CompletedToolCall[];
-      this.toolCalls = [];
+    if (this.toolCalls.length === 0 || !allCallsAreTerminal || this.verifying) {
+      return;
+    }
 
-      for (const call of completedCalls) {
-        logToolCall(this.config, new ToolCallEvent(call));
-      }
+    // Check the files that the batch changed before the model sees the results.
+    const changedPaths = this.getChangedPaths();
+    const verificationService =
+      changedPaths.length > 0
+        ? this.config.getVerificationService()
+        : undefined;
+    if (verificationService?.getCommandsFor(changedPaths).length) {
+      this.verifying = true;
+      void this.verifyChanges(verificationService, changedPaths).finally(() => {
+        this.verifying = false;
+        this.completeBatch();
+      });
+      return;
+    }
+    this.completeBatch();
+  }
+
+  private completeBatch(): void {
+    const completedCalls = [...this.toolCalls] as CompletedToolCall[];
+    this.toolCalls = [];
+
+    const executions = this.executions;
+    this.executions = new Map();
+    this.startedCount = 0;
+
+    for (const call of completedCalls) {
+      logToolCall(
+        this.config,
+        new ToolCallEvent(call, executions.get(call.request.callId)),
+      );
+    }
+
+    if (this.onAllToolCallsComplete) {
+      this.onAllToolCallsComplete(completedCalls);
+    }
+    this.notifyToolCallsUpdate();
+  }
 
-      if (this.onAllToolCallsComplete) {
-        this.onAllToolCallsComplete(completedCalls);
+  /** Paths that the successful calls of the batch declared to write. */
+  private getChangedPaths(): string[] {
+    const paths = new Set<string>();
+    for (const call of this.toolCalls) {
+      if (call.status === 'success') {
+        const writes = this.executions.get(call.request.callId)?.effects.writes;
+        writes?.forEach((writtenPath) => paths.add(writtenPath));
       }
-      this.notifyToolCallsUpdate();
     }
+    return [...paths];
+  }
+
+  /**
+   * Runs the verification commands for the files that the batch changed, and
+   * adds their results to the last call that changed files.
+   */
+  private async verifyChanges(
+    verificationService: VerificationService,
+    changedPaths: string[],
+  ): Promise<void> {
+    let verification: string;
+    try {
+      verification =
+        (await verificationService.verifyChanges(
+          changedPaths,
+          this.signal ?? new AbortController().signal,
+        )) ?? '';
+    } catch (error) {
+      verification = `Verification after these changes failed: ${getErrorMessage(error)}`;
+    }
+    const lastChangingCall = [...this.toolCalls]
+      .reverse()
+      .find(
+        (call): call is SuccessfulToolCall =>
+          call.status === 'success' &&
+          !!this.executions.get(call.request.callId)?.effects.writes?.length,
+      );
+    if (!lastChangingCall || !verification) {
+      return;
+    }
+    this.toolCalls = this.toolCalls.map((call) =>
+      call === lastChangingCall
+        ? {
+            ...lastChangingCall,
+            response: appendVerificationToResponse(
+              lastChangingCall.response,
+              verification,
+            ),
+          }
+        : call,
+    );
+    this.notifyToolCallsUpdate();
   }
 
   private notifyToolCallsUpdate(): void {
@@ -42,6 +42,7 @@ describe('GeminiChat', () => {
         model: 'test-model',
       }),
       getModel: vi.fn().mockReturnValue('gemini-pro'),
+      getModelForPurpose: vi.fn().mockReturnValue('gemini-pro'),
       setModel: vi.fn(),
       getQuotaErrorOccurred: vi.fn().mockReturnValue(false),
       setQuotaErrorOccurred: vi.fn(),
@@ -15,6 +15,7 @@ import {
   createUserContent,
   Part,
   GenerateContentResponseUsageMetadata,
+  Tool,
 } from '@google/genai';
 import { retryWithBackoff } from '../utils/retry.js';
 import { isFunctionResponse } from '../utils/messageInspectors.js';
@@ -34,7 +35,7 @@ import {
   ApiRequestEvent,
   ApiResponseEvent,
 } from '../telemetry/types.js';
-import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
+import { DEFAULT_GEMINI_FLASH_MODEL, ModelPurpose } from '../config/models.js';
 
 /**
  * Returns true if the response is valid, false otherwise.
@@ -152,11 +153,12 @@ export class GeminiChat {
     contents: Content[],
     model: string,
     prompt_id: string,
+    purpose: ModelPurpose = ModelPurpose.CHAT,
   ): Promise<void> {
     const requestText = this._getRequestTextFromContents(contents);
     logApiRequest(
       this.config,
-      new ApiRequestEvent(model, prompt_id, requestText),
+      new ApiRequestEvent(model, prompt_id, requestText, purpose),
     );
   }
 
@@ -165,15 +167,18 @@ export class GeminiChat {
     prompt_id: string,
     usageMetadata?: GenerateContentResponseUsageMetadata,
     responseText?: string,
+    purpose: ModelPurpose = ModelPurpose.CHAT,
   ): Promise<void> {
     logApiResponse(
       this.config,
       new ApiResponseEvent(
-        this.config.getModel(),
+        this.config.getModelForPurpose(purpose),
         durationMs,
         prompt_id,
         usageMetadata,
         responseText,
+        undefined,
+        purpose,
       ),
     );
   }
@@ -182,6 +187,7 @@ export class GeminiChat {
     durationMs: number,
     error: unknown,
     prompt_id: string,
+    purpose: ModelPurpose = ModelPurpose.CHAT,
   ): void {
     const errorMessage = error instanceof Error ? error.message : String(error);
     const errorType = error instanceof Error ? error.name : 'unknown';
@@ -189,11 +195,13 @@ export class GeminiChat {
     logApiError(
       this.config,
       new ApiErrorEvent(
-        this.config.getModel(),
+        this.config.getModelForPurpose(purpose),
         errorMessage,
         durationMs,
         prompt_id,
         errorType,
+        undefined,
+        purpose,
       ),
     );
   }
@@ -253,6 +261,8 @@ export class GeminiChat {
    *
    * @see {@link Chat#sendMessageStream} for streaming method.
    * @param params - parameters for sending messages within a chat session.
+   * @param purpose - the purpose of the call, used to pick the model and to
+   *     tag telemetry. Defaults to the main chat.
    * @returns The model's response.
    *
    * @example
@@ -267,19 +277,26 @@ export class GeminiChat {
   async sendMessage(
     params: SendMessageParameters,
     prompt_id: string,
+    purpose: ModelPurpose = ModelPurpose.CHAT,
   ): Promise<GenerateContentResponse> {
     await this.sendPromise;
     const userContent = createUserContent(params.message);
     const requestContents = this.getHistory(true).concat(userContent);
 
-    this._logApiRequest(requestContents, this.config.getModel(), prompt_id);
+    this._logApiRequest(
+      requestContents,
+      this.config.getModelForPurpose(purpose),
+      prompt_id,
+      purpose,
+    );
 
     const startTime = Date.now();
     let response: GenerateContentResponse;
 
     try {
       const apiCall = () => {
-        const modelToUse = this.config.getModel() || DEFAULT_GEMINI_FLASH_MODEL;
+        const modelToUse =
+          this.config.getModelForPurpose(purpose) || DEFAULT_GEMINI_FLASH_MODEL;
 
         // Prevent Flash model calls immediately after quota error
         if (
@@ -316,6 +333,7 @@ export class GeminiChat {
         prompt_id,
         response.usageMetadata,
         getStructuredResponse(response),
+        purpose,
       );
 
       this.sendPromise = (async () => {
@@ -345,7 +363,7 @@ export class GeminiChat {
       return response;
     } catch (error) {
       const durationMs = Date.now() - startTime;
-      this._logApiError(durationMs, error, prompt_id);
+      this._logApiError(durationMs, error, prompt_id, purpose);
       this.sendPromise = Promise.resolve();
       throw error;
     }
@@ -496,6 +514,11 @@ export class GeminiChat {
     this.history = history;
   }
 
+  /** Replaces the tools that are offered to the model in later requests. */
+  setTools(tools: Tool[]): void {
+    this.generationConfig.tools = tools;
+  }
+
   getFinalUsageMetadata(
     chunks: GenerateContentResponse[],
   ): GenerateContentResponseUsageMetadata | undefined {
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getHeadlessRefusal } from './headlessApproval.js';
+import { PermissionPolicyEngine, PermissionRule } from './policyEngine.js';
+import { Config, HeadlessApprovalPolicy } from '../config/config.js';
+import { Tool, ToolEffects } from '../tools/tools.js';
+
+const createConfig = (
+  policy: HeadlessApprovalPolicy,
+  rules: PermissionRule[] = [],
+) =>
+  ({
+    getPolicyEngine: () => new PermissionPolicyEngine('/project', { rules }),
+    getHeadlessApprovalPolicy: () => policy,
+  }) as unknown as Config;
+
+const tools: Record<string, ToolEffects | undefined> = {
+  read_file: { reads: ['/project/a.ts'] },
+  web_fetch: {},
+  replace: { writes: ['/project/a.ts'] },
+  save_memory: { writes: ['/home/user/.gemini/GEMINI.md'] },
+  run_shell_command: { runsProcess: true },
+  mcp_tool: undefined,
+};
+
+const createTool = (name: string) =>
+  ({
+    name,
+    getEffects: tools[name] && (() => tools[name]),
+  }) as unknown as Tool;
+
+const isAllowed = (config: Config, toolName: string) =>
+  getHeadlessRefusal(config, createTool(toolName), {}) === undefined;
+
+describe('getHeadlessRefusal', () => {
+  it('should allow tools according to their effects and the approval policy', () => {
+    const allowedTools = (policy: HeadlessApprovalPolicy) =>
+      Object.keys(tools).filter((tool) =>
+        isAllowed(createConfig(policy), tool),
+      );
+
+    expect(allowedTools(HeadlessApprovalPolicy.NONE)).toEqual([]);
+    expect(allowedTools(HeadlessApprovalPolicy.READ_ONLY)).toEqual([
+      'read_file',
+      'web_fetch',
+    ]);
+    expect(allowedTools(HeadlessApprovalPolicy.EDITS)).toEqual([
+      'read_file',
+      'web_fetch',
+      'replace',
+      'save_memory',
+    ]);
+    expect(allowedTools(HeadlessApprovalPolicy.ALL)).toEqual(
+      Object.keys(tools),
+    );
+  });
+
+  it('should apply permission rules before the approval policy', () => {
+    const config = createConfig(HeadlessApprovalPolicy.READ_ONLY, [
+      { decision: 'allow', tool: 'run_shell_command' },
+      { decision: 'ask', tool: 'read_many_files' },
+    ]);
+
+    expect(isAllowed(config, 'run_shell_command')).toBe(true);
+    expect(getHeadlessRefusal(config, createTool('read_many_files'), {})).toBe(
+      'Permission rule requires confirmation, which is not possible in a non-interactive run: ask tool=read_many_files',
+    );
+  });
+
+  it('should refuse writes to paths that a rule denies', () => {
+    const config = createConfig(HeadlessApprovalPolicy.ALL, [
+      { decision: 'deny', path: '*.ts' },
+    ]);
+
+    expect(getHeadlessRefusal(config, createTool('replace'), {})).toBe(
+      'Denied by permission rule: deny path=*.ts',
+    );
+    expect(isAllowed(config, 'web_fetch')).toBe(true);
+  });
+});
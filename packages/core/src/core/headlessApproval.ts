@@ -0,0 +1,66 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Config, HeadlessApprovalPolicy } from '../config/config.js';
+import { Tool } from '../tools/tools.js';
+import { formatPermissionRule } from './policyEngine.js';
+import { getToolEffects } from './toolConcurrency.js';
+
+/**
+ * Whether the approval policy allows a call with the given effects. Tools
+ * that don't declare their effects, such as MCP tools, may run processes and
+ * are only allowed by {@link HeadlessApprovalPolicy.ALL}.
+ */
+function isApprovedByPolicy(
+  policy: HeadlessApprovalPolicy,
+  tool: Tool,
+  args: Record<string, unknown>,
+): boolean {
+  const effects = getToolEffects(tool, args);
+  switch (policy) {
+    case HeadlessApprovalPolicy.ALL:
+      return true;
+    case HeadlessApprovalPolicy.EDITS:
+      return !effects.runsProcess;
+    case HeadlessApprovalPolicy.READ_ONLY:
+      return !effects.runsProcess && !effects.writes?.length;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Decides whether a non-interactive run may execute a tool call.
+ *
+ * Permission rules are consulted first. Since nobody can answer a
+ * confirmation, `ask` rules refuse the call. Calls that no rule matches are
+ * decided by the headless approval policy.
+ *
+ * @returns Why the call is refused, or `undefined` if it may run.
+ */
+export function getHeadlessRefusal(
+  config: Config,
+  tool: Tool,
+  args: Record<string, unknown>,
+): string | undefined {
+  const permission = config.getPolicyEngine().evaluate(tool, args);
+  if (permission) {
+    const rule = formatPermissionRule(permission.rule);
+    switch (permission.decision) {
+      case 'allow':
+        return undefined;
+      case 'deny':
+        return `Denied by permission rule: ${rule}`;
+      default:
+        return `Permission rule requires confirmation, which is not possible in a non-interactive run: ${rule}`;
+    }
+  }
+
+  const policy = config.getHeadlessApprovalPolicy();
+  return isApprovedByPolicy(policy, tool, args)
+    ? undefined
+    : `Not allowed by the approval policy of this non-interactive run (--approve=${policy}).`;
+}
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_TOKEN_LIMIT, ModelRegistry } from './modelRegistry.js';
+import { tokenLimit } from './tokenLimits.js';
+
+describe('ModelRegistry', () => {
+  it('should resolve built-in models, including dated variants', () => {
+    const registry = new ModelRegistry();
+    expect(registry.getContextWindow('gemini-1.5-pro')).toBe(2_097_152);
+    expect(registry.supportsThinking('gemini-2.5-pro-preview-06-05')).toBe(
+      true,
+    );
+    expect(registry.supportsThinking('gemini-2.0-flash')).toBe(false);
+    expect(registry.getOutputTokenLimit('gemini-2.5-flash')).toBe(65_536);
+  });
+
+  it('should prefer exact names over prefix patterns', () => {
+    const registry = new ModelRegistry();
+    expect(
+      registry.getCapabilities('gemini-2.0-flash-preview-image-generation'),
+    ).toMatchObject({ contextWindow: 32_000, supportsToolCalling: false });
+  });
+
+  it('should fall back to defaults for unknown models', () => {
+    const registry = new ModelRegistry();
+    expect(registry.getCapabilities('my-tuned-model')).toEqual({
+      contextWindow: DEFAULT_TOKEN_LIMIT,
+      supportsThinking: false,
+      supportsToolCalling: true,
+    });
+  });
+
+  it('should merge user-defined models over built-in ones', () => {
+    const registry = new ModelRegistry({
+      'gemini-2.5-pro': { contextWindow: 200_000 },
+      'llama-3*': {
+        contextWindow: 128_000,
+        outputTokenLimit: 4_096,
+        supportsToolCalling: false,
+      },
+    });
+    expect(registry.getCapabilities('gemini-2.5-pro')).toMatchObject({
+      contextWindow: 200_000,
+      outputTokenLimit: 65_536,
+      supportsThinking: true,
+    });
+    expect(registry.getCapabilities('llama-3.1-8b')).toMatchObject({
+      contextWindow: 128_000,
+      outputTokenLimit: 4_096,
+      supportsToolCalling: false,
+    });
+    expect(registry.listModels().slice(0, 2)).toEqual([
+      'gemini-2.5-pro',
+      'llama-3*',
+    ]);
+  });
+
+  it('should keep tokenLimit backed by the built-in models', () => {
+    expect(tokenLimit('gemini-1.5-pro')).toBe(2_097_152);
+    expect(tokenLimit('unknown-model')).toBe(DEFAULT_TOKEN_LIMIT);
+  });
+});
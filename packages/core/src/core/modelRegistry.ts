@@ -0,0 +1,159 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const DEFAULT_TOKEN_LIMIT = 1_048_576;
+
+/**
+ * Describes what a model can do. Every field is optional so that settings can
+ * override a single capability of a built-in model.
+ */
+export interface ModelCapabilities {
+  /** Maximum number of input tokens the model accepts. */
+  contextWindow?: number;
+  /** Maximum number of tokens the model can generate in one response. */
+  outputTokenLimit?: number;
+  /** Whether the model accepts a thinking config. */
+  supportsThinking?: boolean;
+  /** Number of dimensions of the vectors returned by an embedding model. */
+  embeddingDimensions?: number;
+  /** Whether the model supports function calling. */
+  supportsToolCalling?: boolean;
+}
+
+export interface ResolvedModelCapabilities extends ModelCapabilities {
+  contextWindow: number;
+  supportsThinking: boolean;
+  supportsToolCalling: boolean;
+}
+
+const DEFAULT_CAPABILITIES: ResolvedModelCapabilities = {
+  contextWindow: DEFAULT_TOKEN_LIMIT,
+  supportsThinking: false,
+  supportsToolCalling: true,
+};
+
+// Pulled from https://ai.google.dev/gemini-api/docs/models
+// A trailing `*` matches any model name starting with the given prefix, which
+// covers preview and dated variants.
+export const BUILT_IN_MODELS: Record<string, ModelCapabilities> = {
+  'gemini-2.5-pro*': {
+    contextWindow: 1_048_576,
+    outputTokenLimit: 65_536,
+    supportsThinking: true,
+  },
+  'gemini-2.5-flash-lite*': {
+    contextWindow: 1_048_576,
+    outputTokenLimit: 65_536,
+    supportsThinking: true,
+  },
+  'gemini-2.5-flash*': {
+    contextWindow: 1_048_576,
+    outputTokenLimit: 65_536,
+    supportsThinking: true,
+  },
+  'gemini-2.0-flash-preview-image-generation': {
+    contextWindow: 32_000,
+    outputTokenLimit: 8_192,
+    supportsToolCalling: false,
+  },
+  'gemini-2.0-flash-lite*': {
+    contextWindow: 1_048_576,
+    outputTokenLimit: 8_192,
+  },
+  'gemini-2.0-flash*': {
+    contextWindow: 1_048_576,
+    outputTokenLimit: 8_192,
+  },
+  'gemini-1.5-pro*': {
+    contextWindow: 2_097_152,
+    outputTokenLimit: 8_192,
+  },
+  'gemini-1.5-flash*': {
+    contextWindow: 1_048_576,
+    outputTokenLimit: 8_192,
+  },
+  'gemini-embedding-001': {
+    contextWindow: 2_048,
+    embeddingDimensions: 3_072,
+    supportsToolCalling: false,
+  },
+  'text-embedding-004': {
+    contextWindow: 2_048,
+    embeddingDimensions: 768,
+    supportsToolCalling: false,
+  },
+};
+
+/**
+ * Looks up the capabilities of a model by name.
+ *
+ * User-defined entries (from the `models` section of settings.json) take
+ * precedence over built-in ones and are merged on top of them, so a user entry
+ * only needs to list the capabilities it changes. Exact names win over
+ * prefix patterns, and longer prefixes win over shorter ones.
+ */
+export class ModelRegistry {
+  constructor(
+    private readonly userModels: Record<string, ModelCapabilities> = {},
+  ) {}
+
+  getCapabilities(model: string): ResolvedModelCapabilities {
+    return {
+      ...DEFAULT_CAPABILITIES,
+      ...findEntry(BUILT_IN_MODELS, model),
+      ...findEntry(this.userModels, model),
+    };
+  }
+
+  getContextWindow(model: string): number {
+    return this.getCapabilities(model).contextWindow;
+  }
+
+  getOutputTokenLimit(model: string): number | undefined {
+    return this.getCapabilities(model).outputTokenLimit;
+  }
+
+  supportsThinking(model: string): boolean {
+    return this.getCapabilities(model).supportsThinking;
+  }
+
+  supportsToolCalling(model: string): boolean {
+    return this.getCapabilities(model).supportsToolCalling;
+  }
+
+  /** Returns the names (and patterns) of all known models, user models first. */
+  listModels(): string[] {
+    return [
+      ...new Set([
+        ...Object.keys(this.userModels),
+        ...Object.keys(BUILT_IN_MODELS),
+      ]),
+    ];
+  }
+}
+
+function findEntry(
+  models: Record<string, ModelCapabilities>,
+  model: string,
+): ModelCapabilities | undefined {
+  if (Object.prototype.hasOwnProperty.call(models, model)) {
+    return models[model];
+  }
+  let best: { prefix: string; capabilities: ModelCapabilities } | undefined;
+  for (const [pattern, capabilities] of Object.entries(models)) {
+    if (!pattern.endsWith('*')) {
+      continue;
+    }
+    const prefix = pattern.slice(0, -1);
+    if (
+      model.startsWith(prefix) &&
+      (!best || prefix.length > best.prefix.length)
+    ) {
+      best = { prefix, capabilities };
+    }
+  }
+  return best?.capabilities;
+}
@@ -13,6 +13,8 @@ import {
   Tool,
   ToolCallConfirmationDetails,
   Config,
+  HeadlessApprovalPolicy,
+  PermissionPolicyEngine,
 } from '../index.js';
 import { Part, Type } from '@google/genai';
 
@@ -20,6 +22,11 @@ const mockConfig = {
   getSessionId: () => 'test-session-id',
   getUsageStatisticsEnabled: () => true,
   getDebugMode: () => false,
+  getPolicyEngine: () =>
+    new PermissionPolicyEngine('/test/dir', {
+      rules: [{ decision: 'deny', tool: 'testTool', path: '**/.env' }],
+    }),
+  getHeadlessApprovalPolicy: vi.fn(() => HeadlessApprovalPolicy.ALL),
 } as unknown as Config;
 
 describe('executeToolCall', () => {
@@ -136,6 +143,69 @@ describe('executeToolCall', () => {
     ]);
   });
 
+  it('should refuse calls that the approval policy does not allow', async () => {
+    const request: ToolCallRequestInfo = {
+      callId: 'call5',
+      name: 'testTool',
+      args: { param1: 'value1' },
+      isClientInitiated: false,
+      prompt_id: 'prompt-id-5',
+    };
+    vi.mocked(mockToolRegistry.getTool).mockReturnValue(mockTool);
+    vi.mocked(mockConfig.getHeadlessApprovalPolicy).mockReturnValueOnce(
+      HeadlessApprovalPolicy.READ_ONLY,
+    );
+
+    const response = await executeToolCall(
+      mockConfig,
+      request,
+      mockToolRegistry,
+      abortController.signal,
+    );
+
+    const refusal =
+      'Not allowed by the approval policy of this non-interactive run (--approve=read-only).';
+    expect(mockTool.execute).not.toHaveBeenCalled();
+    expect(response.error).toBeUndefined();
+    expect(response.refusal).toBe(refusal);
+    expect(response.responseParts).toEqual([
+      {
+        functionResponse: {
+          name: 'testTool',
+          id: 'call5',
+          response: {
+            error: `Tool call refused: ${refusal}`,
+            refused: true,
+            reason: refusal,
+          },
+        },
+      },
+    ]);
+  });
+
+  it('should refuse calls denied by permission rules', async () => {
+    const request: ToolCallRequestInfo = {
+      callId: 'call6',
+      name: 'testTool',
+      args: { file_path: '/test/dir/.env' },
+      isClientInitiated: false,
+      prompt_id: 'prompt-id-6',
+    };
+    vi.mocked(mockToolRegistry.getTool).mockReturnValue(mockTool);
+
+    const response = await executeToolCall(
+      mockConfig,
+      request,
+      mockToolRegistry,
+      abortController.signal,
+    );
+
+    expect(mockTool.execute).not.toHaveBeenCalled();
+    expect(response.refusal).toBe(
+      'Denied by permission rule: deny tool=testTool path=**/.env',
+    );
+  });
+
   it('should return an error if tool execution fails', async () => {
     const request: ToolCallRequestInfo = {
       callId: 'call3',
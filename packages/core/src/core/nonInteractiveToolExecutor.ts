@@ -13,10 +13,13 @@ import {
 } from '../index.js';
 import { Config } from '../config/config.js';
 import { convertToFunctionResponse } from './coreToolScheduler.js';
+import { getHeadlessRefusal } from './headlessApproval.js';
+import { ToolCallDecision } from '../telemetry/types.js';
 
 /**
  * Executes a single tool call non-interactively.
- * It does not handle confirmations, multiple calls, or live updates.
+ * It does not handle confirmations, multiple calls, or live updates. Calls
+ * that the headless approval policy does not allow are refused instead.
  */
 export async function executeToolCall(
   config: Config,
@@ -59,6 +62,41 @@ export async function executeToolCall(
     };
   }
 
+  const refusal = getHeadlessRefusal(config, tool, toolCallRequest.args);
+  if (refusal) {
+    logToolCall(config, {
+      'event.name': 'tool_call',
+      'event.timestamp': new Date().toISOString(),
+      function_name: toolCallRequest.name,
+      function_args: toolCallRequest.args,
+      duration_ms: 0,
+      success: false,
+      decision: ToolCallDecision.REJECT,
+      error: refusal,
+      prompt_id: toolCallRequest.prompt_id,
+    });
+    // Tell the model that the call did not run, so it can try another way.
+    return {
+      callId: toolCallRequest.callId,
+      responseParts: [
+        {
+          functionResponse: {
+            id: toolCallRequest.callId,
+            name: toolCallRequest.name,
+            response: {
+              error: `Tool call refused: ${refusal}`,
+              refused: true,
+              reason: refusal,
+            },
+          },
+        },
+      ],
+      resultDisplay: refusal,
+      error: undefined,
+      refusal,
+    };
+  }
+
   try {
     // Directly execute without confirmation or live output handling
     const effectiveAbortSignal = abortSignal ?? new AbortController().signal;
@@ -0,0 +1,268 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PermissionPolicyEngine,
+  PermissionRule,
+  formatPermissionRule,
+} from './policyEngine.js';
+import { Tool, ToolConfirmationOutcome } from '../tools/tools.js';
+import { DiscoveredMCPTool } from '../tools/mcp-tool.js';
+import { MultiReplaceTool } from '../tools/multi-replace.js';
+import { ApplyPatchTool } from '../tools/apply-patch.js';
+import { Config } from '../config/config.js';
+import { CallableTool } from '@google/genai';
+
+const tool = (name: string) => ({ name }) as Tool;
+
+const createTool = (name: string, effects: { writes?: unknown[] }) =>
+  ({ name, getEffects: () => effects }) as unknown as Tool;
+
+const mcpTool = new DiscoveredMCPTool(
+  {} as CallableTool,
+  'github',
+  'create_issue',
+  'Creates an issue',
+  {},
+  'create_issue',
+);
+
+const createEngine = (rules: PermissionRule[]) =>
+  new PermissionPolicyEngine('/project', { rules });
+
+describe('PermissionPolicyEngine', () => {
+  it('should return nothing when no rule matches', () => {
+    expect(createEngine([]).evaluate(tool('read_file'), {})).toBeUndefined();
+  });
+
+  it('should apply the first matching rule', () => {
+    const engine = createEngine([
+      { decision: 'deny', tool: 'write_file' },
+      { decision: 'allow', tool: '*' },
+      { decision: 'deny', tool: 'read_file' },
+    ]);
+
+    expect(engine.evaluate(tool('write_file'), {})?.decision).toBe('deny');
+    expect(engine.evaluate(tool('read_file'), {})).toEqual({
+      decision: 'allow',
+      rule: { decision: 'allow', tool: '*' },
+    });
+  });
+
+  it('should match MCP servers', () => {
+    const engine = createEngine([{ decision: 'ask', mcpServer: 'github' }]);
+
+    expect(engine.evaluate(mcpTool, {})?.decision).toBe('ask');
+    expect(engine.evaluate(tool('github'), {})).toBeUndefined();
+  });
+
+  it('should match path globs relative to the project root', () => {
+    const engine = createEngine([
+      { decision: 'deny', path: '**/.env' },
+      { decision: 'allow', tool: 'read_many_files', path: 'src/**' },
+      { decision: 'allow', path: '/tmp/**' },
+    ]);
+
+    expect(
+      engine.evaluate(tool('read_file'), { absolute_path: '/project/.env' })
+        ?.decision,
+    ).toBe('deny');
+    expect(
+      engine.evaluate(tool('read_many_files'), {
+        paths: ['src/a.ts', 'src/lib/b.ts'],
+      })?.decision,
+    ).toBe('allow');
+    // Allow rules must cover every path.
+    expect(
+      engine.evaluate(tool('read_many_files'), {
+        paths: ['src/a.ts', 'README.md'],
+      }),
+    ).toBeUndefined();
+    expect(
+      engine.evaluate(tool('write_file'), { file_path: '/tmp/out.txt' })
+        ?.decision,
+    ).toBe('allow');
+    expect(engine.evaluate(tool('write_file'), {})).toBeUndefined();
+  });
+
+  it('should match the paths that a tool declares it writes', () => {
+    const engine = createEngine([
+      { decision: 'deny', path: 'secrets/**' },
+      { decision: 'allow', tool: 'multi_replace', path: 'src/**' },
+    ]);
+    const multiReplace = new MultiReplaceTool({
+      getTargetDir: () => '/project',
+    } as unknown as Config);
+    const edit = (filePath: string) => ({
+      file_path: filePath,
+      old_string: 'a',
+      new_string: 'b',
+    });
+
+    expect(
+      engine.evaluate(multiReplace, {
+        edits: [edit('/project/src/a.ts'), edit('/project/secrets/key.txt')],
+      })?.decision,
+    ).toBe('deny');
+    expect(
+      engine.evaluate(multiReplace, {
+        edits: [edit('/project/src/a.ts'), edit('/project/src/b.ts')],
+      })?.decision,
+    ).toBe('allow');
+  });
+
+  it('should match the files of a patch', () => {
+    const engine = createEngine([
+      { decision: 'deny', path: 'secrets/**' },
+      { decision: 'allow', tool: 'apply_patch', path: 'src/**' },
+    ]);
+    const applyPatch = new ApplyPatchTool({
+      getTargetDir: () => '/project',
+    } as unknown as Config);
+    const patch = (filePath: string) =>
+      [
+        `--- a/${filePath}`,
+        `+++ b/${filePath}`,
+        '@@ -1 +1 @@',
+        '-a',
+        '+b',
+        '',
+      ].join('\n');
+
+    expect(
+      engine.evaluate(applyPatch, {
+        patch: patch('src/a.ts') + patch('secrets/key.txt'),
+      })?.decision,
+    ).toBe('deny');
+    expect(
+      engine.evaluate(applyPatch, { patch: patch('src/a.ts') })?.decision,
+    ).toBe('allow');
+  });
+
+  it('should apply deny and ask path rules to calls whose paths are unknown', () => {
+    const engine = createEngine([
+      { decision: 'allow', tool: 'apply_patch', path: '**' },
+      { decision: 'ask', path: 'secrets/**' },
+    ]);
+    const applyPatch = new ApplyPatchTool({
+      getTargetDir: () => '/project',
+    } as unknown as Config);
+
+    expect(
+      engine.evaluate(applyPatch, { patch: '--- a/../outside.ts' })?.decision,
+    ).toBe('ask');
+    expect(
+      engine.evaluate(createTool('multi_replace', { writes: [undefined] }), {})
+        ?.decision,
+    ).toBe('ask');
+  });
+
+  it('should match shell command patterns', () => {
+    const engine = createEngine([
+      { decision: 'deny', command: 'git push' },
+      { decision: 'allow', command: 'git' },
+      { decision: 'allow', command: 'npm run *:fix' },
+    ]);
+    const evaluate = (command: string) =>
+      engine.evaluate(tool('run_shell_command'), { command })?.decision;
+
+    expect(evaluate('git  status')).toBe('allow');
+    expect(evaluate('git status && git push --force')).toBe('deny');
+    expect(evaluate('gitk')).toBeUndefined();
+    expect(evaluate('npm run lint:fix')).toBe('allow');
+    expect(evaluate('npm run lint')).toBeUndefined();
+    // Every command must be allowed, and substitutions are never allowed.
+    expect(evaluate('git status; rm -rf /')).toBeUndefined();
+    expect(evaluate('git log $(rm -rf /)')).toBeUndefined();
+  });
+
+  it('should not allow commands chained or hidden after an allowed one', () => {
+    const engine = createEngine([{ decision: 'allow', command: 'git' }]);
+    const evaluate = (command: string) =>
+      engine.evaluate(tool('run_shell_command'), { command })?.decision;
+
+    expect(evaluate('git status & rm -rf ~')).toBeUndefined();
+    expect(evaluate('git log\nrm -rf ~')).toBeUndefined();
+    expect(evaluate('git log\r\nrm -rf ~')).toBeUndefined();
+    expect(evaluate('git log |& rm -rf ~')).toBeUndefined();
+    expect(evaluate('git log `rm -rf ~`')).toBeUndefined();
+    expect(evaluate('git diff <(rm -rf ~)')).toBeUndefined();
+    expect(evaluate('git log >(rm -rf ~)')).toBeUndefined();
+    // Redirections are not separate commands.
+    expect(evaluate('git log 2>&1')).toBe('allow');
+    expect(evaluate('git log &> log.txt')).toBe('allow');
+    expect(evaluate('git log\ngit status')).toBe('allow');
+  });
+
+  it('should deny a command after a background or newline separator', () => {
+    const engine = createEngine([{ decision: 'deny', command: 'rm' }]);
+    const evaluate = (command: string) =>
+      engine.evaluate(tool('run_shell_command'), { command })?.decision;
+
+    expect(evaluate('git status & rm -rf ~')).toBe('deny');
+    expect(evaluate('git log\nrm -rf ~')).toBe('deny');
+  });
+
+  it('should remember "always allow" answers for the session', () => {
+    const engine = createEngine([]);
+
+    engine.rememberAlwaysAllow(
+      tool('run_shell_command'),
+      { command: 'npm install lodash' },
+      ToolConfirmationOutcome.ProceedAlways,
+    );
+    engine.rememberAlwaysAllow(
+      mcpTool,
+      {},
+      ToolConfirmationOutcome.ProceedAlwaysServer,
+    );
+    engine.rememberAlwaysAllow(
+      tool('write_file'),
+      {},
+      ToolConfirmationOutcome.ProceedOnce,
+    );
+
+    expect(engine.getSessionRules()).toEqual([
+      { decision: 'allow', tool: 'run_shell_command', command: 'npm' },
+      { decision: 'allow', mcpServer: 'github' },
+    ]);
+    expect(
+      engine.evaluate(tool('run_shell_command'), { command: 'npm test' })
+        ?.decision,
+    ).toBe('allow');
+  });
+
+  it('should persist "always allow" answers when configured to', () => {
+    const engine = new PermissionPolicyEngine('/project', {
+      persistAlwaysAllow: true,
+    });
+    const persistRule = vi.fn();
+    engine.setRulePersistence(persistRule);
+
+    engine.rememberAlwaysAllow(
+      tool('web_fetch'),
+      {},
+      ToolConfirmationOutcome.ProceedAlways,
+    );
+
+    expect(persistRule).toHaveBeenCalledWith({
+      decision: 'allow',
+      tool: 'web_fetch',
+    });
+    expect(engine.getSessionRules()).toEqual([]);
+  });
+
+  it('should format rules', () => {
+    expect(
+      formatPermissionRule({
+        decision: 'deny',
+        tool: 'run_shell_command',
+        command: 'rm -rf',
+      }),
+    ).toBe('deny tool=run_shell_command command="rm -rf"');
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as path from 'node:path';
+import micromatch from 'micromatch';
+import { Tool, ToolConfirmationOutcome } from '../tools/tools.js';
+import { DiscoveredMCPTool } from '../tools/mcp-tool.js';
+
+export type PermissionDecision = 'allow' | 'ask' | 'deny';
+
+/**
+ * A rule that decides whether a tool call may run. Every condition that is
+ * set must match for the rule to apply.
+ */
+export interface PermissionRule {
+  decision: PermissionDecision;
+  /** Name of the tool, e.g. `run_shell_command`. Supports `*` wildcards. */
+  tool?: string;
+  /** Name of the MCP server that provides the tool. */
+  mcpServer?: string;
+  /**
+   * Glob matched against the file paths that the call reads or writes.
+   * Relative globs are matched against paths relative to the project root.
+   */
+  path?: string;
+  /**
+   * Pattern matched against each command of a shell command line. Without a
+   * `*` wildcard, it matches the command with any arguments, e.g. `npm test`
+   * matches `npm test -- --watch`.
+   */
+  command?: string;
+}
+
+export interface PermissionSettings {
+  /** Rules in order of precedence; the first matching rule applies. */
+  rules?: PermissionRule[];
+  /** Saves "always allow" answers as workspace rules. */
+  persistAlwaysAllow?: boolean;
+}
+
+export interface PermissionEvaluation {
+  decision: PermissionDecision;
+  rule: PermissionRule;
+}
+
+/**
+ * Argument names that commonly hold file paths, for tools that don't declare
+ * the paths they read and write, such as MCP tools.
+ */
+const PATH_ARGUMENTS = [
+  'file_path',
+  'absolute_path',
+  'path',
+  'paths',
+  'directory',
+];
+
+const RULE_CONDITIONS = ['tool', 'mcpServer', 'path', 'command'] as const;
+
+/** Formats a rule the way `/permissions add` accepts it. */
+export function formatPermissionRule(rule: PermissionRule): string {
+  const conditions = RULE_CONDITIONS.filter(
+    (key) => rule[key] !== undefined,
+  ).map((key) => {
+    const value = rule[key]!;
+    return `${key}=${/\s/.test(value) ? JSON.stringify(value) : value}`;
+  });
+  return [rule.decision, ...conditions].join(' ');
+}
+
+const normalizeCommand = (command: string): string =>
+  command.trim().replace(/\s+/g, ' ');
+
+/**
+ * Splits a shell command line into the commands it runs: at `&&`, `||`,
+ * pipes, `;`, background `&` and newlines. The `&` of redirections such as
+ * `2>&1` and `&>file` does not start a command.
+ */
+const splitCommands = (command: string): string[] =>
+  command
+    .split(/&&|\|\||\|&?|;|\r?\n|\r|(?<![<>])&(?!>)/)
+    .map(normalizeCommand)
+    .filter(Boolean);
+
+/**
+ * Matches syntax that runs commands hidden inside another one: command
+ * substitution (`$(...)` and backticks) and process substitution (`<(...)`
+ * and `>(...)`).
+ */
+const HIDDEN_COMMAND_PATTERN = /\$\(|`|[<>]\(/;
+
+const matchesCommand = (command: string, pattern: string): boolean => {
+  const normalizedPattern = normalizeCommand(pattern);
+  if (normalizedPattern.includes('*')) {
+    const regex = normalizedPattern
+      .split('*')
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${regex}$`).test(command);
+  }
+  return (
+    command === normalizedPattern || command.startsWith(`${normalizedPattern} `)
+  );
+};
+
+/**
+ * Evaluates tool calls against ordered allow/ask/deny rules.
+ *
+ * Rules from settings come first, followed by the "always allow" answers
+ * given during this session. Calls that no rule matches are left to the
+ * approval mode and the tool's own confirmation.
+ */
+export class PermissionPolicyEngine {
+  private rules: PermissionRule[];
+  private readonly sessionRules: PermissionRule[] = [];
+  private persistRule?: (rule: PermissionRule) => void;
+
+  constructor(
+    private readonly targetDir: string,
+    private readonly settings: PermissionSettings = {},
+  ) {
+    this.rules = settings.rules ?? [];
+  }
+
+  /** Replaces the rules from settings, e.g. after they were edited. */
+  setRules(rules: PermissionRule[]): void {
+    this.rules = rules;
+  }
+
+  getRules(): readonly PermissionRule[] {
+    return this.rules;
+  }
+
+  /** Rules from "always allow" answers that were not saved to settings. */
+  getSessionRules(): readonly PermissionRule[] {
+    return this.sessionRules;
+  }
+
+  /**
+   * Sets how "always allow" answers are saved when `persistAlwaysAllow` is
+   * enabled. The handler is expected to update the rules with `setRules`.
+   */
+  setRulePersistence(persistRule: (rule: PermissionRule) => void): void {
+    this.persistRule = persistRule;
+  }
+
+  evaluate(
+    tool: Tool,
+    args: Record<string, unknown>,
+  ): PermissionEvaluation | undefined {
+    const rule = [...this.rules, ...this.sessionRules].find((candidate) =>
+      this.matches(candidate, tool, args),
+    );
+    return rule && { decision: rule.decision, rule };
+  }
+
+  /**
+   * Turns an "always allow" answer into an allow rule for similar calls, and
+   * saves it if configured to.
+   */
+  rememberAlwaysAllow(
+    tool: Tool,
+    args: Record<string, unknown>,
+    outcome: ToolConfirmationOutcome,
+  ): void {
+    const rule = createAlwaysAllowRule(tool, args, outcome);
+    if (!rule) {
+      return;
+    }
+    if (this.settings.persistAlwaysAllow && this.persistRule) {
+      this.persistRule(rule);
+    } else {
+      this.sessionRules.push(rule);
+    }
+  }
+
+  private matches(
+    rule: PermissionRule,
+    tool: Tool,
+    args: Record<string, unknown>,
+  ): boolean {
+    if (rule.tool !== undefined && !micromatch.isMatch(tool.name, rule.tool)) {
+      return false;
+    }
+    if (
+      rule.mcpServer !== undefined &&
+      !(tool instanceof DiscoveredMCPTool && tool.serverName === rule.mcpServer)
+    ) {
+      return false;
+    }
+    if (rule.path !== undefined) {
+      const pattern = rule.path;
+      const callPaths = getCallPaths(tool, args);
+      // Calls whose paths cannot be told may touch any path, so only allow
+      // rules are skipped for them.
+      if (callPaths === undefined) {
+        return rule.decision !== 'allow';
+      }
+      const paths = callPaths.map((filePath) => {
+        const absolutePath = path.resolve(this.targetDir, filePath);
+        return path.isAbsolute(pattern)
+          ? absolutePath
+          : path.relative(this.targetDir, absolutePath);
+      });
+      if (
+        !this.matchesValues(rule, paths, (filePath) =>
+          micromatch.isMatch(filePath, pattern, { dot: true }),
+        )
+      ) {
+        return false;
+      }
+    }
+    if (rule.command !== undefined) {
+      const command = args['command'];
+      if (typeof command !== 'string') {
+        return false;
+      }
+      // Commands hidden in substitutions cannot be checked, so never allow them.
+      if (rule.decision === 'allow' && HIDDEN_COMMAND_PATTERN.test(command)) {
+        return false;
+      }
+      const commands = splitCommands(command);
+      if (
+        !this.matchesValues(rule, commands, (cmd) =>
+          matchesCommand(cmd, rule.command!),
+        )
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Allow rules must cover every path or command of a call, while ask and
+   * deny rules apply as soon as one of them matches.
+   */
+  private matchesValues(
+    rule: PermissionRule,
+    values: string[],
+    matches: (value: string) => boolean,
+  ): boolean {
+    if (values.length === 0) {
+      return false;
+    }
+    return rule.decision === 'allow'
+      ? values.every(matches)
+      : values.some(matches);
+  }
+}
+
+/**
+ * The paths that a call reads or writes, as the tool declares them, or
+ * undefined if the tool cannot tell them from the arguments, such as the
+ * files of a patch that cannot be parsed.
+ */
+function getCallPaths(
+  tool: Tool,
+  args: Record<string, unknown>,
+): string[] | undefined {
+  if (!tool.getEffects) {
+    return getPathArguments(args);
+  }
+  let paths: unknown[];
+  try {
+    const { reads = [], writes = [] } = tool.getEffects(args);
+    paths = [...reads, ...writes];
+  } catch {
+    return undefined;
+  }
+  return paths.every(
+    (filePath): filePath is string =>
+      typeof filePath === 'string' && filePath !== '',
+  )
+    ? paths
+    : undefined;
+}
+
+function getPathArguments(args: Record<string, unknown>): string[] {
+  return PATH_ARGUMENTS.flatMap((name) => {
+    const value = args[name];
+    if (typeof value === 'string') {
+      return [value];
+    }
+    return Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === 'string')
+      : [];
+  });
+}
+
+function createAlwaysAllowRule(
+  tool: Tool,
+  args: Record<string, unknown>,
+  outcome: ToolConfirmationOutcome,
+): PermissionRule | undefined {
+  switch (outcome) {
+    case ToolConfirmationOutcome.ProceedAlwaysServer:
+      return tool instanceof DiscoveredMCPTool
+        ? { decision: 'allow', mcpServer: tool.serverName }
+        : undefined;
+    case ToolConfirmationOutcome.ProceedAlwaysTool:
+      return { decision: 'allow', tool: tool.name };
+    case ToolConfirmationOutcome.ProceedAlways: {
+      // Shell tools remember the command (e.g. `git`), not the whole tool.
+      const command = args['command'];
+      const rootCommand =
+        typeof command === 'string'
+          ? normalizeCommand(command).split(' ')[0]
+          : undefined;
+      return rootCommand
+        ? { decision: 'allow', tool: tool.name, command: rootCommand }
+        : { decision: 'allow', tool: tool.name };
+    }
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { promises as fs } from 'node:fs';
+import {
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import { ContentGenerator } from './contentGenerator.js';
+import {
+  CassetteEntry,
+  RecordingContentGenerator,
+  ReplayContentGenerator,
+  getRequestFingerprint,
+} from './recordReplayContentGenerator.js';
+
+function makeResponse(text: string): GenerateContentResponse {
+  const response = new GenerateContentResponse();
+  response.candidates = [{ content: { role: 'model', parts: [{ text }] } }];
+  return response;
+}
+
+async function collect(
+  stream: AsyncGenerator<GenerateContentResponse>,
+): Promise<string[]> {
+  const texts: string[] = [];
+  for await (const chunk of stream) {
+    texts.push(chunk.text ?? '');
+  }
+  return texts;
+}
+
+describe('record and replay content generators', () => {
+  let tempDir: string;
+  let cassettePath: string;
+  let wrapped: ContentGenerator;
+
+  const request: GenerateContentParameters = {
+    model: 'test-model',
+    contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+    config: { abortSignal: new AbortController().signal, temperature: 0 },
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-test-'));
+    cassettePath = path.join(tempDir, 'nested', 'session.jsonl');
+    wrapped = {
+      generateContent: vi.fn().mockResolvedValue(makeResponse('Hi')),
+      generateContentStream: vi.fn().mockImplementation(async () =>
+        (async function* () {
+          yield makeResponse('Hel');
+          yield makeResponse('lo');
+        })(),
+      ),
+      countTokens: vi.fn().mockResolvedValue({ totalTokens: 42 }),
+      embedContent: vi.fn().mockResolvedValue({ embeddings: [] }),
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function readEntries(): Promise<CassetteEntry[]> {
+    const content = await fs.readFile(cassettePath, 'utf-8');
+    return content
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+  }
+
+  it('should record requests and responses as JSONL', async () => {
+    const recorder = await RecordingContentGenerator.create(
+      wrapped,
+      cassettePath,
+    );
+    await recorder.generateContent(request);
+    await collect(await recorder.generateContentStream(request));
+    await recorder.countTokens({ model: 'test-model', contents: 'Hello' });
+
+    const entries = await readEntries();
+    expect(entries.map((entry) => entry.method)).toEqual([
+      'generateContent',
+      'generateContentStream',
+      'countTokens',
+    ]);
+    expect(entries[0].fingerprint).toBe(
+      getRequestFingerprint('generateContent', request),
+    );
+    expect(entries[0].request).toEqual({
+      model: 'test-model',
+      contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+      config: { temperature: 0 },
+    });
+    expect(entries[1].response).toHaveLength(2);
+    expect(entries[2].response).toEqual({ totalTokens: 42 });
+  });
+
+  it('should record streams that the consumer stops reading early', async () => {
+    const recorder = await RecordingContentGenerator.create(
+      wrapped,
+      cassettePath,
+    );
+    for await (const chunk of await recorder.generateContentStream(request)) {
+      expect(chunk.text).toBe('Hel');
+      break;
+    }
+
+    const [entry] = await readEntries();
+    expect(entry.method).toBe('generateContentStream');
+    expect(entry.response).toHaveLength(1);
+    expect(entry.partial).toBe(true);
+
+    const replay = await ReplayContentGenerator.load(cassettePath);
+    expect(await collect(await replay.generateContentStream(request))).toEqual([
+      'Hel',
+    ]);
+  });
+
+  it('should record and rethrow errors', async () => {
+    const error = Object.assign(new Error('Quota exceeded'), { status: 429 });
+    vi.mocked(wrapped.generateContent).mockRejectedValue(error);
+    const recorder = await RecordingContentGenerator.create(
+      wrapped,
+      cassettePath,
+    );
+
+    await expect(recorder.generateContent(request)).rejects.toBe(error);
+
+    const [entry] = await readEntries();
+    expect(entry.error).toEqual({ message: 'Quota exceeded', status: 429 });
+  });
+
+  it('should replay a recorded session without calling the API', async () => {
+    const recorder = await RecordingContentGenerator.create(
+      wrapped,
+      cassettePath,
+    );
+    await recorder.generateContent(request);
+    await collect(await recorder.generateContentStream(request));
+    await recorder.countTokens({ model: 'test-model', contents: 'Hello' });
+
+    const replay = await ReplayContentGenerator.load(cassettePath);
+    expect(await collect(await replay.generateContentStream(request))).toEqual([
+      'Hel',
+      'lo',
+    ]);
+    expect((await replay.generateContent(request)).text).toBe('Hi');
+    expect(
+      await replay.countTokens({ model: 'test-model', contents: 'Hello' }),
+    ).toEqual({ totalTokens: 42 });
+  });
+
+  it('should prefer entries matching the request fingerprint', async () => {
+    vi.mocked(wrapped.generateContent)
+      .mockResolvedValueOnce(makeResponse('first'))
+      .mockResolvedValueOnce(makeResponse('second'));
+    const otherRequest = { ...request, contents: 'Something else' };
+    const recorder = await RecordingContentGenerator.create(
+      wrapped,
+      cassettePath,
+    );
+    await recorder.generateContent(request);
+    await recorder.generateContent(otherRequest);
+
+    const replay = await ReplayContentGenerator.load(cassettePath);
+    expect((await replay.generateContent(otherRequest)).text).toBe('second');
+    await expect(
+      replay.generateContent({ ...request, contents: 'Unknown' }),
+    ).rejects.toThrow(/^No recorded generateContent response for request /);
+    expect((await replay.generateContent(request)).text).toBe('first');
+  });
+
+  it('should serve the next unused entry for unknown requests when lenient', async () => {
+    vi.mocked(wrapped.generateContent)
+      .mockResolvedValueOnce(makeResponse('first'))
+      .mockResolvedValueOnce(makeResponse('second'));
+    const recorder = await RecordingContentGenerator.create(
+      wrapped,
+      cassettePath,
+    );
+    await recorder.generateContent(request);
+    await recorder.generateContent(request);
+
+    const replay = await ReplayContentGenerator.load(cassettePath, true);
+    expect(
+      (await replay.generateContent({ ...request, contents: 'Unknown' })).text,
+    ).toBe('first');
+    expect((await replay.generateContent(request)).text).toBe('second');
+    await expect(replay.generateContent(request)).rejects.toThrow(
+      'No recorded generateContent response left in cassette',
+    );
+  });
+
+  it('should keep recording to the same cassette when recreated', async () => {
+    const recorder = await RecordingContentGenerator.create(
+      wrapped,
+      cassettePath,
+    );
+    await recorder.generateContent(request);
+    // The auth is refreshed, which creates the generator again.
+    const recreated = await RecordingContentGenerator.create(
+      wrapped,
+      cassettePath,
+    );
+    await recreated.countTokens({ model: 'test-model', contents: 'Hello' });
+
+    expect((await readEntries()).map((entry) => entry.method)).toEqual([
+      'generateContent',
+      'countTokens',
+    ]);
+  });
+
+  it('should replay recorded errors with their status', async () => {
+    vi.mocked(wrapped.countTokens).mockRejectedValue(
+      Object.assign(new Error('Server error'), { status: 500 }),
+    );
+    const recorder = await RecordingContentGenerator.create(
+      wrapped,
+      cassettePath,
+    );
+    await expect(
+      recorder.countTokens({ model: 'test-model', contents: 'Hello' }),
+    ).rejects.toThrow();
+
+    const replay = await ReplayContentGenerator.load(cassettePath);
+    await expect(
+      replay.countTokens({ model: 'test-model', contents: 'Hello' }),
+    ).rejects.toMatchObject({ message: 'Server error', status: 500 });
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import { ContentGenerator } from './contentGenerator.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+export enum CassetteMode {
+  RECORD = 'record',
+  REPLAY = 'replay',
+}
+
+export interface CassetteConfig {
+  mode: CassetteMode;
+  /** Path of the JSONL file holding the recorded requests and responses. */
+  path: string;
+  /**
+   * When replaying, serve the next recorded response of the same method for
+   * requests that don't match any recorded request, instead of failing.
+   */
+  lenient?: boolean;
+}
+
+type CassetteMethod =
+  | 'generateContent'
+  | 'generateContentStream'
+  | 'countTokens'
+  | 'embedContent';
+
+interface RecordedError {
+  message: string;
+  status?: number;
+}
+
+/** A single line of a cassette file. */
+export interface CassetteEntry {
+  method: CassetteMethod;
+  fingerprint: string;
+  request: unknown;
+  /** The response, or the list of chunks for `generateContentStream`. */
+  response?: unknown;
+  error?: RecordedError;
+  /** Set when the consumer stopped reading a stream before it ended. */
+  partial?: boolean;
+}
+
+interface ReplayError extends Error {
+  status?: number;
+}
+
+type Request =
+  | GenerateContentParameters
+  | CountTokensParameters
+  | EmbedContentParameters;
+
+/**
+ * Returns the request without fields that cannot be serialized or that do not
+ * influence the response, such as the abort signal.
+ */
+function toSerializableRequest(request: Request): unknown {
+  if (!request.config) {
+    return request;
+  }
+  const {
+    abortSignal: _abortSignal,
+    httpOptions: _httpOptions,
+    ...config
+  } = request.config;
+  return { ...request, config };
+}
+
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) =>
+    val && typeof val === 'object' && !Array.isArray(val)
+      ? Object.fromEntries(
+          Object.entries(val).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : val,
+  );
+}
+
+/**
+ * Computes a stable fingerprint identifying a request, used to look up the
+ * matching response when replaying a cassette.
+ */
+export function getRequestFingerprint(
+  method: CassetteMethod,
+  request: Request,
+): string {
+  return crypto
+    .createHash('sha256')
+    .update(
+      stableStringify({ method, request: toSerializableRequest(request) }),
+    )
+    .digest('hex');
+}
+
+function toRecordedError(error: unknown): RecordedError {
+  const status =
+    typeof error === 'object' &&
+    error !== null &&
+    'status' in error &&
+    typeof (error as { status: unknown }).status === 'number'
+      ? (error as { status: number }).status
+      : undefined;
+  return { message: getErrorMessage(error), status };
+}
+
+function toGenerateContentResponse(value: unknown): GenerateContentResponse {
+  return Object.assign(new GenerateContentResponse(), value);
+}
+
+/**
+ * The cassettes that were truncated by this process. A recording generator is
+ * created again whenever the auth is refreshed, and must not discard what was
+ * recorded before.
+ */
+const truncatedCassettes = new Set<string>();
+
+/**
+ * ContentGenerator wrapper that appends every request and its response (or
+ * error) to a JSONL cassette file.
+ */
+export class RecordingContentGenerator implements ContentGenerator {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(
+    private readonly wrapped: ContentGenerator,
+    private readonly cassettePath: string,
+  ) {}
+
+  static async create(
+    wrapped: ContentGenerator,
+    cassettePath: string,
+  ): Promise<RecordingContentGenerator> {
+    await fs.mkdir(path.dirname(cassettePath), { recursive: true });
+    if (!truncatedCassettes.has(cassettePath)) {
+      truncatedCassettes.add(cassettePath);
+      await fs.writeFile(cassettePath, '', 'utf-8');
+    }
+    return new RecordingContentGenerator(wrapped, cassettePath);
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    return this.record('generateContent', request, () =>
+      this.wrapped.generateContent(request),
+    );
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    let stream: AsyncGenerator<GenerateContentResponse>;
+    try {
+      stream = await this.wrapped.generateContentStream(request);
+    } catch (error) {
+      await this.append('generateContentStream', request, {
+        response: [],
+        error: toRecordedError(error),
+      });
+      throw error;
+    }
+
+    const append = this.append.bind(this);
+    return (async function* () {
+      const chunks: GenerateContentResponse[] = [];
+      let result: Pick<CassetteEntry, 'error' | 'partial'> = { partial: true };
+      try {
+        for await (const chunk of stream) {
+          chunks.push(chunk);
+          yield chunk;
+        }
+        result = {};
+      } catch (error) {
+        result = { error: toRecordedError(error) };
+        throw error;
+      } finally {
+        // Also runs when the consumer stops early, e.g. on cancellation.
+        await append('generateContentStream', request, {
+          response: chunks,
+          ...result,
+        });
+      }
+    })();
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    return this.record('countTokens', request, () =>
+      this.wrapped.countTokens(request),
+    );
+  }
+
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    return this.record('embedContent', request, () =>
+      this.wrapped.embedContent(request),
+    );
+  }
+
+  private async record<T>(
+    method: CassetteMethod,
+    request: Request,
+    call: () => Promise<T>,
+  ): Promise<T> {
+    try {
+      const response = await call();
+      await this.append(method, request, { response });
+      return response;
+    } catch (error) {
+      await this.append(method, request, { error: toRecordedError(error) });
+      throw error;
+    }
+  }
+
+  private append(
+    method: CassetteMethod,
+    request: Request,
+    result: Pick<CassetteEntry, 'response' | 'error' | 'partial'>,
+  ): Promise<void> {
+    const entry: CassetteEntry = {
+      method,
+      fingerprint: getRequestFingerprint(method, request),
+      request: toSerializableRequest(request),
+      ...result,
+    };
+    this.writeQueue = this.writeQueue
+      .then(() =>
+        fs.appendFile(this.cassettePath, JSON.stringify(entry) + '\n', 'utf-8'),
+      )
+      .catch((error) => {
+        console.debug(
+          `Failed to write to cassette ${this.cassettePath}:`,
+          error,
+        );
+      });
+    return this.writeQueue;
+  }
+}
+
+/**
+ * ContentGenerator that serves responses from a cassette file without making
+ * any network requests.
+ *
+ * Entries are matched by request fingerprint, and a request that matches no
+ * unused entry is an error. In lenient mode, requests that differ from the
+ * recording (e.g. because the environment context contains today's date)
+ * fall back to the next unused entry of the same method, in recorded order.
+ */
+export class ReplayContentGenerator implements ContentGenerator {
+  private readonly used = new Set<CassetteEntry>();
+
+  private constructor(
+    private readonly entries: CassetteEntry[],
+    private readonly cassettePath: string,
+    private readonly lenient: boolean,
+  ) {}
+
+  static async load(
+    cassettePath: string,
+    lenient = false,
+  ): Promise<ReplayContentGenerator> {
+    const content = await fs.readFile(cassettePath, 'utf-8');
+    const entries = content
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map((line, index) => {
+        try {
+          return JSON.parse(line) as CassetteEntry;
+        } catch (error) {
+          throw new Error(
+            `Invalid entry on line ${index + 1} of cassette ${cassettePath}: ${getErrorMessage(error)}`,
+          );
+        }
+      });
+    return new ReplayContentGenerator(entries, cassettePath, lenient);
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    const entry = this.take('generateContent', request);
+    this.throwIfError(entry);
+    return toGenerateContentResponse(entry.response);
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const entry = this.take('generateContentStream', request);
+    const chunks = (entry.response as unknown[] | undefined) ?? [];
+    if (chunks.length === 0) {
+      this.throwIfError(entry);
+    }
+    const throwIfError = this.throwIfError.bind(this);
+    return (async function* () {
+      for (const chunk of chunks) {
+        yield toGenerateContentResponse(chunk);
+      }
+      throwIfError(entry);
+    })();
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    const entry = this.take('countTokens', request);
+    this.throwIfError(entry);
+    return entry.response as CountTokensResponse;
+  }
+
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    const entry = this.take('embedContent', request);
+    this.throwIfError(entry);
+    return entry.response as EmbedContentResponse;
+  }
+
+  private take(method: CassetteMethod, request: Request): CassetteEntry {
+    const fingerprint = getRequestFingerprint(method, request);
+    const unused = this.entries.filter(
+      (entry) => entry.method === method && !this.used.has(entry),
+    );
+    const entry =
+      unused.find((candidate) => candidate.fingerprint === fingerprint) ??
+      (this.lenient ? unused[0] : undefined);
+    if (!entry) {
+      throw new Error(
+        this.lenient || unused.length === 0
+          ? `No recorded ${method} response left in cassette ${this.cassettePath} for request ${fingerprint}.`
+          : `No recorded ${method} response for request ${fingerprint} in cassette ${this.cassettePath}. The request differs from the recorded ones; record the cassette again or replay it leniently.`,
+      );
+    }
+    this.used.add(entry);
+    return entry;
+  }
+
+  private throwIfError(entry: CassetteEntry) {
+    if (entry.error) {
+      const error: ReplayError = new Error(entry.error.message);
+      error.status = entry.error.status;
+      throw error;
+    }
+  }
+}
@@ -4,28 +4,18 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { ModelRegistry } from './modelRegistry.js';
+
 type Model = string;
 type TokenCount = number;
 
-export const DEFAULT_TOKEN_LIMIT = 1_048_576;
+const builtInModelRegistry = new ModelRegistry();
 
+/**
+ * Returns the context window of a built-in model. Prefer
+ * `Config.getModelRegistry()`, which also knows about models defined in
+ * settings.
+ */
 export function tokenLimit(model: Model): TokenCount {
-  // Add other models as they become relevant or if specified by config
-  // Pulled from https://ai.google.dev/gemini-api/docs/models
-  switch (model) {
-    case 'gemini-1.5-pro':
-      return 2_097_152;
-    case 'gemini-1.5-flash':
-    case 'gemini-2.5-pro-preview-05-06':
-    case 'gemini-2.5-pro-preview-06-05':
-    case 'gemini-2.5-pro':
-    case 'gemini-2.5-flash-preview-05-20':
-    case 'gemini-2.5-flash':
-    case 'gemini-2.0-flash':
-      return 1_048_576;
-    case 'gemini-2.0-flash-preview-image-generation':
-      return 32_000;
-    default:
-      return DEFAULT_TOKEN_LIMIT;
-  }
+  return builtInModelRegistry.getContextWindow(model);
 }
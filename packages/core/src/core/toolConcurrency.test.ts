@@ -0,0 +1,62 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { effectsConflict, getToolEffects } from './toolConcurrency.js';
+import { Tool } from '../tools/tools.js';
+
+describe('effectsConflict', () => {
+  it('should never let reads conflict with reads', () => {
+    expect(
+      effectsConflict({ reads: ['/project'] }, { reads: ['/project/a.ts'] }),
+    ).toBe(false);
+  });
+
+  it('should let writes conflict with overlapping reads and writes', () => {
+    const write = { writes: ['/project/src/a.ts'] };
+
+    expect(effectsConflict(write, { writes: ['/project/src/a.ts'] })).toBe(
+      true,
+    );
+    expect(effectsConflict({ reads: ['/project/src'] }, write)).toBe(true);
+    expect(effectsConflict(write, { reads: ['/project/src/b.ts'] })).toBe(
+      false,
+    );
+    expect(effectsConflict(write, { reads: ['/project/src/a.tsx'] })).toBe(
+      false,
+    );
+  });
+
+  it('should let processes conflict with every call that touches files', () => {
+    const process = { runsProcess: true };
+
+    expect(effectsConflict(process, { reads: ['/tmp/a.txt'] })).toBe(true);
+    expect(effectsConflict({ writes: ['/tmp/a.txt'] }, process)).toBe(true);
+    expect(effectsConflict(process, process)).toBe(true);
+    expect(effectsConflict(process, {})).toBe(false);
+  });
+});
+
+describe('getToolEffects', () => {
+  it('should assume that tools without declared effects run processes', () => {
+    expect(getToolEffects({ name: 'mcp_tool' } as Tool, {})).toEqual({
+      runsProcess: true,
+    });
+  });
+
+  it('should use the effects declared by the tool', () => {
+    const tool = {
+      name: 'read_file',
+      getEffects: (params: Record<string, unknown>) => ({
+        reads: [params['absolute_path']],
+      }),
+    } as unknown as Tool;
+
+    expect(getToolEffects(tool, { absolute_path: '/project/a.ts' })).toEqual({
+      reads: ['/project/a.ts'],
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as path from 'node:path';
+import { Tool, ToolEffects } from '../tools/tools.js';
+
+export const DEFAULT_MAX_CONCURRENT_TOOL_CALLS = 4;
+
+/** How a call was ordered among the calls scheduled with it. */
+export interface ToolCallExecution {
+  /** Ids of earlier calls that conflict with it, which it waited for. */
+  waitedFor: string[];
+  /** The position in which it started, counting from 0. */
+  order?: number;
+}
+
+/** Effects of tools that do not declare them. */
+const UNKNOWN_EFFECTS: ToolEffects = { runsProcess: true };
+
+export function getToolEffects(
+  tool: Tool,
+  args: Record<string, unknown>,
+): ToolEffects {
+  if (!tool.getEffects) {
+    return UNKNOWN_EFFECTS;
+  }
+  try {
+    return tool.getEffects(args);
+  } catch {
+    // Arguments that the tool cannot interpret yet fail validation later.
+    return UNKNOWN_EFFECTS;
+  }
+}
+
+/** Whether one path is the other, or a file or directory inside it. */
+const pathsOverlap = (a: string, b: string): boolean => {
+  const relative = path.relative(path.resolve(a), path.resolve(b));
+  const reverse = path.relative(path.resolve(b), path.resolve(a));
+  const isInside = (rel: string) =>
+    !rel.startsWith('..') && !path.isAbsolute(rel);
+  return isInside(relative) || isInside(reverse);
+};
+
+const anyPathsOverlap = (a: string[] = [], b: string[] = []): boolean =>
+  a.some((first) => b.some((second) => pathsOverlap(first, second)));
+
+const touchesFiles = (effects: ToolEffects): boolean =>
+  !!effects.runsProcess ||
+  (effects.reads?.length ?? 0) > 0 ||
+  (effects.writes?.length ?? 0) > 0;
+
+/**
+ * Whether two calls may interfere with each other when run in parallel.
+ * Reads never conflict with reads. Writes conflict with reads and writes of
+ * overlapping paths, and processes conflict with every call that touches
+ * files or runs processes.
+ */
+export function effectsConflict(a: ToolEffects, b: ToolEffects): boolean {
+  if (a.runsProcess || b.runsProcess) {
+    return touchesFiles(a) && touchesFiles(b);
+  }
+  return (
+    anyPathsOverlap(a.writes, [...(b.reads ?? []), ...(b.writes ?? [])]) ||
+    anyPathsOverlap(b.writes, a.reads)
+  );
+}
@@ -72,6 +72,10 @@ export interface ToolCallResponseInfo {
   responseParts: PartListUnion;
   resultDisplay: ToolResultDisplay | undefined;
   error: Error | undefined;
+  /** Why the call was refused without running, if it was. */
+  refusal?: string;
+  /** Results of the verification commands that ran after the call. */
+  verification?: string;
 }
 
 export interface ServerToolCallConfirmationDetails {
@@ -10,13 +10,20 @@ export * from './config/config.js';
 // Export Core Logic
 export * from './core/client.js';
 export * from './core/contentGenerator.js';
+export * from './core/recordReplayContentGenerator.js';
 export * from './core/geminiChat.js';
 export * from './core/logger.js';
 export * from './core/prompts.js';
 export * from './core/tokenLimits.js';
+export * from './core/modelRegistry.js';
+export * from './core/compression.js';
+export * from './core/conversationBranches.js';
 export * from './core/turn.js';
 export * from './core/geminiRequest.js';
 export * from './core/coreToolScheduler.js';
+export * from './core/policyEngine.js';
+export * from './core/headlessApproval.js';
+export * from './core/toolConcurrency.js';
 export * from './core/nonInteractiveToolExecutor.js';
 
 export * from './code_assist/codeAssist.js';
@@ -24,6 +31,8 @@ export * from './code_assist/oauth2.js';
 export * from './code_assist/server.js';
 export * from './code_assist/types.js';
 
+export * from './openai/openaiContentGenerator.js';
+
 // Export utilities
 export * from './utils/paths.js';
 export * from './utils/schemaValidator.js';
@@ -33,10 +42,21 @@ export * from './utils/memoryDiscovery.js';
 export * from './utils/gitIgnoreParser.js';
 export * from './utils/editor.js';
 export * from './utils/quotaErrorDetection.js';
+export * from './utils/toolOutput.js';
+export * from './utils/patch.js';
+export * from './utils/notebook.js';
+export * from './utils/codeOutline.js';
 
 // Export services
 export * from './services/fileDiscoveryService.js';
 export * from './services/gitService.js';
+export * from './services/sessionStore.js';
+export * from './services/jobManager.js';
+export * from './services/lspClient.js';
+export * from './services/lspManager.js';
+export * from './services/verificationService.js';
+export * from './services/semanticIndex.js';
+export * from './services/fileWatcherService.js';
 
 // Export base tool definitions
 export * from './tools/tools.js';
@@ -48,11 +68,18 @@ export * from './tools/ls.js';
 export * from './tools/grep.js';
 export * from './tools/glob.js';
 export * from './tools/edit.js';
+export * from './tools/multi-replace.js';
+export * from './tools/apply-patch.js';
+export * from './tools/notebook-edit.js';
 export * from './tools/write-file.js';
 export * from './tools/web-fetch.js';
 export * from './tools/memoryTool.js';
 export * from './tools/shell.js';
+export * from './tools/jobs.js';
+export * from './tools/lsp.js';
 export * from './tools/web-search.js';
+export * from './tools/semantic-search.js';
+export * from './tools/code-outline.js';
 export * from './tools/read-many-files.js';
 export * from './tools/mcp-client.js';
 export * from './tools/mcp-tool.js';
@@ -0,0 +1,310 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  fromChatCompletionResponse,
+  fromEmbeddingsResponse,
+  toChatCompletionRequest,
+  toEmbeddingsRequest,
+  toJsonSchema,
+} from './converter.js';
+import { FinishReason, Type } from '@google/genai';
+
+describe('openai converter', () => {
+  describe('toChatCompletionRequest', () => {
+    it('should convert a simple text request with a system instruction', () => {
+      const req = toChatCompletionRequest(
+        {
+          model: 'my-model',
+          contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+          config: {
+            systemInstruction: 'Be helpful.',
+            temperature: 0,
+            topP: 1,
+            maxOutputTokens: 100,
+          },
+        },
+        false,
+      );
+      expect(req).toEqual({
+        model: 'my-model',
+        messages: [
+          { role: 'system', content: 'Be helpful.' },
+          { role: 'user', content: 'Hello' },
+        ],
+        temperature: 0,
+        top_p: 1,
+        max_tokens: 100,
+      });
+    });
+
+    it('should request usage when streaming', () => {
+      const req = toChatCompletionRequest(
+        { model: 'my-model', contents: 'Hello' },
+        true,
+      );
+      expect(req.stream).toBe(true);
+      expect(req.stream_options).toEqual({ include_usage: true });
+    });
+
+    it('should convert function declarations to tools', () => {
+      const req = toChatCompletionRequest(
+        {
+          model: 'my-model',
+          contents: 'Hello',
+          config: {
+            tools: [
+              {
+                functionDeclarations: [
+                  {
+                    name: 'read_file',
+                    description: 'Reads a file',
+                    parameters: {
+                      type: Type.OBJECT,
+                      properties: {
+                        path: { type: Type.STRING, description: 'The path' },
+                        lines: {
+                          type: Type.ARRAY,
+                          items: { type: Type.NUMBER },
+                        },
+                      },
+                      required: ['path'],
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        },
+        false,
+      );
+      expect(req.tools).toEqual([
+        {
+          type: 'function',
+          function: {
+            name: 'read_file',
+            description: 'Reads a file',
+            parameters: {
+              type: 'object',
+              properties: {
+                path: { type: 'string', description: 'The path' },
+                lines: { type: 'array', items: { type: 'number' } },
+              },
+              required: ['path'],
+            },
+          },
+        },
+      ]);
+    });
+
+    it('should convert function calls and responses with matching ids', () => {
+      const req = toChatCompletionRequest(
+        {
+          model: 'my-model',
+          contents: [
+            { role: 'user', parts: [{ text: 'List files' }] },
+            {
+              role: 'model',
+              parts: [
+                { text: 'Sure.' },
+                { functionCall: { name: 'ls', args: { path: '.' } } },
+              ],
+            },
+            {
+              role: 'user',
+              parts: [
+                {
+                  functionResponse: {
+                    id: 'ls-123',
+                    name: 'ls',
+                    response: { output: 'a.txt' },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+        false,
+      );
+      expect(req.messages).toEqual([
+        { role: 'user', content: 'List files' },
+        {
+          role: 'assistant',
+          content: 'Sure.',
+          tool_calls: [
+            {
+              id: 'call_0',
+              type: 'function',
+              function: { name: 'ls', arguments: '{"path":"."}' },
+            },
+          ],
+        },
+        {
+          role: 'tool',
+          tool_call_id: 'call_0',
+          content: '{"output":"a.txt"}',
+        },
+      ]);
+    });
+
+    it('should skip thoughts and convert images to data urls', () => {
+      const req = toChatCompletionRequest(
+        {
+          model: 'my-model',
+          contents: [
+            {
+              role: 'user',
+              parts: [
+                { text: 'What is this?' },
+                { inlineData: { mimeType: 'image/png', data: 'AAAA' } },
+              ],
+            },
+            {
+              role: 'model',
+              parts: [{ text: 'thinking...', thought: true }, { text: 'A' }],
+            },
+          ],
+        },
+        false,
+      );
+      expect(req.messages).toEqual([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            {
+              type: 'image_url',
+              image_url: { url: 'data:image/png;base64,AAAA' },
+            },
+          ],
+        },
+        { role: 'assistant', content: 'A' },
+      ]);
+    });
+
+    it('should request json output when a response schema is set', () => {
+      const req = toChatCompletionRequest(
+        {
+          model: 'my-model',
+          contents: 'Hello',
+          config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+              type: Type.OBJECT,
+              properties: { answer: { type: Type.STRING } },
+            },
+          },
+        },
+        false,
+      );
+      expect(req.response_format).toEqual({
+        type: 'json_schema',
+        json_schema: {
+          name: 'response',
+          schema: {
+            type: 'object',
+            properties: { answer: { type: 'string' } },
+          },
+        },
+      });
+    });
+  });
+
+  describe('fromChatCompletionResponse', () => {
+    it('should convert text, tool calls and usage', () => {
+      const res = fromChatCompletionResponse({
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: 'Let me check.',
+              tool_calls: [
+                {
+                  id: 'call_abc',
+                  type: 'function',
+                  function: { name: 'ls', arguments: '{"path":"."}' },
+                },
+              ],
+            },
+            finish_reason: 'tool_calls',
+          },
+        ],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      });
+      expect(res.text).toBe('Let me check.');
+      expect(res.functionCalls).toEqual([
+        { id: 'call_abc', name: 'ls', args: { path: '.' } },
+      ]);
+      expect(res.candidates?.[0]?.finishReason).toBe(FinishReason.STOP);
+      expect(res.usageMetadata).toEqual({
+        promptTokenCount: 10,
+        candidatesTokenCount: 5,
+        totalTokenCount: 15,
+      });
+    });
+
+    it('should tolerate malformed tool call arguments', () => {
+      const res = fromChatCompletionResponse({
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: 'assistant',
+              tool_calls: [
+                {
+                  id: 'call_abc',
+                  type: 'function',
+                  function: { name: 'ls', arguments: '{not json' },
+                },
+              ],
+            },
+            finish_reason: 'length',
+          },
+        ],
+      });
+      expect(res.functionCalls).toEqual([
+        { id: 'call_abc', name: 'ls', args: {} },
+      ]);
+      expect(res.candidates?.[0]?.finishReason).toBe(FinishReason.MAX_TOKENS);
+    });
+  });
+
+  describe('embeddings', () => {
+    it('should convert requests and order responses by index', () => {
+      expect(
+        toEmbeddingsRequest({ model: 'embed', contents: ['a', 'b'] }),
+      ).toEqual({ model: 'embed', input: ['a', 'b'] });
+      expect(
+        fromEmbeddingsResponse({
+          data: [
+            { index: 1, embedding: [2] },
+            { index: 0, embedding: [1] },
+          ],
+        }),
+      ).toEqual({ embeddings: [{ values: [1] }, { values: [2] }] });
+    });
+  });
+
+  describe('toJsonSchema', () => {
+    it('should lowercase nested types', () => {
+      expect(
+        toJsonSchema({
+          type: 'OBJECT',
+          properties: {
+            value: { anyOf: [{ type: 'STRING' }, { type: 'INTEGER' }] },
+          },
+        }),
+      ).toEqual({
+        type: 'object',
+        properties: {
+          value: { anyOf: [{ type: 'string' }, { type: 'integer' }] },
+        },
+      });
+    });
+  });
+});
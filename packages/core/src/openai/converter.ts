@@ -0,0 +1,333 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Content,
+  ContentUnion,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  FinishReason,
+  FunctionCall,
+  GenerateContentConfig,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+  Part,
+  ToolListUnion,
+} from '@google/genai';
+import { toContents } from '../code_assist/converter.js';
+import {
+  ChatCompletionContentPart,
+  ChatCompletionMessage,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionTool,
+  ChatCompletionToolCall,
+  ChatCompletionUsage,
+  EmbeddingsRequest,
+  EmbeddingsResponse,
+} from './types.js';
+
+export function toChatCompletionRequest(
+  req: GenerateContentParameters,
+  stream: boolean,
+): ChatCompletionRequest {
+  const messages: ChatCompletionMessage[] = [];
+  const systemText = toSystemText(req.config?.systemInstruction);
+  if (systemText) {
+    messages.push({ role: 'system', content: systemText });
+  }
+  messages.push(...toMessages(toContents(req.contents)));
+
+  const tools = toTools(req.config?.tools);
+  return {
+    model: req.model,
+    messages,
+    ...(tools.length > 0 ? { tools } : {}),
+    ...toSamplingParams(req.config),
+    ...(stream
+      ? { stream: true, stream_options: { include_usage: true } }
+      : {}),
+  };
+}
+
+export function fromChatCompletionResponse(
+  res: ChatCompletionResponse,
+): GenerateContentResponse {
+  const choice = res.choices?.[0];
+  const parts: Part[] = [];
+  if (choice?.message?.content) {
+    parts.push({ text: choice.message.content });
+  }
+  for (const toolCall of choice?.message?.tool_calls ?? []) {
+    parts.push({ functionCall: toFunctionCall(toolCall) });
+  }
+  return createResponse(parts, choice?.finish_reason, res.usage);
+}
+
+export function toEmbeddingsRequest(
+  req: EmbedContentParameters,
+): EmbeddingsRequest {
+  const input = toContents(req.contents).map((content) =>
+    (content.parts ?? []).map((part) => part.text ?? '').join(''),
+  );
+  return { model: req.model, input };
+}
+
+export function fromEmbeddingsResponse(
+  res: EmbeddingsResponse,
+): EmbedContentResponse {
+  return {
+    embeddings: [...(res.data ?? [])]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => ({ values: item.embedding })),
+  };
+}
+
+/**
+ * Builds a `GenerateContentResponse` holding a single model candidate. Used for
+ * both complete responses and streamed chunks.
+ */
+export function createResponse(
+  parts: Part[],
+  finishReason?: string | null,
+  usage?: ChatCompletionUsage | null,
+): GenerateContentResponse {
+  const out = new GenerateContentResponse();
+  out.candidates = [
+    {
+      index: 0,
+      content: { role: 'model', parts },
+      finishReason: toFinishReason(finishReason),
+    },
+  ];
+  out.usageMetadata = toUsageMetadata(usage);
+  return out;
+}
+
+export function toFunctionCall(toolCall: ChatCompletionToolCall): FunctionCall {
+  return {
+    id: toolCall.id,
+    name: toolCall.function.name,
+    args: parseArguments(toolCall.function.arguments),
+  };
+}
+
+/**
+ * Converts a Gemini `Schema` (which uses upper-case `Type` values) into a plain
+ * JSON schema as expected by OpenAI-compatible servers.
+ */
+export function toJsonSchema(schema: unknown): Record<string, unknown> {
+  if (schema === null || typeof schema !== 'object' || Array.isArray(schema)) {
+    return {};
+  }
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (key === 'type' && typeof value === 'string') {
+      out.type = value.toLowerCase();
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      out.properties = Object.fromEntries(
+        Object.entries(value).map(([name, prop]) => [name, toJsonSchema(prop)]),
+      );
+    } else if (key === 'items') {
+      out.items = toJsonSchema(value);
+    } else if (key === 'anyOf' && Array.isArray(value)) {
+      out.anyOf = value.map(toJsonSchema);
+    } else {
+      out[key] = value;
+    }
+  }
+  return out;
+}
+
+function toSystemText(instruction?: ContentUnion): string | undefined {
+  if (!instruction) {
+    return undefined;
+  }
+  const text = toContents(instruction)
+    .flatMap((content) => content.parts ?? [])
+    .map((part) => part.text ?? '')
+    .join('\n');
+  return text || undefined;
+}
+
+function toMessages(contents: Content[]): ChatCompletionMessage[] {
+  const messages: ChatCompletionMessage[] = [];
+  // Gemini history does not always carry function call ids, so ids are
+  // generated for calls that lack one and matched to responses by name.
+  const pendingCallIds = new Map<string, string[]>();
+  let generatedIds = 0;
+
+  for (const content of contents) {
+    const parts = content.parts ?? [];
+    if (content.role === 'model') {
+      const text = parts
+        .filter((part) => !part.thought && part.text)
+        .map((part) => part.text)
+        .join('');
+      const toolCalls: ChatCompletionToolCall[] = parts
+        .filter((part) => part.functionCall)
+        .map((part) => {
+          const call = part.functionCall!;
+          const name = call.name ?? '';
+          const id = call.id ?? `call_${generatedIds++}`;
+          pendingCallIds.set(name, [...(pendingCallIds.get(name) ?? []), id]);
+          return {
+            id,
+            type: 'function',
+            function: { name, arguments: JSON.stringify(call.args ?? {}) },
+          };
+        });
+      if (!text && toolCalls.length === 0) {
+        continue;
+      }
+      messages.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    const userParts: ChatCompletionContentPart[] = [];
+    for (const part of parts) {
+      if (part.functionResponse) {
+        const name = part.functionResponse.name ?? '';
+        const queue = pendingCallIds.get(name) ?? [];
+        let id = part.functionResponse.id;
+        if (id && queue.includes(id)) {
+          queue.splice(queue.indexOf(id), 1);
+        } else {
+          id = queue.shift() ?? id ?? `call_${generatedIds++}`;
+        }
+        messages.push({
+          role: 'tool',
+          tool_call_id: id,
+          content: JSON.stringify(part.functionResponse.response ?? {}),
+        });
+      } else if (part.text !== undefined && !part.thought) {
+        userParts.push({ type: 'text', text: part.text });
+      } else if (part.inlineData?.mimeType?.startsWith('image/')) {
+        userParts.push({
+          type: 'image_url',
+          image_url: {
+            url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`,
+          },
+        });
+      }
+    }
+    if (userParts.length === 0) {
+      continue;
+    }
+    messages.push({
+      role: 'user',
+      content: userParts.every((part) => part.type === 'text')
+        ? userParts.map((part) => part.text).join('\n')
+        : userParts,
+    });
+  }
+  return messages;
+}
+
+function toTools(tools?: ToolListUnion): ChatCompletionTool[] {
+  const out: ChatCompletionTool[] = [];
+  for (const tool of tools ?? []) {
+    if (!('functionDeclarations' in tool)) {
+      continue;
+    }
+    for (const declaration of tool.functionDeclarations ?? []) {
+      if (!declaration.name) {
+        continue;
+      }
+      out.push({
+        type: 'function',
+        function: {
+          name: declaration.name,
+          description: declaration.description,
+          parameters: toJsonSchema(
+            declaration.parametersJsonSchema ?? declaration.parameters,
+          ),
+        },
+      });
+    }
+  }
+  return out;
+}
+
+function toSamplingParams(
+  config?: GenerateContentConfig,
+): Partial<ChatCompletionRequest> {
+  if (!config) {
+    return {};
+  }
+  const params: Partial<ChatCompletionRequest> = {
+    temperature: config.temperature,
+    top_p: config.topP,
+    max_tokens: config.maxOutputTokens,
+    stop: config.stopSequences,
+    presence_penalty: config.presencePenalty,
+    frequency_penalty: config.frequencyPenalty,
+    seed: config.seed,
+  };
+  if (config.responseMimeType === 'application/json') {
+    const schema = config.responseJsonSchema ?? config.responseSchema;
+    params.response_format = schema
+      ? {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema: toJsonSchema(schema) },
+        }
+      : { type: 'json_object' };
+  }
+  return Object.fromEntries(
+    Object.entries(params).filter(([, value]) => value !== undefined),
+  );
+}
+
+function parseArguments(args: string | undefined): Record<string, unknown> {
+  if (!args) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toFinishReason(reason?: string | null): FinishReason | undefined {
+  switch (reason) {
+    case 'stop':
+    case 'tool_calls':
+    case 'function_call':
+      return FinishReason.STOP;
+    case 'length':
+      return FinishReason.MAX_TOKENS;
+    case 'content_filter':
+      return FinishReason.SAFETY;
+    case undefined:
+    case null:
+      return undefined;
+    default:
+      return FinishReason.OTHER;
+  }
+}
+
+function toUsageMetadata(
+  usage?: ChatCompletionUsage | null,
+): GenerateContentResponseUsageMetadata | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    promptTokenCount: usage.prompt_tokens,
+    candidatesTokenCount: usage.completion_tokens,
+    totalTokenCount: usage.total_tokens,
+  };
+}
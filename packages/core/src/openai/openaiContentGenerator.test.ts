@@ -0,0 +1,139 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GenerateContentResponse } from '@google/genai';
+import { OpenAIContentGenerator } from './openaiContentGenerator.js';
+
+function sseResponse(events: unknown[]): Response {
+  const body = [
+    ...events.map((event) => `data: ${JSON.stringify(event)}\n\n`),
+    'data: [DONE]\n\n',
+  ].join('');
+  return new Response(body, { status: 200 });
+}
+
+describe('OpenAIContentGenerator', () => {
+  const fetchMock = vi.fn();
+  let generator: OpenAIContentGenerator;
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    generator = new OpenAIContentGenerator({
+      baseUrl: 'http://localhost:8000/v1/',
+      apiKey: 'secret',
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+  });
+
+  it('should post chat completions with the api key', async () => {
+    fetchMock.mockResolvedValue(
+      Response.json({
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'Hi there' },
+            finish_reason: 'stop',
+          },
+        ],
+      }),
+    );
+
+    const res = await generator.generateContent({
+      model: 'my-model',
+      contents: 'Hello',
+    });
+
+    expect(res.text).toBe('Hi there');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8000/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'my-model',
+      messages: [{ role: 'user', content: 'Hello' }],
+    });
+  });
+
+  it('should throw an error carrying the http status', async () => {
+    fetchMock.mockResolvedValue(new Response('slow down', { status: 429 }));
+
+    await expect(
+      generator.generateContent({ model: 'my-model', contents: 'Hello' }),
+    ).rejects.toMatchObject({ status: 429 });
+  });
+
+  it('should stream text and assemble tool call fragments', async () => {
+    fetchMock.mockResolvedValue(
+      sseResponse([
+        { choices: [{ index: 0, delta: { content: 'Hel' } }] },
+        { choices: [{ index: 0, delta: { content: 'lo' } }] },
+        {
+          choices: [
+            {
+              index: 0,
+              delta: {
+                tool_calls: [
+                  {
+                    index: 0,
+                    id: 'call_1',
+                    type: 'function',
+                    function: { name: 'ls', arguments: '{"pa' },
+                  },
+                ],
+              },
+            },
+          ],
+        },
+        {
+          choices: [
+            {
+              index: 0,
+              delta: {
+                tool_calls: [{ index: 0, function: { arguments: 'th":"."}' } }],
+              },
+              finish_reason: 'tool_calls',
+            },
+          ],
+        },
+        {
+          choices: [],
+          usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+        },
+      ]),
+    );
+
+    const stream = await generator.generateContentStream({
+      model: 'my-model',
+      contents: 'Hello',
+    });
+    const responses: GenerateContentResponse[] = [];
+    for await (const res of stream) {
+      responses.push(res);
+    }
+
+    expect(responses.map((res) => res.text)).toEqual(['Hel', 'lo']);
+    expect(responses[1].functionCalls).toEqual([
+      { id: 'call_1', name: 'ls', args: { path: '.' } },
+    ]);
+    expect(responses[1].usageMetadata?.totalTokenCount).toBe(5);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream_options).toEqual({
+      include_usage: true,
+    });
+  });
+
+  it('should estimate token counts locally', async () => {
+    const res = await generator.countTokens({
+      model: 'my-model',
+      contents: [{ role: 'user', parts: [{ text: 'x'.repeat(400) }] }],
+    });
+    expect(res.totalTokens).toBeGreaterThanOrEqual(100);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
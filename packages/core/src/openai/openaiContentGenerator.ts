@@ -0,0 +1,213 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  Part,
+} from '@google/genai';
+import * as readline from 'readline';
+import { Readable } from 'node:stream';
+import { ContentGenerator } from '../core/contentGenerator.js';
+import { toContents } from '../code_assist/converter.js';
+import {
+  createResponse,
+  fromChatCompletionResponse,
+  fromEmbeddingsResponse,
+  toChatCompletionRequest,
+  toEmbeddingsRequest,
+  toFunctionCall,
+} from './converter.js';
+import {
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+  ChatCompletionToolCall,
+  ChatCompletionUsage,
+  EmbeddingsResponse,
+} from './types.js';
+
+/** Rough characters-per-token ratio used when the server cannot count tokens. */
+const CHARS_PER_TOKEN = 4;
+
+interface OpenAIError extends Error {
+  status?: number;
+}
+
+export interface OpenAIContentGeneratorOptions {
+  /** Base URL of the server, e.g. `http://localhost:8000/v1`. */
+  baseUrl: string;
+  apiKey?: string;
+  /** Additional HTTP headers to be sent with each request. */
+  headers?: Record<string, string>;
+}
+
+/**
+ * ContentGenerator backed by an OpenAI-compatible chat-completions endpoint
+ * (vLLM, llama.cpp server, LiteLLM, ...).
+ */
+export class OpenAIContentGenerator implements ContentGenerator {
+  constructor(private readonly options: OpenAIContentGeneratorOptions) {}
+
+  async generateContent(
+    req: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    const res = await this.post(
+      'chat/completions',
+      toChatCompletionRequest(req, false),
+      req.config?.abortSignal,
+    );
+    return fromChatCompletionResponse(
+      (await res.json()) as ChatCompletionResponse,
+    );
+  }
+
+  async generateContentStream(
+    req: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const res = await this.post(
+      'chat/completions',
+      toChatCompletionRequest(req, true),
+      req.config?.abortSignal,
+    );
+    return this.streamResponses(this.readChunks(res));
+  }
+
+  async countTokens(req: CountTokensParameters): Promise<CountTokensResponse> {
+    // The chat-completions API has no token counting endpoint, so estimate.
+    const characters = JSON.stringify(toContents(req.contents)).length;
+    return { totalTokens: Math.ceil(characters / CHARS_PER_TOKEN) };
+  }
+
+  async embedContent(
+    req: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    const res = await this.post(
+      'embeddings',
+      toEmbeddingsRequest(req),
+      req.config?.abortSignal,
+    );
+    return fromEmbeddingsResponse((await res.json()) as EmbeddingsResponse);
+  }
+
+  private async post(
+    path: string,
+    body: object,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const res = await fetch(this.getUrl(path), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey
+          ? { Authorization: `Bearer ${this.options.apiKey}` }
+          : {}),
+        ...this.options.headers,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!res.ok) {
+      const detail = await res.text().catch(() => '');
+      const error: OpenAIError = new Error(
+        `Request to ${this.getUrl(path)} failed with status ${res.status}: ${detail}`,
+      );
+      // Expose the status so retry logic can handle 429 and 5xx errors.
+      error.status = res.status;
+      throw error;
+    }
+    return res;
+  }
+
+  private getUrl(path: string): string {
+    return `${this.options.baseUrl.replace(/\/+$/, '')}/${path}`;
+  }
+
+  private async *readChunks(
+    res: Response,
+  ): AsyncGenerator<ChatCompletionChunk> {
+    if (!res.body) {
+      throw new Error('Response body is not a readable stream.');
+    }
+    const rl = readline.createInterface({
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      input: Readable.fromWeb(res.body as any),
+      crlfDelay: Infinity, // Recognizes '\r\n' and '\n' as line breaks
+    });
+    for await (const line of rl) {
+      // Blank lines separate events and lines starting with ':' are comments.
+      if (line === '' || line.startsWith(':')) {
+        continue;
+      }
+      if (!line.startsWith('data:')) {
+        throw new Error(`Unexpected line format in response: ${line}`);
+      }
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') {
+        return;
+      }
+      yield JSON.parse(data) as ChatCompletionChunk;
+    }
+  }
+
+  /**
+   * Converts streamed chunks into responses. Text deltas are forwarded as they
+   * arrive, while tool call fragments are accumulated and emitted as complete
+   * function calls. The last response is held back so that the usage reported
+   * in the final chunk can be attached to it.
+   */
+  private async *streamResponses(
+    chunks: AsyncGenerator<ChatCompletionChunk>,
+  ): AsyncGenerator<GenerateContentResponse> {
+    const toolCalls = new Map<number, ChatCompletionToolCall>();
+    let pending: { parts: Part[]; finishReason?: string | null } | undefined;
+    let finishReason: string | null | undefined;
+    let usage: ChatCompletionUsage | null | undefined;
+
+    for await (const chunk of chunks) {
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+      const choice = chunk.choices?.[0];
+      if (!choice) {
+        continue;
+      }
+      finishReason = choice.finish_reason ?? finishReason;
+      for (const delta of choice.delta?.tool_calls ?? []) {
+        const toolCall = toolCalls.get(delta.index) ?? {
+          id: delta.id ?? `call_${delta.index}`,
+          type: 'function',
+          function: { name: '', arguments: '' },
+        };
+        toolCall.function.name += delta.function?.name ?? '';
+        toolCall.function.arguments += delta.function?.arguments ?? '';
+        toolCalls.set(delta.index, toolCall);
+      }
+      if (choice.delta?.content) {
+        if (pending) {
+          yield createResponse(pending.parts, pending.finishReason);
+        }
+        pending = {
+          parts: [{ text: choice.delta.content }],
+          finishReason: choice.finish_reason,
+        };
+      }
+    }
+
+    const parts: Part[] = [...(pending?.parts ?? [])];
+    for (const toolCall of [...toolCalls.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, call]) => call)) {
+      parts.push({ functionCall: toFunctionCall(toolCall) });
+    }
+    if (parts.length > 0 || usage) {
+      yield createResponse(parts, finishReason, usage);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Subset of the OpenAI chat-completions wire format understood by
+// OpenAI-compatible servers such as vLLM, llama.cpp server and LiteLLM.
+
+export interface ChatCompletionContentPart {
+  type: 'text' | 'image_url';
+  text?: string;
+  image_url?: { url: string };
+}
+
+export interface ChatCompletionToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | ChatCompletionContentPart[] | null;
+  tool_calls?: ChatCompletionToolCall[];
+  tool_call_id?: string;
+}
+
+export interface ChatCompletionTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
+}
+
+export interface ChatCompletionResponseFormat {
+  type: 'json_object' | 'json_schema';
+  json_schema?: {
+    name: string;
+    schema: Record<string, unknown>;
+  };
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatCompletionMessage[];
+  tools?: ChatCompletionTool[];
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string[];
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  seed?: number;
+  response_format?: ChatCompletionResponseFormat;
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+}
+
+export interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+export interface ChatCompletionChoice {
+  index: number;
+  message: {
+    role: 'assistant';
+    content?: string | null;
+    tool_calls?: ChatCompletionToolCall[];
+  };
+  finish_reason?: string | null;
+}
+
+export interface ChatCompletionResponse {
+  id?: string;
+  model?: string;
+  choices: ChatCompletionChoice[];
+  usage?: ChatCompletionUsage;
+}
+
+export interface ChatCompletionToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+export interface ChatCompletionChunkChoice {
+  index: number;
+  delta: {
+    role?: 'assistant';
+    content?: string | null;
+    tool_calls?: ChatCompletionToolCallDelta[];
+  };
+  finish_reason?: string | null;
+}
+
+export interface ChatCompletionChunk {
+  id?: string;
+  model?: string;
+  choices: ChatCompletionChunkChoice[];
+  usage?: ChatCompletionUsage | null;
+}
+
+export interface EmbeddingsRequest {
+  model: string;
+  input: string[];
+}
+
+export interface EmbeddingsResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
@@ -25,6 +25,7 @@ describe('FileDiscoveryService', () => {
     mockGitIgnoreParser = {
       initialize: vi.fn(),
       isIgnored: vi.fn(),
+      explain: vi.fn(),
       loadPatterns: vi.fn(),
       loadGitRepoPatterns: vi.fn(),
     } as unknown as Mocked<GitIgnoreParser>;
@@ -117,6 +118,25 @@ describe('FileDiscoveryService', () => {
     });
   });
 
+  describe('explainIgnore', () => {
+    it('should explain the rules of both kinds of ignore files', () => {
+      const match = {
+        source: '/test/project/.gitignore',
+        line: 1,
+        pattern: 'dist/',
+        ignored: true,
+      };
+      mockGitIgnoreParser.explain.mockReturnValue(match);
+      service = new FileDiscoveryService(mockProjectRoot);
+
+      expect(service.explainIgnore('dist/index.js')).toEqual({
+        gitIgnore: match,
+        geminiIgnore: match,
+      });
+      expect(mockGitIgnoreParser.explain).toHaveBeenCalledWith('dist/index.js');
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle relative project root paths', () => {
       const relativeService = new FileDiscoveryService('./relative/path');
@@ -4,17 +4,27 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { GitIgnoreParser, GitIgnoreFilter } from '../utils/gitIgnoreParser.js';
+import {
+  GitIgnoreParser,
+  GitIgnoreFilter,
+  IgnoreRuleMatch,
+} from '../utils/gitIgnoreParser.js';
 import { isGitRepository } from '../utils/gitUtils.js';
 import * as path from 'path';
 
-const GEMINI_IGNORE_FILE_NAME = '.geminiignore';
+export const GEMINI_IGNORE_FILE_NAME = '.geminiignore';
 
 export interface FilterFilesOptions {
   respectGitIgnore?: boolean;
   respectGeminiIgnore?: boolean;
 }
 
+/** The rules of each kind of ignore file that decide whether a file is ignored. */
+export interface IgnoreExplanation {
+  gitIgnore?: IgnoreRuleMatch;
+  geminiIgnore?: IgnoreRuleMatch;
+}
+
 export class FileDiscoveryService {
   private gitIgnoreFilter: GitIgnoreFilter | null = null;
   private geminiIgnoreFilter: GitIgnoreFilter | null = null;
@@ -102,6 +112,28 @@ export class FileDiscoveryService {
     return false;
   }
 
+  /**
+   * Explains whether a file is ignored: finds the rule of the git ignore
+   * files and of the .geminiignore files that decides it, if any.
+   */
+  explainIgnore(filePath: string): IgnoreExplanation {
+    return {
+      gitIgnore: this.gitIgnoreFilter?.explain(filePath),
+      geminiIgnore: this.geminiIgnoreFilter?.explain(filePath),
+    };
+  }
+
+  /**
+   * The git and gemini ignore files that apply to the project root, whether
+   * or not they exist.
+   */
+  getIgnoreFilePaths(): string[] {
+    return [
+      ...(this.gitIgnoreFilter?.getIgnoreFiles() ?? []),
+      ...(this.geminiIgnoreFilter?.getIgnoreFiles() ?? []),
+    ];
+  }
+
   /**
    * Returns loaded patterns from .geminiignore
    */
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  vi,
+  type Mock,
+} from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  FileWatcherOptions,
+  FileWatcherService,
+} from './fileWatcherService.js';
+import { Config } from '../config/config.js';
+
+vi.mock('fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('fs')>();
+  return { ...actual, watch: vi.fn() };
+});
+
+describe('FileWatcherService', () => {
+  const projectDir = path.resolve('/project');
+  const settingsDir = path.join(os.homedir(), '.gemini');
+  const gitInfoDir = path.join(projectDir, '.git', 'info');
+  const globalGitDir = path.join(os.homedir(), '.config', 'git');
+  const listeners = new Map<
+    string,
+    (eventType: string, name: string) => void
+  >();
+  const closeWatcher = vi.fn();
+  const mockRefreshMemory = vi.fn();
+  const mockReloadFileService = vi.fn();
+  const mockSetMcpServers = vi.fn();
+  const mockDiscoverTools = vi.fn();
+  const mockSetTools = vi.fn();
+  const mockLoadMcpServers = vi.fn();
+  const onReload = vi.fn();
+  const onError = vi.fn();
+  let config: Config;
+  let options: FileWatcherOptions;
+  let service: FileWatcherService;
+
+  const change = async (dir: string, fileName: string) => {
+    listeners.get(dir)!('change', fileName);
+    await vi.advanceTimersByTimeAsync(100);
+    await service.waitForReloads();
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    listeners.clear();
+    (fs.watch as Mock).mockImplementation(
+      (dir: string, listener: (eventType: string, name: string) => void) => {
+        listeners.set(dir, listener);
+        return { on: vi.fn(), close: closeWatcher };
+      },
+    );
+    mockRefreshMemory.mockResolvedValue({
+      memoryContent: 'memory',
+      fileCount: 2,
+    });
+    mockLoadMcpServers.mockResolvedValue({ docs: { command: 'docs-server' } });
+
+    config = {
+      getTargetDir: () => projectDir,
+      getWorkingDir: () => projectDir,
+      getMcpServers: () => ({ docs: { command: 'docs-server' } }),
+      getGeminiMdFilePaths: () => [path.join(settingsDir, 'GEMINI.md')],
+      refreshMemory: mockRefreshMemory,
+      reloadFileService: mockReloadFileService,
+      setMcpServers: mockSetMcpServers,
+      getToolRegistry: async () => ({ discoverTools: mockDiscoverTools }),
+      getGeminiClient: () => ({ setTools: mockSetTools }),
+      getFileService: () => ({
+        getIgnoreFilePaths: () => [
+          path.join(projectDir, '.gitignore'),
+          path.join(gitInfoDir, 'exclude'),
+          path.join(globalGitDir, 'ignore'),
+          path.join(projectDir, '.geminiignore'),
+        ],
+        shouldGitIgnoreFile: () => false,
+      }),
+    } as unknown as Config;
+    options = {
+      settingsPaths: [path.join(settingsDir, 'settings.json')],
+      loadMcpServers: mockLoadMcpServers,
+      onReload,
+      onError,
+      debounceMs: 100,
+    };
+    service = new FileWatcherService(config, options);
+    service.start();
+    await service.waitForReloads();
+  });
+
+  afterEach(() => {
+    service.stop();
+    vi.useRealTimers();
+  });
+
+  it('should watch the directories of the watched files', () => {
+    expect([...listeners.keys()].sort()).toEqual(
+      [settingsDir, projectDir, gitInfoDir, globalGitDir].sort(),
+    );
+  });
+
+  it('should reload memory once after context files change', async () => {
+    listeners.get(projectDir)!('change', 'GEMINI.md');
+    listeners.get(settingsDir)!('rename', 'GEMINI.md');
+    await vi.advanceTimersByTimeAsync(100);
+    await service.waitForReloads();
+
+    expect(mockRefreshMemory).toHaveBeenCalledTimes(1);
+    expect(onReload).toHaveBeenCalledWith(
+      `Reloaded memory from 2 context file(s) after changes to GEMINI.md, ${path.join('~', '.gemini', 'GEMINI.md')}.`,
+    );
+  });
+
+  it('should reload the file service after an ignore file changes', async () => {
+    await change(projectDir, '.geminiignore');
+
+    expect(mockReloadFileService).toHaveBeenCalled();
+    expect(mockRefreshMemory).not.toHaveBeenCalled();
+    expect(onReload).toHaveBeenCalledWith(
+      'Reloaded file filtering after changes to .geminiignore.',
+    );
+  });
+
+  it('should reload the file service after git exclude files change', async () => {
+    await change(gitInfoDir, 'exclude');
+    await change(globalGitDir, 'ignore');
+
+    expect(mockReloadFileService).toHaveBeenCalledTimes(2);
+  });
+
+  it('should watch the ignore files of subdirectories', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-watcher-'));
+    const srcDir = path.join(tempDir, 'src');
+    try {
+      fs.mkdirSync(srcDir);
+      fs.writeFileSync(path.join(srcDir, '.gitignore'), '*.log\n');
+      service.stop();
+      service = new FileWatcherService(
+        {
+          ...config,
+          getTargetDir: () => tempDir,
+          getWorkingDir: () => tempDir,
+        } as Config,
+        options,
+      );
+      service.start();
+      await service.waitForReloads();
+
+      await change(srcDir, '.gitignore');
+
+      expect(mockReloadFileService).toHaveBeenCalled();
+      expect(onReload).toHaveBeenCalledWith(
+        `Reloaded file filtering after changes to ${path.join('src', '.gitignore')}.`,
+      );
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reload the MCP servers only when they change', async () => {
+    await change(settingsDir, 'settings.json');
+
+    expect(mockDiscoverTools).not.toHaveBeenCalled();
+    expect(mockSetTools).not.toHaveBeenCalled();
+    expect(onReload).not.toHaveBeenCalled();
+
+    const mcpServers = { docs: { command: 'docs-server', args: ['--v2'] } };
+    mockLoadMcpServers.mockResolvedValue(mcpServers);
+    await change(settingsDir, 'settings.json');
+
+    expect(mockSetMcpServers).toHaveBeenCalledWith(mcpServers);
+    expect(mockDiscoverTools).toHaveBeenCalled();
+    expect(mockSetTools).toHaveBeenCalled();
+    expect(mockSetTools.mock.invocationCallOrder[0]).toBeGreaterThan(
+      mockDiscoverTools.mock.invocationCallOrder[0],
+    );
+    expect(onReload).toHaveBeenCalledWith(
+      `Reloaded 1 MCP server(s) after changes to ${path.join('~', '.gemini', 'settings.json')}.`,
+    );
+  });
+
+  it('should report reloads that fail', async () => {
+    mockRefreshMemory.mockRejectedValue(new Error('unreadable'));
+
+    await change(projectDir, 'GEMINI.md');
+
+    expect(onError).toHaveBeenCalledWith(
+      'Error reloading after changes to GEMINI.md: unreadable',
+    );
+    expect(onReload).not.toHaveBeenCalled();
+  });
+
+  it('should ignore changes to other files', async () => {
+    await change(projectDir, 'index.ts');
+
+    expect(mockRefreshMemory).not.toHaveBeenCalled();
+    expect(mockReloadFileService).not.toHaveBeenCalled();
+  });
+
+  it('should close the watchers when stopped', () => {
+    service.stop();
+
+    expect(closeWatcher).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Config, MCPServerConfig } from '../config/config.js';
+import { getAllGeminiMdFilenames } from '../tools/memoryTool.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { tildeifyPath } from '../utils/paths.js';
+import { bfsFileSearch } from '../utils/bfsFileSearch.js';
+import { GEMINI_IGNORE_FILE_NAME } from './fileDiscoveryService.js';
+
+/** How long to wait after a change for more changes before reloading. */
+export const DEFAULT_FILE_WATCH_DEBOUNCE_MS = 300;
+
+const MAX_DIRECTORIES_TO_SCAN_FOR_IGNORE_FILES = 200;
+
+type WatchedFileKind = 'memory' | 'ignore' | 'settings';
+
+export interface FileWatcherOptions {
+  /** Settings files whose changes reload the MCP server config. */
+  settingsPaths?: string[];
+  /** Reads the MCP servers from the settings files again. */
+  loadMcpServers?: () => Promise<Record<string, MCPServerConfig> | undefined>;
+  /** Called with a description of what was reloaded after files changed. */
+  onReload: (message: string) => void;
+  /** Called with a description of a reload that failed. */
+  onError?: (message: string) => void;
+  debounceMs?: number;
+}
+
+/**
+ * Watches the context files that the user memory was loaded from, the ignore
+ * files of the project and the settings files, and reloads the user memory,
+ * the file service or the MCP servers when they change. The directories of
+ * the files are watched rather than the files themselves, so that files that
+ * are created, deleted or replaced by an editor's atomic save are noticed.
+ */
+export class FileWatcherService {
+  /** The watchers of the directories that contain watched files. */
+  private watchers = new Map<string, fs.FSWatcher>();
+  private watchedFiles = new Map<string, WatchedFileKind>();
+  /** The changed files that have yet to be reloaded, by kind. */
+  private pendingChanges = new Map<WatchedFileKind, Set<string>>();
+  private debounceTimer: NodeJS.Timeout | undefined;
+  private reloading: Promise<void> = Promise.resolve();
+  private running = false;
+  /** The MCP servers in use, to tell whether the settings changed them. */
+  private mcpServersJson: string | undefined;
+
+  constructor(
+    private readonly config: Config,
+    private readonly options: FileWatcherOptions,
+  ) {}
+
+  start(): void {
+    this.running = true;
+    this.mcpServersJson = JSON.stringify(this.config.getMcpServers());
+    this.reloading = this.updateWatchers();
+  }
+
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.debounceTimer);
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    this.pendingChanges.clear();
+  }
+
+  /** Resolves when the watchers and the reloads that have started are done. */
+  async waitForReloads(): Promise<void> {
+    await this.reloading;
+  }
+
+  private async getWatchedFiles(): Promise<Map<string, WatchedFileKind>> {
+    const files = new Map<string, WatchedFileKind>();
+    const add = (filePaths: string[], kind: WatchedFileKind) => {
+      for (const filePath of filePaths) {
+        files.set(path.resolve(filePath), kind);
+      }
+    };
+    const targetDir = this.config.getTargetDir();
+    const fileService = this.config.getFileService();
+    add(this.options.settingsPaths ?? [], 'settings');
+    add(
+      [
+        path.join(targetDir, '.gitignore'),
+        path.join(targetDir, GEMINI_IGNORE_FILE_NAME),
+        ...fileService.getIgnoreFilePaths(),
+      ],
+      'ignore',
+    );
+    // The ignore files of subdirectories apply below them.
+    for (const fileName of ['.gitignore', GEMINI_IGNORE_FILE_NAME]) {
+      add(
+        await bfsFileSearch(targetDir, {
+          fileName,
+          ignoreDirs: ['node_modules', '.git'],
+          maxDirs: MAX_DIRECTORIES_TO_SCAN_FOR_IGNORE_FILES,
+          fileService,
+        }),
+        'ignore',
+      );
+    }
+    // Context files that are created in the working directory are loaded too.
+    add(
+      [
+        ...this.config.getGeminiMdFilePaths(),
+        ...getAllGeminiMdFilenames().map((fileName) =>
+          path.join(this.config.getWorkingDir(), fileName),
+        ),
+      ],
+      'memory',
+    );
+    return files;
+  }
+
+  /** Watches the directories of the current set of watched files. */
+  private async updateWatchers() {
+    const watchedFiles = await this.getWatchedFiles();
+    if (!this.running) {
+      return;
+    }
+    this.watchedFiles = watchedFiles;
+    const dirs = new Set(
+      [...this.watchedFiles.keys()].map((filePath) => path.dirname(filePath)),
+    );
+    for (const [dir, watcher] of this.watchers) {
+      if (!dirs.has(dir)) {
+        watcher.close();
+        this.watchers.delete(dir);
+      }
+    }
+    for (const dir of dirs) {
+      if (this.watchers.has(dir)) {
+        continue;
+      }
+      try {
+        const watcher = fs.watch(dir, (_eventType, fileName) =>
+          this.handleChange(dir, fileName?.toString()),
+        );
+        watcher.on('error', () => {
+          watcher.close();
+          this.watchers.delete(dir);
+        });
+        this.watchers.set(dir, watcher);
+      } catch (_error) {
+        // The directory doesn't exist, so none of its files can change.
+      }
+    }
+  }
+
+  private handleChange(dir: string, fileName: string | undefined) {
+    // Without a file name, any watched file of the directory may have changed.
+    const changedFiles = fileName
+      ? [path.join(dir, fileName)]
+      : [...this.watchedFiles.keys()].filter(
+          (filePath) => path.dirname(filePath) === dir,
+        );
+    let changed = false;
+    for (const filePath of changedFiles) {
+      const kind = this.watchedFiles.get(filePath);
+      if (kind) {
+        const pending = this.pendingChanges.get(kind) ?? new Set<string>();
+        pending.add(filePath);
+        this.pendingChanges.set(kind, pending);
+        changed = true;
+      }
+    }
+    if (!changed) {
+      return;
+    }
+
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.reloading = this.reloading.then(() => this.reload());
+    }, this.options.debounceMs ?? DEFAULT_FILE_WATCH_DEBOUNCE_MS);
+  }
+
+  /** Reloads the subsystems whose files changed, then reports them. */
+  private async reload(): Promise<void> {
+    const changes = this.pendingChanges;
+    this.pendingChanges = new Map();
+    const messages: string[] = [];
+    const reloadStep = async (
+      kind: WatchedFileKind,
+      step: (files: string) => Promise<string | undefined>,
+    ) => {
+      const changedFiles = changes.get(kind);
+      if (!changedFiles) {
+        return;
+      }
+      const files = [...changedFiles]
+        .map((filePath) => this.displayPath(filePath))
+        .join(', ');
+      try {
+        const message = await step(files);
+        if (message) {
+          messages.push(message);
+        }
+      } catch (error) {
+        this.options.onError?.(
+          `Error reloading after changes to ${files}: ${getErrorMessage(error)}`,
+        );
+      }
+    };
+
+    await reloadStep('ignore', async (files) => {
+      this.config.reloadFileService();
+      return `Reloaded file filtering after changes to ${files}.`;
+    });
+    await reloadStep('memory', async (files) => {
+      const { fileCount } = await this.config.refreshMemory();
+      return `Reloaded memory from ${fileCount} context file(s) after changes to ${files}.`;
+    });
+    await reloadStep('settings', async (files) => {
+      if (!this.options.loadMcpServers) {
+        return undefined;
+      }
+      const mcpServers = await this.options.loadMcpServers();
+      const mcpServersJson = JSON.stringify(mcpServers);
+      if (mcpServersJson === this.mcpServersJson) {
+        return undefined;
+      }
+      this.mcpServersJson = mcpServersJson;
+      this.config.setMcpServers(mcpServers);
+      const toolRegistry = await this.config.getToolRegistry();
+      await toolRegistry.discoverTools();
+      await this.config.getGeminiClient().setTools();
+      return `Reloaded ${Object.keys(mcpServers ?? {}).length} MCP server(s) after changes to ${files}.`;
+    });
+
+    if (!this.running) {
+      return;
+    }
+    // The set of context and ignore files may have changed.
+    await this.updateWatchers();
+    if (messages.length > 0) {
+      this.options.onReload(messages.join('\n'));
+    }
+  }
+
+  private displayPath(filePath: string): string {
+    const relativePath = path.relative(this.config.getTargetDir(), filePath);
+    return relativePath.startsWith('..') || path.isAbsolute(relativePath)
+      ? tildeifyPath(filePath)
+      : relativePath;
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as os from 'node:os';
+import { JobManager } from './jobManager.js';
+
+describe.skipIf(os.platform() === 'win32')('JobManager', () => {
+  let jobManager: JobManager;
+
+  beforeEach(() => {
+    jobManager = new JobManager(1000);
+  });
+
+  afterEach(() => {
+    jobManager.stopAll();
+  });
+
+  it('should read the output of a job since a cursor', async () => {
+    jobManager.start('echo', 'echo first; echo second >&2', os.tmpdir());
+
+    const { job } = await jobManager.waitFor('echo', /second/, {
+      timeoutMs: 5000,
+    });
+    const first = jobManager.read('echo');
+    const second = jobManager.read('echo', 'first\n'.length);
+
+    expect(job.name).toBe('echo');
+    expect(first.output).toBe('first\nsecond\n');
+    expect(first.cursor).toBe('first\nsecond\n'.length);
+    expect(second.output).toBe('second\n');
+  });
+
+  it('should keep characters that are split between chunks', async () => {
+    jobManager.start(
+      'split',
+      "printf '\\xc3'; sleep 0.1; printf '\\xa9\\n'",
+      os.tmpdir(),
+    );
+
+    await jobManager.waitFor('split', /\u00e9/, { timeoutMs: 5000 });
+
+    expect(jobManager.read('split').output).toBe('\u00e9\n');
+  });
+
+  it('should wait for a line that matches a pattern', async () => {
+    jobManager.start(
+      'server',
+      'echo starting; sleep 0.2; echo "listening on port 8080"; sleep 30',
+      os.tmpdir(),
+    );
+
+    const result = await jobManager.waitFor('server', /listening on port/, {
+      timeoutMs: 5000,
+    });
+
+    expect(result.matchedLine).toBe('listening on port 8080');
+    expect(result.job.status).toBe('running');
+    expect(result.cursor).toBe('starting\nlistening on port 8080\n'.length);
+  });
+
+  it('should match output that arrives after the job exits', async () => {
+    // The background process writes to the job's output after bash exits.
+    jobManager.start('late', '(sleep 0.2; echo ready) & exit 0', os.tmpdir());
+
+    const result = await jobManager.waitFor('late', /ready/, {
+      timeoutMs: 5000,
+    });
+
+    expect(result.matchedLine).toBe('ready');
+    expect(jobManager.read('late').output).toBe('ready\n');
+  });
+
+  it('should stop waiting once the timeout passes', async () => {
+    jobManager.start('quiet', 'sleep 30', os.tmpdir());
+
+    const result = await jobManager.waitFor('quiet', /ready/, {
+      timeoutMs: 100,
+    });
+
+    expect(result.matchedLine).toBeUndefined();
+    expect(result.job.status).toBe('running');
+  });
+
+  it('should stop a job with the processes it started', async () => {
+    jobManager.start(
+      'watcher',
+      '(while true; do echo tick; sleep 0.05; done) & wait',
+      os.tmpdir(),
+    );
+    await jobManager.waitFor('watcher', /tick/, { timeoutMs: 5000 });
+
+    const job = await jobManager.stop('watcher');
+    const { cursor } = jobManager.read('watcher');
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(job.status).toBe('stopped');
+    expect(jobManager.list()).toEqual([
+      expect.objectContaining({ name: 'watcher', status: 'stopped' }),
+    ]);
+    expect(jobManager.read('watcher').cursor).toBe(cursor);
+  });
+
+  it('should not start two running jobs with the same name', () => {
+    jobManager.start('server', 'sleep 30', os.tmpdir());
+
+    expect(() => jobManager.start('server', 'sleep 30', os.tmpdir())).toThrow(
+      'A job named "server" is already running.',
+    );
+    expect(() => jobManager.read('other')).toThrow(
+      'No job named "other". Jobs: server.',
+    );
+  });
+
+  it('should notify subscribers when jobs start and end', async () => {
+    let notifications = 0;
+    const unsubscribe = jobManager.subscribe(() => notifications++);
+
+    jobManager.start('true', 'true', os.tmpdir());
+    await jobManager.waitFor('true', /never/, { timeoutMs: 5000 });
+    unsubscribe();
+
+    expect(notifications).toBe(2);
+    expect(jobManager.list()[0].status).toBe('exited');
+    expect(jobManager.list()[0].exitCode).toBe(0);
+  });
+});
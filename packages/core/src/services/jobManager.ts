@@ -0,0 +1,329 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import os from 'os';
+import { ChildProcess, spawn } from 'child_process';
+import { StringDecoder } from 'node:string_decoder';
+import stripAnsi from 'strip-ansi';
+
+/** Characters of output that are kept for each job. */
+export const DEFAULT_MAX_BUFFERED_JOB_CHARS = 1_000_000;
+
+/** How long stopped jobs get to exit after SIGTERM before they are killed. */
+const STOP_GRACE_PERIOD_MS = 2000;
+
+export type JobStatus = 'running' | 'exited' | 'stopped';
+
+export interface JobInfo {
+  name: string;
+  command: string;
+  /** Absolute directory in which the command runs. */
+  directory: string;
+  pid?: number;
+  status: JobStatus;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  startedAt: Date;
+  /** Characters of output that the job has produced so far. */
+  outputLength: number;
+}
+
+export interface JobOutput {
+  job: JobInfo;
+  /** Output between the requested cursor and `cursor`. */
+  output: string;
+  /** Cursor to pass to the next read to get only newer output. */
+  cursor: number;
+  /** Characters after the requested cursor that were no longer buffered. */
+  droppedChars: number;
+}
+
+export interface JobWaitResult {
+  job: JobInfo;
+  /** The first line of output that matched, if any did. */
+  matchedLine?: string;
+  /** Cursor after the matched line, or after all output. */
+  cursor: number;
+}
+
+interface Job {
+  info: JobInfo;
+  process: ChildProcess;
+  /** Buffered output, which starts at `bufferStart`. */
+  buffer: string;
+  bufferStart: number;
+  exited: Promise<void>;
+  outputListeners: Set<() => void>;
+}
+
+/**
+ * Runs named shell commands in the background, e.g. dev servers and
+ * watchers, and buffers their output so that it can be read or waited for
+ * later. Each job leads its own process group, which is killed as a whole.
+ */
+export class JobManager {
+  private readonly jobs = new Map<string, Job>();
+  private readonly listeners = new Set<() => void>();
+
+  constructor(
+    private readonly maxBufferedChars: number = DEFAULT_MAX_BUFFERED_JOB_CHARS,
+  ) {}
+
+  /**
+   * Starts a job. Names of jobs that are still running cannot be reused, and
+   * starting a job replaces a finished job of the same name.
+   */
+  start(name: string, command: string, directory: string): JobInfo {
+    if (this.jobs.get(name)?.info.status === 'running') {
+      throw new Error(`A job named "${name}" is already running.`);
+    }
+
+    const isWindows = os.platform() === 'win32';
+    const child = isWindows
+      ? spawn('cmd.exe', ['/c', command], {
+          stdio: ['ignore', 'pipe', 'pipe'],
+          cwd: directory,
+        })
+      : spawn('bash', ['-c', command], {
+          stdio: ['ignore', 'pipe', 'pipe'],
+          detached: true, // lead a process group so that stopping kills it all
+          cwd: directory,
+        });
+
+    const job: Job = {
+      info: {
+        name,
+        command,
+        directory,
+        pid: child.pid,
+        status: 'running',
+        exitCode: null,
+        signal: null,
+        startedAt: new Date(),
+        outputLength: 0,
+      },
+      process: child,
+      buffer: '',
+      bufferStart: 0,
+      exited: Promise.resolve(),
+      outputListeners: new Set(),
+    };
+
+    // decode each stream on its own, so characters split between chunks survive
+    for (const stream of [child.stdout, child.stderr]) {
+      const decoder = new StringDecoder('utf8');
+      stream?.on('data', (data: Buffer) =>
+        this.appendOutput(job, decoder.write(data)),
+      );
+      stream?.on('end', () => {
+        const rest = decoder.end();
+        if (rest) {
+          this.appendOutput(job, rest);
+        }
+      });
+    }
+    job.exited = new Promise((resolve) => {
+      child.on('error', (error: Error) => {
+        this.appendOutput(job, `${error.message}\n`);
+        this.finish(job, null, null);
+        resolve();
+      });
+      // Output can still arrive after 'exit', until the streams close.
+      child.on('close', (code, signal) => {
+        this.finish(job, code, signal);
+        resolve();
+      });
+    });
+
+    this.jobs.set(name, job);
+    this.notify();
+    return { ...job.info };
+  }
+
+  /** Reads the buffered output of a job from a cursor, 0 by default. */
+  read(name: string, cursor = 0): JobOutput {
+    const job = this.getJob(name);
+    const start = Math.max(cursor, job.bufferStart);
+    return {
+      job: { ...job.info },
+      output: job.buffer.slice(start - job.bufferStart),
+      cursor: job.info.outputLength,
+      droppedChars: Math.max(0, job.bufferStart - cursor),
+    };
+  }
+
+  /**
+   * Waits until a line of output after a cursor matches a pattern, the job
+   * ends, the timeout passes or the signal aborts.
+   */
+  async waitFor(
+    name: string,
+    pattern: RegExp,
+    options: { cursor?: number; timeoutMs: number; signal?: AbortSignal },
+  ): Promise<JobWaitResult> {
+    const job = this.getJob(name);
+    let searchFrom = options.cursor ?? 0;
+
+    // Tests the lines after `searchFrom`, leaving an incomplete last line to
+    // be tested again once it is complete.
+    const findMatch = (): JobWaitResult | undefined => {
+      const start = Math.max(searchFrom, job.bufferStart);
+      const text = job.buffer.slice(start - job.bufferStart);
+      let lineStart = 0;
+      while (lineStart < text.length) {
+        const newline = text.indexOf('\n', lineStart);
+        const lineEnd = newline === -1 ? text.length : newline;
+        const line = text.slice(lineStart, lineEnd);
+        if (pattern.test(line)) {
+          return {
+            job: { ...job.info },
+            matchedLine: line,
+            cursor: start + Math.min(lineEnd + 1, text.length),
+          };
+        }
+        if (newline === -1) {
+          break;
+        }
+        lineStart = newline + 1;
+      }
+      searchFrom = start + lineStart;
+      return undefined;
+    };
+
+    const match = findMatch();
+    if (match || job.info.status !== 'running' || options.signal?.aborted) {
+      return match ?? { job: { ...job.info }, cursor: job.info.outputLength };
+    }
+
+    return new Promise((resolve) => {
+      const done = (result?: JobWaitResult) => {
+        clearTimeout(timer);
+        job.outputListeners.delete(onOutput);
+        options.signal?.removeEventListener('abort', onEnd);
+        resolve(
+          result ?? { job: { ...job.info }, cursor: job.info.outputLength },
+        );
+      };
+      const onOutput = () => {
+        const result = findMatch();
+        if (result) {
+          done(result);
+        }
+      };
+      const onEnd = () => done(findMatch());
+      const timer = setTimeout(onEnd, options.timeoutMs);
+      job.outputListeners.add(onOutput);
+      options.signal?.addEventListener('abort', onEnd);
+      void job.exited.then(onEnd);
+    });
+  }
+
+  /**
+   * Stops a job by sending SIGTERM to its process group, and SIGKILL if it
+   * has not exited after a grace period.
+   */
+  async stop(name: string): Promise<JobInfo> {
+    const job = this.getJob(name);
+    if (job.info.status !== 'running') {
+      return { ...job.info };
+    }
+    job.info.status = 'stopped';
+    this.kill(job, 'SIGTERM');
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      job.exited,
+      new Promise<void>((resolve) => {
+        timer = setTimeout(() => {
+          this.kill(job, 'SIGKILL');
+          resolve();
+        }, STOP_GRACE_PERIOD_MS);
+      }),
+    ]);
+    clearTimeout(timer);
+    await job.exited;
+    return { ...job.info };
+  }
+
+  /**
+   * Kills all running jobs right away. This is synchronous so that it can run
+   * while the process exits.
+   */
+  stopAll(): void {
+    for (const job of this.jobs.values()) {
+      if (job.info.status === 'running') {
+        job.info.status = 'stopped';
+        this.kill(job, 'SIGKILL');
+      }
+    }
+  }
+
+  list(): JobInfo[] {
+    return [...this.jobs.values()].map((job) => ({ ...job.info }));
+  }
+
+  /** Calls the listener whenever a job starts or ends. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getJob(name: string): Job {
+    const job = this.jobs.get(name);
+    if (!job) {
+      const names = [...this.jobs.keys()];
+      throw new Error(
+        `No job named "${name}". ${names.length ? `Jobs: ${names.join(', ')}.` : 'No jobs were started.'}`,
+      );
+    }
+    return job;
+  }
+
+  private appendOutput(job: Job, data: string) {
+    const text = stripAnsi(data);
+    job.buffer += text;
+    job.info.outputLength += text.length;
+    const excess = job.buffer.length - this.maxBufferedChars;
+    if (excess > 0) {
+      job.buffer = job.buffer.slice(excess);
+      job.bufferStart += excess;
+    }
+    for (const listener of job.outputListeners) {
+      listener();
+    }
+  }
+
+  private finish(job: Job, code: number | null, signal: NodeJS.Signals | null) {
+    if (job.info.status === 'running') {
+      job.info.status = 'exited';
+    }
+    job.info.exitCode = code;
+    job.info.signal = signal;
+    this.notify();
+  }
+
+  private kill(job: Job, signal: NodeJS.Signals) {
+    const pid = job.process.pid;
+    try {
+      if (pid && os.platform() !== 'win32') {
+        process.kill(-pid, signal);
+      } else if (pid && os.platform() === 'win32') {
+        spawn('taskkill', ['/pid', pid.toString(), '/f', '/t']);
+      } else {
+        job.process.kill(signal);
+      }
+    } catch {
+      // The process group has already exited.
+    }
+  }
+
+  private notify() {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
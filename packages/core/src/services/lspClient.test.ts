@@ -0,0 +1,193 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+import { spawn } from 'node:child_process';
+import { LspClient, toUri } from './lspClient.js';
+
+vi.mock('node:child_process', () => ({ spawn: vi.fn() }));
+
+interface Message {
+  jsonrpc: '2.0';
+  id?: number;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+const encode = (message: object) => {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body, 'utf8')}\r\n\r\n${body}`;
+};
+
+/** Plays the language server at the other end of in-memory stdio streams. */
+class FakeServer {
+  readonly process = Object.assign(new EventEmitter(), {
+    stdin: new PassThrough(),
+    stdout: new PassThrough(),
+    exitCode: null as number | null,
+    kill: vi.fn(),
+  });
+  private buffer = '';
+  private readonly received: Message[] = [];
+  private waiting: Array<(message: Message) => void> = [];
+
+  constructor() {
+    this.process.stdin.on('data', (data: Buffer) => {
+      this.buffer += data.toString('utf8');
+      let match;
+      while (
+        (match = /^Content-Length: (\d+)\r\n\r\n/.exec(this.buffer)) &&
+        Buffer.byteLength(this.buffer) >= match[0].length + Number(match[1])
+      ) {
+        const rest = Buffer.from(this.buffer.slice(match[0].length));
+        const body = rest.subarray(0, Number(match[1])).toString('utf8');
+        this.buffer = rest.subarray(Number(match[1])).toString('utf8');
+        this.received.push(JSON.parse(body));
+      }
+      while (this.received.length > 0 && this.waiting.length > 0) {
+        this.waiting.shift()!(this.received.shift()!);
+      }
+    });
+  }
+
+  /** The next message that the client sent. */
+  nextMessage(): Promise<Message> {
+    const message = this.received.shift();
+    return message
+      ? Promise.resolve(message)
+      : new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  write(data: string | Buffer) {
+    this.process.stdout.write(data);
+  }
+
+  respond(request: Message, result: unknown) {
+    this.write(encode({ jsonrpc: '2.0', id: request.id, result }));
+  }
+
+  exit(code: number) {
+    this.process.exitCode = code;
+    this.process.emit('exit', code, null);
+  }
+}
+
+describe('LspClient', () => {
+  let server: FakeServer;
+  let client: LspClient;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    server = new FakeServer();
+    vi.mocked(spawn).mockReturnValue(
+      server.process as unknown as ReturnType<typeof spawn>,
+    );
+    client = new LspClient(
+      'typescript',
+      { command: 'typescript-language-server', extensions: ['.ts'] },
+      '/project',
+    );
+
+    const started = client.start();
+    const initialize = await server.nextMessage();
+    expect(initialize).toMatchObject({
+      id: 1,
+      method: 'initialize',
+      params: { rootUri: toUri('/project') },
+    });
+    server.respond(initialize, { capabilities: {} });
+    await started;
+    expect(await server.nextMessage()).toMatchObject({
+      method: 'initialized',
+    });
+  });
+
+  it('should read messages that are split or joined across chunks', async () => {
+    const first = client.request('test/first', {});
+    const second = client.request('test/second', {});
+    const requests = [await server.nextMessage(), await server.nextMessage()];
+
+    // the multi-byte character makes the length in bytes differ from the
+    // length in characters, and is split between chunks
+    const data = Buffer.from(
+      encode({ jsonrpc: '2.0', id: requests[0].id, result: 'café' }) +
+        encode({ jsonrpc: '2.0', id: requests[1].id, result: 'second' }),
+    );
+    const split = data.indexOf(Buffer.from('é')) + 1;
+    server.write(data.subarray(0, split));
+    server.write(data.subarray(split));
+
+    expect(await first).toBe('café');
+    expect(await second).toBe('second');
+  });
+
+  it('should resolve each request with the response that has its id', async () => {
+    const definition = client.request('textDocument/definition', {});
+    const hover = client.request('textDocument/hover', {});
+    const rename = client.request('textDocument/rename', {});
+    const [definitionRequest, hoverRequest, renameRequest] = [
+      await server.nextMessage(),
+      await server.nextMessage(),
+      await server.nextMessage(),
+    ];
+
+    server.write(
+      encode({
+        jsonrpc: '2.0',
+        id: renameRequest.id,
+        error: { code: -32803, message: 'Cannot rename' },
+      }),
+    );
+    server.respond(hoverRequest, { contents: 'hover' });
+    server.respond(definitionRequest, []);
+
+    await expect(rename).rejects.toThrow(
+      'Language server "typescript" failed: Cannot rename',
+    );
+    expect(await hover).toEqual({ contents: 'hover' });
+    expect(await definition).toEqual([]);
+  });
+
+  it('should answer the requests of the server', async () => {
+    server.write(
+      encode({
+        jsonrpc: '2.0',
+        id: 7,
+        method: 'workspace/configuration',
+        params: { items: [{ section: 'a' }, { section: 'b' }] },
+      }),
+    );
+    server.write(encode({ jsonrpc: '2.0', id: 8, method: 'custom/unknown' }));
+
+    expect(await server.nextMessage()).toEqual({
+      jsonrpc: '2.0',
+      id: 7,
+      result: [null, null],
+    });
+    expect(await server.nextMessage()).toMatchObject({
+      id: 8,
+      error: { code: -32601 },
+    });
+  });
+
+  it('should fail pending and later requests when the server crashes', async () => {
+    const pending = client.request('textDocument/references', {});
+    await server.nextMessage();
+
+    server.exit(1);
+
+    await expect(pending).rejects.toThrow(
+      'Language server "typescript" exited with code 1.',
+    );
+    await expect(client.request('textDocument/hover', {})).rejects.toThrow(
+      'Language server "typescript" exited with code 1.',
+    );
+  });
+});
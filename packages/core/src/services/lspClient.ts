@@ -0,0 +1,331 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ChildProcess, spawn } from 'node:child_process';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+export const DEFAULT_LSP_REQUEST_TIMEOUT_MS = 30_000;
+
+/** How to launch a language server, from the `languageServers` setting. */
+export interface LanguageServerConfig {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  /** File extensions, such as ".ts", whose files the server handles. */
+  extensions: string[];
+  /** The LSP language id of its files. Derived from the extension if unset. */
+  languageId?: string;
+  initializationOptions?: unknown;
+  /** Milliseconds to wait for a response to a request. */
+  timeout?: number;
+}
+
+// The subset of the Language Server Protocol types that the client uses.
+
+export interface Position {
+  /** Line, counting from 0. */
+  line: number;
+  /** Offset in UTF-16 code units in the line, counting from 0. */
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export interface LocationLink {
+  targetUri: string;
+  targetRange: Range;
+  targetSelectionRange: Range;
+}
+
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+export interface WorkspaceEdit {
+  changes?: Record<string, TextEdit[]>;
+  documentChanges?: Array<
+    | { textDocument: { uri: string }; edits: TextEdit[] }
+    | { kind: 'create' | 'rename' | 'delete' }
+  >;
+}
+
+export interface SymbolInformation {
+  name: string;
+  kind: number;
+  location: Location | { uri: string };
+  containerName?: string;
+}
+
+type MarkedString = string | { language: string; value: string };
+
+export interface Hover {
+  contents: MarkedString | MarkedString[] | { kind: string; value: string };
+  range?: Range;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const METHOD_NOT_FOUND = -32601;
+
+export const toUri = (filePath: string): string =>
+  pathToFileURL(filePath).toString();
+
+/**
+ * A connection to one language server, which speaks JSON-RPC over the stdio of
+ * a child process.
+ */
+export class LspClient {
+  private process: ChildProcess | undefined;
+  private buffer = Buffer.alloc(0);
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+  private exitError: Error | undefined;
+
+  constructor(
+    readonly name: string,
+    private readonly config: LanguageServerConfig,
+    private readonly rootDirectory: string,
+  ) {}
+
+  /** Launches the server and performs the initialize handshake. */
+  async start(): Promise<void> {
+    const child = spawn(this.config.command, this.config.args ?? [], {
+      cwd: this.rootDirectory,
+      env: { ...process.env, ...this.config.env },
+      stdio: ['pipe', 'pipe', 'ignore'],
+    });
+    this.process = child;
+    child.stdout!.on('data', (data: Buffer) => this.onData(data));
+    // Writes to a server that exited fail; its exit is reported below.
+    child.stdin!.on('error', () => {});
+    child.on('error', (error) =>
+      this.onExit(
+        new Error(
+          `Failed to start language server "${this.name}": ${error.message}`,
+        ),
+      ),
+    );
+    child.on('exit', (code, signal) =>
+      this.onExit(
+        new Error(
+          `Language server "${this.name}" exited with ${code !== null ? `code ${code}` : `signal ${signal}`}.`,
+        ),
+      ),
+    );
+
+    await this.request('initialize', {
+      processId: process.pid,
+      clientInfo: { name: 'gemini-cli' },
+      rootUri: toUri(this.rootDirectory),
+      workspaceFolders: [
+        {
+          uri: toUri(this.rootDirectory),
+          name: path.basename(this.rootDirectory),
+        },
+      ],
+      capabilities: {
+        textDocument: {
+          synchronization: { didSave: true },
+          definition: { linkSupport: true },
+          references: {},
+          hover: { contentFormat: ['markdown', 'plaintext'] },
+          rename: {},
+        },
+        workspace: {
+          symbol: {},
+          workspaceEdit: { documentChanges: true },
+          workspaceFolders: true,
+        },
+      },
+      initializationOptions: this.config.initializationOptions,
+    });
+    this.notify('initialized', {});
+  }
+
+  request<T>(method: string, params: unknown): Promise<T> {
+    if (this.exitError) {
+      return Promise.reject(this.exitError);
+    }
+    const id = this.nextId++;
+    const timeoutMs = this.config.timeout ?? DEFAULT_LSP_REQUEST_TIMEOUT_MS;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(
+          new Error(
+            `Language server "${this.name}" did not answer ${method} within ${timeoutMs}ms.`,
+          ),
+        );
+      }, timeoutMs);
+      this.pending.set(id, {
+        resolve: resolve as (result: unknown) => void,
+        reject,
+        timer,
+      });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  notify(method: string, params: unknown): void {
+    if (!this.exitError) {
+      this.send({ jsonrpc: '2.0', method, params });
+    }
+  }
+
+  /** Asks the server to shut down, and kills it if it does not. */
+  async stop(): Promise<void> {
+    if (this.exitError || !this.process) {
+      return;
+    }
+    try {
+      await this.request('shutdown', null);
+      this.notify('exit', null);
+    } catch {
+      // Killed below.
+    }
+    this.kill();
+  }
+
+  /** Kills the server right away, e.g. when the CLI exits. */
+  kill(): void {
+    if (this.process && this.process.exitCode === null) {
+      this.process.kill('SIGKILL');
+    }
+  }
+
+  private send(message: JsonRpcMessage): void {
+    const body = JSON.stringify(message);
+    this.process!.stdin!.write(
+      `Content-Length: ${Buffer.byteLength(body, 'utf8')}\r\n\r\n${body}`,
+    );
+  }
+
+  private onData(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data]);
+    for (;;) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+      if (headerEnd === -1) {
+        return;
+      }
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const lengthMatch = header.match(/Content-Length: *(\d+)/i);
+      if (!lengthMatch) {
+        // Skip a malformed header rather than stalling on it.
+        this.buffer = this.buffer.subarray(headerEnd + 4);
+        continue;
+      }
+      const bodyStart = headerEnd + 4;
+      const bodyEnd = bodyStart + Number(lengthMatch[1]);
+      if (this.buffer.length < bodyEnd) {
+        return;
+      }
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+      this.buffer = this.buffer.subarray(bodyEnd);
+      try {
+        this.onMessage(JSON.parse(body) as JsonRpcMessage);
+      } catch {
+        // Ignore messages that are not valid JSON.
+      }
+    }
+  }
+
+  private onMessage(message: JsonRpcMessage): void {
+    if (message.method === undefined) {
+      const pending = this.pending.get(message.id as number);
+      if (!pending) {
+        return;
+      }
+      this.pending.delete(message.id as number);
+      clearTimeout(pending.timer);
+      if (message.error) {
+        pending.reject(
+          new Error(
+            `Language server "${this.name}" failed: ${message.error.message}`,
+          ),
+        );
+      } else {
+        pending.resolve(message.result ?? null);
+      }
+      return;
+    }
+    if (message.id === undefined || message.id === null) {
+      return; // Notifications, such as diagnostics and logs, are not used.
+    }
+    // Answer the requests that servers commonly make of their client.
+    switch (message.method) {
+      case 'workspace/configuration': {
+        const { items } = message.params as { items: unknown[] };
+        this.send({
+          jsonrpc: '2.0',
+          id: message.id,
+          result: items.map(() => null),
+        });
+        break;
+      }
+      case 'client/registerCapability':
+      case 'client/unregisterCapability':
+      case 'window/workDoneProgress/create':
+        this.send({ jsonrpc: '2.0', id: message.id, result: null });
+        break;
+      case 'workspace/workspaceFolders':
+        this.send({
+          jsonrpc: '2.0',
+          id: message.id,
+          result: [
+            {
+              uri: toUri(this.rootDirectory),
+              name: path.basename(this.rootDirectory),
+            },
+          ],
+        });
+        break;
+      default:
+        this.send({
+          jsonrpc: '2.0',
+          id: message.id,
+          error: {
+            code: METHOD_NOT_FOUND,
+            message: `Unsupported method: ${message.method}`,
+          },
+        });
+    }
+  }
+
+  private onExit(error: Error): void {
+    if (this.exitError) {
+      return;
+    }
+    this.exitError = error;
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LspManager } from './lspManager.js';
+import { toUri } from './lspClient.js';
+
+// A language server that answers with fixed results and reports the document
+// notifications it received through a `test/documents` request.
+const FAKE_SERVER = `
+const documents = [];
+let buffer = Buffer.alloc(0);
+const send = (message) => {
+  const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+  process.stdout.write('Content-Length: ' + Buffer.byteLength(body) + '\\r\\n\\r\\n' + body);
+};
+const range = (line, character) => ({
+  start: { line, character },
+  end: { line, character: character + 3 },
+});
+const handlers = {
+  initialize: () => ({ capabilities: {} }),
+  shutdown: () => null,
+  'test/documents': () => documents,
+  'textDocument/definition': (params) => [
+    {
+      targetUri: params.textDocument.uri,
+      targetRange: range(0, 0),
+      targetSelectionRange: range(0, 6),
+    },
+  ],
+  'textDocument/references': (params) =>
+    params.context.includeDeclaration
+      ? [{ uri: params.textDocument.uri, range: range(0, 6) }]
+      : [],
+  'textDocument/hover': () => ({
+    contents: [{ language: 'ts', value: 'const foo: number' }, 'A number.'],
+  }),
+  'workspace/symbol': (params) => [
+    { name: params.query, kind: 13, location: { uri: 'file:///a.ts', range: range(0, 6) } },
+  ],
+  'textDocument/rename': (params) => ({
+    changes: { [params.textDocument.uri]: [{ range: range(0, 6), newText: params.newName }] },
+  }),
+};
+process.stdin.on('data', (data) => {
+  buffer = Buffer.concat([buffer, data]);
+  for (;;) {
+    const headerEnd = buffer.indexOf('\\r\\n\\r\\n');
+    if (headerEnd === -1) return;
+    const length = Number(/Content-Length: (\\d+)/.exec(buffer.subarray(0, headerEnd))[1]);
+    if (buffer.length < headerEnd + 4 + length) return;
+    const message = JSON.parse(buffer.subarray(headerEnd + 4, headerEnd + 4 + length));
+    buffer = buffer.subarray(headerEnd + 4 + length);
+    if (message.method === 'exit') process.exit(0);
+    if (message.id === undefined) {
+      if (message.method.startsWith('textDocument/did')) {
+        documents.push({ method: message.method, params: message.params });
+      }
+    } else if (handlers[message.method]) {
+      send({ id: message.id, result: handlers[message.method](message.params) });
+    } else {
+      send({ id: message.id, error: { code: -32601, message: 'Unknown ' + message.method } });
+    }
+  }
+});
+`;
+
+describe('LspManager', () => {
+  let tempDir: string;
+  let filePath: string;
+  let manager: LspManager;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lsp-manager-test-'));
+    const serverPath = path.join(tempDir, 'server.cjs');
+    fs.writeFileSync(serverPath, FAKE_SERVER);
+    filePath = path.join(tempDir, 'a.ts');
+    fs.writeFileSync(filePath, 'const foo = 1;\n');
+    manager = new LspManager(
+      {
+        fake: {
+          command: process.execPath,
+          args: [serverPath],
+          extensions: ['.ts'],
+        },
+      },
+      tempDir,
+    );
+  });
+
+  afterEach(async () => {
+    await manager.stopAll();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const receivedDocuments = async () => {
+    const result = await manager.workspaceSymbols('', filePath);
+    expect(result).toHaveLength(1);
+    // Reuse the started client to read what the server received.
+    const client = await (
+      manager as unknown as {
+        getClientByName(name: string): Promise<{
+          request<T>(method: string, params: unknown): Promise<T>;
+        }>;
+      }
+    ).getClientByName('fake');
+    return client.request<Array<{ method: string }>>('test/documents', null);
+  };
+
+  it('should route files to the server for their extension', () => {
+    expect(manager.hasServers()).toBe(true);
+    expect(manager.getServerName(filePath)).toBe('fake');
+    expect(manager.getServerName(path.join(tempDir, 'a.py'))).toBeUndefined();
+  });
+
+  it('should answer queries about a file', async () => {
+    const position = { line: 0, character: 6 };
+    const uri = toUri(filePath);
+
+    expect(await manager.definition(filePath, position)).toEqual([
+      {
+        uri,
+        range: {
+          start: { line: 0, character: 6 },
+          end: { line: 0, character: 9 },
+        },
+      },
+    ]);
+    expect(await manager.references(filePath, position, true)).toHaveLength(1);
+    expect(await manager.references(filePath, position, false)).toEqual([]);
+    expect(await manager.hover(filePath, position)).toBe(
+      '```ts\nconst foo: number\n```\n\nA number.',
+    );
+    expect(await manager.rename(filePath, position, 'bar')).toEqual({
+      changes: {
+        [uri]: [
+          {
+            range: {
+              start: { line: 0, character: 6 },
+              end: { line: 0, character: 9 },
+            },
+            newText: 'bar',
+          },
+        ],
+      },
+    });
+  });
+
+  it('should open a file once and send its changes after writes', async () => {
+    await manager.hover(filePath, { line: 0, character: 6 });
+    await manager.hover(filePath, { line: 0, character: 6 });
+    fs.writeFileSync(filePath, 'const foo = 2;\n');
+    manager.didWriteFile(filePath);
+
+    expect((await receivedDocuments()).map((doc) => doc.method)).toEqual([
+      'textDocument/didOpen',
+      'textDocument/didChange',
+      'textDocument/didSave',
+    ]);
+  });
+
+  it('should reject files that no server handles', async () => {
+    await expect(
+      manager.hover(path.join(tempDir, 'a.py'), { line: 0, character: 0 }),
+    ).rejects.toThrow(
+      'No language server is configured for ".py" files. Configure one in the languageServers setting.',
+    );
+  });
+
+  it('should report a server that cannot be started', async () => {
+    const broken = new LspManager(
+      {
+        broken: {
+          command: path.join(tempDir, 'missing-server'),
+          extensions: ['.ts'],
+        },
+      },
+      tempDir,
+    );
+
+    await expect(
+      broken.hover(filePath, { line: 0, character: 0 }),
+    ).rejects.toThrow('Failed to start language server "broken"');
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  Hover,
+  LanguageServerConfig,
+  Location,
+  LocationLink,
+  LspClient,
+  Position,
+  SymbolInformation,
+  toUri,
+  WorkspaceEdit,
+} from './lspClient.js';
+
+/** LSP language ids of common extensions, for servers that do not set one. */
+const LANGUAGE_IDS: Record<string, string> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescriptreact',
+  '.js': 'javascript',
+  '.jsx': 'javascriptreact',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.java': 'java',
+  '.kt': 'kotlin',
+  '.c': 'c',
+  '.h': 'c',
+  '.cc': 'cpp',
+  '.cpp': 'cpp',
+  '.hpp': 'cpp',
+  '.cs': 'csharp',
+  '.rb': 'ruby',
+  '.php': 'php',
+  '.swift': 'swift',
+  '.lua': 'lua',
+};
+
+interface OpenDocument {
+  client: LspClient;
+  version: number;
+  content: string;
+}
+
+/**
+ * Launches the language servers of the `languageServers` setting on first use
+ * and routes requests about a file to the server for its extension. Files are
+ * opened in their server when first queried, and kept in sync with the disk.
+ */
+export class LspManager {
+  private readonly clients = new Map<string, Promise<LspClient>>();
+  private readonly startedClients: LspClient[] = [];
+  private readonly documents = new Map<string, OpenDocument>();
+
+  constructor(
+    private readonly servers: Record<string, LanguageServerConfig>,
+    private readonly rootDirectory: string,
+  ) {}
+
+  /** The name of the server that handles a file, if any. */
+  getServerName(filePath: string): string | undefined {
+    const extension = path.extname(filePath).toLowerCase();
+    return Object.entries(this.servers).find(([, config]) =>
+      config.extensions.some((ext) => ext.toLowerCase() === extension),
+    )?.[0];
+  }
+
+  hasServers(): boolean {
+    return Object.keys(this.servers).length > 0;
+  }
+
+  private getClientByName(name: string): Promise<LspClient> {
+    let client = this.clients.get(name);
+    if (!client) {
+      const lspClient = new LspClient(
+        name,
+        this.servers[name],
+        this.rootDirectory,
+      );
+      this.startedClients.push(lspClient);
+      client = lspClient.start().then(() => lspClient);
+      // A server that fails to start is retried on the next request.
+      client.catch(() => this.clients.delete(name));
+      this.clients.set(name, client);
+    }
+    return client;
+  }
+
+  private getClient(filePath: string): Promise<LspClient> {
+    const name = this.getServerName(filePath);
+    if (!name) {
+      const extension = path.extname(filePath) || path.basename(filePath);
+      return Promise.reject(
+        new Error(
+          `No language server is configured for "${extension}" files. Configure one in the languageServers setting.`,
+        ),
+      );
+    }
+    return this.getClientByName(name);
+  }
+
+  /**
+   * Opens a file in its server, or sends its content again if it changed on
+   * disk since the server last saw it.
+   */
+  private async syncDocument(filePath: string): Promise<LspClient> {
+    const client = await this.getClient(filePath);
+    const content = fs.readFileSync(filePath, 'utf8');
+    const uri = toUri(filePath);
+    const document = this.documents.get(uri);
+    if (!document) {
+      const extension = path.extname(filePath).toLowerCase();
+      client.notify('textDocument/didOpen', {
+        textDocument: {
+          uri,
+          languageId:
+            this.servers[client.name].languageId ??
+            LANGUAGE_IDS[extension] ??
+            extension.slice(1),
+          version: 1,
+          text: content,
+        },
+      });
+      this.documents.set(uri, { client, version: 1, content });
+    } else if (document.content !== content) {
+      document.version++;
+      document.content = content;
+      client.notify('textDocument/didChange', {
+        textDocument: { uri, version: document.version },
+        contentChanges: [{ text: content }],
+      });
+      client.notify('textDocument/didSave', { textDocument: { uri } });
+    }
+    return client;
+  }
+
+  /**
+   * Tells the server of a file that was written, if the file is open in it,
+   * so that later requests see its new content.
+   */
+  didWriteFile(filePath: string): void {
+    if (this.documents.has(toUri(filePath))) {
+      this.syncDocument(filePath).catch(() => {
+        // The next request about the file syncs it again.
+      });
+    }
+  }
+
+  async definition(filePath: string, position: Position): Promise<Location[]> {
+    const client = await this.syncDocument(filePath);
+    const result = await client.request<
+      Location | Location[] | LocationLink[] | null
+    >('textDocument/definition', {
+      textDocument: { uri: toUri(filePath) },
+      position,
+    });
+    return toLocations(result);
+  }
+
+  async references(
+    filePath: string,
+    position: Position,
+    includeDeclaration: boolean,
+  ): Promise<Location[]> {
+    const client = await this.syncDocument(filePath);
+    const result = await client.request<Location[] | null>(
+      'textDocument/references',
+      {
+        textDocument: { uri: toUri(filePath) },
+        position,
+        context: { includeDeclaration },
+      },
+    );
+    return result ?? [];
+  }
+
+  async hover(filePath: string, position: Position): Promise<string> {
+    const client = await this.syncDocument(filePath);
+    const result = await client.request<Hover | null>('textDocument/hover', {
+      textDocument: { uri: toUri(filePath) },
+      position,
+    });
+    return result ? hoverToText(result) : '';
+  }
+
+  /**
+   * Searches the symbols of the workspace, in the server of the given file or
+   * else in every configured server.
+   */
+  async workspaceSymbols(
+    query: string,
+    filePath?: string,
+  ): Promise<SymbolInformation[]> {
+    const clients = filePath
+      ? [await this.getClient(filePath)]
+      : await Promise.all(
+          Object.keys(this.servers).map((name) => this.getClientByName(name)),
+        );
+    const results = await Promise.all(
+      clients.map((client) =>
+        client.request<SymbolInformation[] | null>('workspace/symbol', {
+          query,
+        }),
+      ),
+    );
+    return results.flatMap((result) => result ?? []);
+  }
+
+  async rename(
+    filePath: string,
+    position: Position,
+    newName: string,
+  ): Promise<WorkspaceEdit | null> {
+    const client = await this.syncDocument(filePath);
+    return client.request<WorkspaceEdit | null>('textDocument/rename', {
+      textDocument: { uri: toUri(filePath) },
+      position,
+      newName,
+    });
+  }
+
+  /** Shuts down the servers that were started. */
+  async stopAll(): Promise<void> {
+    const clients = this.startedClients.splice(0);
+    this.clients.clear();
+    this.documents.clear();
+    await Promise.all(clients.map((client) => client.stop()));
+  }
+
+  /** Kills the servers that were started right away, e.g. on exit. */
+  killAll(): void {
+    for (const client of this.startedClients) {
+      client.kill();
+    }
+  }
+}
+
+function toLocations(
+  result: Location | Location[] | LocationLink[] | null,
+): Location[] {
+  if (!result) {
+    return [];
+  }
+  return (Array.isArray(result) ? result : [result]).map((location) =>
+    'targetUri' in location
+      ? { uri: location.targetUri, range: location.targetSelectionRange }
+      : location,
+  );
+}
+
+function hoverToText(hover: Hover): string {
+  const parts = Array.isArray(hover.contents)
+    ? hover.contents
+    : [hover.contents];
+  return parts
+    .map((part) => {
+      if (typeof part === 'string') {
+        return part;
+      }
+      if ('language' in part) {
+        return `\`\`\`${part.language}\n${part.value}\n\`\`\``;
+      }
+      return part.value;
+    })
+    .filter((text) => text.trim() !== '')
+    .join('\n\n');
+}
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { chunkLines, Embedder, SemanticIndex } from './semanticIndex.js';
+import { FileDiscoveryService } from './fileDiscoveryService.js';
+
+const DIMENSIONS = 64;
+
+/** Embeds texts as hashed bags of words, so that shared words mean similar. */
+class BagOfWordsEmbedder implements Embedder {
+  readonly embedded: string[] = [];
+
+  constructor(readonly id = 'bag-of-words') {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.embedded.push(...texts);
+    return texts.map((text) => {
+      const vector = new Array(DIMENSIONS).fill(0);
+      for (const word of text.toLowerCase().match(/[a-z]+/g) ?? []) {
+        let hash = 0;
+        for (const char of word) {
+          hash = (hash * 31 + char.charCodeAt(0)) % DIMENSIONS;
+        }
+        vector[hash]++;
+      }
+      return vector;
+    });
+  }
+}
+
+describe('chunkLines', () => {
+  it('should split content into overlapping chunks and skip blank ones', () => {
+    const lines = Array.from({ length: 120 }, (_, i) => `line ${i + 1}`);
+    const chunks = chunkLines([...lines, '', ''].join('\n'));
+
+    expect(chunks.map((chunk) => [chunk.startLine, chunk.endLine])).toEqual([
+      [1, 60],
+      [51, 110],
+      [101, 122],
+    ]);
+    expect(chunkLines('\n\n')).toEqual([]);
+  });
+});
+
+describe('SemanticIndex', () => {
+  let rootDir: string;
+  let tempDir: string;
+  let embedder: BagOfWordsEmbedder;
+
+  const createIndex = () =>
+    new SemanticIndex(
+      rootDir,
+      tempDir,
+      new FileDiscoveryService(rootDir),
+      embedder,
+    );
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'semantic-index-root-'));
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'semantic-index-temp-'));
+    embedder = new BagOfWordsEmbedder();
+    await fs.mkdir(path.join(rootDir, 'src'));
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'retry.ts'),
+      'export function retryWithBackoff() {\n  // retry the request with exponential backoff\n}\n',
+    );
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'render.ts'),
+      'export function renderTable() {\n  // render the rows of a table\n}\n',
+    );
+    await fs.writeFile(path.join(rootDir, '.geminiignore'), 'secret.txt\n');
+    await fs.writeFile(path.join(rootDir, 'secret.txt'), 'do not index me');
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should index the files that are not ignored and find them by meaning', async () => {
+    const index = createIndex();
+
+    expect(await index.rebuild()).toEqual({
+      embeddedFiles: 2,
+      removedFiles: 0,
+      totalFiles: 2,
+      skippedFiles: 0,
+    });
+    expect(embedder.embedded.some((text) => text.includes('secret'))).toBe(
+      false,
+    );
+
+    const results = await index.search('request backoff retry', 1);
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      filePath: path.join('src', 'retry.ts'),
+      startLine: 1,
+      endLine: 4,
+    });
+    expect(results[0].content).toContain('retryWithBackoff');
+  });
+
+  it('should only embed changed files when refreshing a saved index', async () => {
+    await createIndex().rebuild();
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'render.ts'),
+      'export function renderList() {}\n',
+    );
+    await fs.rm(path.join(rootDir, 'src', 'retry.ts'));
+    embedder.embedded.length = 0;
+
+    const index = createIndex();
+    expect(await index.refresh()).toEqual({
+      embeddedFiles: 1,
+      removedFiles: 1,
+      totalFiles: 1,
+      skippedFiles: 0,
+    });
+    expect(embedder.embedded).toEqual([
+      `${path.join('src', 'render.ts')}\nexport function renderList() {}\n`,
+    ]);
+    expect(await index.getStatus()).toMatchObject({
+      exists: true,
+      embedderId: 'bag-of-words',
+      files: 1,
+      chunks: 1,
+    });
+  });
+
+  it('should only embed every file when rebuilt on request', async () => {
+    await expect(createIndex().refresh()).rejects.toThrow(
+      'The semantic index was not built with bag-of-words yet.',
+    );
+    expect(embedder.embedded).toEqual([]);
+    await createIndex().rebuild();
+
+    embedder = new BagOfWordsEmbedder('another-model');
+    const index = createIndex();
+    expect(await index.isBuilt()).toBe(false);
+    await expect(index.refresh()).rejects.toThrow(
+      'The semantic index was not built with another-model yet.',
+    );
+    expect((await index.rebuild()).embeddedFiles).toBe(2);
+    expect(await index.isBuilt()).toBe(true);
+    expect((await index.refresh()).embeddedFiles).toBe(0);
+    expect((await index.getStatus()).embedderId).toBe('another-model');
+  });
+
+  it('should report a missing index', async () => {
+    const index = createIndex();
+
+    expect(await index.getStatus()).toMatchObject({
+      exists: false,
+      files: 0,
+      chunks: 0,
+    });
+    expect(await index.search('anything', 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { glob } from 'glob';
+import { FileDiscoveryService } from './fileDiscoveryService.js';
+import { isBinaryFile } from '../utils/fileUtils.js';
+
+const INDEX_FILE_NAME = 'semantic-index.json';
+const INDEX_VERSION = 1;
+
+/** Lines in a chunk, and lines that consecutive chunks share. */
+const CHUNK_LINES = 60;
+const CHUNK_OVERLAP_LINES = 10;
+/** Characters of a chunk that are embedded, to stay within input limits. */
+const MAX_CHUNK_CHARS = 6000;
+/** Files larger than this are not indexed, e.g. generated or minified code. */
+const MAX_FILE_BYTES = 512 * 1024;
+/** Files that are indexed at most, to bound the cost of the first index. */
+export const MAX_INDEXED_FILES = 5000;
+/** Chunks that are embedded per request. */
+const EMBEDDING_BATCH_SIZE = 100;
+
+/** Turns texts into vectors whose cosine similarity reflects their meaning. */
+export interface Embedder {
+  /**
+   * Identifies the model, so that an index built with another model is
+   * rebuilt rather than compared with incompatible vectors.
+   */
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface SemanticIndexStatus {
+  indexPath: string;
+  /** Whether an index was built for this project. */
+  exists: boolean;
+  embedderId?: string;
+  files: number;
+  chunks: number;
+  /** ISO timestamp of the last refresh. */
+  updatedAt?: string;
+}
+
+export interface IndexRefreshResult {
+  /** Files that were embedded because they were new or changed. */
+  embeddedFiles: number;
+  removedFiles: number;
+  totalFiles: number;
+  /** Files that were skipped because `MAX_INDEXED_FILES` was reached. */
+  skippedFiles: number;
+}
+
+export interface SemanticSearchResult {
+  /** Path of the file relative to the project root. */
+  filePath: string;
+  /** First and last line of the chunk, counting from 1. */
+  startLine: number;
+  endLine: number;
+  score: number;
+  content: string;
+}
+
+interface IndexedChunk {
+  startLine: number;
+  endLine: number;
+  /** The embedding as base64 encoded float32 values. */
+  vector: string;
+}
+
+interface IndexedFile {
+  hash: string;
+  chunks: IndexedChunk[];
+}
+
+interface StoredIndex {
+  version: number;
+  embedderId: string;
+  updatedAt: string;
+  files: Record<string, IndexedFile>;
+}
+
+const encodeVector = (vector: number[]): string =>
+  Buffer.from(new Float32Array(vector).buffer).toString('base64');
+
+const decodeVector = (encoded: string): Float32Array => {
+  const buffer = Buffer.from(encoded, 'base64');
+  return new Float32Array(
+    buffer.buffer,
+    buffer.byteOffset,
+    buffer.byteLength / Float32Array.BYTES_PER_ELEMENT,
+  );
+};
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/** Splits a file into overlapping chunks of lines. */
+export function chunkLines(
+  content: string,
+): Array<{ startLine: number; endLine: number; text: string }> {
+  const lines = content.split('\n');
+  const chunks = [];
+  for (
+    let start = 0;
+    start < lines.length;
+    start += CHUNK_LINES - CHUNK_OVERLAP_LINES
+  ) {
+    const end = Math.min(start + CHUNK_LINES, lines.length);
+    const text = lines.slice(start, end).join('\n');
+    if (text.trim()) {
+      chunks.push({ startLine: start + 1, endLine: end, text });
+    }
+    if (end === lines.length) {
+      break;
+    }
+  }
+  return chunks;
+}
+
+/**
+ * An index of the embeddings of the source files of a project, for searching
+ * code by meaning. It is stored in the project temp dir, and refreshes only
+ * the files whose content hash changed since it was last built.
+ */
+export class SemanticIndex {
+  private readonly indexPath: string;
+  private index: StoredIndex | undefined;
+  private refreshing: Promise<IndexRefreshResult> | undefined;
+
+  constructor(
+    private readonly rootDirectory: string,
+    projectTempDir: string,
+    private readonly fileService: FileDiscoveryService,
+    private readonly embedder: Embedder,
+  ) {
+    this.indexPath = path.join(projectTempDir, INDEX_FILE_NAME);
+  }
+
+  async getStatus(): Promise<SemanticIndexStatus> {
+    const index = await this.load();
+    const files = Object.values(index?.files ?? {});
+    return {
+      indexPath: this.indexPath,
+      exists: index !== undefined,
+      embedderId: index?.embedderId,
+      files: files.length,
+      chunks: files.reduce((sum, file) => sum + file.chunks.length, 0),
+      updatedAt: index?.updatedAt,
+    };
+  }
+
+  /**
+   * Whether the index was built with the current embedder, so that refreshing
+   * it embeds only the files that changed.
+   */
+  async isBuilt(): Promise<boolean> {
+    const index = await this.load();
+    return index !== undefined && index.embedderId === this.embedder.id;
+  }
+
+  /**
+   * Embeds the files that are new or changed since the last refresh, and
+   * forgets the files that were deleted. Concurrent calls share one refresh.
+   * An index that was not built yet is only built by `rebuild`, since that
+   * embeds every file of the project.
+   */
+  refresh(signal?: AbortSignal): Promise<IndexRefreshResult> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefresh(signal).finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /** Discards the index, if any, and embeds every file. */
+  async rebuild(signal?: AbortSignal): Promise<IndexRefreshResult> {
+    await this.refreshing?.catch(() => {});
+    this.index = this.createIndex();
+    await this.save(this.index);
+    return this.refresh(signal);
+  }
+
+  /**
+   * Finds the chunks most similar in meaning to the query. Refresh the index
+   * first to include recent changes.
+   */
+  async search(query: string, limit: number): Promise<SemanticSearchResult[]> {
+    const index = await this.load();
+    if (!index || Object.keys(index.files).length === 0) {
+      return [];
+    }
+    const [queryVector] = await this.embedder.embed([query]);
+    const scored: Array<Omit<SemanticSearchResult, 'content'>> = [];
+    for (const [filePath, file] of Object.entries(index.files)) {
+      for (const chunk of file.chunks) {
+        scored.push({
+          filePath,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          score: cosineSimilarity(queryVector, decodeVector(chunk.vector)),
+        });
+      }
+    }
+    scored.sort((a, b) => b.score - a.score);
+
+    const results: SemanticSearchResult[] = [];
+    for (const result of scored.slice(0, limit)) {
+      const content = await fs.readFile(
+        path.join(this.rootDirectory, result.filePath),
+        'utf-8',
+      );
+      results.push({
+        ...result,
+        content: content
+          .split('\n')
+          .slice(result.startLine - 1, result.endLine)
+          .join('\n'),
+      });
+    }
+    return results;
+  }
+
+  private createIndex(): StoredIndex {
+    return {
+      version: INDEX_VERSION,
+      embedderId: this.embedder.id,
+      updatedAt: new Date().toISOString(),
+      files: {},
+    };
+  }
+
+  private async load(): Promise<StoredIndex | undefined> {
+    if (!this.index) {
+      try {
+        const stored = JSON.parse(
+          await fs.readFile(this.indexPath, 'utf-8'),
+        ) as StoredIndex;
+        if (stored.version === INDEX_VERSION) {
+          this.index = stored;
+        }
+      } catch {
+        // No index was built yet, or it is unreadable and is rebuilt.
+      }
+    }
+    return this.index;
+  }
+
+  private async save(index: StoredIndex): Promise<void> {
+    index.updatedAt = new Date().toISOString();
+    await fs.mkdir(path.dirname(this.indexPath), { recursive: true });
+    const tempPath = `${this.indexPath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(index), 'utf-8');
+    await fs.rename(tempPath, this.indexPath);
+  }
+
+  /** Source files of the project, relative to its root, in stable order. */
+  private async discoverFiles(signal?: AbortSignal): Promise<string[]> {
+    const files = await glob('**/*', {
+      cwd: this.rootDirectory,
+      nodir: true,
+      dot: false,
+      ignore: ['**/node_modules/**', '**/.git/**'],
+      follow: false,
+      signal,
+    });
+    return this.fileService.filterFiles(files).sort();
+  }
+
+  private async doRefresh(signal?: AbortSignal): Promise<IndexRefreshResult> {
+    const index = await this.load();
+    if (!index || index.embedderId !== this.embedder.id) {
+      throw new Error(
+        `The semantic index was not built with ${this.embedder.id} yet.`,
+      );
+    }
+
+    const discovered = await this.discoverFiles(signal);
+    const files = discovered.slice(0, MAX_INDEXED_FILES);
+    const present = new Set(files);
+    let removedFiles = 0;
+    for (const filePath of Object.keys(index.files)) {
+      if (!present.has(filePath)) {
+        delete index.files[filePath];
+        removedFiles++;
+      }
+    }
+
+    let embeddedFiles = 0;
+    let pending: Array<{
+      filePath: string;
+      hash: string;
+      chunks: ReturnType<typeof chunkLines>;
+    }> = [];
+    const embedPending = async () => {
+      const texts = pending.flatMap((file) =>
+        file.chunks.map(
+          (chunk) =>
+            `${file.filePath}\n${chunk.text.slice(0, MAX_CHUNK_CHARS)}`,
+        ),
+      );
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        signal?.throwIfAborted();
+        vectors.push(
+          ...(await this.embedder.embed(
+            texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+          )),
+        );
+      }
+      let next = 0;
+      for (const file of pending) {
+        index.files[file.filePath] = {
+          hash: file.hash,
+          chunks: file.chunks.map((chunk) => ({
+            startLine: chunk.startLine,
+            endLine: chunk.endLine,
+            vector: encodeVector(vectors[next++]),
+          })),
+        };
+      }
+      embeddedFiles += pending.length;
+      pending = [];
+      // Save progress, so that an interrupted first index is not lost.
+      await this.save(index);
+    };
+
+    let pendingChunks = 0;
+    for (const filePath of files) {
+      const absolutePath = path.join(this.rootDirectory, filePath);
+      let content: string;
+      try {
+        const stats = await fs.stat(absolutePath);
+        if (stats.size > MAX_FILE_BYTES || isBinaryFile(absolutePath)) {
+          if (index.files[filePath]) {
+            delete index.files[filePath];
+            removedFiles++;
+          }
+          continue;
+        }
+        content = await fs.readFile(absolutePath, 'utf-8');
+      } catch {
+        continue; // Deleted or unreadable since it was discovered.
+      }
+      const hash = crypto.createHash('sha256').update(content).digest('hex');
+      if (index.files[filePath]?.hash === hash) {
+        continue;
+      }
+      const chunks = chunkLines(content);
+      pending.push({ filePath, hash, chunks });
+      pendingChunks += chunks.length;
+      if (pendingChunks >= EMBEDDING_BATCH_SIZE) {
+        await embedPending();
+        pendingChunks = 0;
+      }
+    }
+    if (pending.length > 0 || removedFiles > 0) {
+      await embedPending();
+    }
+
+    return {
+      embeddedFiles,
+      removedFiles,
+      totalFiles: Object.keys(index.files).length,
+      skippedFiles: discovered.length - files.length,
+    };
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { SavedSession, SessionStore } from './sessionStore.js';
+
+function makeSession(sessionId: string, lastUpdated: string): SavedSession {
+  return {
+    metadata: {
+      sessionId,
+      lastUpdated,
+      firstPrompt: `Prompt of ${sessionId}`,
+      turnCount: 1,
+      model: 'test-model',
+    },
+    history: [{ role: 'user', parts: [{ text: `Prompt of ${sessionId}` }] }],
+    uiHistory: [{ id: 1, type: 'user', text: `Prompt of ${sessionId}` }],
+  };
+}
+
+describe('SessionStore', () => {
+  let tempDir: string;
+  let store: SessionStore;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'session-store-test-'));
+    store = new SessionStore(tempDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return nothing when no session was saved', async () => {
+    expect(await store.list()).toEqual([]);
+    expect(await store.load('latest')).toBeNull();
+  });
+
+  it('should save and load sessions by id', async () => {
+    const session = makeSession('session-1', '2025-07-01T10:00:00.000Z');
+    await store.save(session);
+
+    expect(await store.load('session-1')).toEqual(session);
+    expect(await store.load('unknown-session')).toBeNull();
+    expect(await fs.readdir(path.join(tempDir, 'sessions'))).toEqual([
+      'session-1.json',
+    ]);
+  });
+
+  it('should replace previous saves of the same session', async () => {
+    await store.save(makeSession('session-1', '2025-07-01T10:00:00.000Z'));
+    const updated = makeSession('session-1', '2025-07-01T11:00:00.000Z');
+    updated.metadata.turnCount = 2;
+    await store.save(updated);
+
+    expect(await store.list()).toEqual([updated.metadata]);
+  });
+
+  it('should list sessions and resolve latest by last update', async () => {
+    await store.save(makeSession('older', '2025-07-01T10:00:00.000Z'));
+    await store.save(makeSession('newer', '2025-07-02T10:00:00.000Z'));
+
+    expect((await store.list()).map((session) => session.sessionId)).toEqual([
+      'newer',
+      'older',
+    ]);
+    expect((await store.load('latest'))?.metadata.sessionId).toBe('newer');
+  });
+
+  it('should ignore invalid session files and ids', async () => {
+    await fs.mkdir(path.join(tempDir, 'sessions'));
+    await fs.writeFile(path.join(tempDir, 'sessions', 'broken.json'), '{');
+    await fs.writeFile(path.join(tempDir, 'secret.json'), '{}');
+
+    expect(await store.list()).toEqual([]);
+    expect(await store.load('broken')).toBeNull();
+    expect(await store.load('../secret')).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import { Content } from '@google/genai';
+
+const SESSIONS_DIR_NAME = 'sessions';
+const LATEST_SESSION = 'latest';
+const SESSION_ID_PATTERN = /^[\w-]+$/;
+
+export interface SessionMetadata {
+  sessionId: string;
+  /** ISO timestamp of the last time the session was saved. */
+  lastUpdated: string;
+  firstPrompt: string;
+  /** Number of prompts the user sent in the session. */
+  turnCount: number;
+  model: string;
+  /** Id of the session this session was resumed from, if any. */
+  resumedFrom?: string;
+}
+
+export interface SavedSession {
+  metadata: SessionMetadata;
+  /** The curated history of the chat with the model. */
+  history: Content[];
+  /** The history shown by the UI. Its format is owned by the UI. */
+  uiHistory: unknown[];
+}
+
+/**
+ * Persists sessions as JSON files in the `sessions` directory of the project
+ * temp dir, one file per session id.
+ */
+export class SessionStore {
+  private readonly sessionsDir: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(projectTempDir: string) {
+    this.sessionsDir = path.join(projectTempDir, SESSIONS_DIR_NAME);
+  }
+
+  /**
+   * Saves the session, replacing any previous save of the same session.
+   * Saves are serialized and written atomically, so a crash never leaves a
+   * truncated session file behind.
+   */
+  save(session: SavedSession): Promise<void> {
+    const sessionPath = this.sessionPath(session.metadata.sessionId);
+    this.writeQueue = this.writeQueue.then(async () => {
+      await fs.mkdir(this.sessionsDir, { recursive: true });
+      const tempPath = `${sessionPath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(session), 'utf-8');
+      await fs.rename(tempPath, sessionPath);
+    });
+    const saved = this.writeQueue;
+    // Keep the queue usable after a failed save.
+    this.writeQueue = saved.catch(() => {});
+    return saved;
+  }
+
+  /**
+   * Loads a session by id, or the most recently updated session for
+   * `latest`. Returns null if there is no such session.
+   */
+  async load(sessionId: string): Promise<SavedSession | null> {
+    if (sessionId === LATEST_SESSION) {
+      const [latest] = await this.list();
+      return latest ? this.load(latest.sessionId) : null;
+    }
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return null;
+    }
+    return this.readSession(this.sessionPath(sessionId));
+  }
+
+  /** Returns the metadata of all saved sessions, most recent first. */
+  async list(): Promise<SessionMetadata[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.sessionsDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    const sessions = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => this.readSession(path.join(this.sessionsDir, file))),
+    );
+    return sessions
+      .filter((session): session is SavedSession => session !== null)
+      .map((session) => session.metadata)
+      .sort((a, b) => b.lastUpdated.localeCompare(a.lastUpdated));
+  }
+
+  private sessionPath(sessionId: string): string {
+    return path.join(this.sessionsDir, `${sessionId}.json`);
+  }
+
+  private async readSession(filePath: string): Promise<SavedSession | null> {
+    try {
+      const session = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      if (
+        typeof session?.metadata?.sessionId !== 'string' ||
+        !Array.isArray(session.history) ||
+        !Array.isArray(session.uiHistory)
+      ) {
+        console.debug(`Ignoring invalid session file ${filePath}.`);
+        return null;
+      }
+      return session as SavedSession;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.debug(`Failed to read session file ${filePath}:`, error);
+      }
+      return null;
+    }
+  }
+}
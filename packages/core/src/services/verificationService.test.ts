@@ -0,0 +1,202 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import {
+  formatVerificationResults,
+  parseDiagnostics,
+  VerificationService,
+} from './verificationService.js';
+
+const root = path.resolve('/project');
+
+describe('parseDiagnostics', () => {
+  it('should parse tsc output', () => {
+    expect(
+      parseDiagnostics(
+        "src/a.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.\n\nFound 1 error.",
+        root,
+      ),
+    ).toEqual([
+      {
+        file: path.join('src', 'a.ts'),
+        line: 12,
+        column: 5,
+        severity: 'error',
+        message: "TS2322: Type 'string' is not assignable to type 'number'.",
+      },
+    ]);
+  });
+
+  it('should parse file:line:column output and skip notes', () => {
+    const output = [
+      `${path.join(root, 'main.go')}:3:2: undefined: foo`,
+      'lib.c:10: warning: unused variable',
+      'lib.c:9: note: declared here',
+      'Compilation failed.',
+    ].join('\n');
+
+    expect(parseDiagnostics(output, root)).toEqual([
+      {
+        file: 'main.go',
+        line: 3,
+        column: 2,
+        severity: 'error',
+        message: 'undefined: foo',
+      },
+      {
+        file: 'lib.c',
+        line: 10,
+        column: undefined,
+        severity: 'warning',
+        message: 'unused variable',
+      },
+    ]);
+  });
+
+  it("should parse eslint's default output", () => {
+    const output = [
+      '',
+      path.join(root, 'src', 'b.ts'),
+      "  4:7   error    'x' is assigned a value but never used  no-unused-vars",
+      '  9:1   warning  Unexpected console statement            no-console',
+      '',
+      '✖ 2 problems (1 error, 1 warning)',
+    ].join('\n');
+
+    expect(
+      parseDiagnostics(output, root).map(
+        (d) => `${d.file}:${d.line}:${d.column} ${d.severity}`,
+      ),
+    ).toEqual([
+      `${path.join('src', 'b.ts')}:4:7 error`,
+      `${path.join('src', 'b.ts')}:9:1 warning`,
+    ]);
+  });
+});
+
+describe('VerificationService', () => {
+  const service = new VerificationService(
+    {
+      '**/*.ts': ['tsc --noEmit', 'eslint {files}'],
+      '**/*.py': 'ruff check {files}',
+    },
+    root,
+  );
+
+  it('should pick the commands whose globs match the changed files', () => {
+    expect(
+      service.getCommandsFor([
+        path.join(root, 'src', 'a.ts'),
+        path.join(root, 'b c.ts'),
+        path.join(root, 'README.md'),
+      ]),
+    ).toEqual(['tsc --noEmit', `eslint ${path.join('src', 'a.ts')} 'b c.ts'`]);
+  });
+
+  it('should run every command for a changed directory', () => {
+    expect(service.getCommandsFor([root])).toEqual([
+      'tsc --noEmit',
+      'eslint .',
+      'ruff check .',
+    ]);
+  });
+
+  it('should ignore files outside the root directory', () => {
+    expect(service.getCommandsFor([path.resolve('/other/a.ts')])).toEqual([]);
+  });
+
+  it.skipIf(process.platform === 'win32')(
+    'should run the commands and summarize their diagnostics',
+    async () => {
+      const changedFile = path.join(process.cwd(), 'a.ts');
+      const commandService = new VerificationService(
+        {
+          '*.ts': [
+            'echo "a.ts:2:3: error: broken"; echo "b.ts:1:1: error: old"; exit 1',
+            'true',
+          ],
+        },
+        process.cwd(),
+      );
+
+      const summary = await commandService.verifyChanges(
+        [changedFile],
+        new AbortController().signal,
+      );
+
+      expect(summary).toBe(
+        [
+          'Verification after these changes:',
+          '- `echo "a.ts:2:3: error: broken"; echo "b.ts:1:1: error: old"; exit 1` failed (exit code 1) with 2 problem(s), 1 in the changed files:',
+          '  a.ts:2:3: error: broken',
+          '  b.ts:1:1: error: old',
+          '- `true` passed.',
+        ].join('\n'),
+      );
+    },
+  );
+
+  it.skipIf(process.platform === 'win32')(
+    'should keep the head and tail of long output',
+    async () => {
+      const commandService = new VerificationService(
+        { '*.ts': 'seq 100000; echo "a.ts:1:1: error: last"; exit 1' },
+        process.cwd(),
+      );
+
+      const [result] = await commandService.verify(
+        [path.join(process.cwd(), 'a.ts')],
+        new AbortController().signal,
+      );
+
+      expect(result.output.length).toBeLessThan(51_000);
+      expect(result.output).toMatch(/^1\n2\n3\n/);
+      expect(result.output).toMatch(
+        /\n\.\.\. \[\d+ characters of output omitted\] \.\.\.\n/,
+      );
+      expect(result.output).toMatch(/\n100000\na\.ts:1:1: error: last\n$/);
+      expect(result.diagnostics).toContainEqual(
+        expect.objectContaining({ file: 'a.ts', message: 'last' }),
+      );
+    },
+  );
+});
+
+describe('formatVerificationResults', () => {
+  it('should show the output of commands without diagnostics', () => {
+    expect(
+      formatVerificationResults(
+        [
+          {
+            command: 'make check',
+            exitCode: 2,
+            timedOut: false,
+            output: 'Something went wrong\n',
+            diagnostics: [],
+          },
+          {
+            command: 'npm test',
+            exitCode: null,
+            timedOut: true,
+            output: '',
+            diagnostics: [],
+          },
+        ],
+        [],
+        root,
+      ),
+    ).toBe(
+      [
+        'Verification after these changes:',
+        '- `make check` failed (exit code 2):',
+        'Something went wrong',
+        '- `npm test` timed out without output.',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import os from 'os';
+import path from 'path';
+import { spawn } from 'child_process';
+import micromatch from 'micromatch';
+import { quote } from 'shell-quote';
+import stripAnsi from 'strip-ansi';
+import { DEFAULT_MAX_TOOL_OUTPUT_CHARS } from '../utils/toolOutput.js';
+
+/** How long a verification command may run before it is killed. */
+export const DEFAULT_VERIFICATION_TIMEOUT_MS = 120_000;
+
+/** Diagnostics that are listed to the model at most. */
+const MAX_LISTED_DIAGNOSTICS = 20;
+
+/**
+ * Characters of the output of a command that are kept, half from its start
+ * and half from its end, like the output that tools return.
+ */
+const MAX_OUTPUT_CHARS = DEFAULT_MAX_TOOL_OUTPUT_CHARS;
+
+/** Characters of output shown for a failed command without diagnostics. */
+const MAX_UNPARSED_OUTPUT_CHARS = 2000;
+
+/**
+ * Verification commands by glob of the files they check, from the
+ * `verificationCommands` setting. `{files}` in a command is replaced by the
+ * changed files that match its glob.
+ */
+export type VerificationCommands = Record<string, string | string[]>;
+
+export interface Diagnostic {
+  /** Path of the file, relative to the root directory when inside it. */
+  file: string;
+  line: number;
+  column?: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface CommandResult {
+  command: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  output: string;
+  diagnostics: Diagnostic[];
+}
+
+// `src/a.ts(12,5): error TS2322: message`, as printed by tsc.
+const TSC_PATTERN = /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+: .*)$/;
+// `src/a.ts:12:5: error: message`, as printed by gcc, go, rustc --error-format=short,
+// eslint -f unix, ruff and many others. The column and severity are optional.
+const FILE_LINE_PATTERN =
+  /^([^\s:][^:]*?):(\d+)(?::(\d+))?:\s*(?:(error|warning|note|info)\b:?\s*)?(.+)$/i;
+// `  12:5  error  message  rule`, under a line with the file, as printed by
+// eslint's default formatter.
+const STYLISH_PATTERN = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)\s*$/;
+
+/**
+ * Parses the output of compilers, linters and test runners into diagnostics
+ * with a file and line, for the formats printed by most tools.
+ */
+export function parseDiagnostics(
+  output: string,
+  rootDirectory: string,
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const seen = new Set<string>();
+  let stylishFile: string | undefined;
+
+  const add = (
+    file: string,
+    line: string,
+    column: string | undefined,
+    severity: string | undefined,
+    message: string,
+  ) => {
+    const absolutePath = path.resolve(rootDirectory, file.trim());
+    const relativePath = path.relative(rootDirectory, absolutePath);
+    const diagnostic: Diagnostic = {
+      file: relativePath.startsWith('..') ? absolutePath : relativePath,
+      line: Number(line),
+      column: column ? Number(column) : undefined,
+      severity: severity?.toLowerCase() === 'warning' ? 'warning' : 'error',
+      message: message.trim(),
+    };
+    const key = `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}:${diagnostic.message}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      diagnostics.push(diagnostic);
+    }
+  };
+
+  for (const rawLine of stripAnsi(output).split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    let match: RegExpMatchArray | null;
+    if ((match = line.match(TSC_PATTERN))) {
+      add(match[1], match[2], match[3], match[4], match[5]);
+    } else if (stylishFile && (match = line.match(STYLISH_PATTERN))) {
+      add(stylishFile, match[1], match[2], match[3], match[4]);
+    } else if ((match = line.match(FILE_LINE_PATTERN))) {
+      if (match[4]?.toLowerCase() === 'note' || /^\d/.test(match[1])) {
+        continue; // Notes belong to the diagnostic before them.
+      }
+      add(match[1], match[2], match[3], match[4], match[5]);
+    } else if (line && !line.startsWith(' ') && !line.includes(' ')) {
+      stylishFile = line; // A file name heading eslint's results for it.
+    } else if (!line) {
+      stylishFile = undefined;
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Runs the verification commands whose globs match the files that were
+ * changed, e.g. a type check after an edit, and summarizes their diagnostics
+ * so that the model learns right away when an edit broke the build.
+ */
+export class VerificationService {
+  constructor(
+    private readonly commands: VerificationCommands,
+    private readonly rootDirectory: string,
+    private readonly timeoutMs: number = DEFAULT_VERIFICATION_TIMEOUT_MS,
+  ) {}
+
+  hasCommands(): boolean {
+    return Object.keys(this.commands).length > 0;
+  }
+
+  /**
+   * Returns the commands to run for the changed paths, with `{files}`
+   * replaced. A changed directory matches every glob, and paths outside the
+   * root directory match none.
+   */
+  getCommandsFor(changedPaths: string[]): string[] {
+    const relativePaths = changedPaths
+      .map((changedPath) =>
+        path.relative(this.rootDirectory, path.resolve(changedPath)),
+      )
+      .filter(
+        (relativePath) =>
+          !relativePath.startsWith('..') && !path.isAbsolute(relativePath),
+      );
+    const commands = new Set<string>();
+    for (const [pattern, patternCommands] of Object.entries(this.commands)) {
+      const matches = relativePaths.filter(
+        (relativePath) =>
+          relativePath === '' ||
+          micromatch.isMatch(relativePath, pattern, { dot: true }),
+      );
+      if (matches.length === 0) {
+        continue;
+      }
+      const files = quote(matches.map((match) => match || '.'));
+      for (const command of [patternCommands].flat()) {
+        commands.add(command.replaceAll('{files}', files));
+      }
+    }
+    return [...commands];
+  }
+
+  /**
+   * Runs the commands for the changed paths one after another.
+   * @returns Their results, or an empty array if no command matches.
+   */
+  async verify(
+    changedPaths: string[],
+    signal: AbortSignal,
+  ): Promise<CommandResult[]> {
+    const results: CommandResult[] = [];
+    for (const command of this.getCommandsFor(changedPaths)) {
+      if (signal.aborted) {
+        break;
+      }
+      results.push(await this.run(command, signal));
+    }
+    return results;
+  }
+
+  /**
+   * Runs the commands for the changed paths and summarizes their results.
+   * @returns The summary, or undefined if no command matches.
+   */
+  async verifyChanges(
+    changedPaths: string[],
+    signal: AbortSignal,
+  ): Promise<string | undefined> {
+    const results = await this.verify(changedPaths, signal);
+    return results.length > 0
+      ? formatVerificationResults(results, changedPaths, this.rootDirectory)
+      : undefined;
+  }
+
+  private run(command: string, signal: AbortSignal): Promise<CommandResult> {
+    return new Promise((resolve) => {
+      const isWindows = os.platform() === 'win32';
+      const child = isWindows
+        ? spawn('cmd.exe', ['/c', command], {
+            stdio: ['ignore', 'pipe', 'pipe'],
+            cwd: this.rootDirectory,
+          })
+        : spawn('bash', ['-c', command], {
+            stdio: ['ignore', 'pipe', 'pipe'],
+            detached: true,
+            cwd: this.rootDirectory,
+          });
+
+      // Keep the head and tail of the output, so that a command that prints
+      // a lot does not use up memory.
+      let head = '';
+      let tail = '';
+      let omittedChars = 0;
+      const append = (text: string) => {
+        const headRoom = MAX_OUTPUT_CHARS / 2 - head.length;
+        if (headRoom > 0) {
+          head += text.slice(0, headRoom);
+          text = text.slice(headRoom);
+        }
+        tail += text;
+        const excess = tail.length - MAX_OUTPUT_CHARS / 2;
+        if (excess > 0) {
+          tail = tail.slice(excess);
+          omittedChars += excess;
+        }
+      };
+      child.stdout.on('data', (data: Buffer) => append(data.toString()));
+      child.stderr.on('data', (data: Buffer) => append(data.toString()));
+
+      let timedOut = false;
+      const kill = () => {
+        try {
+          if (isWindows || !child.pid) {
+            child.kill('SIGKILL');
+          } else {
+            process.kill(-child.pid, 'SIGKILL');
+          }
+        } catch {
+          // The command already exited.
+        }
+      };
+      const timer = setTimeout(() => {
+        timedOut = true;
+        kill();
+      }, this.timeoutMs);
+      signal.addEventListener('abort', kill);
+
+      const finish = (exitCode: number | null) => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', kill);
+        const output =
+          omittedChars > 0
+            ? `${head}\n... [${omittedChars} characters of output omitted] ...\n${tail}`
+            : head + tail;
+        resolve({
+          command,
+          exitCode,
+          timedOut,
+          output: stripAnsi(output),
+          diagnostics: parseDiagnostics(output, this.rootDirectory),
+        });
+      };
+      child.on('error', (error) => {
+        append(error.message);
+        finish(null);
+      });
+      child.on('close', (code) => finish(code));
+    });
+  }
+}
+
+/**
+ * Summarizes verification results for the model, listing the diagnostics in
+ * the changed files first.
+ */
+export function formatVerificationResults(
+  results: CommandResult[],
+  changedPaths: string[],
+  rootDirectory: string,
+): string {
+  const changedFiles = new Set(
+    changedPaths.map((changedPath) =>
+      path.relative(rootDirectory, path.resolve(changedPath)),
+    ),
+  );
+  const lines = ['Verification after these changes:'];
+  for (const result of results) {
+    if (result.exitCode === 0 && !result.timedOut) {
+      const warnings = result.diagnostics.length;
+      lines.push(
+        warnings > 0
+          ? `- \`${result.command}\` passed with ${warnings} warning(s).`
+          : `- \`${result.command}\` passed.`,
+      );
+      continue;
+    }
+
+    const status = result.timedOut
+      ? 'timed out'
+      : result.exitCode === null
+        ? 'could not be run'
+        : `failed (exit code ${result.exitCode})`;
+    if (result.diagnostics.length === 0) {
+      const output = result.output.trim();
+      lines.push(
+        `- \`${result.command}\` ${status}` +
+          (output
+            ? `:\n${output.slice(-MAX_UNPARSED_OUTPUT_CHARS)}`
+            : ' without output.'),
+      );
+      continue;
+    }
+
+    const diagnostics = [...result.diagnostics].sort(
+      (a, b) =>
+        Number(changedFiles.has(b.file)) - Number(changedFiles.has(a.file)),
+    );
+    const inChangedFiles = diagnostics.filter((diagnostic) =>
+      changedFiles.has(diagnostic.file),
+    ).length;
+    lines.push(
+      `- \`${result.command}\` ${status} with ${diagnostics.length} problem(s), ${inChangedFiles} in the changed files:`,
+    );
+    for (const diagnostic of diagnostics.slice(0, MAX_LISTED_DIAGNOSTICS)) {
+      const column = diagnostic.column ? `:${diagnostic.column}` : '';
+      lines.push(
+        `  ${diagnostic.file}:${diagnostic.line}${column}: ${diagnostic.severity}: ${diagnostic.message}`,
+      );
+    }
+    if (diagnostics.length > MAX_LISTED_DIAGNOSTICS) {
+      lines.push(
+        `  (${diagnostics.length - MAX_LISTED_DIAGNOSTICS} more not shown)`,
+      );
+    }
+  }
+  return lines.join('\n');
+}
@@ -17,6 +17,7 @@ import {
 import { logs } from '@opentelemetry/api-logs';
 import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
 import { Config } from '../config/config.js';
+import { ModelPurpose } from '../config/models.js';
 import {
   EVENT_API_REQUEST,
   EVENT_API_RESPONSE,
@@ -226,6 +227,7 @@ describe('loggers', () => {
           total_token_count: 0,
           response_text: 'test-response',
           prompt_id: 'prompt-id-1',
+          purpose: ModelPurpose.CHAT,
         },
       });
 
@@ -303,6 +305,7 @@ describe('loggers', () => {
         'test-model',
         'prompt-id-7',
         'This is a test request',
+        ModelPurpose.NEXT_SPEAKER,
       );
 
       logApiRequest(mockConfig, event);
@@ -316,6 +319,7 @@ describe('loggers', () => {
           model: 'test-model',
           request_text: 'This is a test request',
           prompt_id: 'prompt-id-7',
+          purpose: ModelPurpose.NEXT_SPEAKER,
         },
       });
     });
@@ -333,6 +337,7 @@ describe('loggers', () => {
           'event.timestamp': '2025-01-01T00:00:00.000Z',
           model: 'test-model',
           prompt_id: 'prompt-id-6',
+          purpose: ModelPurpose.CHAT,
         },
       });
     });
@@ -455,6 +460,40 @@ describe('loggers', () => {
         'event.timestamp': '2025-01-01T00:00:00.000Z',
       });
     });
+    it('should log the execution order of a tool call', () => {
+      const call: CompletedToolCall = {
+        status: 'success',
+        request: {
+          name: 'test-function',
+          args: {},
+          callId: 'test-call-id',
+          isClientInitiated: true,
+          prompt_id: 'prompt-id-1',
+        },
+        response: {
+          callId: 'test-call-id',
+          responseParts: 'test-response',
+          resultDisplay: undefined,
+          error: undefined,
+        },
+        tool: new EditTool(mockConfig),
+        durationMs: 100,
+      };
+      const event = new ToolCallEvent(call, {
+        order: 1,
+        waitedFor: ['earlier-call-id'],
+      });
+
+      logToolCall(mockConfig, event);
+
+      expect(mockLogger.emit).toHaveBeenCalledWith({
+        body: 'Tool call: test-function. Success: true. Duration: 100ms.',
+        attributes: expect.objectContaining({
+          execution_order: 1,
+          waited_for: ['earlier-call-id'],
+        }),
+      });
+    });
     it('should log a tool call with a reject decision', () => {
       const call: ErroredToolCall = {
         status: 'error',
@@ -7,8 +7,10 @@
 import { GenerateContentResponseUsageMetadata } from '@google/genai';
 import { Config } from '../config/config.js';
 import { CompletedToolCall } from '../core/coreToolScheduler.js';
+import { ToolCallExecution } from '../core/toolConcurrency.js';
 import { ToolConfirmationOutcome } from '../tools/tools.js';
 import { AuthType } from '../core/contentGenerator.js';
+import { ModelPurpose } from '../config/models.js';
 
 export enum ToolCallDecision {
   ACCEPT = 'accept',
@@ -118,8 +120,12 @@ export class ToolCallEvent {
   error?: string;
   error_type?: string;
   prompt_id: string;
+  /** The position in which the call started among the calls of its batch. */
+  execution_order?: number;
+  /** Ids of conflicting calls that the call waited for. */
+  waited_for?: string[];
 
-  constructor(call: CompletedToolCall) {
+  constructor(call: CompletedToolCall, execution?: ToolCallExecution) {
     this['event.name'] = 'tool_call';
     this['event.timestamp'] = new Date().toISOString();
     this.function_name = call.request.name;
@@ -132,6 +138,8 @@ export class ToolCallEvent {
     this.error = call.response.error?.message;
     this.error_type = call.response.error?.name;
     this.prompt_id = call.request.prompt_id;
+    this.execution_order = execution?.order;
+    this.waited_for = execution?.waitedFor;
   }
 }
 
@@ -141,13 +149,20 @@ export class ApiRequestEvent {
   model: string;
   prompt_id: string;
   request_text?: string;
+  purpose: ModelPurpose;
 
-  constructor(model: string, prompt_id: string, request_text?: string) {
+  constructor(
+    model: string,
+    prompt_id: string,
+    request_text?: string,
+    purpose: ModelPurpose = ModelPurpose.CHAT,
+  ) {
     this['event.name'] = 'api_request';
     this['event.timestamp'] = new Date().toISOString();
     this.model = model;
     this.prompt_id = prompt_id;
     this.request_text = request_text;
+    this.purpose = purpose;
   }
 }
 
@@ -160,6 +175,7 @@ export class ApiErrorEvent {
   status_code?: number | string;
   duration_ms: number;
   prompt_id: string;
+  purpose: ModelPurpose;
 
   constructor(
     model: string,
@@ -168,6 +184,7 @@ export class ApiErrorEvent {
     prompt_id: string,
     error_type?: string,
     status_code?: number | string,
+    purpose: ModelPurpose = ModelPurpose.CHAT,
   ) {
     this['event.name'] = 'api_error';
     this['event.timestamp'] = new Date().toISOString();
@@ -177,6 +194,7 @@ export class ApiErrorEvent {
     this.status_code = status_code;
     this.duration_ms = duration_ms;
     this.prompt_id = prompt_id;
+    this.purpose = purpose;
   }
 }
 
@@ -195,6 +213,7 @@ export class ApiResponseEvent {
   total_token_count: number;
   response_text?: string;
   prompt_id: string;
+  purpose: ModelPurpose;
 
   constructor(
     model: string,
@@ -203,6 +222,7 @@ export class ApiResponseEvent {
     usage_data?: GenerateContentResponseUsageMetadata,
     response_text?: string,
     error?: string,
+    purpose: ModelPurpose = ModelPurpose.CHAT,
   ) {
     this['event.name'] = 'api_response';
     this['event.timestamp'] = new Date().toISOString();
@@ -218,6 +238,7 @@ export class ApiResponseEvent {
     this.response_text = response_text;
     this.error = error;
     this.prompt_id = prompt_id;
+    this.purpose = purpose;
   }
 }
 
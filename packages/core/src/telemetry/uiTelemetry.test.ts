@@ -23,6 +23,7 @@ import {
   SuccessfulToolCall,
 } from '../core/coreToolScheduler.js';
 import { Tool, ToolConfirmationOutcome } from '../tools/tools.js';
+import { ModelPurpose } from '../config/models.js';
 
 const createFakeCompletedToolCall = (
   name: string,
@@ -163,6 +164,9 @@ describe('UiTelemetryService', () => {
           thoughts: 2,
           tool: 3,
         },
+        purposes: {
+          chat: { requests: 1, tokens: 30 },
+        },
       });
       expect(service.getLastPromptTokenCount()).toBe(10);
     });
@@ -213,6 +217,9 @@ describe('UiTelemetryService', () => {
           thoughts: 6,
           tool: 9,
         },
+        purposes: {
+          chat: { requests: 2, tokens: 70 },
+        },
       });
       expect(service.getLastPromptTokenCount()).toBe(15);
     });
@@ -255,6 +262,48 @@ describe('UiTelemetryService', () => {
       expect(metrics.models['gemini-2.5-flash'].api.totalRequests).toBe(1);
       expect(service.getLastPromptTokenCount()).toBe(100);
     });
+
+    it('should break down requests by purpose', () => {
+      const chatEvent = {
+        'event.name': EVENT_API_RESPONSE,
+        model: 'gemini-2.5-flash',
+        duration_ms: 500,
+        input_token_count: 10,
+        output_token_count: 20,
+        total_token_count: 30,
+        cached_content_token_count: 0,
+        thoughts_token_count: 0,
+        tool_token_count: 0,
+        purpose: ModelPurpose.CHAT,
+      } as ApiResponseEvent & {
+        'event.name': typeof EVENT_API_RESPONSE;
+      };
+      const nextSpeakerEvent = {
+        'event.name': EVENT_API_RESPONSE,
+        model: 'gemini-2.5-flash',
+        duration_ms: 200,
+        input_token_count: 500,
+        output_token_count: 10,
+        total_token_count: 510,
+        cached_content_token_count: 0,
+        thoughts_token_count: 0,
+        tool_token_count: 0,
+        purpose: ModelPurpose.NEXT_SPEAKER,
+      } as ApiResponseEvent & {
+        'event.name': typeof EVENT_API_RESPONSE;
+      };
+
+      service.addEvent(chatEvent);
+      service.addEvent(nextSpeakerEvent);
+
+      const metrics = service.getMetrics();
+      expect(metrics.models['gemini-2.5-flash'].purposes).toEqual({
+        chat: { requests: 1, tokens: 30 },
+        nextSpeaker: { requests: 1, tokens: 510 },
+      });
+      // Auxiliary calls do not affect the context window usage.
+      expect(service.getLastPromptTokenCount()).toBe(10);
+    });
   });
 
   describe('API Error Event Processing', () => {
@@ -283,6 +332,9 @@ describe('UiTelemetryService', () => {
           thoughts: 0,
           tool: 0,
         },
+        purposes: {
+          chat: { requests: 1, tokens: 0 },
+        },
       });
     });
 
@@ -325,6 +377,9 @@ describe('UiTelemetryService', () => {
           thoughts: 2,
           tool: 3,
         },
+        purposes: {
+          chat: { requests: 2, tokens: 30 },
+        },
       });
     });
   });
@@ -17,6 +17,7 @@ import {
   ToolCallEvent,
   ToolCallDecision,
 } from './types.js';
+import { ModelPurpose } from '../config/models.js';
 
 export type UiEvent =
   | (ApiResponseEvent & { 'event.name': typeof EVENT_API_RESPONSE })
@@ -35,6 +36,11 @@ export interface ToolCallStats {
   };
 }
 
+export interface PurposeMetrics {
+  requests: number;
+  tokens: number;
+}
+
 export interface ModelMetrics {
   api: {
     totalRequests: number;
@@ -49,6 +55,8 @@ export interface ModelMetrics {
     thoughts: number;
     tool: number;
   };
+  /** Requests and total tokens, broken down by the purpose of the call. */
+  purposes: Record<string, PurposeMetrics>;
 }
 
 export interface SessionMetrics {
@@ -81,6 +89,7 @@ const createInitialModelMetrics = (): ModelMetrics => ({
     thoughts: 0,
     tool: 0,
   },
+  purposes: {},
 });
 
 const createInitialMetrics = (): SessionMetrics => ({
@@ -140,8 +149,22 @@ export class UiTelemetryService extends EventEmitter {
     return this.#metrics.models[modelName];
   }
 
+  private getOrCreatePurposeMetrics(
+    modelMetrics: ModelMetrics,
+    purpose: ModelPurpose = ModelPurpose.CHAT,
+  ): PurposeMetrics {
+    if (!modelMetrics.purposes[purpose]) {
+      modelMetrics.purposes[purpose] = { requests: 0, tokens: 0 };
+    }
+    return modelMetrics.purposes[purpose];
+  }
+
   private processApiResponse(event: ApiResponseEvent) {
     const modelMetrics = this.getOrCreateModelMetrics(event.model);
+    const purposeMetrics = this.getOrCreatePurposeMetrics(
+      modelMetrics,
+      event.purpose,
+    );
 
     modelMetrics.api.totalRequests++;
     modelMetrics.api.totalLatencyMs += event.duration_ms;
@@ -153,13 +176,21 @@ export class UiTelemetryService extends EventEmitter {
     modelMetrics.tokens.thoughts += event.thoughts_token_count;
     modelMetrics.tokens.tool += event.tool_token_count;
 
-    this.#lastPromptTokenCount = event.input_token_count;
+    purposeMetrics.requests++;
+    purposeMetrics.tokens += event.total_token_count;
+
+    // Auxiliary calls do not send the chat history, so only the main chat
+    // reflects how much of the context window is in use.
+    if ((event.purpose ?? ModelPurpose.CHAT) === ModelPurpose.CHAT) {
+      this.#lastPromptTokenCount = event.input_token_count;
+    }
   }
 
   private processApiError(event: ApiErrorEvent) {
     const modelMetrics = this.getOrCreateModelMetrics(event.model);
     modelMetrics.api.totalRequests++;
     modelMetrics.api.totalErrors++;
+    this.getOrCreatePurposeMetrics(modelMetrics, event.purpose).requests++;
     modelMetrics.api.totalLatencyMs += event.duration_ms;
   }
 
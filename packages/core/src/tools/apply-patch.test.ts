@@ -0,0 +1,212 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { ApplyPatchTool } from './apply-patch.js';
+import { FileDiff, ToolEditConfirmationDetails } from './tools.js';
+import { ApprovalMode, Config } from '../config/config.js';
+
+describe('ApplyPatchTool', () => {
+  let tool: ApplyPatchTool;
+  let tempDir: string;
+  let rootDir: string;
+  let mockConfig: Config;
+  const abortSignal = new AbortController().signal;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'apply-patch-test-'));
+    rootDir = path.join(tempDir, 'root');
+    fs.mkdirSync(rootDir);
+
+    mockConfig = {
+      getTargetDir: () => rootDir,
+      getApprovalMode: vi.fn().mockReturnValue(ApprovalMode.DEFAULT),
+      setApprovalMode: vi.fn(),
+      getLspManager: () => ({ didWriteFile: vi.fn() }),
+    } as unknown as Config;
+
+    tool = new ApplyPatchTool(mockConfig);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, content: string) =>
+    fs.writeFileSync(path.join(rootDir, name), content, 'utf8');
+  const readFile = (name: string) =>
+    fs.readFileSync(path.join(rootDir, name), 'utf8');
+
+  const patch = `diff --git a/a.txt b/a.txt
+--- a/a.txt
++++ b/a.txt
+@@ -1,3 +1,3 @@
+ one
+-two
++TWO
+ three
+diff --git a/new.txt b/new.txt
+new file mode 100644
+--- /dev/null
++++ b/new.txt
+@@ -0,0 +1,2 @@
++created
++file
+diff --git a/old.txt b/old.txt
+deleted file mode 100644
+--- a/old.txt
++++ /dev/null
+@@ -1 +0,0 @@
+-gone
+diff --git a/from.txt b/to.txt
+similarity index 50%
+rename from from.txt
+rename to to.txt
+--- a/from.txt
++++ b/to.txt
+@@ -1,2 +1,2 @@
+ moved
+-content
++changed
+`;
+
+  describe('validateToolParams', () => {
+    it('should reject a malformed patch', () => {
+      expect(tool.validateToolParams({ patch: 'not a patch' })).toBe(
+        'Invalid patch: Unexpected line 1 in patch: not a patch',
+      );
+    });
+
+    it('should reject paths outside the root directory', () => {
+      expect(
+        tool.validateToolParams({
+          patch: '--- a/../x.txt\n+++ b/../x.txt\n@@ -1 +1 @@\n-a\n+b\n',
+        }),
+      ).toMatch(/^Invalid patch: File path must be within the root directory/);
+    });
+  });
+
+  describe('execute', () => {
+    beforeEach(() => {
+      writeFile('a.txt', 'one\ntwo\nthree\n');
+      writeFile('old.txt', 'gone\n');
+      writeFile('from.txt', 'moved\ncontent\n');
+    });
+
+    it('should modify, create, delete and rename files', async () => {
+      const result = await tool.execute({ patch }, abortSignal);
+
+      expect(result.llmContent).toBe(
+        'Successfully applied the patch: modified a.txt, created new.txt, deleted old.txt, renamed from.txt to to.txt.',
+      );
+      expect(readFile('a.txt')).toBe('one\nTWO\nthree\n');
+      expect(readFile('new.txt')).toBe('created\nfile\n');
+      expect(fs.existsSync(path.join(rootDir, 'old.txt'))).toBe(false);
+      expect(fs.existsSync(path.join(rootDir, 'from.txt'))).toBe(false);
+      expect(readFile('to.txt')).toBe('moved\nchanged\n');
+      const display = result.returnDisplay as FileDiff;
+      expect(display.fileDiff).toContain('Index: a.txt');
+      expect(display.fileDiff).toContain('Index: from.txt → to.txt');
+    });
+
+    it('should report failing hunks and change no file', async () => {
+      writeFile('a.txt', 'one\n2\nthree\n');
+
+      const result = await tool.execute({ patch }, abortSignal);
+
+      expect(result.llmContent).toBe(
+        [
+          'Failed to apply the patch, so no files were changed. 1 failure:',
+          '- a.txt: Hunk 1 (@@ -1,3 +1,3 @@) failed. Could not find the context and removed lines of the hunk in the file.',
+          'Use the read_file tool to check the current content of these files, then send a corrected patch with all of the changes.',
+        ].join('\n'),
+      );
+      expect(fs.existsSync(path.join(rootDir, 'new.txt'))).toBe(false);
+      expect(readFile('old.txt')).toBe('gone\n');
+      expect(readFile('from.txt')).toBe('moved\ncontent\n');
+    });
+
+    it('should report where fuzzy hunks were applied', async () => {
+      writeFile('a.txt', 'zero\none\ntwo\nthree\n');
+
+      const result = await tool.execute(
+        {
+          patch:
+            '--- a/a.txt\n+++ b/a.txt\n@@ -1,3 +1,3 @@\n one\n-two\n+TWO\n three\n',
+        },
+        abortSignal,
+      );
+
+      expect(result.llmContent).toBe(
+        'Successfully applied the patch: modified a.txt.\na.txt: Hunk 1 was applied at line 2 (offset 1 lines).',
+      );
+      expect(readFile('a.txt')).toBe('zero\none\nTWO\nthree\n');
+    });
+  });
+
+  describe('shouldConfirmExecute', () => {
+    it('should request confirmation with one diff for all files', async () => {
+      writeFile('a.txt', 'one\ntwo\nthree\n');
+      writeFile('old.txt', 'gone\n');
+      writeFile('from.txt', 'moved\ncontent\n');
+
+      const confirmation = (await tool.shouldConfirmExecute(
+        { patch },
+        abortSignal,
+      )) as ToolEditConfirmationDetails;
+
+      expect(confirmation.title).toBe('Confirm Patch: 4 files');
+      expect(confirmation.canModifyWithEditor).toBeUndefined();
+      expect(confirmation.fileDiff).toMatch(/-two\n\+TWO/);
+      expect(confirmation.fileDiff).toMatch(/-gone/);
+    });
+
+    it('should not request confirmation for a patch that does not apply', async () => {
+      expect(await tool.shouldConfirmExecute({ patch }, abortSignal)).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('getModifyContext', () => {
+    it('should edit the patch and show the diff of the edited patch', async () => {
+      writeFile('a.txt', 'one\ntwo\nthree\n');
+      const modifyContext = tool.getModifyContext(abortSignal);
+      const params = {
+        patch: '--- a/a.txt\n+++ b/a.txt\n@@ -2 +2 @@\n-two\n+TWO\n',
+      };
+      const modifiedPatch = '--- a/a.txt\n+++ b/a.txt\n@@ -2 +2 @@\n-two\n+2\n';
+
+      expect(await modifyContext.getProposedContent(params)).toBe(params.patch);
+      const updatedParams = modifyContext.createUpdatedParams(
+        params.patch,
+        modifiedPatch,
+        params,
+      );
+
+      expect(updatedParams).toEqual({
+        patch: modifiedPatch,
+        modified_by_user: true,
+      });
+      expect(modifyContext.getUpdatedDiff!(updatedParams)).toMatch(/-two\n\+2/);
+    });
+  });
+
+  it('should declare writes to every file of the patch', () => {
+    expect(tool.getEffects({ patch })).toEqual({
+      writes: [
+        path.join(rootDir, 'a.txt'),
+        path.join(rootDir, 'new.txt'),
+        path.join(rootDir, 'old.txt'),
+        path.join(rootDir, 'from.txt'),
+        path.join(rootDir, 'to.txt'),
+      ],
+    });
+  });
+});
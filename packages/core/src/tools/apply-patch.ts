@@ -0,0 +1,499 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as Diff from 'diff';
+import {
+  BaseTool,
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+  ToolEditConfirmationDetails,
+  ToolEffects,
+  ToolResult,
+} from './tools.js';
+import { Type } from '@google/genai';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getErrorMessage, isNodeError } from '../utils/errors.js';
+import { Config, ApprovalMode } from '../config/config.js';
+import { applyHunks, FilePatch, parseUnifiedDiff } from '../utils/patch.js';
+import { DEFAULT_DIFF_OPTIONS } from './diffOptions.js';
+import { EditTool } from './edit.js';
+import { ReadFileTool } from './read-file.js';
+import { ModifiableTool, ModifyContext } from './modifiable-tool.js';
+
+/**
+ * Parameters for the ApplyPatch tool
+ */
+export interface ApplyPatchToolParams {
+  /**
+   * The unified diff to apply
+   */
+  patch: string;
+
+  /**
+   * Whether the patch was modified manually by the user.
+   */
+  modified_by_user?: boolean;
+}
+
+interface FileChange {
+  /** Absolute path of the file before the change, or null if it is created. */
+  oldPath: string | null;
+  /** Absolute path of the file after the change, or null if it is deleted. */
+  newPath: string | null;
+  originalContent: string;
+  newContent: string;
+}
+
+interface CalculatedPatch {
+  changes: FileChange[];
+  /** Hunks that could not be applied, one line each. */
+  failures: string[];
+  /** Hunks that were applied away from where they said, one line each. */
+  notes: string[];
+}
+
+/**
+ * Applies a unified diff that may create, delete, rename and modify several
+ * files. The patch is applied in full or not at all.
+ */
+export class ApplyPatchTool
+  extends BaseTool<ApplyPatchToolParams, ToolResult>
+  implements ModifiableTool<ApplyPatchToolParams>
+{
+  static readonly Name = 'apply_patch';
+  private readonly rootDirectory: string;
+
+  constructor(private readonly config: Config) {
+    super(
+      ApplyPatchTool.Name,
+      'ApplyPatch',
+      `Applies a unified diff, like the output of \`git diff\`, to files in the project. One patch may modify, create, delete and rename several files. Always use the ${ReadFileTool.Name} tool to examine the current content of the files first.
+
+The patch is applied in full or not at all: if any hunk cannot be applied, no file is changed and each failing hunk is reported. Hunks are matched even if their line numbers are off, their whitespace differs, or up to two lines of context at their edges do not match.
+
+Format:
+- Start the changes to each file with \`--- a/<path>\` and \`+++ b/<path>\` lines, where <path> is relative to the project root directory. Use \`--- /dev/null\` to create a file and \`+++ /dev/null\` to delete one.
+- To rename a file, use a \`diff --git a/<old path> b/<new path>\` line followed by \`rename from <old path>\` and \`rename to <new path>\` lines, and hunks if its content changes too.
+- Each hunk starts with a \`@@ -<line>,<count> +<line>,<count> @@\` line and has lines that start with ' ' (context), '-' (removed) or '+' (added). Include about 3 lines of context around each change.
+
+The user has the ability to modify the patch before it is applied. If modified, this will be stated in the response. Use the ${EditTool.Name} tool instead for small, single replacements.`,
+      {
+        properties: {
+          patch: {
+            description:
+              'The unified diff to apply. Paths in it are relative to the project root directory.',
+            type: Type.STRING,
+          },
+        },
+        required: ['patch'],
+        type: Type.OBJECT,
+      },
+    );
+    this.rootDirectory = path.resolve(this.config.getTargetDir());
+  }
+
+  /**
+   * Checks if a path is within the root directory.
+   * @param pathToCheck The absolute path to check.
+   * @returns True if the path is within the root directory, false otherwise.
+   */
+  private isWithinRoot(pathToCheck: string): boolean {
+    const normalizedPath = path.normalize(pathToCheck);
+    const normalizedRoot = this.rootDirectory;
+    const rootWithSep = normalizedRoot.endsWith(path.sep)
+      ? normalizedRoot
+      : normalizedRoot + path.sep;
+    return (
+      normalizedPath === normalizedRoot ||
+      normalizedPath.startsWith(rootWithSep)
+    );
+  }
+
+  /**
+   * Parses the patch and resolves the paths in it against the root directory.
+   * @throws Error if the patch is malformed or names a path outside the root.
+   */
+  private parsePatch(patch: string): FilePatch[] {
+    const filePatches = parseUnifiedDiff(patch);
+    const resolve = (filePath: string | null) => {
+      if (filePath === null) {
+        return null;
+      }
+      const absolutePath = path.resolve(this.rootDirectory, filePath);
+      if (!this.isWithinRoot(absolutePath)) {
+        throw new Error(
+          `File path must be within the root directory (${this.rootDirectory}): ${filePath}`,
+        );
+      }
+      return absolutePath;
+    };
+    return filePatches.map((filePatch) => ({
+      ...filePatch,
+      oldPath: resolve(filePatch.oldPath),
+      newPath: resolve(filePatch.newPath),
+    }));
+  }
+
+  /**
+   * Validates the parameters for the ApplyPatch tool
+   * @param params Parameters to validate
+   * @returns Error message string or null if valid
+   */
+  validateToolParams(params: ApplyPatchToolParams): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+    try {
+      this.parsePatch(params.patch);
+    } catch (error) {
+      return `Invalid patch: ${getErrorMessage(error)}`;
+    }
+    return null;
+  }
+
+  private relative(filePath: string): string {
+    return makeRelative(filePath, this.rootDirectory);
+  }
+
+  /**
+   * Applies the patch in memory, without writing any file.
+   * @throws File system errors if reading a file fails unexpectedly
+   */
+  private calculatePatch(params: ApplyPatchToolParams): CalculatedPatch {
+    // The content of the files as changed by the file patches so far, or
+    // null for files that do not exist after them.
+    const contents = new Map<string, string | null>();
+    const readFile = (filePath: string): string | null => {
+      if (contents.has(filePath)) {
+        return contents.get(filePath)!;
+      }
+      try {
+        // Normalize line endings to LF for consistent processing.
+        return fs.readFileSync(filePath, 'utf8').replace(/\r\n/g, '\n');
+      } catch (err: unknown) {
+        if (!isNodeError(err) || err.code !== 'ENOENT') {
+          // Rethrow unexpected FS errors (permissions, etc.)
+          throw err;
+        }
+        return null;
+      }
+    };
+
+    const result: CalculatedPatch = { changes: [], failures: [], notes: [] };
+    for (const { oldPath, newPath, hunks } of this.parsePatch(params.patch)) {
+      const displayPath = this.relative((newPath ?? oldPath)!);
+      let originalContent = '';
+      if (oldPath !== null) {
+        const content = readFile(oldPath);
+        if (content === null) {
+          result.failures.push(
+            `${this.relative(oldPath)}: The file does not exist.`,
+          );
+          continue;
+        }
+        originalContent = content;
+      }
+      if (
+        newPath !== null &&
+        newPath !== oldPath &&
+        readFile(newPath) !== null
+      ) {
+        result.failures.push(`${displayPath}: The file already exists.`);
+        continue;
+      }
+
+      const applied = applyHunks(originalContent, hunks);
+      for (const failure of applied.failures) {
+        result.failures.push(
+          `${displayPath}: Hunk ${failure.hunk} (${failure.header}) failed. ${failure.reason}`,
+        );
+      }
+      for (const fuzz of applied.fuzz) {
+        const details = [
+          ...(fuzz.offset !== 0 ? [`offset ${fuzz.offset} lines`] : []),
+          ...(fuzz.fuzz > 0 ? [`fuzz ${fuzz.fuzz}`] : []),
+          ...(fuzz.ignoredWhitespace ? ['ignoring whitespace'] : []),
+        ];
+        result.notes.push(
+          `${displayPath}: Hunk ${fuzz.hunk} was applied at line ${fuzz.line} (${details.join(', ')}).`,
+        );
+      }
+      if (applied.failures.length > 0) {
+        continue;
+      }
+
+      if (oldPath !== null) {
+        contents.set(oldPath, null);
+      }
+      if (newPath !== null) {
+        contents.set(newPath, applied.content);
+      }
+      result.changes.push({
+        oldPath,
+        newPath,
+        originalContent,
+        newContent: newPath !== null ? applied.content : '',
+      });
+    }
+    return result;
+  }
+
+  private describeChange(change: FileChange): string {
+    if (change.oldPath === null) {
+      return `created ${this.relative(change.newPath!)}`;
+    }
+    if (change.newPath === null) {
+      return `deleted ${this.relative(change.oldPath)}`;
+    }
+    if (change.oldPath !== change.newPath) {
+      return `renamed ${this.relative(change.oldPath)} to ${this.relative(change.newPath)}`;
+    }
+    return `modified ${this.relative(change.newPath)}`;
+  }
+
+  private createDiff(changes: FileChange[]): string {
+    return changes
+      .map((change) => {
+        const fileName =
+          change.oldPath !== null &&
+          change.newPath !== null &&
+          change.oldPath !== change.newPath
+            ? `${this.relative(change.oldPath)} → ${this.relative(change.newPath)}`
+            : this.relative((change.newPath ?? change.oldPath)!);
+        return Diff.createPatch(
+          fileName,
+          change.originalContent,
+          change.newContent,
+          'Current',
+          'Proposed',
+          DEFAULT_DIFF_OPTIONS,
+        );
+      })
+      .join('');
+  }
+
+  private getFileName(changes: FileChange[]): string {
+    return path.basename((changes[0].newPath ?? changes[0].oldPath)!);
+  }
+
+  /**
+   * Handles the confirmation prompt for the ApplyPatch tool in the CLI,
+   * showing one diff that covers every file.
+   */
+  async shouldConfirmExecute(
+    params: ApplyPatchToolParams,
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.config.getApprovalMode() === ApprovalMode.AUTO_EDIT) {
+      return false;
+    }
+    if (this.validateToolParams(params)) {
+      return false; // skip confirmation, execute call will fail immediately
+    }
+
+    let patchData: CalculatedPatch;
+    try {
+      patchData = this.calculatePatch(params);
+    } catch (error) {
+      console.log(`Error preparing patch: ${getErrorMessage(error)}`);
+      return false;
+    }
+    if (patchData.failures.length > 0) {
+      return false; // execute call reports the failures
+    }
+
+    const { changes } = patchData;
+    const confirmationDetails: ToolEditConfirmationDetails = {
+      type: 'edit',
+      title: `Confirm Patch: ${changes.length === 1 ? shortenPath(this.relative((changes[0].newPath ?? changes[0].oldPath)!)) : `${changes.length} files`}`,
+      fileName: this.getFileName(changes),
+      fileDiff: this.createDiff(changes),
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          this.config.setApprovalMode(ApprovalMode.AUTO_EDIT);
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+
+  getEffects(params: ApplyPatchToolParams): ToolEffects {
+    return {
+      writes: this.parsePatch(params.patch).flatMap(({ oldPath, newPath }) =>
+        [...new Set([oldPath, newPath])].filter((p): p is string => p !== null),
+      ),
+    };
+  }
+
+  getDescription(params: ApplyPatchToolParams): string {
+    try {
+      const filePaths = new Set(
+        this.parsePatch(params.patch).map(({ oldPath, newPath }) =>
+          shortenPath(this.relative((newPath ?? oldPath)!)),
+        ),
+      );
+      return [...filePaths].join(', ');
+    } catch {
+      return `Model did not provide a valid patch`;
+    }
+  }
+
+  /**
+   * Applies the patch, writing all changed files only if every hunk applies.
+   * @param params Parameters for the patch
+   * @returns Result of applying the patch
+   */
+  async execute(
+    params: ApplyPatchToolParams,
+    _signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return {
+        llmContent: `Error: Invalid parameters provided. Reason: ${validationError}`,
+        returnDisplay: `Error: ${validationError}`,
+      };
+    }
+
+    let patchData: CalculatedPatch;
+    try {
+      patchData = this.calculatePatch(params);
+    } catch (error) {
+      const errorMsg = getErrorMessage(error);
+      return {
+        llmContent: `Error preparing patch: ${errorMsg}`,
+        returnDisplay: `Error preparing patch: ${errorMsg}`,
+      };
+    }
+
+    if (patchData.failures.length > 0) {
+      const failureTerm =
+        patchData.failures.length === 1 ? 'failure' : 'failures';
+      return {
+        llmContent: [
+          `Failed to apply the patch, so no files were changed. ${patchData.failures.length} ${failureTerm}:`,
+          ...patchData.failures.map((failure) => `- ${failure}`),
+          `Use the ${ReadFileTool.Name} tool to check the current content of these files, then send a corrected patch with all of the changes.`,
+        ].join('\n'),
+        returnDisplay: `Error: Failed to apply the patch.\n${patchData.failures.join('\n')}`,
+      };
+    }
+
+    try {
+      this.writeChanges(patchData.changes);
+      for (const change of patchData.changes) {
+        if (change.newPath !== null) {
+          this.config.getLspManager().didWriteFile(change.newPath);
+        }
+      }
+    } catch (error) {
+      const errorMsg = getErrorMessage(error);
+      return {
+        llmContent: `Error executing patch: ${errorMsg}. No files were changed.`,
+        returnDisplay: `Error writing files: ${errorMsg}`,
+      };
+    }
+
+    const llmSuccessMessageParts = [
+      `Successfully applied the patch: ${patchData.changes.map((change) => this.describeChange(change)).join(', ')}.`,
+      ...patchData.notes,
+    ];
+    if (params.modified_by_user) {
+      llmSuccessMessageParts.push(
+        `User modified the patch to be:\n${params.patch}`,
+      );
+    }
+    return {
+      llmContent: llmSuccessMessageParts.join('\n'),
+      returnDisplay: {
+        fileDiff: this.createDiff(patchData.changes),
+        fileName: this.getFileName(patchData.changes),
+      },
+    };
+  }
+
+  /**
+   * Writes the changed files and removes deleted and renamed ones. If that
+   * fails, the files written so far are put back.
+   */
+  private writeChanges(changes: FileChange[]): void {
+    // The content of each file touched so far before it was, or null if it
+    // did not exist.
+    const previousContents = new Map<string, string | null>();
+    const remember = (filePath: string, content: string | null) => {
+      if (!previousContents.has(filePath)) {
+        previousContents.set(filePath, content);
+      }
+    };
+
+    try {
+      for (const change of changes) {
+        if (change.newPath !== null) {
+          remember(
+            change.newPath,
+            change.oldPath === change.newPath ? change.originalContent : null,
+          );
+          fs.mkdirSync(path.dirname(change.newPath), { recursive: true });
+          fs.writeFileSync(change.newPath, change.newContent, 'utf8');
+        }
+      }
+      for (const change of changes) {
+        if (change.oldPath !== null && change.oldPath !== change.newPath) {
+          remember(change.oldPath, change.originalContent);
+          fs.rmSync(change.oldPath, { force: true });
+        }
+      }
+    } catch (error) {
+      for (const [filePath, content] of previousContents) {
+        try {
+          if (content === null) {
+            fs.rmSync(filePath, { force: true });
+          } else {
+            fs.writeFileSync(filePath, content, 'utf8');
+          }
+        } catch {
+          // Report the original error.
+        }
+      }
+      throw error;
+    }
+  }
+
+  getModifyContext(_: AbortSignal): ModifyContext<ApplyPatchToolParams> {
+    return {
+      // The patch is edited as a whole, so the editor gets a .patch file.
+      getFilePath: () => path.join(this.rootDirectory, 'changes.patch'),
+      getCurrentContent: async (params: ApplyPatchToolParams) => params.patch,
+      getProposedContent: async (params: ApplyPatchToolParams) => params.patch,
+      createUpdatedParams: (
+        _oldContent: string,
+        modifiedProposedContent: string,
+        originalParams: ApplyPatchToolParams,
+      ): ApplyPatchToolParams => ({
+        ...originalParams,
+        patch: modifiedProposedContent,
+        modified_by_user: true,
+      }),
+      getUpdatedDiff: (updatedParams: ApplyPatchToolParams): string => {
+        // Show the files as the modified patch would change them, or the
+        // patch itself if it no longer applies.
+        try {
+          const { changes, failures } = this.calculatePatch(updatedParams);
+          if (failures.length === 0) {
+            return this.createDiff(changes);
+          }
+        } catch {
+          // Fall through to the patch itself.
+        }
+        return updatedParams.patch;
+      },
+    };
+  }
+}
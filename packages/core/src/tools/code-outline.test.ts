@@ -0,0 +1,86 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { CodeOutlineTool } from './code-outline.js';
+import { Config } from '../config/config.js';
+import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
+
+describe('CodeOutlineTool', () => {
+  let tool: CodeOutlineTool;
+  let tempDir: string;
+  const abortSignal = new AbortController().signal;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'code-outline-test-'));
+    fs.mkdirSync(path.join(tempDir, 'src'));
+    fs.writeFileSync(
+      path.join(tempDir, 'src', 'math.ts'),
+      'export class Calculator {\n  add(a: number, b: number) {\n    return a + b;\n  }\n}\n',
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'src', 'main.py'),
+      'def main():\n    pass\n',
+    );
+    fs.writeFileSync(path.join(tempDir, 'src', 'notes.txt'), 'notes\n');
+
+    tool = new CodeOutlineTool({
+      getTargetDir: () => tempDir,
+      getFileService: () => new FileDiscoveryService(tempDir),
+    } as unknown as Config);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should reject paths outside the root directory', () => {
+    expect(tool.validateToolParams({ path: '/etc/passwd' })).toBe(
+      `Path must be within the root directory (${tempDir}): /etc/passwd`,
+    );
+  });
+
+  it('should outline a file', async () => {
+    const filePath = path.join(tempDir, 'src', 'math.ts');
+    const result = await tool.execute({ path: filePath }, abortSignal);
+
+    expect(result.llmContent).toBe(
+      `Outline of ${filePath}:\nexport class Calculator (L1-5)\n  method add (L2-4)`,
+    );
+  });
+
+  it('should outline each source file in a directory', async () => {
+    const result = await tool.execute({ path: tempDir }, abortSignal);
+
+    expect(result.llmContent).toBe(
+      [
+        `Outline of 2 file(s) in ${tempDir}:`,
+        '',
+        'src/main.py:',
+        '  export function main (L1-2)',
+        '',
+        'src/math.ts:',
+        '  export class Calculator (L1-5)',
+        '    method add (L2-4)',
+      ].join('\n'),
+    );
+    expect(result.returnDisplay).toBe('Outlined 2 file(s).');
+  });
+
+  it('should report unsupported languages', async () => {
+    const result = await tool.execute(
+      { path: path.join(tempDir, 'src', 'notes.txt') },
+      abortSignal,
+    );
+
+    expect(result.llmContent).toMatch(
+      /only TypeScript, JavaScript, Python, Go and Java files are supported/,
+    );
+  });
+});
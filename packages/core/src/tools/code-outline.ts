@@ -0,0 +1,163 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Type } from '@google/genai';
+import { BaseTool, ToolEffects, ToolResult } from './tools.js';
+import { Config } from '../config/config.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { isWithinRoot } from '../utils/fileUtils.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import {
+  findOutlineFiles,
+  formatOutline,
+  getOutlineLanguage,
+  MAX_OUTLINE_FILE_BYTES,
+  outlineSource,
+} from '../utils/codeOutline.js';
+
+/** Files of a directory that are outlined at most. */
+const MAX_DIRECTORY_FILES = 50;
+
+export interface CodeOutlineToolParams {
+  /**
+   * The absolute path to a file or directory
+   */
+  path: string;
+}
+
+/**
+ * Lists the declarations of a source file, or of the source files in a
+ * directory, with their line ranges, so that the model can read just the
+ * parts of a file it needs.
+ */
+export class CodeOutlineTool extends BaseTool<
+  CodeOutlineToolParams,
+  ToolResult
+> {
+  static readonly Name = 'code_outline';
+  private readonly rootDirectory: string;
+
+  constructor(private readonly config: Config) {
+    super(
+      CodeOutlineTool.Name,
+      'CodeOutline',
+      `Lists the classes, interfaces, functions, methods, types and other declarations of a source file with their line ranges, or of each source file in a directory. Exported (public) top-level symbols are marked with 'export'. Supports TypeScript, JavaScript, Python, Go and Java. Use it to get an overview of a file before reading it, then read only the lines you need with 'read_file' and its 'offset' and 'limit' parameters.`,
+      {
+        properties: {
+          path: {
+            description:
+              "The absolute path to the file or directory to outline. Must start with '/'. Directories are searched recursively, respecting .gitignore and .geminiignore.",
+            type: Type.STRING,
+          },
+        },
+        required: ['path'],
+        type: Type.OBJECT,
+      },
+    );
+    this.rootDirectory = path.resolve(this.config.getTargetDir());
+  }
+
+  validateToolParams(params: CodeOutlineToolParams): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+    if (!path.isAbsolute(params.path)) {
+      return `Path must be absolute: ${params.path}`;
+    }
+    if (!isWithinRoot(params.path, this.rootDirectory)) {
+      return `Path must be within the root directory (${this.rootDirectory}): ${params.path}`;
+    }
+    return null;
+  }
+
+  getEffects(params: CodeOutlineToolParams): ToolEffects {
+    return { reads: [params.path] };
+  }
+
+  getDescription(params: CodeOutlineToolParams): string {
+    if (!params.path) {
+      return 'Path unavailable';
+    }
+    return shortenPath(makeRelative(params.path, this.rootDirectory));
+  }
+
+  /** Outlines a file. */
+  private async outlineFile(filePath: string): Promise<string> {
+    const stats = await fs.stat(filePath);
+    if (stats.size > MAX_OUTLINE_FILE_BYTES) {
+      return `(not outlined: the file is larger than ${MAX_OUTLINE_FILE_BYTES / 1024} KB)`;
+    }
+    const symbols = await outlineSource(
+      filePath,
+      await fs.readFile(filePath, 'utf-8'),
+    );
+    return symbols?.length ? formatOutline(symbols) : '(no declarations)';
+  }
+
+  async execute(
+    params: CodeOutlineToolParams,
+    signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return {
+        llmContent: `Error: Invalid parameters provided. Reason: ${validationError}`,
+        returnDisplay: validationError,
+      };
+    }
+
+    try {
+      const stats = await fs.stat(params.path);
+      if (stats.isFile()) {
+        if (!getOutlineLanguage(params.path)) {
+          return {
+            llmContent: `Error: Can't outline ${params.path}: only TypeScript, JavaScript, Python, Go and Java files are supported.`,
+            returnDisplay: 'Error: Unsupported language.',
+          };
+        }
+        return {
+          llmContent: `Outline of ${params.path}:\n${await this.outlineFile(params.path)}`,
+          returnDisplay: 'Outlined 1 file.',
+        };
+      }
+
+      const files = await findOutlineFiles(
+        params.path,
+        this.config.getFileService(),
+        signal,
+      );
+      if (files.length === 0) {
+        return {
+          llmContent: `No TypeScript, JavaScript, Python, Go or Java files found in ${params.path}.`,
+          returnDisplay: 'No source files found.',
+        };
+      }
+      const outlines: string[] = [];
+      for (const file of files.slice(0, MAX_DIRECTORY_FILES)) {
+        const outline = await this.outlineFile(path.join(params.path, file));
+        outlines.push(`${file}:\n${outline.replace(/^/gm, '  ')}`);
+      }
+      let llmContent = `Outline of ${Math.min(files.length, MAX_DIRECTORY_FILES)} file(s) in ${params.path}:\n\n${outlines.join('\n\n')}`;
+      if (files.length > MAX_DIRECTORY_FILES) {
+        llmContent += `\n\n${files.length - MAX_DIRECTORY_FILES} more file(s) were not outlined; outline a subdirectory to see them.`;
+      }
+      return {
+        llmContent,
+        returnDisplay: `Outlined ${outlines.length} file(s).`,
+      };
+    } catch (error) {
+      const message = getErrorMessage(error);
+      return {
+        llmContent: `Error: Failed to outline ${params.path}: ${message}`,
+        returnDisplay: `Error: ${message}`,
+      };
+    }
+  }
+}
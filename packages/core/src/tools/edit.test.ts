@@ -39,6 +39,7 @@ describe('EditTool', () => {
   let rootDir: string;
   let mockConfig: Config;
   let geminiClient: any;
+  let mockDidWriteFile: Mock;
 
   beforeEach(() => {
     tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'edit-tool-test-'));
@@ -48,12 +49,14 @@ describe('EditTool', () => {
     geminiClient = {
       generateJson: mockGenerateJson, // mockGenerateJson is already defined and hoisted
     };
+    mockDidWriteFile = vi.fn();
 
     mockConfig = {
       getGeminiClient: vi.fn().mockReturnValue(geminiClient),
       getTargetDir: () => rootDir,
       getApprovalMode: vi.fn(),
       setApprovalMode: vi.fn(),
+      getLspManager: () => ({ didWriteFile: mockDidWriteFile }),
       // getGeminiConfig: () => ({ apiKey: 'test-api-key' }), // This was not a real Config method
       // Add other properties/methods of Config if EditTool uses them
       // Minimal other methods to satisfy Config type if needed by EditTool constructor or other direct uses:
@@ -219,6 +222,17 @@ describe('EditTool', () => {
         /File path must be within the root directory/,
       );
     });
+
+    it('should point to the notebook tool for notebooks', () => {
+      const params: EditToolParams = {
+        file_path: path.join(rootDir, 'analysis.ipynb'),
+        old_string: 'old',
+        new_string: 'new',
+      };
+      expect(tool.validateToolParams(params)).toMatch(
+        /use the notebook_edit tool to edit their cells/,
+      );
+    });
   });
 
   describe('shouldConfirmExecute', () => {
@@ -436,6 +450,7 @@ describe('EditTool', () => {
       expect(display.fileDiff).toMatch(initialContent);
       expect(display.fileDiff).toMatch(newContent);
       expect(display.fileName).toBe(testFile);
+      expect(mockDidWriteFile).toHaveBeenCalledWith(filePath);
     });
 
     it('should create a new file if old_string is empty and file does not exist, and return created message', async () => {
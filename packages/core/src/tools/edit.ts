@@ -14,6 +14,7 @@ import {
   ToolEditConfirmationDetails,
   ToolResult,
   ToolResultDisplay,
+  ToolEffects,
 } from './tools.js';
 import { Type } from '@google/genai';
 import { SchemaValidator } from '../utils/schemaValidator.js';
@@ -23,6 +24,7 @@ import { Config, ApprovalMode } from '../config/config.js';
 import { ensureCorrectEdit } from '../utils/editCorrector.js';
 import { DEFAULT_DIFF_OPTIONS } from './diffOptions.js';
 import { ReadFileTool } from './read-file.js';
+import { NotebookEditTool } from './notebook-edit.js';
 import { ModifiableTool, ModifyContext } from './modifiable-tool.js';
 
 /**
@@ -160,6 +162,10 @@ Expectation for required parameters:
       return `File path must be within the root directory (${this.rootDirectory}): ${params.file_path}`;
     }
 
+    if (path.extname(params.file_path).toLowerCase() === '.ipynb') {
+      return `Jupyter notebooks can't be edited as text; use the ${NotebookEditTool.Name} tool to edit their cells: ${params.file_path}`;
+    }
+
     return null;
   }
 
@@ -337,6 +343,10 @@ Expectation for required parameters:
     return confirmationDetails;
   }
 
+  getEffects(params: EditToolParams): ToolEffects {
+    return { writes: [params.file_path] };
+  }
+
   getDescription(params: EditToolParams): string {
     if (!params.file_path || !params.old_string || !params.new_string) {
       return `Model did not provide valid parameters for edit tool`;
@@ -397,6 +407,7 @@ Expectation for required parameters:
     try {
       this.ensureParentDirectoriesExist(params.file_path);
       fs.writeFileSync(params.file_path, editData.newContent, 'utf8');
+      this.config.getLspManager().didWriteFile(params.file_path);
 
       let displayResult: ToolResultDisplay;
       if (editData.isNewFile) {
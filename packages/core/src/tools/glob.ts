@@ -8,7 +8,7 @@ import fs from 'fs';
 import path from 'path';
 import { glob } from 'glob';
 import { SchemaValidator } from '../utils/schemaValidator.js';
-import { BaseTool, ToolResult } from './tools.js';
+import { BaseTool, ToolEffects, ToolResult } from './tools.js';
 import { Type } from '@google/genai';
 import { shortenPath, makeRelative } from '../utils/paths.js';
 import { Config } from '../config/config.js';
@@ -186,6 +186,10 @@ export class GlobTool extends BaseTool<GlobToolParams, ToolResult> {
   /**
    * Gets a description of the glob operation.
    */
+  getEffects(params: GlobToolParams): ToolEffects {
+    return { reads: [path.resolve(this.rootDirectory, params.path || '.')] };
+  }
+
   getDescription(params: GlobToolParams): string {
     let description = `'${params.pattern}'`;
     if (params.path) {
@@ -9,6 +9,8 @@ import { GrepTool, GrepToolParams } from './grep.js';
 import path from 'path';
 import fs from 'fs/promises';
 import os from 'os';
+import { Config } from '../config/config.js';
+import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
 
 // Mock the child_process module to control grep/git grep behavior
 vi.mock('child_process', () => ({
@@ -32,7 +34,10 @@ describe('GrepTool', () => {
 
   beforeEach(async () => {
     tempRootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'grep-tool-root-'));
-    grepTool = new GrepTool(tempRootDir);
+    grepTool = new GrepTool(tempRootDir, {
+      getFileService: () => new FileDiscoveryService(tempRootDir),
+      getFileFilteringRespectGitIgnore: () => true,
+    } as unknown as Config);
 
     // Create some test files and directories
     await fs.writeFile(
@@ -101,6 +106,15 @@ describe('GrepTool', () => {
       expect(grepTool.validateToolParams(params)).toContain('nonexistent');
     });
 
+    it('should return error for negative context or results', () => {
+      expect(
+        grepTool.validateToolParams({ pattern: 'hello', before_context: -1 }),
+      ).toBe('before_context must be a whole number of 0 or more.');
+      expect(
+        grepTool.validateToolParams({ pattern: 'hello', max_results: 0 }),
+      ).toBe('max_results must be a whole number of 1 or more.');
+    });
+
     it('should return error if path is a file, not a directory', async () => {
       const filePath = path.join(tempRootDir, 'fileA.txt');
       const params: GrepToolParams = { pattern: 'hello', path: filePath };
@@ -201,6 +215,91 @@ describe('GrepTool', () => {
       );
     });
 
+    it('should match case-sensitively when requested', async () => {
+      const result = await grepTool.execute(
+        { pattern: 'HELLO', case_sensitive: true },
+        abortSignal,
+      );
+      expect(result.returnDisplay).toBe('No matches found');
+    });
+
+    it('should show context lines around the matches', async () => {
+      await fs.writeFile(
+        path.join(tempRootDir, 'context.txt'),
+        'one\n  two\nthree target\nfour\nfive\nsix\nseven target\n',
+      );
+      const result = await grepTool.execute(
+        { pattern: 'target', before_context: 1, after_context: 1 },
+        abortSignal,
+      );
+      expect(result.llmContent).toContain(
+        'File: context.txt\nL2-   two\nL3: three target\nL4- four\n--\nL6- six\nL7: seven target\nL8- \n---',
+      );
+    });
+
+    it('should find matches across lines in multiline mode', async () => {
+      const result = await grepTool.execute(
+        { pattern: 'bar";\\nfunction', multiline: true },
+        abortSignal,
+      );
+      expect(result.llmContent).toBe(
+        'Found 1 match for pattern "bar";\\nfunction" in path ".":\n---\nFile: fileB.js\nL1: const foo = "bar";\nL2: function baz() { return "hello"; }\n---',
+      );
+    });
+
+    it('should limit the matches and report the truncation', async () => {
+      const result = await grepTool.execute(
+        { pattern: 'world', max_results: 2 },
+        abortSignal,
+      );
+      expect(result.llmContent).toContain('L2: second line with world');
+      expect(result.llmContent).not.toContain('File: sub/fileC.txt');
+      expect(result.llmContent).toContain(
+        'Showing the first 2 of 3 matches. Narrow the search with path, include or exclude, or raise max_results, to see the rest.',
+      );
+      expect(result.returnDisplay).toBe('Found 3 matches (showing 2)');
+    });
+
+    it('should skip files matching the exclude glob', async () => {
+      const result = await grepTool.execute(
+        { pattern: 'world', exclude: 'sub/**' },
+        abortSignal,
+      );
+      expect(result.llmContent).toContain(
+        'Found 2 matches for pattern "world" in path "." (excluding: "sub/**")',
+      );
+      expect(result.llmContent).not.toContain('fileC.txt');
+    });
+
+    it('should skip files ignored by .geminiignore', async () => {
+      await fs.writeFile(path.join(tempRootDir, '.geminiignore'), 'sub/\n');
+      const result = await grepTool.execute({ pattern: 'world' }, abortSignal);
+      expect(result.returnDisplay).toBe('Found 2 matches');
+      expect(result.llmContent).not.toContain('fileC.txt');
+    });
+
+    it('should list only the files with matches', async () => {
+      const result = await grepTool.execute(
+        { pattern: 'world', output_mode: 'files_with_matches' },
+        abortSignal,
+      );
+      expect(result.llmContent).toBe(
+        `Found 2 files with matches for pattern "world" in path ".":\nfileA.txt\n${path.join('sub', 'fileC.txt')}`,
+      );
+      expect(result.returnDisplay).toBe('Found 2 files');
+    });
+
+    it('should count the matches per file', async () => {
+      const result = await grepTool.execute(
+        { pattern: 'world', output_mode: 'count' },
+        abortSignal,
+      );
+      expect(result.llmContent).toBe(
+        `Found 3 matches in 2 files for pattern "world" in path ".":\nfileA.txt: 2\n${path.join('sub', 'fileC.txt')}: 1`,
+      );
+      expect(result.returnDisplay).toBe('Found 3 matches in 2 files');
+    });
+
     it('should return an error if params are invalid', async () => {
       const params = { path: '.' } as unknown as GrepToolParams; // Invalid: pattern missing
       const result = await grepTool.execute(params, abortSignal);
@@ -10,12 +10,17 @@ import path from 'path';
 import { EOL } from 'os';
 import { spawn } from 'child_process';
 import { globStream } from 'glob';
-import { BaseTool, ToolResult } from './tools.js';
+import micromatch from 'micromatch';
+import { BaseTool, ToolEffects, ToolResult } from './tools.js';
 import { Type } from '@google/genai';
 import { SchemaValidator } from '../utils/schemaValidator.js';
 import { makeRelative, shortenPath } from '../utils/paths.js';
 import { getErrorMessage, isNodeError } from '../utils/errors.js';
 import { isGitRepository } from '../utils/gitUtils.js';
+import { Config } from '../config/config.js';
+
+/** Matches, or files in the other output modes, that are listed by default. */
+const DEFAULT_MAX_RESULTS = 100;
 
 // --- Interfaces ---
 
@@ -37,17 +42,68 @@ export interface GrepToolParams {
    * File pattern to include in the search (e.g. "*.js", "*.{ts,tsx}")
    */
   include?: string;
+
+  /**
+   * File pattern to exclude from the search (e.g. "*.test.ts", "dist/**")
+   */
+  exclude?: string;
+
+  /**
+   * Whether the pattern is case sensitive (defaults to false)
+   */
+  case_sensitive?: boolean;
+
+  /**
+   * Whether the pattern may match across lines (defaults to false)
+   */
+  multiline?: boolean;
+
+  /**
+   * Lines to show before and after each match (defaults to 0)
+   */
+  before_context?: number;
+  after_context?: number;
+
+  /**
+   * Matches, or files in the other output modes, to list at most
+   */
+  max_results?: number;
+
+  /**
+   * What to list: the matching lines, the files with matches, or the number
+   * of matches per file (defaults to 'matches')
+   */
+  output_mode?: GrepOutputMode;
 }
 
+export type GrepOutputMode = 'matches' | 'files_with_matches' | 'count';
+
 /**
  * Result object for a single grep match
  */
 interface GrepMatch {
   filePath: string;
   lineNumber: number;
+  /** The matching line, or the lines spanned by a multiline match. */
   line: string;
 }
 
+/** Counts the line breaks in text between two offsets. */
+function countLineBreaks(text: string, start = 0, end = text.length): number {
+  let count = 0;
+  for (let i = text.indexOf('\n', start); i !== -1 && i < end; ) {
+    count++;
+    i = text.indexOf('\n', i + 1);
+  }
+  return count;
+}
+
+function truncationNotice(shown: number, total: number, unit: string): string {
+  return shown < total
+    ? `\n---\nShowing the first ${shown} of ${total} ${unit}. Narrow the search with path, include or exclude, or raise max_results, to see the rest.`
+    : '';
+}
+
 // --- GrepLogic Class ---
 
 /**
@@ -59,12 +115,16 @@ export class GrepTool extends BaseTool<GrepToolParams, ToolResult> {
   /**
    * Creates a new instance of the GrepLogic
    * @param rootDirectory Root directory to ground this tool in. All operations will be restricted to this directory.
+   * @param config Provides the file filtering of the project, so that ignored files are never searched.
    */
-  constructor(private rootDirectory: string) {
+  constructor(
+    private rootDirectory: string,
+    private readonly config: Config,
+  ) {
     super(
       GrepTool.Name,
       'SearchText',
-      'Searches for a regular expression pattern within the content of files in a specified directory (or current working directory). Can filter files by a glob pattern. Returns the lines containing matches, along with their file paths and line numbers.',
+      'Searches for a regular expression pattern within the content of files in a specified directory (or current working directory). Can filter files by include and exclude glob patterns. Returns the lines containing matches, along with their file paths and line numbers, or only the files with matches or the number of matches per file. Files ignored by .gitignore or .geminiignore are not searched.',
       {
         properties: {
           pattern: {
@@ -82,6 +142,41 @@ export class GrepTool extends BaseTool<GrepToolParams, ToolResult> {
               "Optional: A glob pattern to filter which files are searched (e.g., '*.js', '*.{ts,tsx}', 'src/**'). If omitted, searches all files (respecting potential global ignores).",
             type: Type.STRING,
           },
+          exclude: {
+            description:
+              "Optional: A glob pattern of files not to search (e.g., '*.test.ts', 'dist/**'). A pattern without a slash matches file names in any directory.",
+            type: Type.STRING,
+          },
+          case_sensitive: {
+            description:
+              'Optional: Whether the search is case-sensitive. Defaults to false.',
+            type: Type.BOOLEAN,
+          },
+          multiline: {
+            description:
+              "Optional: Whether the pattern may match across lines, e.g. 'interface Foo \\{[^}]*bar'. `.` still does not match line breaks; use '[\\s\\S]' for that. Slower than a normal search. Defaults to false.",
+            type: Type.BOOLEAN,
+          },
+          before_context: {
+            description:
+              "Optional: Lines to show before each match, marked with '-' instead of ':' after the line number. Only for the 'matches' output mode. Defaults to 0.",
+            type: Type.NUMBER,
+          },
+          after_context: {
+            description:
+              "Optional: Lines to show after each match, marked with '-' instead of ':' after the line number. Only for the 'matches' output mode. Defaults to 0.",
+            type: Type.NUMBER,
+          },
+          max_results: {
+            description: `Optional: The number of matches, or of files in the other output modes, to list at most. The total is always reported. Defaults to ${DEFAULT_MAX_RESULTS}.`,
+            type: Type.NUMBER,
+          },
+          output_mode: {
+            description:
+              "Optional: 'matches' lists the matching lines, 'files_with_matches' lists only the paths of the files with matches, and 'count' lists the number of matches per file. Defaults to 'matches'.",
+            type: Type.STRING,
+            enum: ['matches', 'files_with_matches', 'count'],
+          },
         },
         required: ['pattern'],
         type: Type.OBJECT,
@@ -142,11 +237,24 @@ export class GrepTool extends BaseTool<GrepToolParams, ToolResult> {
     }
 
     try {
-      new RegExp(params.pattern);
+      new RegExp(params.pattern, params.multiline ? 'gm' : '');
     } catch (error) {
       return `Invalid regular expression pattern provided: ${params.pattern}. Error: ${getErrorMessage(error)}`;
     }
 
+    for (const key of ['before_context', 'after_context'] as const) {
+      const value = params[key];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        return `${key} must be a whole number of 0 or more.`;
+      }
+    }
+    if (
+      params.max_results !== undefined &&
+      (!Number.isInteger(params.max_results) || params.max_results < 1)
+    ) {
+      return 'max_results must be a whole number of 1 or more.';
+    }
+
     try {
       this.resolveAndValidatePath(params.path);
     } catch (error) {
@@ -175,57 +283,101 @@ export class GrepTool extends BaseTool<GrepToolParams, ToolResult> {
       };
     }
 
-    let searchDirAbs: string;
     try {
-      searchDirAbs = this.resolveAndValidatePath(params.path);
+      const searchDirAbs = this.resolveAndValidatePath(params.path);
       const searchDirDisplay = params.path || '.';
+      const outputMode = params.output_mode ?? 'matches';
+      const maxResults = params.max_results ?? DEFAULT_MAX_RESULTS;
+      let searchDescription = `pattern "${params.pattern}" in path "${searchDirDisplay}"`;
+      if (params.include) {
+        searchDescription += ` (filter: "${params.include}")`;
+      }
+      if (params.exclude) {
+        searchDescription += ` (excluding: "${params.exclude}")`;
+      }
 
-      const matches: GrepMatch[] = await this.performGrepSearch({
-        pattern: params.pattern,
-        path: searchDirAbs,
-        include: params.include,
-        signal,
-      });
+      const matches = this.filterMatches(
+        await this.performGrepSearch({
+          pattern: params.pattern,
+          path: searchDirAbs,
+          include: params.include,
+          exclude: params.exclude,
+          caseSensitive: params.case_sensitive ?? false,
+          multiline: params.multiline ?? false,
+          signal,
+        }),
+        searchDirAbs,
+        params.exclude,
+      );
 
       if (matches.length === 0) {
-        const noMatchMsg = `No matches found for pattern "${params.pattern}" in path "${searchDirDisplay}"${params.include ? ` (filter: "${params.include}")` : ''}.`;
+        const noMatchMsg = `No matches found for ${searchDescription}.`;
         return { llmContent: noMatchMsg, returnDisplay: `No matches found` };
       }
 
-      const matchesByFile = matches.reduce(
-        (acc, match) => {
-          const relativeFilePath =
-            path.relative(
-              searchDirAbs,
-              path.resolve(searchDirAbs, match.filePath),
-            ) || path.basename(match.filePath);
-          if (!acc[relativeFilePath]) {
-            acc[relativeFilePath] = [];
-          }
-          acc[relativeFilePath].push(match);
-          acc[relativeFilePath].sort((a, b) => a.lineNumber - b.lineNumber);
-          return acc;
-        },
-        {} as Record<string, GrepMatch[]>,
-      );
+      const matchesByFile = new Map<string, GrepMatch[]>();
+      for (const match of matches) {
+        const fileMatches = matchesByFile.get(match.filePath) ?? [];
+        fileMatches.push(match);
+        matchesByFile.set(match.filePath, fileMatches);
+      }
+      const filePaths = [...matchesByFile.keys()].sort();
+      for (const fileMatches of matchesByFile.values()) {
+        fileMatches.sort((a, b) => a.lineNumber - b.lineNumber);
+      }
 
       const matchCount = matches.length;
       const matchTerm = matchCount === 1 ? 'match' : 'matches';
+      const fileTerm = filePaths.length === 1 ? 'file' : 'files';
+      const shownFiles = filePaths.slice(0, maxResults);
+      const showing = (shown: number, total: number) =>
+        shown < total ? ` (showing ${shown})` : '';
+
+      if (outputMode === 'files_with_matches') {
+        return {
+          llmContent:
+            `Found ${filePaths.length} ${fileTerm} with matches for ${searchDescription}:\n${shownFiles.join('\n')}` +
+            truncationNotice(shownFiles.length, filePaths.length, 'files'),
+          returnDisplay: `Found ${filePaths.length} ${fileTerm}${showing(shownFiles.length, filePaths.length)}`,
+        };
+      }
 
-      let llmContent = `Found ${matchCount} ${matchTerm} for pattern "${params.pattern}" in path "${searchDirDisplay}"${params.include ? ` (filter: "${params.include}")` : ''}:\n---\n`;
+      if (outputMode === 'count') {
+        const counts = shownFiles.map(
+          (filePath) => `${filePath}: ${matchesByFile.get(filePath)!.length}`,
+        );
+        return {
+          llmContent:
+            `Found ${matchCount} ${matchTerm} in ${filePaths.length} ${fileTerm} for ${searchDescription}:\n${counts.join('\n')}` +
+            truncationNotice(shownFiles.length, filePaths.length, 'files'),
+          returnDisplay: `Found ${matchCount} ${matchTerm} in ${filePaths.length} ${fileTerm}${showing(shownFiles.length, filePaths.length)}`,
+        };
+      }
 
-      for (const filePath in matchesByFile) {
+      let llmContent = `Found ${matchCount} ${matchTerm} for ${searchDescription}:\n---\n`;
+      let remaining = maxResults;
+      for (const filePath of filePaths) {
+        if (remaining === 0) {
+          break;
+        }
+        const fileMatches = matchesByFile.get(filePath)!.slice(0, remaining);
+        remaining -= fileMatches.length;
         llmContent += `File: ${filePath}\n`;
-        matchesByFile[filePath].forEach((match) => {
-          const trimmedLine = match.line.trim();
-          llmContent += `L${match.lineNumber}: ${trimmedLine}\n`;
-        });
+        llmContent += await this.formatFileMatches(
+          path.resolve(searchDirAbs, filePath),
+          fileMatches,
+          params.before_context ?? 0,
+          params.after_context ?? 0,
+        );
         llmContent += '---\n';
       }
+      const shownMatches = Math.min(matchCount, maxResults);
 
       return {
-        llmContent: llmContent.trim(),
-        returnDisplay: `Found ${matchCount} ${matchTerm}`,
+        llmContent:
+          llmContent.trim() +
+          truncationNotice(shownMatches, matchCount, 'matches'),
+        returnDisplay: `Found ${matchCount} ${matchTerm}${showing(shownMatches, matchCount)}`,
       };
     } catch (error) {
       console.error(`Error during GrepLogic execution: ${error}`);
@@ -237,6 +389,111 @@ export class GrepTool extends BaseTool<GrepToolParams, ToolResult> {
     }
   }
 
+  /**
+   * Drops the matches in files that are ignored by .gitignore or
+   * .geminiignore or excluded by the exclude glob, which not every search
+   * strategy can honor by itself.
+   * @param matches Matches with paths relative to the search directory.
+   */
+  private filterMatches(
+    matches: GrepMatch[],
+    searchDirAbs: string,
+    exclude?: string,
+  ): GrepMatch[] {
+    const fileService = this.config.getFileService();
+    const respectGitIgnore = this.config.getFileFilteringRespectGitIgnore();
+    const isIncluded = new Map<string, boolean>();
+    return matches.filter((match) => {
+      let included = isIncluded.get(match.filePath);
+      if (included === undefined) {
+        const relativeToRoot = path.relative(
+          this.rootDirectory,
+          path.resolve(searchDirAbs, match.filePath),
+        );
+        included =
+          !fileService.shouldIgnoreFile(relativeToRoot, {
+            respectGitIgnore,
+            respectGeminiIgnore: true,
+          }) &&
+          !(
+            exclude &&
+            micromatch.isMatch(match.filePath, exclude, {
+              dot: true,
+              // Like grep's --exclude, a pattern without a slash matches
+              // file names in any directory.
+              basename: !exclude.includes('/'),
+            })
+          );
+        isIncluded.set(match.filePath, included);
+      }
+      return included;
+    });
+  }
+
+  /**
+   * Formats the matches in a file as `L<line>: <text>`, with the requested
+   * context lines as `L<line>- <text>` and `--` between separate groups.
+   */
+  private async formatFileMatches(
+    fileAbsolutePath: string,
+    matches: GrepMatch[],
+    beforeContext: number,
+    afterContext: number,
+  ): Promise<string> {
+    const matchedLines = new Map<number, string>();
+    for (const match of matches) {
+      match.line.split('\n').forEach((line, index) => {
+        matchedLines.set(match.lineNumber + index, line);
+      });
+    }
+    if (beforeContext === 0 && afterContext === 0) {
+      return [...matchedLines]
+        .map(([lineNumber, line]) => `L${lineNumber}: ${line.trim()}\n`)
+        .join('');
+    }
+
+    let fileLines: string[] = [];
+    try {
+      fileLines = (await fsPromises.readFile(fileAbsolutePath, 'utf8')).split(
+        /\r?\n/,
+      );
+    } catch {
+      // Show the matches without context if the file can't be read anymore.
+    }
+    const shownLines = new Set<number>();
+    for (const match of matches) {
+      const endLineNumber = match.lineNumber + countLineBreaks(match.line);
+      for (
+        let lineNumber = Math.max(1, match.lineNumber - beforeContext);
+        lineNumber <= endLineNumber + afterContext;
+        lineNumber++
+      ) {
+        shownLines.add(lineNumber);
+      }
+    }
+
+    let output = '';
+    let previousLineNumber: number | undefined;
+    for (const lineNumber of [...shownLines].sort((a, b) => a - b)) {
+      const isMatch = matchedLines.has(lineNumber);
+      const line = isMatch
+        ? matchedLines.get(lineNumber)!
+        : fileLines[lineNumber - 1];
+      if (line === undefined) {
+        continue; // Context past the end of the file.
+      }
+      if (
+        previousLineNumber !== undefined &&
+        lineNumber > previousLineNumber + 1
+      ) {
+        output += '--\n';
+      }
+      output += `L${lineNumber}${isMatch ? ':' : '-'} ${line.trimEnd()}\n`;
+      previousLineNumber = lineNumber;
+    }
+    return output;
+  }
+
   // --- Grep Implementation Logic ---
 
   /**
@@ -316,6 +573,10 @@ export class GrepTool extends BaseTool<GrepToolParams, ToolResult> {
    * @param params Parameters for the grep operation
    * @returns A string describing the grep
    */
+  getEffects(params: GrepToolParams): ToolEffects {
+    return { reads: [path.resolve(this.rootDirectory, params.path || '.')] };
+  }
+
   getDescription(params: GrepToolParams): string {
     let description = `'${params.pattern}'`;
     if (params.include) {
@@ -335,35 +596,49 @@ export class GrepTool extends BaseTool<GrepToolParams, ToolResult> {
 
   /**
    * Performs the actual search using the prioritized strategies.
-   * @param options Search options including pattern, absolute path, and include glob.
+   * Multiline patterns are only supported by the JavaScript strategy.
+   * @param options Search options including pattern, absolute path, and include and exclude globs.
    * @returns A promise resolving to an array of match objects.
    */
   private async performGrepSearch(options: {
     pattern: string;
     path: string; // Expects absolute path
     include?: string;
+    exclude?: string;
+    caseSensitive: boolean;
+    multiline: boolean;
     signal: AbortSignal;
   }): Promise<GrepMatch[]> {
-    const { pattern, path: absolutePath, include } = options;
+    const {
+      pattern,
+      path: absolutePath,
+      include,
+      exclude,
+      caseSensitive,
+      multiline,
+    } = options;
     let strategyUsed = 'none';
 
     try {
       // --- Strategy 1: git grep ---
-      const isGit = isGitRepository(absolutePath);
+      const isGit = !multiline && isGitRepository(absolutePath);
       const gitAvailable = isGit && (await this.isCommandAvailable('git'));
 
       if (gitAvailable) {
         strategyUsed = 'git grep';
-        const gitArgs = [
-          'grep',
-          '--untracked',
-          '-n',
-          '-E',
-          '--ignore-case',
-          pattern,
-        ];
-        if (include) {
-          gitArgs.push('--', include);
+        const gitArgs = ['grep', '--untracked', '-n', '-E'];
+        if (!caseSensitive) {
+          gitArgs.push('--ignore-case');
+        }
+        gitArgs.push('-e', pattern);
+        if (include || exclude) {
+          gitArgs.push('--');
+          if (include) {
+            gitArgs.push(include);
+          }
+          if (exclude) {
+            gitArgs.push(`:(exclude)${exclude}`);
+          }
         }
 
         try {
@@ -401,16 +676,23 @@ export class GrepTool extends BaseTool<GrepToolParams, ToolResult> {
       }
 
       // --- Strategy 2: System grep ---
-      const grepAvailable = await this.isCommandAvailable('grep');
+      const grepAvailable =
+        !multiline && (await this.isCommandAvailable('grep'));
       if (grepAvailable) {
         strategyUsed = 'system grep';
         const grepArgs = ['-r', '-n', '-H', '-E'];
+        if (!caseSensitive) {
+          grepArgs.push('-i');
+        }
         const commonExcludes = ['.git', 'node_modules', 'bower_components'];
         commonExcludes.forEach((dir) => grepArgs.push(`--exclude-dir=${dir}`));
         if (include) {
           grepArgs.push(`--include=${include}`);
         }
-        grepArgs.push(pattern);
+        if (exclude) {
+          grepArgs.push(`--exclude=${exclude}`);
+        }
+        grepArgs.push('-e', pattern);
         grepArgs.push('.');
 
         try {
@@ -503,20 +785,45 @@ export class GrepTool extends BaseTool<GrepToolParams, ToolResult> {
         signal: options.signal,
       });
 
-      const regex = new RegExp(pattern, 'i');
+      const flags = caseSensitive ? '' : 'i';
+      const regex = new RegExp(pattern, multiline ? `gm${flags}` : flags);
       const allMatches: GrepMatch[] = [];
 
       for await (const filePath of filesStream) {
         const fileAbsolutePath = filePath as string;
         try {
           const content = await fsPromises.readFile(fileAbsolutePath, 'utf8');
+          const relativeFilePath =
+            path.relative(absolutePath, fileAbsolutePath) ||
+            path.basename(fileAbsolutePath);
           const lines = content.split(/\r?\n/);
+          if (multiline) {
+            // Report each match once with the lines that it spans, skipping
+            // matches that start on a line reported already.
+            let lineNumber = 1;
+            let lastIndex = 0;
+            let lastEndLineNumber = 0;
+            for (const match of content.matchAll(regex)) {
+              const index = match.index!;
+              lineNumber += countLineBreaks(content, lastIndex, index);
+              lastIndex = index;
+              if (lineNumber <= lastEndLineNumber) {
+                continue;
+              }
+              lastEndLineNumber =
+                lineNumber + countLineBreaks(match[0].replace(/\r?\n$/, ''));
+              allMatches.push({
+                filePath: relativeFilePath,
+                lineNumber,
+                line: lines.slice(lineNumber - 1, lastEndLineNumber).join('\n'),
+              });
+            }
+            continue;
+          }
           lines.forEach((line, index) => {
             if (regex.test(line)) {
               allMatches.push({
-                filePath:
-                  path.relative(absolutePath, fileAbsolutePath) ||
-                  path.basename(fileAbsolutePath),
+                filePath: relativeFilePath,
                 lineNumber: index + 1,
                 line,
               });
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as os from 'node:os';
+import {
+  ReadJobOutputTool,
+  StartJobTool,
+  StopJobTool,
+  WaitForJobOutputTool,
+} from './jobs.js';
+import { Config } from '../config/config.js';
+import { JobManager } from '../services/jobManager.js';
+
+describe.skipIf(os.platform() === 'win32')('job tools', () => {
+  const signal = new AbortController().signal;
+  let jobManager: JobManager;
+  let config: Config;
+
+  beforeEach(() => {
+    jobManager = new JobManager(1000);
+    config = {
+      getCoreTools: () => undefined,
+      getExcludeTools: () => undefined,
+      getTargetDir: () => os.tmpdir(),
+      getJobManager: () => jobManager,
+      getToolLimits: () => ({}),
+    } as unknown as Config;
+  });
+
+  afterEach(() => {
+    jobManager.stopAll();
+  });
+
+  it('should validate the parameters', () => {
+    const startJob = new StartJobTool(config);
+    const waitForJob = new WaitForJobOutputTool(config);
+
+    expect(startJob.validateToolParams({ name: ' ', command: 'ls' })).toBe(
+      'Job name cannot be empty.',
+    );
+    expect(
+      startJob.validateToolParams({ name: 'server', command: '' }),
+    ).toBeTruthy();
+    expect(
+      waitForJob.validateToolParams({ name: 'server', pattern: '(' }),
+    ).toMatch(/^Invalid regular expression pattern: /);
+    expect(
+      waitForJob.validateToolParams({
+        name: 'server',
+        pattern: 'ready',
+        timeout_ms: 0,
+      }),
+    ).toBe('timeout_ms must be between 1 and 600000.');
+  });
+
+  it('should read the output of a job since a cursor', async () => {
+    const startResult = await new StartJobTool(config).execute(
+      { name: 'echo', command: 'echo first; echo second' },
+      signal,
+    );
+    expect(startResult.returnDisplay).toBe('Started job "echo".');
+    await new WaitForJobOutputTool(config).execute(
+      { name: 'echo', pattern: 'second' },
+      signal,
+    );
+
+    const readJob = new ReadJobOutputTool(config);
+    const first = await readJob.execute({ name: 'echo' }, signal);
+    const second = await readJob.execute(
+      { name: 'echo', cursor: 'first\n'.length },
+      signal,
+    );
+
+    expect(first.llmContent).toContain(
+      `Cursor: ${'first\nsecond\n'.length}\nOutput: first\nsecond\n`,
+    );
+    expect(second.llmContent).toContain('Output: second\n');
+    expect(second.llmContent).not.toContain('first');
+  });
+
+  it('should report when no line matched before the timeout', async () => {
+    await new StartJobTool(config).execute(
+      { name: 'quiet', command: 'sleep 30' },
+      signal,
+    );
+
+    const result = await new WaitForJobOutputTool(config).execute(
+      { name: 'quiet', pattern: 'ready', timeout_ms: 100 },
+      signal,
+    );
+
+    expect(result.returnDisplay).toBe('No line matched before the timeout.');
+    expect(result.llmContent).toContain('Job "quiet" is running');
+  });
+
+  it('should report an error when stopping an unknown job', async () => {
+    const result = await new StopJobTool(config).execute(
+      { name: 'missing' },
+      signal,
+    );
+
+    expect(result.llmContent).toBe(
+      'Error: No job named "missing". No jobs were started.',
+    );
+  });
+});
@@ -0,0 +1,417 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Type } from '@google/genai';
+import {
+  BaseTool,
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+  ToolEffects,
+  ToolExecuteConfirmationDetails,
+  ToolResult,
+} from './tools.js';
+import { ShellTool } from './shell.js';
+import { Config } from '../config/config.js';
+import { JobInfo } from '../services/jobManager.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { limitToolOutput } from '../utils/toolOutput.js';
+
+const DEFAULT_WAIT_TIMEOUT_MS = 30_000;
+const MAX_WAIT_TIMEOUT_MS = 600_000;
+
+function describeJob(job: JobInfo): string {
+  switch (job.status) {
+    case 'running':
+      return `Job "${job.name}" is running (PID ${job.pid ?? 'unknown'}).`;
+    case 'stopped':
+      return `Job "${job.name}" was stopped.`;
+    default:
+      return `Job "${job.name}" exited with ${job.exitCode !== null ? `code ${job.exitCode}` : `signal ${job.signal}`}.`;
+  }
+}
+
+function errorResult(error: unknown): ToolResult {
+  const message = getErrorMessage(error);
+  return {
+    llmContent: `Error: ${message}`,
+    returnDisplay: `Error: ${message}`,
+  };
+}
+
+export interface StartJobToolParams {
+  name: string;
+  command: string;
+  directory?: string;
+}
+
+/**
+ * Starts a shell command in the background as a named job, e.g. a dev server
+ * or a watcher. Commands are validated and confirmed like those of the shell
+ * tool.
+ */
+export class StartJobTool extends BaseTool<StartJobToolParams, ToolResult> {
+  static readonly Name = 'start_background_job';
+  private readonly shellTool: ShellTool;
+  private readonly whitelist = new Set<string>();
+
+  constructor(private readonly config: Config) {
+    super(
+      StartJobTool.Name,
+      'StartJob',
+      `Starts a long-running command, such as a dev server, a watcher or a test runner in watch mode, as a named background job, and returns right away. The command runs as \`bash -c <command>\` in its own process group, which is killed when the job is stopped or the session ends. Use \`read_job_output\` to read its output, \`wait_for_job_output\` to wait for a line of output such as "ready", and \`stop_background_job\` to stop it. Use \`run_shell_command\` instead for commands that finish on their own.`,
+      {
+        type: Type.OBJECT,
+        properties: {
+          name: {
+            type: Type.STRING,
+            description:
+              'Short name that identifies the job in later calls, e.g. "dev-server".',
+          },
+          command: {
+            type: Type.STRING,
+            description: 'Exact bash command to run as `bash -c <command>`.',
+          },
+          directory: {
+            type: Type.STRING,
+            description:
+              '(OPTIONAL) Directory to run the command in, if not the project root directory. Must be relative to the project root directory and must already exist.',
+          },
+        },
+        required: ['name', 'command'],
+      },
+    );
+    this.shellTool = new ShellTool(config);
+  }
+
+  getEffects(_params: StartJobToolParams): ToolEffects {
+    return { runsProcess: true };
+  }
+
+  getDescription(params: StartJobToolParams): string {
+    return `${params.name}: ${params.command}${params.directory ? ` [in ${params.directory}]` : ''}`;
+  }
+
+  validateToolParams(params: StartJobToolParams): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+    if (!params.name.trim()) {
+      return 'Job name cannot be empty.';
+    }
+    return this.shellTool.validateToolParams({
+      command: params.command,
+      directory: params.directory,
+    });
+  }
+
+  async shouldConfirmExecute(
+    params: StartJobToolParams,
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.validateToolParams(params)) {
+      return false; // skip confirmation, execute call will fail immediately
+    }
+    const rootCommand = this.shellTool.getCommandRoot(params.command)!;
+    if (this.whitelist.has(rootCommand)) {
+      return false;
+    }
+    const confirmationDetails: ToolExecuteConfirmationDetails = {
+      type: 'exec',
+      title: 'Confirm Background Job',
+      command: params.command,
+      rootCommand,
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          this.whitelist.add(rootCommand);
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+
+  async execute(
+    params: StartJobToolParams,
+    _signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return errorResult(validationError);
+    }
+    const directory = path.resolve(
+      this.config.getTargetDir(),
+      params.directory || '',
+    );
+    if (!fs.existsSync(directory)) {
+      return errorResult(`Directory does not exist: ${directory}`);
+    }
+
+    try {
+      const job = this.config
+        .getJobManager()
+        .start(params.name, params.command, directory);
+      return {
+        llmContent: `Started job "${job.name}" (PID ${job.pid ?? 'unknown'}): ${job.command}`,
+        returnDisplay: `Started job "${job.name}".`,
+      };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+}
+
+export interface ReadJobOutputToolParams {
+  name: string;
+  cursor?: number;
+}
+
+/** Reads the buffered output of a background job. */
+export class ReadJobOutputTool extends BaseTool<
+  ReadJobOutputToolParams,
+  ToolResult
+> {
+  static readonly Name = 'read_job_output';
+
+  constructor(private readonly config: Config) {
+    super(
+      ReadJobOutputTool.Name,
+      'ReadJobOutput',
+      'Reads the output (stdout and stderr) of a background job and reports whether it is still running. Returns a cursor; pass it to the next call to read only the output produced since.',
+      {
+        type: Type.OBJECT,
+        properties: {
+          name: {
+            type: Type.STRING,
+            description: 'Name of the job.',
+          },
+          cursor: {
+            type: Type.NUMBER,
+            description:
+              '(OPTIONAL) Cursor returned by an earlier call. Output is read from the start if omitted.',
+          },
+        },
+        required: ['name'],
+      },
+    );
+  }
+
+  getEffects(_params: ReadJobOutputToolParams): ToolEffects {
+    return {};
+  }
+
+  getDescription(params: ReadJobOutputToolParams): string {
+    return params.name;
+  }
+
+  validateToolParams(params: ReadJobOutputToolParams): string | null {
+    return SchemaValidator.validate(this.schema.parameters, params);
+  }
+
+  async execute(
+    params: ReadJobOutputToolParams,
+    _signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return errorResult(validationError);
+    }
+
+    try {
+      const { job, output, cursor, droppedChars } = this.config
+        .getJobManager()
+        .read(params.name, params.cursor);
+      const { maxOutputChars } = this.config.getToolLimits(
+        ReadJobOutputTool.Name,
+      );
+      const limitedOutput =
+        maxOutputChars === undefined
+          ? output
+          : limitToolOutput(output, {
+              maxChars: maxOutputChars,
+              outputDir: this.config.getToolOutputDir(),
+              name: `${ReadJobOutputTool.Name}-${job.name}`,
+            });
+      const llmContent = [
+        describeJob(job),
+        `Cursor: ${cursor}`,
+        ...(droppedChars > 0
+          ? [`(${droppedChars} older characters are no longer buffered)`]
+          : []),
+        `Output: ${limitedOutput || '(empty)'}`,
+      ].join('\n');
+      return { llmContent, returnDisplay: output || describeJob(job) };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+}
+
+export interface WaitForJobOutputToolParams {
+  name: string;
+  pattern: string;
+  cursor?: number;
+  timeout_ms?: number;
+}
+
+/** Waits until a background job prints a line that matches a pattern. */
+export class WaitForJobOutputTool extends BaseTool<
+  WaitForJobOutputToolParams,
+  ToolResult
+> {
+  static readonly Name = 'wait_for_job_output';
+
+  constructor(private readonly config: Config) {
+    super(
+      WaitForJobOutputTool.Name,
+      'WaitForJobOutput',
+      'Waits until a line of output of a background job matches a regular expression, e.g. until a dev server reports that it is listening. Returns when a line matches, the job ends or the timeout passes.',
+      {
+        type: Type.OBJECT,
+        properties: {
+          name: {
+            type: Type.STRING,
+            description: 'Name of the job.',
+          },
+          pattern: {
+            type: Type.STRING,
+            description:
+              'JavaScript regular expression that is tested against each line of output.',
+          },
+          cursor: {
+            type: Type.NUMBER,
+            description:
+              '(OPTIONAL) Only output after this cursor, returned by an earlier call, is searched. Output is searched from the start if omitted.',
+          },
+          timeout_ms: {
+            type: Type.NUMBER,
+            description: `(OPTIONAL) Milliseconds to wait for at most. Defaults to ${DEFAULT_WAIT_TIMEOUT_MS} and cannot exceed ${MAX_WAIT_TIMEOUT_MS}.`,
+          },
+        },
+        required: ['name', 'pattern'],
+      },
+    );
+  }
+
+  getEffects(_params: WaitForJobOutputToolParams): ToolEffects {
+    return {};
+  }
+
+  getDescription(params: WaitForJobOutputToolParams): string {
+    return `${params.name}: /${params.pattern}/`;
+  }
+
+  validateToolParams(params: WaitForJobOutputToolParams): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+    try {
+      new RegExp(params.pattern);
+    } catch (error) {
+      return `Invalid regular expression pattern: ${getErrorMessage(error)}`;
+    }
+    if (
+      params.timeout_ms !== undefined &&
+      (params.timeout_ms <= 0 || params.timeout_ms > MAX_WAIT_TIMEOUT_MS)
+    ) {
+      return `timeout_ms must be between 1 and ${MAX_WAIT_TIMEOUT_MS}.`;
+    }
+    return null;
+  }
+
+  async execute(
+    params: WaitForJobOutputToolParams,
+    signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return errorResult(validationError);
+    }
+
+    try {
+      const { job, matchedLine, cursor } = await this.config
+        .getJobManager()
+        .waitFor(params.name, new RegExp(params.pattern), {
+          cursor: params.cursor,
+          timeoutMs: params.timeout_ms ?? DEFAULT_WAIT_TIMEOUT_MS,
+          signal,
+        });
+      const outcome =
+        matchedLine !== undefined
+          ? `Matched: ${matchedLine}`
+          : signal.aborted
+            ? 'Waiting was cancelled by the user.'
+            : job.status === 'running'
+              ? 'No line matched before the timeout.'
+              : 'No line matched before the job ended.';
+      return {
+        llmContent: [outcome, describeJob(job), `Cursor: ${cursor}`].join('\n'),
+        returnDisplay: outcome,
+      };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+}
+
+export interface StopJobToolParams {
+  name: string;
+}
+
+/** Stops a background job and the processes that it started. */
+export class StopJobTool extends BaseTool<StopJobToolParams, ToolResult> {
+  static readonly Name = 'stop_background_job';
+
+  constructor(private readonly config: Config) {
+    super(
+      StopJobTool.Name,
+      'StopJob',
+      'Stops a background job by terminating its process group, including the processes that it started.',
+      {
+        type: Type.OBJECT,
+        properties: {
+          name: {
+            type: Type.STRING,
+            description: 'Name of the job.',
+          },
+        },
+        required: ['name'],
+      },
+    );
+  }
+
+  getEffects(_params: StopJobToolParams): ToolEffects {
+    return { runsProcess: true };
+  }
+
+  getDescription(params: StopJobToolParams): string {
+    return params.name;
+  }
+
+  validateToolParams(params: StopJobToolParams): string | null {
+    return SchemaValidator.validate(this.schema.parameters, params);
+  }
+
+  async execute(
+    params: StopJobToolParams,
+    _signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return errorResult(validationError);
+    }
+
+    try {
+      const job = await this.config.getJobManager().stop(params.name);
+      return { llmContent: describeJob(job), returnDisplay: describeJob(job) };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+}
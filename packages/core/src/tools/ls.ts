@@ -6,7 +6,7 @@
 
 import fs from 'fs';
 import path from 'path';
-import { BaseTool, ToolResult } from './tools.js';
+import { BaseTool, ToolEffects, ToolResult } from './tools.js';
 import { Type } from '@google/genai';
 import { SchemaValidator } from '../utils/schemaValidator.js';
 import { makeRelative, shortenPath } from '../utils/paths.js';
@@ -175,6 +175,10 @@ export class LSTool extends BaseTool<LSToolParams, ToolResult> {
    * @param params Parameters for the file reading
    * @returns A string describing the file being read
    */
+  getEffects(params: LSToolParams): ToolEffects {
+    return { reads: [params.path] };
+  }
+
   getDescription(params: LSToolParams): string {
     const relativePath = makeRelative(params.path, this.rootDirectory);
     return shortenPath(relativePath);
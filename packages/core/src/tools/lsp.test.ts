@@ -0,0 +1,295 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, Mock } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import {
+  FindReferencesTool,
+  GoToDefinitionTool,
+  HoverTool,
+  RenameSymbolTool,
+  WorkspaceSymbolsTool,
+} from './lsp.js';
+import { FileDiff, ToolEditConfirmationDetails } from './tools.js';
+import { ApprovalMode, Config } from '../config/config.js';
+import { toUri } from '../services/lspClient.js';
+
+describe('LSP tools', () => {
+  let tempDir: string;
+  let rootDir: string;
+  let filePath: string;
+  let mockConfig: Config;
+  let lspManager: Record<string, Mock>;
+  const abortSignal = new AbortController().signal;
+
+  const range = (line: number, character: number, length: number) => ({
+    start: { line, character },
+    end: { line, character: character + length },
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lsp-tool-test-'));
+    rootDir = path.join(tempDir, 'root');
+    fs.mkdirSync(rootDir);
+    filePath = path.join(rootDir, 'a.ts');
+    fs.writeFileSync(
+      filePath,
+      'export const foo = 1;\nconst bar = foo + foo;\n',
+      'utf8',
+    );
+
+    lspManager = {
+      getServerName: vi.fn((file: string) =>
+        file.endsWith('.ts') ? 'typescript' : undefined,
+      ),
+      definition: vi.fn(),
+      references: vi.fn(),
+      hover: vi.fn(),
+      workspaceSymbols: vi.fn(),
+      rename: vi.fn(),
+      didWriteFile: vi.fn(),
+    };
+    mockConfig = {
+      getTargetDir: () => rootDir,
+      getApprovalMode: vi.fn().mockReturnValue(ApprovalMode.DEFAULT),
+      setApprovalMode: vi.fn(),
+      getLspManager: () => lspManager,
+    } as unknown as Config;
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('validation', () => {
+    it('should reject files without a language server', () => {
+      const tool = new GoToDefinitionTool(mockConfig);
+
+      expect(
+        tool.validateToolParams({
+          file_path: path.join(rootDir, 'a.py'),
+          line: 1,
+          symbol: 'foo',
+        }),
+      ).toBe('No language server is configured for ".py" files.');
+    });
+
+    it('should reject files outside the root directory', () => {
+      const tool = new HoverTool(mockConfig);
+
+      expect(
+        tool.validateToolParams({
+          file_path: path.join(tempDir, 'a.ts'),
+          line: 1,
+          symbol: 'foo',
+        }),
+      ).toMatch(/^File path must be within the root directory/);
+    });
+
+    it('should report a symbol that is not on the line', async () => {
+      const tool = new GoToDefinitionTool(mockConfig);
+
+      const result = await tool.execute(
+        { file_path: filePath, line: 1, symbol: 'baz' },
+        abortSignal,
+      );
+
+      expect(result.llmContent).toMatch(
+        /^Error: Symbol "baz" was not found on line 1 of/,
+      );
+      expect(lspManager.definition).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should look up the definition at the whole-word symbol', async () => {
+    lspManager.definition.mockResolvedValue([
+      { uri: toUri(filePath), range: range(0, 13, 3) },
+    ]);
+    const tool = new GoToDefinitionTool(mockConfig);
+
+    const result = await tool.execute(
+      { file_path: filePath, line: 2, symbol: 'foo' },
+      abortSignal,
+    );
+
+    expect(lspManager.definition).toHaveBeenCalledWith(filePath, {
+      line: 1,
+      character: 12,
+    });
+    expect(result.llmContent).toBe(
+      'Definition of "foo":\na.ts:1:14: export const foo = 1;',
+    );
+  });
+
+  it('should list references', async () => {
+    lspManager.references.mockResolvedValue([
+      { uri: toUri(filePath), range: range(1, 12, 3) },
+      { uri: toUri(filePath), range: range(1, 18, 3) },
+    ]);
+    const tool = new FindReferencesTool(mockConfig);
+
+    const result = await tool.execute(
+      {
+        file_path: filePath,
+        line: 1,
+        symbol: 'foo',
+        include_declaration: false,
+      },
+      abortSignal,
+    );
+
+    expect(lspManager.references).toHaveBeenCalledWith(
+      filePath,
+      { line: 0, character: 13 },
+      false,
+    );
+    expect(result.llmContent).toBe(
+      [
+        'Found 2 reference(s) to "foo":',
+        'a.ts:2:13: const bar = foo + foo;',
+        'a.ts:2:19: const bar = foo + foo;',
+      ].join('\n'),
+    );
+  });
+
+  it('should return hover information', async () => {
+    lspManager.hover.mockResolvedValue('```ts\nconst foo: 1\n```');
+    const tool = new HoverTool(mockConfig);
+
+    const result = await tool.execute(
+      { file_path: filePath, line: 1, symbol: 'foo' },
+      abortSignal,
+    );
+
+    expect(result.llmContent).toBe('```ts\nconst foo: 1\n```');
+  });
+
+  it('should list workspace symbols with their kind', async () => {
+    lspManager.workspaceSymbols.mockResolvedValue([
+      {
+        name: 'foo',
+        kind: 14,
+        containerName: 'a',
+        location: { uri: toUri(filePath), range: range(0, 13, 3) },
+      },
+    ]);
+    const tool = new WorkspaceSymbolsTool(mockConfig);
+
+    const result = await tool.execute({ query: 'fo' }, abortSignal);
+
+    expect(lspManager.workspaceSymbols).toHaveBeenCalledWith('fo', undefined);
+    expect(result.llmContent).toBe(
+      'Found 1 symbol(s) for "fo":\nfoo (constant in a): a.ts:1:14',
+    );
+  });
+
+  describe('RenameSymbolTool', () => {
+    const params = {
+      file_path: '',
+      line: 1,
+      symbol: 'foo',
+      new_name: 'qux',
+    };
+
+    beforeEach(() => {
+      params.file_path = filePath;
+      lspManager.rename.mockResolvedValue({
+        documentChanges: [
+          {
+            textDocument: { uri: toUri(filePath) },
+            edits: [
+              { range: range(0, 13, 3), newText: 'qux' },
+              { range: range(1, 12, 3), newText: 'qux' },
+              { range: range(1, 18, 3), newText: 'qux' },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should confirm the rename with its diff', async () => {
+      const tool = new RenameSymbolTool(mockConfig);
+
+      const confirmation = (await tool.shouldConfirmExecute(
+        params,
+        abortSignal,
+      )) as ToolEditConfirmationDetails;
+
+      expect(confirmation.title).toBe('Confirm Rename: foo => qux (1 file(s))');
+      expect(confirmation.canModifyWithEditor).toBe(false);
+      expect(confirmation.fileDiff).toContain('+const bar = qux + qux;');
+    });
+
+    it('should apply the edits of the rename and sync the files', async () => {
+      const tool = new RenameSymbolTool(mockConfig);
+
+      const result = await tool.execute(params, abortSignal);
+
+      expect(result.llmContent).toBe(
+        'Renamed "foo" to "qux" in 1 file(s): a.ts',
+      );
+      expect((result.returnDisplay as FileDiff).fileName).toBe('a.ts');
+      expect(fs.readFileSync(filePath, 'utf8')).toBe(
+        'export const qux = 1;\nconst bar = qux + qux;\n',
+      );
+      expect(lspManager.didWriteFile).toHaveBeenCalledWith(filePath);
+    });
+
+    it('should put back the written files when a write fails', async () => {
+      const otherFilePath = path.join(rootDir, 'b.ts');
+      fs.writeFileSync(otherFilePath, 'foo();\n', 'utf8');
+      lspManager.rename.mockResolvedValue({
+        changes: {
+          [toUri(filePath)]: [{ range: range(0, 13, 3), newText: 'qux' }],
+          [toUri(otherFilePath)]: [{ range: range(0, 0, 3), newText: 'qux' }],
+        },
+      });
+      const writeFileSync = fs.writeFileSync;
+      vi.spyOn(fs, 'writeFileSync').mockImplementation((file, ...args) => {
+        if (file === otherFilePath) {
+          throw new Error('EACCES: permission denied');
+        }
+        writeFileSync(file, ...args);
+      });
+      const tool = new RenameSymbolTool(mockConfig);
+
+      const result = await tool.execute(params, abortSignal);
+      vi.mocked(fs.writeFileSync).mockRestore();
+
+      expect(result.llmContent).toBe(
+        'Error: EACCES: permission denied. No files were changed.',
+      );
+      expect(fs.readFileSync(filePath, 'utf8')).toBe(
+        'export const foo = 1;\nconst bar = foo + foo;\n',
+      );
+      expect(lspManager.didWriteFile).not.toHaveBeenCalled();
+    });
+
+    it('should refuse edits outside the root directory', async () => {
+      lspManager.rename.mockResolvedValue({
+        changes: {
+          [toUri(path.join(tempDir, 'b.ts'))]: [
+            { range: range(0, 0, 3), newText: 'qux' },
+          ],
+        },
+      });
+      const tool = new RenameSymbolTool(mockConfig);
+
+      const result = await tool.execute(params, abortSignal);
+
+      expect(result.llmContent).toMatch(/outside the root directory/);
+      expect(fs.readFileSync(filePath, 'utf8')).toContain('foo');
+    });
+
+    it('should declare a write to the root directory', () => {
+      expect(new RenameSymbolTool(mockConfig).getEffects(params)).toEqual({
+        writes: [rootDir],
+      });
+    });
+  });
+});
@@ -0,0 +1,700 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import * as Diff from 'diff';
+import { Schema, Type } from '@google/genai';
+import {
+  BaseTool,
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+  ToolEditConfirmationDetails,
+  ToolEffects,
+  ToolResult,
+} from './tools.js';
+import { ApprovalMode, Config } from '../config/config.js';
+import {
+  Location,
+  Position,
+  SymbolInformation,
+  TextEdit,
+  WorkspaceEdit,
+} from '../services/lspClient.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { DEFAULT_DIFF_OPTIONS } from './diffOptions.js';
+
+/** Locations and symbols that are listed to the model at most. */
+const MAX_RESULTS = 100;
+
+/** Names of the LSP `SymbolKind` values, which count from 1. */
+const SYMBOL_KINDS = [
+  'file',
+  'module',
+  'namespace',
+  'package',
+  'class',
+  'method',
+  'property',
+  'field',
+  'constructor',
+  'enum',
+  'interface',
+  'function',
+  'variable',
+  'constant',
+  'string',
+  'number',
+  'boolean',
+  'array',
+  'object',
+  'key',
+  'null',
+  'enum member',
+  'struct',
+  'event',
+  'operator',
+  'type parameter',
+];
+
+/** Parameters that point at a symbol in a file. */
+export interface SymbolPositionParams {
+  file_path: string;
+  line: number;
+  symbol: string;
+}
+
+const symbolPositionProperties: Record<string, Schema> = {
+  file_path: {
+    type: Type.STRING,
+    description: "The absolute path to the file. Must start with '/'.",
+  },
+  line: {
+    type: Type.NUMBER,
+    description: 'The line of the symbol in the file, counting from 1.',
+  },
+  symbol: {
+    type: Type.STRING,
+    description:
+      'The name of the symbol as written on that line, e.g. a function, variable or type name.',
+  },
+};
+
+function errorResult(error: unknown): ToolResult {
+  const message = getErrorMessage(error);
+  return {
+    llmContent: `Error: ${message}`,
+    returnDisplay: `Error: ${message}`,
+  };
+}
+
+function validateSymbolPosition(
+  config: Config,
+  params: SymbolPositionParams,
+): string | null {
+  if (!path.isAbsolute(params.file_path)) {
+    return `File path must be absolute: ${params.file_path}`;
+  }
+  const relativePath = path.relative(config.getTargetDir(), params.file_path);
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return `File path must be within the root directory (${config.getTargetDir()}): ${params.file_path}`;
+  }
+  if (!Number.isInteger(params.line) || params.line < 1) {
+    return 'line must be a whole number of at least 1.';
+  }
+  if (!params.symbol.trim()) {
+    return 'symbol cannot be empty.';
+  }
+  if (!config.getLspManager().getServerName(params.file_path)) {
+    return `No language server is configured for "${path.extname(params.file_path)}" files.`;
+  }
+  return null;
+}
+
+/**
+ * Finds the position of a symbol on a line of a file, preferring an
+ * occurrence that is a whole word.
+ * @throws Error if the file cannot be read or the line has no such symbol.
+ */
+function findSymbolPosition(params: SymbolPositionParams): Position {
+  const lines = fs.readFileSync(params.file_path, 'utf8').split('\n');
+  const lineText = lines[params.line - 1];
+  if (lineText === undefined) {
+    throw new Error(
+      `Line ${params.line} is past the end of ${params.file_path}, which has ${lines.length} lines.`,
+    );
+  }
+  const escaped = params.symbol.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const wholeWord = lineText.match(
+    new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`),
+  );
+  const character = wholeWord?.index ?? lineText.indexOf(params.symbol);
+  if (character === -1) {
+    throw new Error(
+      `Symbol "${params.symbol}" was not found on line ${params.line} of ${params.file_path}: ${lineText.trim()}`,
+    );
+  }
+  return { line: params.line - 1, character };
+}
+
+/** Formats locations as `path:line:column: text` lines, nearest files first. */
+function formatLocations(config: Config, locations: Location[]): string {
+  const fileLines = new Map<string, string[]>();
+  const readLine = (filePath: string, line: number) => {
+    if (!fileLines.has(filePath)) {
+      try {
+        fileLines.set(filePath, fs.readFileSync(filePath, 'utf8').split('\n'));
+      } catch {
+        fileLines.set(filePath, []);
+      }
+    }
+    return fileLines.get(filePath)![line]?.trim() ?? '';
+  };
+
+  const lines = locations.slice(0, MAX_RESULTS).map((location) => {
+    const filePath = fileURLToPath(location.uri);
+    const { line, character } = location.range.start;
+    return `${makeRelative(filePath, config.getTargetDir())}:${line + 1}:${character + 1}: ${readLine(filePath, line)}`;
+  });
+  if (locations.length > MAX_RESULTS) {
+    lines.push(`(${locations.length - MAX_RESULTS} more not shown)`);
+  }
+  return lines.join('\n');
+}
+
+/** Finds where a symbol is defined, using the language server of its file. */
+export class GoToDefinitionTool extends BaseTool<
+  SymbolPositionParams,
+  ToolResult
+> {
+  static readonly Name = 'go_to_definition';
+
+  constructor(private readonly config: Config) {
+    super(
+      GoToDefinitionTool.Name,
+      'GoToDefinition',
+      'Finds where a symbol is defined, using a language server. More precise than searching for its name: it resolves imports, overloads and shadowing. Returns the locations of the definitions as `path:line:column: text`.',
+      {
+        type: Type.OBJECT,
+        properties: symbolPositionProperties,
+        required: ['file_path', 'line', 'symbol'],
+      },
+    );
+  }
+
+  getEffects(_params: SymbolPositionParams): ToolEffects {
+    return { reads: [this.config.getTargetDir()] };
+  }
+
+  getDescription(params: SymbolPositionParams): string {
+    return `${params.symbol} in ${shortenPath(makeRelative(params.file_path, this.config.getTargetDir()))}:${params.line}`;
+  }
+
+  validateToolParams(params: SymbolPositionParams): string | null {
+    return (
+      SchemaValidator.validate(this.schema.parameters, params) ??
+      validateSymbolPosition(this.config, params)
+    );
+  }
+
+  async execute(
+    params: SymbolPositionParams,
+    _signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return errorResult(validationError);
+    }
+    try {
+      const locations = await this.config
+        .getLspManager()
+        .definition(params.file_path, findSymbolPosition(params));
+      if (locations.length === 0) {
+        return {
+          llmContent: `No definition found for "${params.symbol}".`,
+          returnDisplay: 'No definition found.',
+        };
+      }
+      return {
+        llmContent: `Definition of "${params.symbol}":\n${formatLocations(this.config, locations)}`,
+        returnDisplay: `Found ${locations.length} definition(s).`,
+      };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+}
+
+export interface FindReferencesToolParams extends SymbolPositionParams {
+  include_declaration?: boolean;
+}
+
+/** Finds the references to a symbol, using the language server of its file. */
+export class FindReferencesTool extends BaseTool<
+  FindReferencesToolParams,
+  ToolResult
+> {
+  static readonly Name = 'find_references';
+
+  constructor(private readonly config: Config) {
+    super(
+      FindReferencesTool.Name,
+      'FindReferences',
+      `Finds all references to a symbol across the project, using a language server. Unlike a text search, it only finds uses of this symbol and not of others with the same name. Returns up to ${MAX_RESULTS} locations as \`path:line:column: text\`.`,
+      {
+        type: Type.OBJECT,
+        properties: {
+          ...symbolPositionProperties,
+          include_declaration: {
+            type: Type.BOOLEAN,
+            description:
+              '(OPTIONAL) Whether to include the declaration of the symbol. Defaults to true.',
+          },
+        },
+        required: ['file_path', 'line', 'symbol'],
+      },
+    );
+  }
+
+  getEffects(_params: FindReferencesToolParams): ToolEffects {
+    return { reads: [this.config.getTargetDir()] };
+  }
+
+  getDescription(params: FindReferencesToolParams): string {
+    return `${params.symbol} in ${shortenPath(makeRelative(params.file_path, this.config.getTargetDir()))}:${params.line}`;
+  }
+
+  validateToolParams(params: FindReferencesToolParams): string | null {
+    return (
+      SchemaValidator.validate(this.schema.parameters, params) ??
+      validateSymbolPosition(this.config, params)
+    );
+  }
+
+  async execute(
+    params: FindReferencesToolParams,
+    _signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return errorResult(validationError);
+    }
+    try {
+      const locations = await this.config
+        .getLspManager()
+        .references(
+          params.file_path,
+          findSymbolPosition(params),
+          params.include_declaration ?? true,
+        );
+      if (locations.length === 0) {
+        return {
+          llmContent: `No references found for "${params.symbol}".`,
+          returnDisplay: 'No references found.',
+        };
+      }
+      return {
+        llmContent: `Found ${locations.length} reference(s) to "${params.symbol}":\n${formatLocations(this.config, locations)}`,
+        returnDisplay: `Found ${locations.length} reference(s).`,
+      };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+}
+
+/** Describes a symbol, e.g. its type and documentation. */
+export class HoverTool extends BaseTool<SymbolPositionParams, ToolResult> {
+  static readonly Name = 'get_hover_info';
+
+  constructor(private readonly config: Config) {
+    super(
+      HoverTool.Name,
+      'HoverInfo',
+      'Shows what an editor shows when hovering over a symbol, using a language server: usually its type or signature and its documentation.',
+      {
+        type: Type.OBJECT,
+        properties: symbolPositionProperties,
+        required: ['file_path', 'line', 'symbol'],
+      },
+    );
+  }
+
+  getEffects(_params: SymbolPositionParams): ToolEffects {
+    return { reads: [this.config.getTargetDir()] };
+  }
+
+  getDescription(params: SymbolPositionParams): string {
+    return `${params.symbol} in ${shortenPath(makeRelative(params.file_path, this.config.getTargetDir()))}:${params.line}`;
+  }
+
+  validateToolParams(params: SymbolPositionParams): string | null {
+    return (
+      SchemaValidator.validate(this.schema.parameters, params) ??
+      validateSymbolPosition(this.config, params)
+    );
+  }
+
+  async execute(
+    params: SymbolPositionParams,
+    _signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return errorResult(validationError);
+    }
+    try {
+      const text = await this.config
+        .getLspManager()
+        .hover(params.file_path, findSymbolPosition(params));
+      const content = text || `No information found for "${params.symbol}".`;
+      return { llmContent: content, returnDisplay: content };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+}
+
+export interface WorkspaceSymbolsToolParams {
+  query: string;
+  file_path?: string;
+}
+
+/** Searches the symbols of the project by name. */
+export class WorkspaceSymbolsTool extends BaseTool<
+  WorkspaceSymbolsToolParams,
+  ToolResult
+> {
+  static readonly Name = 'workspace_symbols';
+
+  constructor(private readonly config: Config) {
+    super(
+      WorkspaceSymbolsTool.Name,
+      'WorkspaceSymbols',
+      `Searches the classes, functions, variables and other symbols of the project by name, using the language servers. Returns up to ${MAX_RESULTS} symbols with their kind and location.`,
+      {
+        type: Type.OBJECT,
+        properties: {
+          query: {
+            type: Type.STRING,
+            description:
+              'The name, or part of the name, of the symbols to find. Servers usually match it fuzzily.',
+          },
+          file_path: {
+            type: Type.STRING,
+            description:
+              '(OPTIONAL) The absolute path to any file of the language to search. All configured language servers are searched if omitted.',
+          },
+        },
+        required: ['query'],
+      },
+    );
+  }
+
+  getEffects(_params: WorkspaceSymbolsToolParams): ToolEffects {
+    return { reads: [this.config.getTargetDir()] };
+  }
+
+  getDescription(params: WorkspaceSymbolsToolParams): string {
+    return params.query;
+  }
+
+  validateToolParams(params: WorkspaceSymbolsToolParams): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+    if (params.file_path && !path.isAbsolute(params.file_path)) {
+      return `File path must be absolute: ${params.file_path}`;
+    }
+    return null;
+  }
+
+  async execute(
+    params: WorkspaceSymbolsToolParams,
+    _signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return errorResult(validationError);
+    }
+    try {
+      const symbols = await this.config
+        .getLspManager()
+        .workspaceSymbols(params.query, params.file_path);
+      if (symbols.length === 0) {
+        return {
+          llmContent: `No symbols found for "${params.query}".`,
+          returnDisplay: 'No symbols found.',
+        };
+      }
+      const lines = symbols
+        .slice(0, MAX_RESULTS)
+        .map((symbol) => this.formatSymbol(symbol));
+      if (symbols.length > MAX_RESULTS) {
+        lines.push(`(${symbols.length - MAX_RESULTS} more not shown)`);
+      }
+      return {
+        llmContent: `Found ${symbols.length} symbol(s) for "${params.query}":\n${lines.join('\n')}`,
+        returnDisplay: `Found ${symbols.length} symbol(s).`,
+      };
+    } catch (error) {
+      return errorResult(error);
+    }
+  }
+
+  private formatSymbol(symbol: SymbolInformation): string {
+    const kind = SYMBOL_KINDS[symbol.kind - 1] ?? 'symbol';
+    const container = symbol.containerName ? ` in ${symbol.containerName}` : '';
+    const filePath = makeRelative(
+      fileURLToPath(symbol.location.uri),
+      this.config.getTargetDir(),
+    );
+    const position =
+      'range' in symbol.location
+        ? `:${symbol.location.range.start.line + 1}:${symbol.location.range.start.character + 1}`
+        : '';
+    return `${symbol.name} (${kind}${container}): ${filePath}${position}`;
+  }
+}
+
+export interface RenameSymbolToolParams extends SymbolPositionParams {
+  new_name: string;
+}
+
+interface FileRename {
+  filePath: string;
+  originalContent: string;
+  newContent: string;
+}
+
+/** Applies LSP text edits, which must not overlap, to the content of a file. */
+function applyTextEdits(content: string, edits: TextEdit[]): string {
+  const lineOffsets = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      lineOffsets.push(i + 1);
+    }
+  }
+  const toOffset = ({ line, character }: Position) =>
+    Math.min((lineOffsets[line] ?? content.length) + character, content.length);
+  const sortedEdits = [...edits].sort(
+    (a, b) => toOffset(b.range.start) - toOffset(a.range.start),
+  );
+  let result = content;
+  for (const edit of sortedEdits) {
+    result =
+      result.slice(0, toOffset(edit.range.start)) +
+      edit.newText +
+      result.slice(toOffset(edit.range.end));
+  }
+  return result;
+}
+
+/** Renames a symbol everywhere it is used, using the language server. */
+export class RenameSymbolTool extends BaseTool<
+  RenameSymbolToolParams,
+  ToolResult
+> {
+  static readonly Name = 'rename_symbol';
+
+  constructor(private readonly config: Config) {
+    super(
+      RenameSymbolTool.Name,
+      'RenameSymbol',
+      'Renames a symbol and all of its references across the project, using a language server. Safer than search and replace: it only changes uses of this symbol. The user confirms the combined diff before any file is changed.',
+      {
+        type: Type.OBJECT,
+        properties: {
+          ...symbolPositionProperties,
+          new_name: {
+            type: Type.STRING,
+            description: 'The new name of the symbol.',
+          },
+        },
+        required: ['file_path', 'line', 'symbol', 'new_name'],
+      },
+    );
+  }
+
+  getEffects(_params: RenameSymbolToolParams): ToolEffects {
+    return { writes: [this.config.getTargetDir()] };
+  }
+
+  getDescription(params: RenameSymbolToolParams): string {
+    return `${params.symbol} => ${params.new_name} in ${shortenPath(makeRelative(params.file_path, this.config.getTargetDir()))}:${params.line}`;
+  }
+
+  validateToolParams(params: RenameSymbolToolParams): string | null {
+    const errors =
+      SchemaValidator.validate(this.schema.parameters, params) ??
+      validateSymbolPosition(this.config, params);
+    if (errors) {
+      return errors;
+    }
+    if (!params.new_name.trim()) {
+      return 'new_name cannot be empty.';
+    }
+    return null;
+  }
+
+  /**
+   * Asks the language server for the edits of the rename and applies them in
+   * memory.
+   * @throws Error if the server cannot rename the symbol.
+   */
+  private async calculateRename(
+    params: RenameSymbolToolParams,
+  ): Promise<FileRename[]> {
+    const workspaceEdit = await this.config
+      .getLspManager()
+      .rename(params.file_path, findSymbolPosition(params), params.new_name);
+    const editsByUri = this.collectEdits(workspaceEdit);
+    if (editsByUri.size === 0) {
+      throw new Error(`The language server found nothing to rename.`);
+    }
+
+    const targetDir = this.config.getTargetDir();
+    return [...editsByUri].map(([uri, edits]) => {
+      const filePath = fileURLToPath(uri);
+      const relativePath = path.relative(targetDir, filePath);
+      if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        throw new Error(
+          `The rename would change ${filePath}, which is outside the root directory (${targetDir}).`,
+        );
+      }
+      const originalContent = fs.readFileSync(filePath, 'utf8');
+      return {
+        filePath,
+        originalContent,
+        newContent: applyTextEdits(originalContent, edits),
+      };
+    });
+  }
+
+  private collectEdits(
+    workspaceEdit: WorkspaceEdit | null,
+  ): Map<string, TextEdit[]> {
+    const editsByUri = new Map<string, TextEdit[]>();
+    for (const [uri, edits] of Object.entries(workspaceEdit?.changes ?? {})) {
+      editsByUri.set(uri, [...(editsByUri.get(uri) ?? []), ...edits]);
+    }
+    for (const change of workspaceEdit?.documentChanges ?? []) {
+      if (!('textDocument' in change)) {
+        throw new Error(
+          `The rename would ${change.kind} a file, which is not supported.`,
+        );
+      }
+      const { uri } = change.textDocument;
+      editsByUri.set(uri, [...(editsByUri.get(uri) ?? []), ...change.edits]);
+    }
+    return editsByUri;
+  }
+
+  private createDiff(renames: FileRename[]): string {
+    return renames
+      .map((rename) =>
+        Diff.createPatch(
+          makeRelative(rename.filePath, this.config.getTargetDir()),
+          rename.originalContent,
+          rename.newContent,
+          'Current',
+          'Proposed',
+          DEFAULT_DIFF_OPTIONS,
+        ),
+      )
+      .join('');
+  }
+
+  async shouldConfirmExecute(
+    params: RenameSymbolToolParams,
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.config.getApprovalMode() === ApprovalMode.AUTO_EDIT) {
+      return false;
+    }
+    if (this.validateToolParams(params)) {
+      return false; // skip confirmation, execute call will fail immediately
+    }
+
+    let renames: FileRename[];
+    try {
+      renames = await this.calculateRename(params);
+    } catch {
+      return false; // execute call reports the error
+    }
+
+    const confirmationDetails: ToolEditConfirmationDetails = {
+      type: 'edit',
+      title: `Confirm Rename: ${params.symbol} => ${params.new_name} (${renames.length} file(s))`,
+      fileName: path.basename(renames[0].filePath),
+      fileDiff: this.createDiff(renames),
+      canModifyWithEditor: false,
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          this.config.setApprovalMode(ApprovalMode.AUTO_EDIT);
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+
+  async execute(
+    params: RenameSymbolToolParams,
+    _signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return errorResult(validationError);
+    }
+
+    let renames: FileRename[];
+    try {
+      renames = await this.calculateRename(params);
+    } catch (error) {
+      return errorResult(error);
+    }
+
+    const written: FileRename[] = [];
+    try {
+      for (const rename of renames) {
+        written.push(rename);
+        fs.writeFileSync(rename.filePath, rename.newContent, 'utf8');
+      }
+    } catch (error) {
+      // Put back the files written so far, so that nothing is renamed.
+      for (const rename of written) {
+        try {
+          fs.writeFileSync(rename.filePath, rename.originalContent, 'utf8');
+        } catch {
+          // Report the original error below.
+        }
+      }
+      return errorResult(`${getErrorMessage(error)}. No files were changed.`);
+    }
+
+    const lspManager = this.config.getLspManager();
+    for (const rename of renames) {
+      lspManager.didWriteFile(rename.filePath);
+    }
+
+    const fileList = renames
+      .map((rename) =>
+        makeRelative(rename.filePath, this.config.getTargetDir()),
+      )
+      .join(', ');
+    return {
+      llmContent: `Renamed "${params.symbol}" to "${params.new_name}" in ${renames.length} file(s): ${fileList}`,
+      returnDisplay: {
+        fileDiff: this.createDiff(renames),
+        fileName: path.basename(renames[0].filePath),
+      },
+    };
+  }
+}
@@ -14,7 +14,12 @@ import {
   afterEach,
   Mocked,
 } from 'vitest';
-import { discoverMcpTools } from './mcp-client.js';
+import {
+  disconnectMcpServers,
+  discoverMcpTools,
+  getMCPServerStatus,
+  MCPServerStatus,
+} from './mcp-client.js';
 import { sanitizeParameters } from './tool-registry.js';
 import { Schema, Type } from '@google/genai';
 import { Config, MCPServerConfig } from '../config/config.js';
@@ -32,10 +37,12 @@ vi.mock('@modelcontextprotocol/sdk/client/index.js', () => {
   const MockedClient = vi.fn();
   MockedClient.prototype.connect = vi.fn();
   MockedClient.prototype.listTools = vi.fn();
+  MockedClient.prototype.close = vi.fn();
   // Ensure instances have an onerror property that can be spied on or assigned to
   MockedClient.mockImplementation(() => ({
     connect: MockedClient.prototype.connect,
     listTools: MockedClient.prototype.listTools,
+    close: MockedClient.prototype.close,
     onerror: vi.fn(), // Each instance gets its own onerror mock
   }));
   return { Client: MockedClient };
@@ -126,6 +133,7 @@ describe('discoverMcpTools', () => {
     vi.mocked(Client.prototype.listTools)
       .mockClear()
       .mockResolvedValue({ tools: [] });
+    vi.mocked(Client.prototype.close).mockClear().mockResolvedValue(undefined);
 
     vi.mocked(StdioClientTransport).mockClear();
     // Ensure the StdioClientTransport mock constructor returns an object with a close method
@@ -260,6 +268,76 @@ describe('discoverMcpTools', () => {
     expect(registeredTool.name).toBe('tool-stdio');
   });
 
+  it('should apply the limits of a tool over those of its server', async () => {
+    const serverConfig: MCPServerConfig = {
+      command: './mcp-stdio',
+      timeout: 5000,
+      maxOutputChars: 1000,
+    };
+    mockConfig.getMcpServers.mockReturnValue({ 'stdio-server': serverConfig });
+    vi.mocked(Client.prototype.listTools).mockResolvedValue({
+      tools: [
+        {
+          name: 'limited',
+          inputSchema: { type: 'object' as const, properties: {} },
+        },
+        {
+          name: 'unlimited',
+          inputSchema: { type: 'object' as const, properties: {} },
+        },
+      ],
+    });
+    const toolLimits: Record<string, { maxOutputChars: number }> = {
+      limited: { maxOutputChars: 100 },
+    };
+
+    await discoverMcpTools(
+      mockConfig.getMcpServers() ?? {},
+      mockConfig.getMcpServerCommand(),
+      mockToolRegistry as any,
+      '/tmp/tool-output',
+      (toolName, defaults) => ({ ...defaults, ...toolLimits[toolName] }),
+    );
+
+    const [limited, unlimited] = mockToolRegistry.registerTool.mock.calls.map(
+      ([tool]) => tool as DiscoveredMCPTool,
+    );
+    expect(limited.maxOutputChars).toBe(100);
+    expect(limited.timeout).toBe(5000);
+    expect(unlimited.maxOutputChars).toBe(1000);
+  });
+
+  it('should close the connections that were kept open for tools', async () => {
+    mockConfig.getMcpServers.mockReturnValue({
+      'stdio-server': { command: './mcp-stdio' },
+    });
+    vi.mocked(Client.prototype.listTools).mockResolvedValue({
+      tools: [
+        {
+          name: 'tool-stdio',
+          inputSchema: { type: 'object' as const, properties: {} },
+        },
+      ],
+    });
+    mockToolRegistry.getToolsByServer.mockReturnValue([
+      expect.any(DiscoveredMCPTool),
+    ]);
+    await discoverMcpTools(
+      mockConfig.getMcpServers() ?? {},
+      mockConfig.getMcpServerCommand(),
+      mockToolRegistry as any,
+    );
+    expect(getMCPServerStatus('stdio-server')).toBe(MCPServerStatus.CONNECTED);
+
+    await disconnectMcpServers();
+    await disconnectMcpServers();
+
+    expect(Client.prototype.close).toHaveBeenCalledTimes(1);
+    expect(getMCPServerStatus('stdio-server')).toBe(
+      MCPServerStatus.DISCONNECTED,
+    );
+  });
+
   it('should discover tools via mcpServers config (sse)', async () => {
     const serverConfig: MCPServerConfig = { url: 'http://localhost:1234/sse' };
     mockConfig.getMcpServers.mockReturnValue({ 'sse-server': serverConfig });
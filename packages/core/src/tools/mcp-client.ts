@@ -12,10 +12,11 @@ import {
   StreamableHTTPClientTransportOptions,
 } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import { parse } from 'shell-quote';
-import { MCPServerConfig } from '../config/config.js';
+import { MCPServerConfig, ToolLimits } from '../config/config.js';
 import { DiscoveredMCPTool } from './mcp-tool.js';
 import { Type, mcpToTool } from '@google/genai';
 import { sanitizeParameters, ToolRegistry } from './tool-registry.js';
+import { DEFAULT_MAX_TOOL_OUTPUT_CHARS } from '../utils/toolOutput.js';
 
 export const MCP_DEFAULT_TIMEOUT_MSEC = 10 * 60 * 1000; // default to 10 minutes
 
@@ -48,6 +49,11 @@ export enum MCPDiscoveryState {
  */
 const mcpServerStatusesInternal: Map<string, MCPServerStatus> = new Map();
 
+/**
+ * Clients of the MCP servers whose connections are kept open for their tools
+ */
+const mcpClients: Map<string, Client> = new Map();
+
 /**
  * Track the overall MCP discovery state
  */
@@ -120,10 +126,33 @@ export function getMCPDiscoveryState(): MCPDiscoveryState {
   return mcpDiscoveryState;
 }
 
+/**
+ * Closes the connections to the MCP servers that were kept open for their
+ * tools, e.g. before the tools of the servers are discovered again.
+ */
+export async function disconnectMcpServers(): Promise<void> {
+  const clients = [...mcpClients.entries()];
+  mcpClients.clear();
+  await Promise.all(
+    clients.map(async ([mcpServerName, mcpClient]) => {
+      try {
+        await mcpClient.close();
+      } catch (error) {
+        console.error(
+          `Failed to close the connection to MCP server '${mcpServerName}': ${error}`,
+        );
+      }
+      updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
+    }),
+  );
+}
+
 export async function discoverMcpTools(
   mcpServers: Record<string, MCPServerConfig>,
   mcpServerCommand: string | undefined,
   toolRegistry: ToolRegistry,
+  toolOutputDir?: string,
+  getToolLimits?: (toolName: string, defaults: ToolLimits) => ToolLimits,
 ): Promise<void> {
   // Set discovery state to in progress
   mcpDiscoveryState = MCPDiscoveryState.IN_PROGRESS;
@@ -136,15 +165,24 @@ export async function discoverMcpTools(
         throw new Error('failed to parse mcpServerCommand: ' + cmd);
       }
       // use generic server name 'mcp'
-      mcpServers['mcp'] = {
-        command: args[0],
-        args: args.slice(1),
+      mcpServers = {
+        ...mcpServers,
+        mcp: {
+          command: args[0],
+          args: args.slice(1),
+        },
       };
     }
 
     const discoveryPromises = Object.entries(mcpServers).map(
       ([mcpServerName, mcpServerConfig]) =>
-        connectAndDiscover(mcpServerName, mcpServerConfig, toolRegistry),
+        connectAndDiscover(
+          mcpServerName,
+          mcpServerConfig,
+          toolRegistry,
+          toolOutputDir,
+          getToolLimits,
+        ),
     );
     await Promise.all(discoveryPromises);
 
@@ -165,12 +203,20 @@ export async function discoverMcpTools(
  * @param mcpServerName The name identifier for this MCP server
  * @param mcpServerConfig Configuration object containing connection details
  * @param toolRegistry The registry to register discovered tools with
+ * @param toolOutputDir Where the full output of truncated tool calls is saved
+ * @param getToolLimits Looks up the limits configured for a tool, which take
+ *   precedence over the limits of its server
  * @returns Promise that resolves when discovery is complete
  */
 async function connectAndDiscover(
   mcpServerName: string,
   mcpServerConfig: MCPServerConfig,
   toolRegistry: ToolRegistry,
+  toolOutputDir?: string,
+  getToolLimits: (toolName: string, defaults: ToolLimits) => ToolLimits = (
+    _toolName,
+    defaults,
+  ) => defaults,
 ): Promise<void> {
   // Initialize the server status as connecting
   updateMCPServerStatus(mcpServerName, MCPServerStatus.CONNECTING);
@@ -216,6 +262,9 @@ async function connectAndDiscover(
     version: '0.0.1',
   });
 
+  // timeouts of the discovered tools by their name on the server
+  const toolTimeouts = new Map<string, number | undefined>();
+
   // patch Client.callTool to use request timeout as genai McpCallTool.callTool does not do it
   // TODO: remove this hack once GenAI SDK does callTool with request options
   if ('callTool' in mcpClient) {
@@ -223,7 +272,10 @@ async function connectAndDiscover(
     mcpClient.callTool = function (params, resultSchema, options) {
       return origCallTool(params, resultSchema, {
         ...options,
-        timeout: mcpServerConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC,
+        timeout:
+          toolTimeouts.get(params.name) ??
+          mcpServerConfig.timeout ??
+          MCP_DEFAULT_TIMEOUT_MSEC,
       });
     };
   }
@@ -341,6 +393,14 @@ async function connectAndDiscover(
 
       sanitizeParameters(funcDecl.parameters);
 
+      // limits configured for the tool take precedence over its server's
+      const { timeout, maxOutputChars } = getToolLimits(toolNameForModel, {
+        timeout: mcpServerConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC,
+        maxOutputChars:
+          mcpServerConfig.maxOutputChars ?? DEFAULT_MAX_TOOL_OUTPUT_CHARS,
+      });
+      toolTimeouts.set(funcDecl.name, timeout);
+
       toolRegistry.registerTool(
         new DiscoveredMCPTool(
           mcpCallableTool,
@@ -349,8 +409,10 @@ async function connectAndDiscover(
           funcDecl.description ?? '',
           funcDecl.parameters ?? { type: Type.OBJECT, properties: {} },
           funcDecl.name,
-          mcpServerConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC,
+          timeout,
           mcpServerConfig.trust,
+          maxOutputChars,
+          toolOutputDir,
         ),
       );
     }
@@ -388,5 +450,7 @@ async function connectAndDiscover(
       // Update status to disconnected
       updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
     }
+  } else {
+    mcpClients.set(mcpServerName, mcpClient);
   }
 }
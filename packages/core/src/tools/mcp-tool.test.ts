@@ -17,6 +17,9 @@ import {
 import { DiscoveredMCPTool } from './mcp-tool.js'; // Added getStringifiedResultForDisplay
 import { ToolResult, ToolConfirmationOutcome } from './tools.js'; // Added ToolConfirmationOutcome
 import { CallableTool, Part } from '@google/genai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 // Mock @google/genai mcpToTool and CallableTool
 // We only need to mock the parts of CallableTool that DiscoveredMCPTool uses.
@@ -170,6 +173,39 @@ describe('DiscoveredMCPTool', () => {
 
       await expect(tool.execute(params)).rejects.toThrow(expectedError);
     });
+
+    it('should truncate output that exceeds maxOutputChars', async () => {
+      const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-output-'));
+      const tool = new DiscoveredMCPTool(
+        mockCallableToolInstance,
+        serverName,
+        toolNameForModel,
+        baseDescription,
+        inputSchema,
+        serverToolName,
+        undefined,
+        undefined,
+        10,
+        outputDir,
+      );
+      const output = 'a'.repeat(20) + 'b'.repeat(20);
+      mockCallTool.mockResolvedValue([{ text: output }]);
+
+      try {
+        const toolResult = await tool.execute({ param: 'testValue' });
+
+        expect(toolResult.llmContent).toContain('characters truncated');
+        expect(toolResult.llmContent).not.toContain(output);
+        expect(toolResult.returnDisplay).toContain(output);
+        const [outputFile] = fs.readdirSync(outputDir);
+        expect(outputFile).toMatch(/^test-mcp-tool-for-model-/);
+        expect(
+          fs.readFileSync(path.join(outputDir, outputFile), 'utf-8'),
+        ).toContain(output);
+      } finally {
+        fs.rmSync(outputDir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe('shouldConfirmExecute', () => {
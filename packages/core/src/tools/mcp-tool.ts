@@ -12,6 +12,7 @@ import {
   ToolMcpConfirmationDetails,
 } from './tools.js';
 import { CallableTool, Part, FunctionCall, Schema } from '@google/genai';
+import { limitToolOutput } from '../utils/toolOutput.js';
 
 type ToolParams = Record<string, unknown>;
 
@@ -27,6 +28,8 @@ export class DiscoveredMCPTool extends BaseTool<ToolParams, ToolResult> {
     readonly serverToolName: string,
     readonly timeout?: number,
     readonly trust?: boolean,
+    readonly maxOutputChars?: number,
+    readonly outputDir?: string,
   ) {
     super(
       name,
@@ -82,10 +85,26 @@ export class DiscoveredMCPTool extends BaseTool<ToolParams, ToolResult> {
     ];
 
     const responseParts: Part[] = await this.mcpTool.callTool(functionCalls);
+    const returnDisplay = getStringifiedResultForDisplay(responseParts);
+
+    if (
+      this.maxOutputChars !== undefined &&
+      this.outputDir &&
+      returnDisplay.length > this.maxOutputChars
+    ) {
+      return {
+        llmContent: limitToolOutput(returnDisplay, {
+          maxChars: this.maxOutputChars,
+          outputDir: this.outputDir,
+          name: this.name,
+        }),
+        returnDisplay,
+      };
+    }
 
     return {
       llmContent: responseParts,
-      returnDisplay: getStringifiedResultForDisplay(responseParts),
+      returnDisplay,
     };
   }
 }
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { BaseTool, ToolResult } from './tools.js';
+import { BaseTool, ToolEffects, ToolResult } from './tools.js';
 import { FunctionDeclaration, Type } from '@google/genai';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -109,6 +109,10 @@ export class MemoryTool extends BaseTool<SaveMemoryParams, ToolResult> {
     );
   }
 
+  getEffects(_params: SaveMemoryParams): ToolEffects {
+    return { writes: [getGlobalMemoryFilePath()] };
+  }
+
   static async performAddMemoryEntry(
     text: string,
     memoryFilePath: string,
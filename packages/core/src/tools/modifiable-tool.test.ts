@@ -191,6 +191,25 @@ describe('modifyWithEditor', () => {
       });
     });
 
+    it('should use the diff of the modify context if it has one', async () => {
+      mockModifyContext.getUpdatedDiff = vi
+        .fn()
+        .mockReturnValue('diff of the updated params');
+
+      const result = await modifyWithEditor(
+        mockParams,
+        mockModifyContext,
+        'vscode' as EditorType,
+        abortSignal,
+      );
+
+      expect(mockModifyContext.getUpdatedDiff).toHaveBeenCalledWith(
+        result.updatedParams,
+      );
+      expect(mockCreatePatch).not.toHaveBeenCalled();
+      expect(result.updatedDiff).toBe('diff of the updated params');
+    });
+
     it('should create temp directory if it does not exist', async () => {
       (fs.existsSync as Mock).mockReturnValue(false);
 
@@ -32,6 +32,12 @@ export interface ModifyContext<ToolParams> {
     modifiedProposedContent: string,
     originalParams: ToolParams,
   ) => ToolParams;
+
+  /**
+   * Returns the diff to confirm for the updated params. Defaults to the diff
+   * between the current content and the modified proposed content.
+   */
+  getUpdatedDiff?: (updatedParams: ToolParams) => string;
 }
 
 export interface ModifyResult<ToolParams> {
@@ -103,14 +109,16 @@ function getUpdatedParams<ToolParams>(
     newContent,
     originalParams,
   );
-  const updatedDiff = Diff.createPatch(
-    path.basename(modifyContext.getFilePath(originalParams)),
-    oldContent,
-    newContent,
-    'Current',
-    'Proposed',
-    DEFAULT_DIFF_OPTIONS,
-  );
+  const updatedDiff = modifyContext.getUpdatedDiff
+    ? modifyContext.getUpdatedDiff(updatedParams)
+    : Diff.createPatch(
+        path.basename(modifyContext.getFilePath(originalParams)),
+        oldContent,
+        newContent,
+        'Current',
+        'Proposed',
+        DEFAULT_DIFF_OPTIONS,
+      );
 
   return { updatedParams, updatedDiff };
 }
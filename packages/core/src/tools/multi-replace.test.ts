@@ -0,0 +1,323 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const mockEnsureCorrectEdit = vi.hoisted(() => vi.fn());
+
+vi.mock('../utils/editCorrector.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/editCorrector.js')>()),
+  ensureCorrectEdit: mockEnsureCorrectEdit,
+}));
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { MultiReplaceTool } from './multi-replace.js';
+import {
+  FileDiff,
+  ToolConfirmationOutcome,
+  ToolEditConfirmationDetails,
+} from './tools.js';
+import { ApprovalMode, Config } from '../config/config.js';
+import { countOccurrences } from '../utils/editCorrector.js';
+
+describe('MultiReplaceTool', () => {
+  let tool: MultiReplaceTool;
+  let tempDir: string;
+  let rootDir: string;
+  let mockConfig: Config;
+  const abortSignal = new AbortController().signal;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'multi-replace-test-'));
+    rootDir = path.join(tempDir, 'root');
+    fs.mkdirSync(rootDir);
+
+    mockConfig = {
+      getGeminiClient: vi.fn(),
+      getTargetDir: () => rootDir,
+      getApprovalMode: vi.fn().mockReturnValue(ApprovalMode.DEFAULT),
+      setApprovalMode: vi.fn(),
+      getLspManager: () => ({ didWriteFile: vi.fn() }),
+    } as unknown as Config;
+
+    mockEnsureCorrectEdit.mockReset();
+    mockEnsureCorrectEdit.mockImplementation(
+      async (_, currentContent, params) => ({
+        params,
+        occurrences: countOccurrences(currentContent, params.old_string),
+      }),
+    );
+
+    tool = new MultiReplaceTool(mockConfig);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, content: string) => {
+    const filePath = path.join(rootDir, name);
+    fs.writeFileSync(filePath, content, 'utf8');
+    return filePath;
+  };
+
+  describe('validateToolParams', () => {
+    it('should reject an empty list of edits', () => {
+      expect(tool.validateToolParams({ edits: [] })).toMatch(
+        /must NOT have fewer than 1 items/,
+      );
+    });
+
+    it('should name the edit whose path is outside the root', () => {
+      const params = {
+        edits: [
+          {
+            file_path: path.join(rootDir, 'a.txt'),
+            old_string: 'a',
+            new_string: 'b',
+          },
+          { file_path: '/etc/passwd', old_string: 'a', new_string: 'b' },
+        ],
+      };
+
+      expect(tool.validateToolParams(params)).toMatch(
+        /^Edit 2: File path must be within the root directory/,
+      );
+    });
+  });
+
+  describe('execute', () => {
+    it('should apply edits in order across several files', async () => {
+      const fileA = writeFile('a.ts', 'const foo = 1;\nexport { foo };\n');
+      const fileB = writeFile('b.ts', "import { foo } from './a';\n");
+
+      const result = await tool.execute(
+        {
+          edits: [
+            {
+              file_path: fileA,
+              old_string: 'const foo',
+              new_string: 'const bar',
+            },
+            { file_path: fileA, old_string: '{ foo }', new_string: '{ bar }' },
+            { file_path: fileB, old_string: '{ foo }', new_string: '{ bar }' },
+            {
+              file_path: path.join(rootDir, 'sub', 'c.ts'),
+              old_string: '',
+              new_string: 'new file\n',
+            },
+          ],
+        },
+        abortSignal,
+      );
+
+      expect(result.llmContent).toMatch(
+        /Successfully applied 4 edits \(3 replacements\) to 3 file\(s\)/,
+      );
+      expect(fs.readFileSync(fileA, 'utf8')).toBe(
+        'const bar = 1;\nexport { bar };\n',
+      );
+      expect(fs.readFileSync(fileB, 'utf8')).toBe(
+        "import { bar } from './a';\n",
+      );
+      expect(fs.readFileSync(path.join(rootDir, 'sub', 'c.ts'), 'utf8')).toBe(
+        'new file\n',
+      );
+      const display = result.returnDisplay as FileDiff;
+      expect(display.fileDiff).toContain('Index: a.ts');
+      expect(display.fileDiff).toContain('Index: b.ts');
+      expect(display.fileDiff).toContain(`Index: ${path.join('sub', 'c.ts')}`);
+    });
+
+    it('should change no file when any edit fails', async () => {
+      const fileA = writeFile('a.txt', 'alpha\n');
+      const fileB = writeFile('b.txt', 'beta\n');
+
+      const result = await tool.execute(
+        {
+          edits: [
+            { file_path: fileA, old_string: 'alpha', new_string: 'ALPHA' },
+            { file_path: fileB, old_string: 'gamma', new_string: 'GAMMA' },
+          ],
+        },
+        abortSignal,
+      );
+
+      expect(result.llmContent).toMatch(
+        /^Edit 2 of 2 failed: 0 occurrences found for old_string/,
+      );
+      expect(result.llmContent).toMatch(/No files were changed\.$/);
+      expect(result.returnDisplay).toBe(
+        'Error: Edit 2 of 2: Could not find the string to replace.',
+      );
+      expect(fs.readFileSync(fileA, 'utf8')).toBe('alpha\n');
+      expect(fs.readFileSync(fileB, 'utf8')).toBe('beta\n');
+    });
+
+    it('should restore the original bytes of written files when a write fails', async () => {
+      const fileA = writeFile('a.txt', 'alpha\r\nomega\r\n');
+      const fileB = writeFile('b.txt', 'beta\n');
+      const writeFileSync = fs.writeFileSync;
+      vi.spyOn(fs, 'writeFileSync').mockImplementation((file, ...args) => {
+        if (file === fileB && args[0] === 'BETA\n') {
+          throw new Error('ENOSPC: no space left on device');
+        }
+        writeFileSync(file, ...args);
+      });
+
+      const result = await tool.execute(
+        {
+          edits: [
+            { file_path: fileA, old_string: 'alpha', new_string: 'ALPHA' },
+            { file_path: fileB, old_string: 'beta', new_string: 'BETA' },
+          ],
+        },
+        abortSignal,
+      );
+      vi.mocked(fs.writeFileSync).mockRestore();
+
+      expect(result.llmContent).toBe(
+        'Error executing edits: ENOSPC: no space left on device. No files were changed.',
+      );
+      expect(fs.readFileSync(fileA, 'utf8')).toBe('alpha\r\nomega\r\n');
+      expect(fs.readFileSync(fileB, 'utf8')).toBe('beta\n');
+    });
+
+    it('should name the files that could not be restored', async () => {
+      const fileA = writeFile('a.txt', 'alpha\n');
+      const fileB = writeFile('b.txt', 'beta\n');
+      const writeFileSync = fs.writeFileSync;
+      vi.spyOn(fs, 'writeFileSync').mockImplementation((file, ...args) => {
+        // Every write to b.txt and the restore of a.txt fail.
+        if (file === fileB || args[0] instanceof Buffer) {
+          throw new Error('EACCES: permission denied');
+        }
+        writeFileSync(file, ...args);
+      });
+
+      const result = await tool.execute(
+        {
+          edits: [
+            { file_path: fileA, old_string: 'alpha', new_string: 'ALPHA' },
+            { file_path: fileB, old_string: 'beta', new_string: 'BETA' },
+          ],
+        },
+        abortSignal,
+      );
+      vi.mocked(fs.writeFileSync).mockRestore();
+
+      expect(result.llmContent).toBe(
+        `Error executing edits: EACCES: permission denied. These files could not be restored and may be changed: ${fileA}, ${fileB}`,
+      );
+      expect(fs.readFileSync(fileA, 'utf8')).toBe('ALPHA\n');
+    });
+
+    it('should explain when an earlier edit changed the text to replace', async () => {
+      const file = writeFile('a.txt', 'one two\n');
+
+      const result = await tool.execute(
+        {
+          edits: [
+            { file_path: file, old_string: 'one two', new_string: 'three' },
+            { file_path: file, old_string: 'two', new_string: 'four' },
+          ],
+        },
+        abortSignal,
+      );
+
+      expect(result.llmContent).toMatch(/changed by an earlier edit/);
+      expect(fs.readFileSync(file, 'utf8')).toBe('one two\n');
+    });
+
+    it('should check the expected number of replacements', async () => {
+      const file = writeFile('a.txt', 'x x x\n');
+
+      const result = await tool.execute(
+        {
+          edits: [
+            {
+              file_path: file,
+              old_string: 'x',
+              new_string: 'y',
+              expected_replacements: 2,
+            },
+          ],
+        },
+        abortSignal,
+      );
+
+      expect(result.returnDisplay).toBe(
+        'Error: Edit 1 of 1: Expected 2 occurrences but found 3.',
+      );
+      expect(fs.readFileSync(file, 'utf8')).toBe('x x x\n');
+    });
+  });
+
+  describe('shouldConfirmExecute', () => {
+    it('should request confirmation with one diff for all files', async () => {
+      const fileA = writeFile('a.txt', 'alpha\n');
+      const fileB = writeFile('b.txt', 'beta\n');
+
+      const confirmation = (await tool.shouldConfirmExecute(
+        {
+          edits: [
+            { file_path: fileA, old_string: 'alpha', new_string: 'ALPHA' },
+            { file_path: fileB, old_string: 'beta', new_string: 'BETA' },
+          ],
+        },
+        abortSignal,
+      )) as ToolEditConfirmationDetails;
+
+      expect(confirmation).toEqual(
+        expect.objectContaining({
+          type: 'edit',
+          title: 'Confirm Edits: 2 files',
+          canModifyWithEditor: false,
+        }),
+      );
+      expect(confirmation.fileDiff).toMatch(/-alpha\n\+ALPHA/);
+      expect(confirmation.fileDiff).toMatch(/-beta\n\+BETA/);
+
+      await confirmation.onConfirm(ToolConfirmationOutcome.ProceedAlways);
+      expect(mockConfig.setApprovalMode).toHaveBeenCalledWith(
+        ApprovalMode.AUTO_EDIT,
+      );
+    });
+
+    it('should not request confirmation in auto edit mode', async () => {
+      vi.mocked(mockConfig.getApprovalMode).mockReturnValue(
+        ApprovalMode.AUTO_EDIT,
+      );
+      const file = writeFile('a.txt', 'alpha\n');
+
+      expect(
+        await tool.shouldConfirmExecute(
+          {
+            edits: [
+              { file_path: file, old_string: 'alpha', new_string: 'ALPHA' },
+            ],
+          },
+          abortSignal,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  it('should declare writes to every edited file', () => {
+    const fileA = path.join(rootDir, 'a.txt');
+    const fileB = path.join(rootDir, 'b.txt');
+
+    expect(
+      tool.getEffects({
+        edits: [
+          { file_path: fileA, old_string: 'a', new_string: 'b' },
+          { file_path: fileB, old_string: 'a', new_string: 'b' },
+        ],
+      }),
+    ).toEqual({ writes: [fileA, fileB] });
+  });
+});
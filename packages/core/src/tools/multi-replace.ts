@@ -0,0 +1,458 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import * as path from 'path';
+import * as Diff from 'diff';
+import {
+  BaseTool,
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+  ToolEditConfirmationDetails,
+  ToolEffects,
+  ToolResult,
+} from './tools.js';
+import { Type } from '@google/genai';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getErrorMessage, isNodeError } from '../utils/errors.js';
+import { Config, ApprovalMode } from '../config/config.js';
+import { countOccurrences, ensureCorrectEdit } from '../utils/editCorrector.js';
+import { DEFAULT_DIFF_OPTIONS } from './diffOptions.js';
+import { EditTool } from './edit.js';
+import { ReadFileTool } from './read-file.js';
+import { NotebookEditTool } from './notebook-edit.js';
+
+/**
+ * A single replacement of the MultiReplace tool
+ */
+export interface MultiReplaceEdit {
+  /**
+   * The absolute path to the file to modify
+   */
+  file_path: string;
+
+  /**
+   * The text to replace, or an empty string to create a new file
+   */
+  old_string: string;
+
+  /**
+   * The text to replace it with
+   */
+  new_string: string;
+
+  /**
+   * Number of replacements expected. Defaults to 1 if not specified.
+   */
+  expected_replacements?: number;
+}
+
+/**
+ * Parameters for the MultiReplace tool
+ */
+export interface MultiReplaceToolParams {
+  /**
+   * The replacements, applied in order
+   */
+  edits: MultiReplaceEdit[];
+}
+
+interface FileChange {
+  filePath: string;
+  originalContent: string | null;
+  /** The content as read, with its line endings, to restore on failure. */
+  originalBytes: Buffer | null;
+  newContent: string;
+}
+
+interface CalculatedEdits {
+  files: FileChange[];
+  replacements: number;
+  error?: { display: string; raw: string };
+}
+
+/**
+ * Applies an ordered list of replacements across one or more files as a
+ * single change: every edit is validated before any file is written, and a
+ * failing edit leaves all files untouched.
+ */
+export class MultiReplaceTool extends BaseTool<
+  MultiReplaceToolParams,
+  ToolResult
+> {
+  static readonly Name = 'multi_replace';
+  private readonly rootDirectory: string;
+
+  constructor(private readonly config: Config) {
+    super(
+      MultiReplaceTool.Name,
+      'MultiReplace',
+      `Applies several text replacements, in one or more files, as a single change. Each edit works like the ${EditTool.Name} tool and edits are applied in order, so later edits see the result of earlier edits to the same file. All edits are validated before any file is written: if any edit fails, no file is changed and the error names the failing edit. Prefer this tool over several ${EditTool.Name} calls for refactors that touch many places. Always use the ${ReadFileTool.Name} tool to examine the current content of the files first.
+
+Expectation for each edit:
+1. \`file_path\` MUST be an absolute path; otherwise an error will be thrown.
+2. \`old_string\` MUST be the exact literal text to replace (including all whitespace, indentation, newlines, and surrounding code etc.), and MUST uniquely identify the text to change unless \`expected_replacements\` is set. An empty \`old_string\` creates a new file.
+3. \`new_string\` MUST be the exact literal text to replace \`old_string\` with. Ensure the resulting code is correct and idiomatic.
+4. NEVER escape \`old_string\` or \`new_string\`, that would break the exact literal text requirement.`,
+      {
+        properties: {
+          edits: {
+            description:
+              'The replacements to apply, in order. Several edits may target the same file.',
+            type: Type.ARRAY,
+            minItems: '1',
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                file_path: {
+                  description:
+                    "The absolute path to the file to modify. Must start with '/'.",
+                  type: Type.STRING,
+                },
+                old_string: {
+                  description:
+                    'The exact literal text to replace, preferably unescaped. Include at least 3 lines of context BEFORE and AFTER the target text, matching whitespace and indentation precisely. Use an empty string to create a new file.',
+                  type: Type.STRING,
+                },
+                new_string: {
+                  description:
+                    'The exact literal text to replace `old_string` with, preferably unescaped.',
+                  type: Type.STRING,
+                },
+                expected_replacements: {
+                  description:
+                    'Number of replacements expected. Defaults to 1 if not specified. Use when you want to replace multiple occurrences.',
+                  type: Type.NUMBER,
+                  minimum: 1,
+                },
+              },
+              required: ['file_path', 'old_string', 'new_string'],
+            },
+          },
+        },
+        required: ['edits'],
+        type: Type.OBJECT,
+      },
+    );
+    this.rootDirectory = path.resolve(this.config.getTargetDir());
+  }
+
+  /**
+   * Checks if a path is within the root directory.
+   * @param pathToCheck The absolute path to check.
+   * @returns True if the path is within the root directory, false otherwise.
+   */
+  private isWithinRoot(pathToCheck: string): boolean {
+    const normalizedPath = path.normalize(pathToCheck);
+    const normalizedRoot = this.rootDirectory;
+    const rootWithSep = normalizedRoot.endsWith(path.sep)
+      ? normalizedRoot
+      : normalizedRoot + path.sep;
+    return (
+      normalizedPath === normalizedRoot ||
+      normalizedPath.startsWith(rootWithSep)
+    );
+  }
+
+  /**
+   * Validates the parameters for the MultiReplace tool
+   * @param params Parameters to validate
+   * @returns Error message string or null if valid
+   */
+  validateToolParams(params: MultiReplaceToolParams): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+
+    for (const [index, edit] of params.edits.entries()) {
+      if (!path.isAbsolute(edit.file_path)) {
+        return `Edit ${index + 1}: File path must be absolute: ${edit.file_path}`;
+      }
+      if (!this.isWithinRoot(edit.file_path)) {
+        return `Edit ${index + 1}: File path must be within the root directory (${this.rootDirectory}): ${edit.file_path}`;
+      }
+      if (path.extname(edit.file_path).toLowerCase() === '.ipynb') {
+        return `Edit ${index + 1}: Jupyter notebooks can't be edited as text; use the ${NotebookEditTool.Name} tool to edit their cells: ${edit.file_path}`;
+      }
+    }
+
+    return null;
+  }
+
+  private readFile(filePath: string): Buffer | null {
+    try {
+      return fs.readFileSync(filePath);
+    } catch (err: unknown) {
+      if (!isNodeError(err) || err.code !== 'ENOENT') {
+        // Rethrow unexpected FS errors (permissions, etc.)
+        throw err;
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Applies all edits in memory, in order, without writing any file.
+   * @returns The resulting content of every file, or the first error
+   * @throws File system errors if reading a file fails unexpectedly
+   */
+  private async calculateEdits(
+    params: MultiReplaceToolParams,
+    abortSignal: AbortSignal,
+  ): Promise<CalculatedEdits> {
+    const files = new Map<string, FileChange>();
+    let replacements = 0;
+
+    for (const [index, edit] of params.edits.entries()) {
+      const filePath = path.normalize(edit.file_path);
+      let file = files.get(filePath);
+      // Files enter the map once an edit to them succeeds, so a file in the
+      // map exists even if an earlier edit of this call created it.
+      const originalBytes = file ? file.originalBytes : this.readFile(filePath);
+      // Normalize line endings to LF for consistent processing.
+      const currentContent = file
+        ? file.newContent
+        : (originalBytes?.toString('utf8').replace(/\r\n/g, '\n') ?? null);
+      const label = `Edit ${index + 1} of ${params.edits.length}`;
+      const fail = (display: string, raw: string): CalculatedEdits => ({
+        files: [],
+        replacements: 0,
+        error: {
+          display: `${label}: ${display}`,
+          raw: `${label} failed: ${raw} No files were changed.`,
+        },
+      });
+
+      let newContent: string;
+      if (edit.old_string === '') {
+        if (currentContent !== null) {
+          return fail(
+            'Attempted to create a file that already exists.',
+            `File already exists, cannot create: ${filePath}.`,
+          );
+        }
+        newContent = edit.new_string;
+      } else if (currentContent === null) {
+        return fail(
+          'File not found. Use an empty old_string to create a new file.',
+          `File not found: ${filePath}.`,
+        );
+      } else {
+        const correctedEdit = await ensureCorrectEdit(
+          filePath,
+          currentContent,
+          { ...edit, file_path: filePath },
+          this.config.getGeminiClient(),
+          abortSignal,
+        );
+        const { occurrences } = correctedEdit;
+        const expectedReplacements = edit.expected_replacements ?? 1;
+
+        if (occurrences === 0) {
+          const changedByEarlierEdit =
+            file?.originalContent != null &&
+            countOccurrences(file.originalContent, edit.old_string) > 0;
+          return fail(
+            'Could not find the string to replace.',
+            changedByEarlierEdit
+              ? `0 occurrences found for old_string in ${filePath}. The text exists in the original file but was changed by an earlier edit in this call; old_string must match the file as left by the edits before it.`
+              : `0 occurrences found for old_string in ${filePath}. The exact text in old_string was not found. Ensure you're not escaping content incorrectly and check whitespace, indentation, and context. Use ${ReadFileTool.Name} tool to verify.`,
+          );
+        }
+        if (occurrences !== expectedReplacements) {
+          const occurrenceTerm =
+            expectedReplacements === 1 ? 'occurrence' : 'occurrences';
+          return fail(
+            `Expected ${expectedReplacements} ${occurrenceTerm} but found ${occurrences}.`,
+            `Expected ${expectedReplacements} ${occurrenceTerm} but found ${occurrences} for old_string in file: ${filePath}.`,
+          );
+        }
+
+        newContent = currentContent.replaceAll(
+          correctedEdit.params.old_string,
+          correctedEdit.params.new_string,
+        );
+        replacements += occurrences;
+      }
+
+      if (!file) {
+        file = {
+          filePath,
+          originalContent: currentContent,
+          originalBytes,
+          newContent,
+        };
+        files.set(filePath, file);
+      }
+      file.newContent = newContent;
+    }
+
+    return { files: [...files.values()], replacements };
+  }
+
+  private createDiff(files: FileChange[]): string {
+    return files
+      .map((file) =>
+        Diff.createPatch(
+          makeRelative(file.filePath, this.rootDirectory),
+          file.originalContent ?? '',
+          file.newContent,
+          'Current',
+          'Proposed',
+          DEFAULT_DIFF_OPTIONS,
+        ),
+      )
+      .join('');
+  }
+
+  private describeFiles(files: FileChange[]): string {
+    return files.length === 1
+      ? shortenPath(makeRelative(files[0].filePath, this.rootDirectory))
+      : `${files.length} files`;
+  }
+
+  /**
+   * Handles the confirmation prompt for the MultiReplace tool in the CLI,
+   * showing one diff that covers every file.
+   */
+  async shouldConfirmExecute(
+    params: MultiReplaceToolParams,
+    abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.config.getApprovalMode() === ApprovalMode.AUTO_EDIT) {
+      return false;
+    }
+    if (this.validateToolParams(params)) {
+      return false; // skip confirmation, execute call will fail immediately
+    }
+
+    let editData: CalculatedEdits;
+    try {
+      editData = await this.calculateEdits(params, abortSignal);
+    } catch (error) {
+      console.log(`Error preparing edits: ${getErrorMessage(error)}`);
+      return false;
+    }
+    if (editData.error) {
+      console.log(`Error: ${editData.error.display}`);
+      return false;
+    }
+
+    const confirmationDetails: ToolEditConfirmationDetails = {
+      type: 'edit',
+      title: `Confirm Edits: ${this.describeFiles(editData.files)}`,
+      fileName: path.basename(editData.files[0].filePath),
+      fileDiff: this.createDiff(editData.files),
+      canModifyWithEditor: false,
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          this.config.setApprovalMode(ApprovalMode.AUTO_EDIT);
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+
+  getEffects(params: MultiReplaceToolParams): ToolEffects {
+    return { writes: params.edits.map((edit) => edit.file_path) };
+  }
+
+  getDescription(params: MultiReplaceToolParams): string {
+    if (!Array.isArray(params.edits) || params.edits.length === 0) {
+      return `Model did not provide valid parameters for multi replace tool`;
+    }
+    const filePaths = new Set(
+      params.edits.map((edit) =>
+        shortenPath(makeRelative(edit.file_path, this.rootDirectory)),
+      ),
+    );
+    const editTerm = params.edits.length === 1 ? 'edit' : 'edits';
+    return `${params.edits.length} ${editTerm} in ${[...filePaths].join(', ')}`;
+  }
+
+  /**
+   * Validates every edit and then writes all changed files.
+   * @param params Parameters for the edits
+   * @returns Result of the edits
+   */
+  async execute(
+    params: MultiReplaceToolParams,
+    signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return {
+        llmContent: `Error: Invalid parameters provided. Reason: ${validationError}`,
+        returnDisplay: `Error: ${validationError}`,
+      };
+    }
+
+    let editData: CalculatedEdits;
+    try {
+      editData = await this.calculateEdits(params, signal);
+    } catch (error) {
+      const errorMsg = getErrorMessage(error);
+      return {
+        llmContent: `Error preparing edits: ${errorMsg}`,
+        returnDisplay: `Error preparing edits: ${errorMsg}`,
+      };
+    }
+
+    if (editData.error) {
+      return {
+        llmContent: editData.error.raw,
+        returnDisplay: `Error: ${editData.error.display}`,
+      };
+    }
+
+    const written: FileChange[] = [];
+    try {
+      for (const file of editData.files) {
+        fs.mkdirSync(path.dirname(file.filePath), { recursive: true });
+        written.push(file);
+        fs.writeFileSync(file.filePath, file.newContent, 'utf8');
+      }
+    } catch (error) {
+      const errorMsg = getErrorMessage(error);
+      // Put back the files written so far, so that nothing is applied.
+      const unrestored: string[] = [];
+      for (const file of written) {
+        try {
+          if (file.originalBytes === null) {
+            fs.rmSync(file.filePath, { force: true });
+          } else {
+            fs.writeFileSync(file.filePath, file.originalBytes);
+          }
+        } catch {
+          unrestored.push(file.filePath);
+        }
+      }
+      const outcome =
+        unrestored.length === 0
+          ? 'No files were changed.'
+          : `These files could not be restored and may be changed: ${unrestored.join(', ')}`;
+      return {
+        llmContent: `Error executing edits: ${errorMsg}. ${outcome}`,
+        returnDisplay: `Error writing files: ${errorMsg}. ${outcome}`,
+      };
+    }
+
+    for (const file of editData.files) {
+      this.config.getLspManager().didWriteFile(file.filePath);
+    }
+
+    const fileList = editData.files.map((file) => file.filePath).join(', ');
+    return {
+      llmContent: `Successfully applied ${params.edits.length} edits (${editData.replacements} replacements) to ${editData.files.length} file(s): ${fileList}`,
+      returnDisplay: {
+        fileDiff: this.createDiff(editData.files),
+        fileName: path.basename(editData.files[0].filePath),
+      },
+    };
+  }
+}
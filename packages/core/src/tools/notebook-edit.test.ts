@@ -0,0 +1,156 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { NotebookEditTool, NotebookEditToolParams } from './notebook-edit.js';
+import { ToolEditConfirmationDetails } from './tools.js';
+import { ApprovalMode, Config } from '../config/config.js';
+import { getCellSource, Notebook } from '../utils/notebook.js';
+
+describe('NotebookEditTool', () => {
+  let tool: NotebookEditTool;
+  let tempDir: string;
+  let rootDir: string;
+  let notebookPath: string;
+  const abortSignal = new AbortController().signal;
+
+  const readNotebook = (): Notebook =>
+    JSON.parse(fs.readFileSync(notebookPath, 'utf8'));
+  const edit = (params: Omit<NotebookEditToolParams, 'file_path'>) =>
+    tool.execute({ file_path: notebookPath, ...params }, abortSignal);
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'notebook-edit-test-'));
+    rootDir = path.join(tempDir, 'root');
+    fs.mkdirSync(rootDir);
+    notebookPath = path.join(rootDir, 'analysis.ipynb');
+    const notebook: Notebook = {
+      cells: [
+        { cell_type: 'markdown', metadata: {}, source: ['# Analysis'] },
+        {
+          cell_type: 'code',
+          metadata: {},
+          source: ['x = 1\n', 'x'],
+          outputs: [
+            { output_type: 'execute_result', data: { 'text/plain': '1' } },
+          ],
+          execution_count: 1,
+        },
+      ],
+      metadata: {},
+      nbformat: 4,
+      nbformat_minor: 4,
+    };
+    fs.writeFileSync(notebookPath, JSON.stringify(notebook, null, 1) + '\n');
+
+    tool = new NotebookEditTool({
+      getTargetDir: () => rootDir,
+      getApprovalMode: vi.fn().mockReturnValue(ApprovalMode.DEFAULT),
+      setApprovalMode: vi.fn(),
+      getLspManager: () => ({ didWriteFile: vi.fn() }),
+    } as unknown as Config);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('validateToolParams', () => {
+    it('should only accept notebooks', () => {
+      expect(
+        tool.validateToolParams({
+          file_path: path.join(rootDir, 'a.py'),
+          operation: 'delete',
+          index: 0,
+        }),
+      ).toBe(
+        `File is not a Jupyter notebook (.ipynb): ${path.join(rootDir, 'a.py')}`,
+      );
+    });
+
+    it('should require the source of inserted cells', () => {
+      expect(
+        tool.validateToolParams({
+          file_path: notebookPath,
+          operation: 'insert',
+          index: 0,
+        }),
+      ).toBe("source is required for the 'insert' operation.");
+    });
+  });
+
+  it('should insert a cell', async () => {
+    const result = await edit({
+      operation: 'insert',
+      index: 2,
+      source: 'print(x)',
+    });
+
+    expect(result.llmContent).toBe(
+      `Inserted a code cell at index 2 of ${notebookPath}. The notebook now has 3 cell(s).`,
+    );
+    const notebook = readNotebook();
+    expect(notebook.cells[2]).toEqual({
+      cell_type: 'code',
+      metadata: {},
+      source: ['print(x)'],
+      outputs: [],
+      execution_count: null,
+    });
+    expect(fs.readFileSync(notebookPath, 'utf8')).toMatch(/^\{\n "cells"/);
+  });
+
+  it('should replace the source of a cell and clear its outputs', async () => {
+    await edit({ operation: 'replace', index: 1, source: 'y = 2' });
+
+    const cell = readNotebook().cells[1];
+    expect(getCellSource(cell)).toBe('y = 2');
+    expect(cell.outputs).toEqual([]);
+    expect(cell.execution_count).toBeNull();
+  });
+
+  it('should delete and move cells', async () => {
+    await edit({ operation: 'move', index: 1, to_index: 0 });
+    expect(readNotebook().cells.map((cell) => cell.cell_type)).toEqual([
+      'code',
+      'markdown',
+    ]);
+
+    await edit({ operation: 'delete', index: 0 });
+    expect(readNotebook().cells.map((cell) => cell.cell_type)).toEqual([
+      'markdown',
+    ]);
+  });
+
+  it('should reject indices past the last cell', async () => {
+    const result = await edit({ operation: 'delete', index: 2 });
+
+    expect(result.llmContent).toBe(
+      'Error: index 2 is out of range; the notebook has 2 cell(s), so it must be at most 1.',
+    );
+  });
+
+  it('should show a diff of the cells for confirmation', async () => {
+    const details = (await tool.shouldConfirmExecute(
+      {
+        file_path: notebookPath,
+        operation: 'replace',
+        index: 1,
+        source: 'y = 2',
+      },
+      abortSignal,
+    )) as ToolEditConfirmationDetails;
+
+    expect(details.title).toBe('Confirm Notebook Edit: analysis.ipynb');
+    expect(details.fileDiff).toContain(
+      '-<cell index="1" type="code" execution_count="1">\n-x = 1\n-x\n+<cell index="1" type="code">\n+y = 2\n',
+    );
+    expect(details.fileDiff).not.toContain('<output');
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as Diff from 'diff';
+import {
+  BaseTool,
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+  ToolEditConfirmationDetails,
+  ToolEffects,
+  ToolResult,
+} from './tools.js';
+import { Type } from '@google/genai';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { isWithinRoot } from '../utils/fileUtils.js';
+import { Config, ApprovalMode } from '../config/config.js';
+import {
+  createCell,
+  Notebook,
+  NotebookCellType,
+  parseNotebook,
+  renderNotebook,
+  serializeNotebook,
+  setCellSource,
+} from '../utils/notebook.js';
+import { DEFAULT_DIFF_OPTIONS } from './diffOptions.js';
+import { ReadFileTool } from './read-file.js';
+
+export type NotebookEditOperation = 'insert' | 'replace' | 'delete' | 'move';
+
+/**
+ * Parameters for the NotebookEdit tool
+ */
+export interface NotebookEditToolParams {
+  /**
+   * The absolute path to the notebook to modify
+   */
+  file_path: string;
+
+  operation: NotebookEditOperation;
+
+  /**
+   * The index of the cell to replace, delete or move, or where to insert
+   */
+  index: number;
+
+  /**
+   * The source of the inserted or replaced cell
+   */
+  source?: string;
+
+  /**
+   * The type of the inserted or replaced cell (defaults to 'code' for
+   * inserts, and to the current type for replacements)
+   */
+  cell_type?: NotebookCellType;
+
+  /**
+   * The index the cell is moved to
+   */
+  to_index?: number;
+}
+
+interface CalculatedNotebookEdit {
+  originalContent: string;
+  original: Notebook;
+  edited: Notebook;
+  newContent: string;
+  summary: string;
+}
+
+/**
+ * Edits a Jupyter notebook cell by cell, so that the model never has to
+ * reproduce the notebook's JSON. Replacing the source of a code cell clears
+ * its outputs, which belonged to the old source.
+ */
+export class NotebookEditTool extends BaseTool<
+  NotebookEditToolParams,
+  ToolResult
+> {
+  static readonly Name = 'notebook_edit';
+  private readonly rootDirectory: string;
+
+  constructor(private readonly config: Config) {
+    super(
+      NotebookEditTool.Name,
+      'NotebookEdit',
+      `Edits a cell of a Jupyter notebook (.ipynb file): inserts a new cell, replaces the source of a cell, deletes a cell, or moves a cell. Cells are addressed by the index shown by the ${ReadFileTool.Name} tool, which renders notebooks as numbered cells; read the notebook first, and again after edits that change the indices. Replacing the source of a code cell clears its outputs. Use this tool instead of text replacement tools for notebooks.`,
+      {
+        properties: {
+          file_path: {
+            description:
+              "The absolute path to the notebook to modify. Must start with '/' and end with '.ipynb'.",
+            type: Type.STRING,
+          },
+          operation: {
+            description:
+              "'insert' adds a cell before the cell at `index` (use the number of cells to append), 'replace' replaces the source of the cell at `index`, 'delete' removes the cell at `index`, and 'move' moves the cell at `index` to `to_index`.",
+            type: Type.STRING,
+            enum: ['insert', 'replace', 'delete', 'move'],
+          },
+          index: {
+            description: 'The 0-based index of the cell to edit.',
+            type: Type.NUMBER,
+          },
+          source: {
+            description:
+              "The full source of the new cell, for 'insert' and 'replace'.",
+            type: Type.STRING,
+          },
+          cell_type: {
+            description:
+              "Optional: The type of the new cell, for 'insert' and 'replace'. Defaults to 'code' for 'insert' and to the current type for 'replace'.",
+            type: Type.STRING,
+            enum: ['code', 'markdown', 'raw'],
+          },
+          to_index: {
+            description:
+              "The 0-based index that the cell has after the move, for 'move'.",
+            type: Type.NUMBER,
+          },
+        },
+        required: ['file_path', 'operation', 'index'],
+        type: Type.OBJECT,
+      },
+    );
+    this.rootDirectory = path.resolve(this.config.getTargetDir());
+  }
+
+  validateToolParams(params: NotebookEditToolParams): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+    if (!path.isAbsolute(params.file_path)) {
+      return `File path must be absolute: ${params.file_path}`;
+    }
+    if (!isWithinRoot(params.file_path, this.rootDirectory)) {
+      return `File path must be within the root directory (${this.rootDirectory}): ${params.file_path}`;
+    }
+    if (path.extname(params.file_path).toLowerCase() !== '.ipynb') {
+      return `File is not a Jupyter notebook (.ipynb): ${params.file_path}`;
+    }
+    if (!Number.isInteger(params.index) || params.index < 0) {
+      return 'index must be a whole number of 0 or more.';
+    }
+    if (
+      (params.operation === 'insert' || params.operation === 'replace') &&
+      params.source === undefined
+    ) {
+      return `source is required for the '${params.operation}' operation.`;
+    }
+    if (
+      params.operation === 'move' &&
+      (params.to_index === undefined ||
+        !Number.isInteger(params.to_index) ||
+        params.to_index < 0)
+    ) {
+      return "to_index must be a whole number of 0 or more for the 'move' operation.";
+    }
+    return null;
+  }
+
+  /**
+   * Applies the edit to the notebook in memory.
+   * @throws {Error} If the notebook can't be read or the index is out of range.
+   */
+  private calculateEdit(
+    params: NotebookEditToolParams,
+  ): CalculatedNotebookEdit {
+    let originalContent: string;
+    try {
+      originalContent = fs.readFileSync(params.file_path, 'utf8');
+    } catch (error) {
+      throw new Error(
+        `Could not read notebook ${params.file_path}: ${getErrorMessage(error)}. Use the write_file tool to create a new notebook.`,
+      );
+    }
+    const original = parseNotebook(originalContent);
+    const cells = [...original.cells];
+    const { index } = params;
+    const cellCount = cells.length;
+    const checkIndex = (value: number, max: number, name: string) => {
+      if (value > max) {
+        throw new Error(
+          `${name} ${value} is out of range; the notebook has ${cellCount} cell(s), so it must be at most ${max}.`,
+        );
+      }
+    };
+
+    let summary: string;
+    switch (params.operation) {
+      case 'insert': {
+        checkIndex(index, cellCount, 'index');
+        const cellType = params.cell_type ?? 'code';
+        cells.splice(index, 0, createCell(original, cellType, params.source!));
+        summary = `Inserted a ${cellType} cell at index ${index}`;
+        break;
+      }
+      case 'replace': {
+        checkIndex(index, cellCount - 1, 'index');
+        const cellType = params.cell_type ?? cells[index].cell_type;
+        cells[index] = setCellSource(cells[index], cellType, params.source!);
+        summary = `Replaced the source of cell ${index} (${cellType})`;
+        break;
+      }
+      case 'delete': {
+        checkIndex(index, cellCount - 1, 'index');
+        cells.splice(index, 1);
+        summary = `Deleted cell ${index}`;
+        break;
+      }
+      case 'move': {
+        checkIndex(index, cellCount - 1, 'index');
+        checkIndex(params.to_index!, cellCount - 1, 'to_index');
+        const [cell] = cells.splice(index, 1);
+        cells.splice(params.to_index!, 0, cell);
+        summary = `Moved cell ${index} to index ${params.to_index}`;
+        break;
+      }
+      default:
+        throw new Error(`Unknown operation: ${params.operation}`);
+    }
+
+    const edited = { ...original, cells };
+    return {
+      originalContent,
+      original,
+      edited,
+      newContent: serializeNotebook(edited, originalContent),
+      summary,
+    };
+  }
+
+  /** Diffs the cells of the notebook, without outputs and metadata. */
+  private createDiff(filePath: string, edit: CalculatedNotebookEdit): string {
+    return Diff.createPatch(
+      makeRelative(filePath, this.rootDirectory),
+      renderNotebook(edit.original, { includeOutputs: false }) + '\n',
+      renderNotebook(edit.edited, { includeOutputs: false }) + '\n',
+      'Current',
+      'Proposed',
+      DEFAULT_DIFF_OPTIONS,
+    );
+  }
+
+  async shouldConfirmExecute(
+    params: NotebookEditToolParams,
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.config.getApprovalMode() === ApprovalMode.AUTO_EDIT) {
+      return false;
+    }
+    if (this.validateToolParams(params)) {
+      return false; // skip confirmation, execute call will fail immediately
+    }
+
+    let edit: CalculatedNotebookEdit;
+    try {
+      edit = this.calculateEdit(params);
+    } catch (error) {
+      console.log(`Error preparing notebook edit: ${getErrorMessage(error)}`);
+      return false;
+    }
+
+    const confirmationDetails: ToolEditConfirmationDetails = {
+      type: 'edit',
+      title: `Confirm Notebook Edit: ${shortenPath(makeRelative(params.file_path, this.rootDirectory))}`,
+      fileName: path.basename(params.file_path),
+      fileDiff: this.createDiff(params.file_path, edit),
+      canModifyWithEditor: false,
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          this.config.setApprovalMode(ApprovalMode.AUTO_EDIT);
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+
+  getEffects(params: NotebookEditToolParams): ToolEffects {
+    return { writes: [params.file_path] };
+  }
+
+  getDescription(params: NotebookEditToolParams): string {
+    if (!params.file_path || !params.operation) {
+      return `Model did not provide valid parameters for notebook edit tool`;
+    }
+    const target =
+      params.operation === 'move'
+        ? `cell ${params.index} to ${params.to_index}`
+        : `cell ${params.index}`;
+    return `${params.operation} ${target} in ${shortenPath(makeRelative(params.file_path, this.rootDirectory))}`;
+  }
+
+  async execute(
+    params: NotebookEditToolParams,
+    _signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return {
+        llmContent: `Error: Invalid parameters provided. Reason: ${validationError}`,
+        returnDisplay: `Error: ${validationError}`,
+      };
+    }
+
+    let edit: CalculatedNotebookEdit;
+    try {
+      edit = this.calculateEdit(params);
+    } catch (error) {
+      const errorMsg = getErrorMessage(error);
+      return {
+        llmContent: `Error: ${errorMsg}`,
+        returnDisplay: `Error: ${errorMsg}`,
+      };
+    }
+
+    try {
+      fs.writeFileSync(params.file_path, edit.newContent, 'utf8');
+    } catch (error) {
+      const errorMsg = getErrorMessage(error);
+      return {
+        llmContent: `Error writing notebook ${params.file_path}: ${errorMsg}`,
+        returnDisplay: `Error writing notebook: ${errorMsg}`,
+      };
+    }
+    this.config.getLspManager().didWriteFile(params.file_path);
+
+    return {
+      llmContent: `${edit.summary} of ${params.file_path}. The notebook now has ${edit.edited.cells.length} cell(s).`,
+      returnDisplay: {
+        fileDiff: this.createDiff(params.file_path, edit),
+        fileName: path.basename(params.file_path),
+      },
+    };
+  }
+}
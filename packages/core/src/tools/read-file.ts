@@ -7,7 +7,7 @@
 import path from 'path';
 import { SchemaValidator } from '../utils/schemaValidator.js';
 import { makeRelative, shortenPath } from '../utils/paths.js';
-import { BaseTool, ToolResult } from './tools.js';
+import { BaseTool, ToolEffects, ToolResult } from './tools.js';
 import { Type } from '@google/genai';
 import {
   isWithinRoot,
@@ -111,6 +111,10 @@ export class ReadFileTool extends BaseTool<ReadFileToolParams, ToolResult> {
     return null;
   }
 
+  getEffects(params: ReadFileToolParams): ToolEffects {
+    return { reads: [params.absolute_path] };
+  }
+
   getDescription(params: ReadFileToolParams): string {
     if (
       !params ||
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { BaseTool, ToolResult } from './tools.js';
+import { BaseTool, ToolEffects, ToolResult } from './tools.js';
 import { SchemaValidator } from '../utils/schemaValidator.js';
 import { getErrorMessage } from '../utils/errors.js';
 import * as path from 'path';
@@ -219,6 +219,16 @@ Use this tool when the user's query implies needing the content of several files
     return null;
   }
 
+  getEffects(params: ReadManyFilesParams): ToolEffects {
+    // The paths are glob patterns, which may match anywhere in the project.
+    return {
+      reads: [
+        this.targetDir,
+        ...params.paths.map((pattern) => path.resolve(this.targetDir, pattern)),
+      ],
+    };
+  }
+
   getDescription(params: ReadManyFilesParams): string {
     const allPatterns = [...params.paths, ...(params.include || [])];
     const pathDesc = `using patterns: \`${allPatterns.join('`, `')}\` (within target directory: \`${this.targetDir}\`)`;
@@ -308,6 +318,9 @@ Use this tool when the user's query implies needing the content of several files
               entries.map((p) => path.relative(toolBaseDir, p)),
               {
                 respectGitIgnore,
+                // Applies the .geminiignore files of subdirectories, which
+                // the glob excludes above don't cover.
+                respectGeminiIgnore: true,
               },
             )
             .map((p) => path.resolve(toolBaseDir, p))
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { SemanticSearchTool } from './semantic-search.js';
+import { Config } from '../config/config.js';
+
+describe('SemanticSearchTool', () => {
+  let semanticIndex: Record<string, Mock>;
+  let tool: SemanticSearchTool;
+  const abortSignal = new AbortController().signal;
+
+  beforeEach(() => {
+    semanticIndex = {
+      isBuilt: vi.fn().mockResolvedValue(true),
+      refresh: vi.fn().mockResolvedValue({
+        embeddedFiles: 3,
+        removedFiles: 0,
+        totalFiles: 10,
+        skippedFiles: 0,
+      }),
+      search: vi.fn(),
+    };
+    tool = new SemanticSearchTool({
+      getTargetDir: () => '/project',
+      getSemanticIndex: () => semanticIndex,
+    } as unknown as Config);
+  });
+
+  it('should validate the query and limit', () => {
+    expect(tool.validateToolParams({ query: ' ' })).toBe(
+      "The 'query' parameter cannot be empty.",
+    );
+    expect(tool.validateToolParams({ query: 'retries', limit: 51 })).toBe(
+      'limit must be a whole number from 1 to 50.',
+    );
+    expect(tool.validateToolParams({ query: 'retries', limit: 5 })).toBeNull();
+  });
+
+  it('should refresh the index and list the snippets found', async () => {
+    semanticIndex.search.mockResolvedValue([
+      {
+        filePath: 'src/retry.ts',
+        startLine: 1,
+        endLine: 3,
+        score: 0.876,
+        content: 'function retry() {}',
+      },
+    ]);
+
+    const result = await tool.execute({ query: 'retries' }, abortSignal);
+
+    expect(semanticIndex.refresh).toHaveBeenCalledWith(abortSignal);
+    expect(semanticIndex.search).toHaveBeenCalledWith('retries', 10);
+    expect(result.llmContent).toBe(
+      'Found 1 snippet(s) for "retries", most relevant first:\n\nsrc/retry.ts:1-3 (score 0.88)\n```\nfunction retry() {}\n```',
+    );
+    expect(result.returnDisplay).toBe(
+      'Found 1 snippet(s) after indexing 3 changed file(s).',
+    );
+  });
+
+  it('should not build an index that the user did not build', async () => {
+    semanticIndex.isBuilt.mockResolvedValue(false);
+
+    const result = await tool.execute({ query: 'retries' }, abortSignal);
+
+    expect(semanticIndex.refresh).not.toHaveBeenCalled();
+    expect(semanticIndex.search).not.toHaveBeenCalled();
+    expect(result.llmContent).toMatch(
+      /^Error: The project has no semantic index yet\./,
+    );
+    expect(result.returnDisplay).toBe(
+      'No semantic index. Run /index rebuild to build it, which sends the project files to the Gemini API.',
+    );
+  });
+
+  it('should report errors of the embedding model', async () => {
+    semanticIndex.refresh.mockRejectedValue(new Error('quota exceeded'));
+
+    const result = await tool.execute({ query: 'retries' }, abortSignal);
+
+    expect(result.llmContent).toBe(
+      'Error: Semantic search failed: quota exceeded',
+    );
+  });
+});
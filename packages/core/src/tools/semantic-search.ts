@@ -0,0 +1,136 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Type } from '@google/genai';
+import { BaseTool, ToolEffects, ToolResult } from './tools.js';
+import { Config } from '../config/config.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export interface SemanticSearchToolParams {
+  query: string;
+  limit?: number;
+}
+
+/**
+ * Searches the code of the project by meaning, using the semantic index. The
+ * index is refreshed before each search, which embeds only the files that
+ * changed since the last search. Building the index sends every file of the
+ * project to the embedding API, so the user must do it with `/index rebuild`.
+ */
+export class SemanticSearchTool extends BaseTool<
+  SemanticSearchToolParams,
+  ToolResult
+> {
+  static readonly Name = 'semantic_search';
+
+  constructor(private readonly config: Config) {
+    super(
+      SemanticSearchTool.Name,
+      'SemanticSearch',
+      `Searches the files of the project by meaning rather than by exact text, and returns the most relevant snippets with their file paths and line ranges. Use it to find where a concept or behavior is implemented when you do not know the names to search for, e.g. "where are retries with backoff handled". Use \`search_file_content\` instead to find exact names or patterns. Only works once the user has built the semantic index of the project.`,
+      {
+        type: Type.OBJECT,
+        properties: {
+          query: {
+            type: Type.STRING,
+            description: 'A natural language description of the code to find.',
+          },
+          limit: {
+            type: Type.NUMBER,
+            description: `(OPTIONAL) How many snippets to return, at most ${MAX_LIMIT}. Defaults to ${DEFAULT_LIMIT}.`,
+          },
+        },
+        required: ['query'],
+      },
+    );
+  }
+
+  getEffects(_params: SemanticSearchToolParams): ToolEffects {
+    return { reads: [this.config.getTargetDir()] };
+  }
+
+  getDescription(params: SemanticSearchToolParams): string {
+    return `"${params.query}"`;
+  }
+
+  validateToolParams(params: SemanticSearchToolParams): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+    if (!params.query.trim()) {
+      return "The 'query' parameter cannot be empty.";
+    }
+    if (
+      params.limit !== undefined &&
+      (!Number.isInteger(params.limit) ||
+        params.limit < 1 ||
+        params.limit > MAX_LIMIT)
+    ) {
+      return `limit must be a whole number from 1 to ${MAX_LIMIT}.`;
+    }
+    return null;
+  }
+
+  async execute(
+    params: SemanticSearchToolParams,
+    signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return {
+        llmContent: `Error: Invalid parameters provided. Reason: ${validationError}`,
+        returnDisplay: validationError,
+      };
+    }
+
+    try {
+      const index = this.config.getSemanticIndex();
+      if (!(await index.isBuilt())) {
+        return {
+          llmContent:
+            'Error: The project has no semantic index yet. Building it sends the content of every file of the project to the Gemini API to be embedded, so only the user can start it, with the /index rebuild command. Use search_file_content or glob instead, or ask the user to build the index.',
+          returnDisplay:
+            'No semantic index. Run /index rebuild to build it, which sends the project files to the Gemini API.',
+        };
+      }
+      const refresh = await index.refresh(signal);
+      const results = await index.search(
+        params.query,
+        params.limit ?? DEFAULT_LIMIT,
+      );
+      if (results.length === 0) {
+        return {
+          llmContent: `No indexed files to search for "${params.query}".`,
+          returnDisplay: 'No indexed files.',
+        };
+      }
+
+      const snippets = results.map(
+        (result) =>
+          `${result.filePath}:${result.startLine}-${result.endLine} (score ${result.score.toFixed(2)})\n\`\`\`\n${result.content}\n\`\`\``,
+      );
+      let llmContent = `Found ${results.length} snippet(s) for "${params.query}", most relevant first:\n\n${snippets.join('\n\n')}`;
+      if (refresh.skippedFiles > 0) {
+        llmContent += `\n\nOnly the first ${refresh.totalFiles} files of the project are indexed; ${refresh.skippedFiles} were skipped.`;
+      }
+      return {
+        llmContent,
+        returnDisplay: `Found ${results.length} snippet(s)${refresh.embeddedFiles > 0 ? ` after indexing ${refresh.embeddedFiles} changed file(s)` : ''}.`,
+      };
+    } catch (error) {
+      const message = getErrorMessage(error);
+      return {
+        llmContent: `Error: Semantic search failed: ${message}`,
+        returnDisplay: `Error: ${message}`,
+      };
+    }
+  }
+}
@@ -4,9 +4,25 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { expect, describe, it } from 'vitest';
+import { expect, describe, it, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { ShellTool } from './shell.js';
-import { Config } from '../config/config.js';
+import { Config, ToolLimits } from '../config/config.js';
+
+/** Whether a process is running, ignoring killed processes left as zombies. */
+const isRunning = (pid: number) => {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  const statFile = `/proc/${pid}/stat`;
+  return (
+    !fs.existsSync(statFile) || !/\) Z /.test(fs.readFileSync(statFile, 'utf8'))
+  );
+};
 
 describe('ShellTool', () => {
   it('should allow a command if no restrictions are provided', async () => {
@@ -395,4 +411,85 @@ describe('ShellTool', () => {
       "Command 'rm -rf /' is not in the allowed commands list",
     );
   });
+
+  describe.skipIf(os.platform() === 'win32')('execute', () => {
+    let tempDir: string;
+
+    const createShellTool = (limits: ToolLimits) =>
+      new ShellTool({
+        getCoreTools: () => undefined,
+        getExcludeTools: () => undefined,
+        getTargetDir: () => tempDir,
+        getDebugMode: () => false,
+        getToolLimits: () => limits,
+        getToolOutputDir: () => path.join(tempDir, 'tool-output'),
+      } as unknown as Config);
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shell-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should kill the process group when the command times out', async () => {
+      const shellTool = createShellTool({ timeout: 500 });
+
+      const result = await shellTool.execute(
+        { command: 'sleep 30 & echo $! > bg.pid; wait' },
+        new AbortController().signal,
+      );
+
+      expect(result.llmContent).toContain(
+        'Command timed out after 500ms, so its process group was killed.',
+      );
+      const backgroundPid = Number(
+        fs.readFileSync(path.join(tempDir, 'bg.pid'), 'utf8'),
+      );
+      await vi.waitFor(() => expect(isRunning(backgroundPid)).toBe(false));
+    });
+
+    it('should truncate long output and save all of it to a file', async () => {
+      const shellTool = createShellTool({ maxOutputChars: 100 });
+      const fullOutput =
+        Array.from({ length: 1000 }, (_, i) => i + 1).join('\n') + '\n';
+
+      const result = await shellTool.execute(
+        { command: 'seq 1000' },
+        new AbortController().signal,
+      );
+
+      const llmContent = result.llmContent as string;
+      expect(llmContent).toContain('Stdout: 1\n2\n3\n');
+      expect(llmContent).toContain('998\n999\n1000\n');
+      expect(llmContent).toContain(
+        `... [${fullOutput.length - 100} characters truncated.`,
+      );
+      const outputFile = /saved to (\S+),/.exec(llmContent)![1];
+      expect(path.dirname(outputFile)).toBe(path.join(tempDir, 'tool-output'));
+      expect(fs.readFileSync(outputFile, 'utf8')).toBe(fullOutput);
+    });
+
+    it('should share the output limit between stdout and stderr', async () => {
+      const shellTool = createShellTool({ maxOutputChars: 100 });
+      const fullOutput =
+        Array.from({ length: 1000 }, (_, i) => i + 1).join('\n') + '\n';
+      const execute = async (command: string) =>
+        (await shellTool.execute({ command }, new AbortController().signal))
+          .llmContent as string;
+
+      const both = await execute('seq 1000; seq 1000 >&2');
+      const stdoutOnly = await execute('seq 1000; echo oops >&2');
+
+      expect(
+        both.split(`... [${fullOutput.length - 50} characters truncated.`),
+      ).toHaveLength(3);
+      // the short stderr leaves the rest of the limit to stdout
+      expect(stdoutOnly).toContain(
+        `... [${fullOutput.length - 95} characters truncated.`,
+      );
+      expect(stdoutOnly).toContain('Stderr: oops\n');
+    });
+  });
 });
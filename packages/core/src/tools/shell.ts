@@ -15,10 +15,12 @@ import {
   ToolCallConfirmationDetails,
   ToolExecuteConfirmationDetails,
   ToolConfirmationOutcome,
+  ToolEffects,
 } from './tools.js';
 import { Type } from '@google/genai';
 import { SchemaValidator } from '../utils/schemaValidator.js';
 import { getErrorMessage } from '../utils/errors.js';
+import { limitToolOutput } from '../utils/toolOutput.js';
 import stripAnsi from 'strip-ansi';
 
 export interface ShellToolParams {
@@ -76,6 +78,10 @@ Process Group PGID: Process group started or \`(none)\``,
     );
   }
 
+  getEffects(_params: ShellToolParams): ToolEffects {
+    return { runsProcess: true };
+  }
+
   getDescription(params: ShellToolParams): string {
     let description = `${params.command}`;
     // append optional [in directory]
@@ -410,11 +416,24 @@ Process Group PGID: Process group started or \`(none)\``,
     };
     abortSignal.addEventListener('abort', abortHandler);
 
+    // kill the process group once the configured timeout passes
+    const { timeout, maxOutputChars } = this.config.getToolLimits(
+      ShellTool.Name,
+    );
+    let timedOut = false;
+    const timeoutTimer = timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          abortHandler();
+        }, timeout)
+      : undefined;
+
     // wait for the shell to exit
     try {
       await new Promise((resolve) => shell.on('exit', resolve));
     } finally {
       abortSignal.removeEventListener('abort', abortHandler);
+      clearTimeout(timeoutTimer);
     }
 
     // parse pids (pgrep output) from temporary file and remove it
@@ -437,26 +456,53 @@ Process Group PGID: Process group started or \`(none)\``,
         }
         fs.unlinkSync(tempFilePath);
       } else {
-        if (!abortSignal.aborted) {
+        if (!abortSignal.aborted && !timedOut) {
           console.error('missing pgrep output');
         }
       }
     }
 
+    // keep the head and tail of long output, spilling the rest to a file
+    const limitOutput = (str: string, name: string, maxChars?: number) =>
+      maxChars === undefined
+        ? str
+        : limitToolOutput(str, {
+            maxChars,
+            outputDir: this.config.getToolOutputDir(),
+            name: `${ShellTool.Name}-${name}`,
+          });
+    // stdout and stderr share the limit, and a stream that needs less than
+    // half of it leaves the rest to the other
+    let stdoutMaxChars: number | undefined;
+    let stderrMaxChars: number | undefined;
+    if (maxOutputChars !== undefined) {
+      const half = Math.ceil(maxOutputChars / 2);
+      stdoutMaxChars =
+        stderr.length <= maxOutputChars - half
+          ? maxOutputChars - stderr.length
+          : Math.min(stdout.length, half);
+      stderrMaxChars = maxOutputChars - stdoutMaxChars;
+    }
+
     let llmContent = '';
     if (abortSignal.aborted) {
       llmContent = 'Command was cancelled by user before it could complete.';
       if (output.trim()) {
-        llmContent += ` Below is the output (on stdout and stderr) before it was cancelled:\n${output}`;
+        llmContent += ` Below is the output (on stdout and stderr) before it was cancelled:\n${limitOutput(output, 'output', maxOutputChars)}`;
       } else {
         llmContent += ' There was no output before it was cancelled.';
       }
     } else {
       llmContent = [
+        ...(timedOut
+          ? [
+              `Command timed out after ${timeout}ms, so its process group was killed.`,
+            ]
+          : []),
         `Command: ${params.command}`,
         `Directory: ${params.directory || '(root)'}`,
-        `Stdout: ${stdout || '(empty)'}`,
-        `Stderr: ${stderr || '(empty)'}`,
+        `Stdout: ${limitOutput(stdout, 'stdout', stdoutMaxChars) || '(empty)'}`,
+        `Stderr: ${limitOutput(stderr, 'stderr', stderrMaxChars) || '(empty)'}`,
         `Error: ${error ?? '(none)'}`,
         `Exit Code: ${code ?? '(none)'}`,
         `Signal: ${processSignal ?? '(none)'}`,
@@ -475,6 +521,8 @@ Process Group PGID: Process group started or \`(none)\``,
         // Output is empty, let's provide a reason if the command failed or was cancelled
         if (abortSignal.aborted) {
           returnDisplayMessage = 'Command cancelled by user.';
+        } else if (timedOut) {
+          returnDisplayMessage = `Command timed out after ${timeout}ms.`;
         } else if (processSignal) {
           returnDisplayMessage = `Command terminated by signal: ${processSignal}`;
         } else if (error) {
@@ -20,7 +20,12 @@ import {
   sanitizeParameters,
 } from './tool-registry.js';
 import { DiscoveredMCPTool } from './mcp-tool.js';
-import { Config, ConfigParameters, ApprovalMode } from '../config/config.js';
+import {
+  Config,
+  ConfigParameters,
+  ApprovalMode,
+  ToolLimits,
+} from '../config/config.js';
 import { BaseTool, ToolResult } from './tools.js';
 import {
   FunctionDeclaration,
@@ -30,13 +35,18 @@ import {
   Schema,
 } from '@google/genai';
 import { spawn } from 'node:child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 // Use vi.hoisted to define the mock function so it can be used in the vi.mock factory
 const mockDiscoverMcpTools = vi.hoisted(() => vi.fn());
+const mockDisconnectMcpServers = vi.hoisted(() => vi.fn());
 
 // Mock ./mcp-client.js to control its behavior within tool-registry tests
 vi.mock('./mcp-client.js', () => ({
   discoverMcpTools: mockDiscoverMcpTools,
+  disconnectMcpServers: mockDisconnectMcpServers,
 }));
 
 // Mock node:child_process
@@ -160,6 +170,7 @@ describe('ToolRegistry', () => {
     vi.spyOn(config, 'getMcpServers');
     vi.spyOn(config, 'getMcpServerCommand');
     mockDiscoverMcpTools.mockReset().mockResolvedValue(undefined);
+    mockDisconnectMcpServers.mockReset().mockResolvedValue(undefined);
   });
 
   afterEach(() => {
@@ -279,6 +290,31 @@ describe('ToolRegistry', () => {
       );
     });
 
+    it('should close the old MCP connections before discovering again', async () => {
+      mockConfigGetToolDiscoveryCommand.mockReturnValue(undefined);
+      const oldTool = new DiscoveredMCPTool(
+        {} as CallableTool,
+        'old-server',
+        'old_tool',
+        '',
+        {},
+        'old_tool',
+      );
+      toolRegistry.registerTool(oldTool);
+      const calls: string[] = [];
+      mockDisconnectMcpServers.mockImplementation(async () => {
+        calls.push('disconnect');
+      });
+      mockDiscoverMcpTools.mockImplementation(async () => {
+        calls.push('discover');
+      });
+
+      await toolRegistry.discoverTools();
+
+      expect(calls).toEqual(['disconnect', 'discover']);
+      expect(toolRegistry.getTool('old_tool')).toBeUndefined();
+    });
+
     it('should discover tools using MCP servers defined in getMcpServers', async () => {
       mockConfigGetToolDiscoveryCommand.mockReturnValue(undefined);
       vi.spyOn(config, 'getMcpServerCommand').mockReturnValue(undefined);
@@ -297,6 +333,8 @@ describe('ToolRegistry', () => {
         mcpServerConfigVal,
         undefined,
         toolRegistry,
+        config.getToolOutputDir(),
+        expect.any(Function),
       );
     });
 
@@ -318,11 +356,94 @@ describe('ToolRegistry', () => {
         mcpServerConfigVal,
         undefined,
         toolRegistry,
+        config.getToolOutputDir(),
+        expect.any(Function),
       );
     });
   });
 });
 
+describe.skipIf(os.platform() === 'win32')('DiscoveredTool', () => {
+  let tempDir: string;
+
+  const createTool = (limits: ToolLimits) =>
+    new DiscoveredTool(
+      {
+        getToolDiscoveryCommand: () => 'discover',
+        getToolCallCommand: () => path.join(tempDir, 'call.sh'),
+        getToolLimits: () => limits,
+        getToolOutputDir: () => path.join(tempDir, 'tool-output'),
+      } as unknown as Config,
+      'tool',
+      'A discovered tool',
+      {},
+    );
+
+  // Whether a process is running, ignoring killed processes left as zombies.
+  const isRunning = (pid: number) => {
+    try {
+      process.kill(pid, 0);
+    } catch {
+      return false;
+    }
+    const statFile = `/proc/${pid}/stat`;
+    return (
+      !fs.existsSync(statFile) ||
+      !/\) Z /.test(fs.readFileSync(statFile, 'utf8'))
+    );
+  };
+
+  const writeCallCommand = (script: string) => {
+    const callCommand = path.join(tempDir, 'call.sh');
+    fs.writeFileSync(callCommand, `#!/bin/sh\n${script}\n`);
+    fs.chmodSync(callCommand, 0o755);
+  };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'discovered-tool-'));
+    const actual =
+      await vi.importActual<typeof import('node:child_process')>(
+        'node:child_process',
+      );
+    vi.mocked(spawn).mockImplementation(actual.spawn);
+  });
+
+  afterEach(() => {
+    vi.mocked(spawn).mockReset();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should kill the process group of a call that times out', async () => {
+    const pidFile = path.join(tempDir, 'bg.pid');
+    writeCallCommand(`sleep 30 & echo $! > ${pidFile}; wait`);
+
+    const result = await createTool({ timeout: 500 }).execute({});
+
+    expect(result.llmContent).toContain('Signal: SIGKILL');
+    expect(result.llmContent).toContain('Timed Out: after 500ms');
+    const backgroundPid = Number(fs.readFileSync(pidFile, 'utf8'));
+    await vi.waitFor(() => expect(isRunning(backgroundPid)).toBe(false));
+  });
+
+  it('should truncate long output and save all of it to a file', async () => {
+    writeCallCommand('seq 1000');
+    const fullOutput =
+      Array.from({ length: 1000 }, (_, i) => i + 1).join('\n') + '\n';
+
+    const result = await createTool({ maxOutputChars: 100 }).execute({});
+
+    const llmContent = result.llmContent as string;
+    expect(llmContent.startsWith('1\n2\n3\n')).toBe(true);
+    expect(llmContent.endsWith('998\n999\n1000\n')).toBe(true);
+    expect(llmContent).toContain(
+      `... [${fullOutput.length - 100} characters truncated.`,
+    );
+    const outputFile = /saved to (\S+),/.exec(llmContent)![1];
+    expect(path.dirname(outputFile)).toBe(path.join(tempDir, 'tool-output'));
+    expect(fs.readFileSync(outputFile, 'utf8')).toBe(fullOutput);
+  });
+});
+
 describe('sanitizeParameters', () => {
   it('should remove unsupported format from a simple string property', () => {
     const schema: Schema = {
@@ -8,10 +8,12 @@ import { FunctionDeclaration, Schema, Type } from '@google/genai';
 import { Tool, ToolResult, BaseTool } from './tools.js';
 import { Config } from '../config/config.js';
 import { spawn } from 'node:child_process';
+import os from 'node:os';
 import { StringDecoder } from 'node:string_decoder';
-import { discoverMcpTools } from './mcp-client.js';
+import { disconnectMcpServers, discoverMcpTools } from './mcp-client.js';
 import { DiscoveredMCPTool } from './mcp-tool.js';
 import { parse } from 'shell-quote';
+import { limitToolOutput } from '../utils/toolOutput.js';
 
 type ToolParams = Record<string, unknown>;
 
@@ -39,6 +41,7 @@ Stderr: Output on stderr stream. Can be \`(empty)\` or partial.
 Error: Error or \`(none)\` if no error was reported for the subprocess.
 Exit Code: Exit code or \`(none)\` if terminated by signal.
 Signal: Signal number or \`(none)\` if no signal was received.
+Timed Out: Whether the call was killed for exceeding its timeout.
 `;
     super(
       name,
@@ -52,10 +55,29 @@ Signal: Signal number or \`(none)\` if no signal was received.
 
   async execute(params: ToolParams): Promise<ToolResult> {
     const callCommand = this.config.getToolCallCommand()!;
-    const child = spawn(callCommand, [this.name]);
+    const isWindows = os.platform() === 'win32';
+    // lead a process group (except on Windows) so that a timeout kills it all
+    const child = spawn(callCommand, [this.name], { detached: !isWindows });
     child.stdin.write(JSON.stringify(params));
     child.stdin.end();
 
+    const { timeout, maxOutputChars } = this.config.getToolLimits(this.name);
+    let timedOut = false;
+    const timeoutTimer = timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          try {
+            if (isWindows || !child.pid) {
+              child.kill('SIGKILL');
+            } else {
+              process.kill(-child.pid, 'SIGKILL');
+            }
+          } catch (e) {
+            console.error(`failed to kill tool process ${child.pid}: ${e}`);
+          }
+        }, timeout)
+      : undefined;
+
     let stdout = '';
     let stderr = '';
     let error: Error | null = null;
@@ -100,15 +122,27 @@ Signal: Signal number or \`(none)\` if no signal was received.
       child.on('error', onError);
       child.on('close', onClose);
     });
+    clearTimeout(timeoutTimer);
+
+    // keep the head and tail of long output, spilling the rest to a file
+    const limitOutput = (str: string, name: string) =>
+      maxOutputChars === undefined
+        ? str
+        : limitToolOutput(str, {
+            maxChars: maxOutputChars,
+            outputDir: this.config.getToolOutputDir(),
+            name: `${this.name}-${name}`,
+          });
 
     // if there is any error, non-zero exit code, signal, or stderr, return error details instead of stdout
     if (error || code !== 0 || signal || stderr) {
       const llmContent = [
-        `Stdout: ${stdout || '(empty)'}`,
-        `Stderr: ${stderr || '(empty)'}`,
+        `Stdout: ${limitOutput(stdout, 'stdout') || '(empty)'}`,
+        `Stderr: ${limitOutput(stderr, 'stderr') || '(empty)'}`,
         `Error: ${error ?? '(none)'}`,
         `Exit Code: ${code ?? '(none)'}`,
         `Signal: ${signal ?? '(none)'}`,
+        ...(timedOut ? [`Timed Out: after ${timeout}ms`] : []),
       ].join('\n');
       return {
         llmContent,
@@ -116,9 +150,10 @@ Signal: Signal number or \`(none)\` if no signal was received.
       };
     }
 
+    const llmContent = limitOutput(stdout, 'stdout');
     return {
-      llmContent: stdout,
-      returnDisplay: stdout,
+      llmContent,
+      returnDisplay: llmContent,
     };
   }
 }
@@ -156,6 +191,8 @@ export class ToolRegistry {
         this.tools.delete(tool.name);
       }
     }
+    // and close the connections to the MCP servers that they used
+    await disconnectMcpServers();
 
     await this.discoverAndRegisterToolsFromCommand();
 
@@ -164,6 +201,8 @@ export class ToolRegistry {
       this.config.getMcpServers() ?? {},
       this.config.getMcpServerCommand(),
       this,
+      this.config.getToolOutputDir(),
+      (toolName, defaults) => this.config.getToolLimits(toolName, defaults),
     );
   }
 
@@ -70,6 +70,14 @@ export interface Tool<
     abortSignal: AbortSignal,
   ): Promise<ToolCallConfirmationDetails | false>;
 
+  /**
+   * Declares what a call does besides producing its result, so that calls
+   * that do not interfere with each other can run in parallel.
+   * Tools that do not implement it are assumed to run processes.
+   * @param params Parameters for the tool execution
+   */
+  getEffects?(params: TParams): ToolEffects;
+
   /**
    * Executes the tool with the given parameters
    * @param params Parameters for the tool execution
@@ -172,6 +180,19 @@ export abstract class BaseTool<
   ): Promise<TResult>;
 }
 
+/**
+ * The side effects of a tool call. A call without `writes` and
+ * `runsProcess` is read-only.
+ */
+export interface ToolEffects {
+  /** Absolute paths of the files or directories the call reads. */
+  reads?: string[];
+  /** Absolute paths of the files or directories the call writes. */
+  writes?: string[];
+  /** Whether the call runs processes, whose effects cannot be known. */
+  runsProcess?: boolean;
+}
+
 export interface ToolResult {
   /**
    * Content meant to be included in LLM history.
@@ -206,6 +227,8 @@ export interface ToolEditConfirmationDetails {
   fileName: string;
   fileDiff: string;
   isModifying?: boolean;
+  /** False for tools whose changes cannot be modified in an external editor. */
+  canModifyWithEditor?: boolean;
 }
 
 export interface ToolConfirmationPayload {
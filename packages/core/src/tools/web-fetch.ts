@@ -10,6 +10,7 @@ import {
   ToolResult,
   ToolCallConfirmationDetails,
   ToolConfirmationOutcome,
+  ToolEffects,
 } from './tools.js';
 import { Type } from '@google/genai';
 import { getErrorMessage } from '../utils/errors.js';
@@ -17,6 +18,7 @@ import { Config, ApprovalMode } from '../config/config.js';
 import { getResponseText } from '../utils/generateContentResponseUtilities.js';
 import { fetchWithTimeout, isPrivateIp } from '../utils/fetch.js';
 import { convert } from 'html-to-text';
+import { ModelPurpose } from '../config/models.js';
 
 const URL_FETCH_TIMEOUT_MS = 10000;
 const MAX_CONTENT_LENGTH = 100000;
@@ -132,6 +134,7 @@ ${textContent}
         [{ role: 'user', parts: [{ text: fallbackPrompt }] }],
         {},
         signal,
+        ModelPurpose.WEB_FETCH,
       );
       const resultText = getResponseText(result) || '';
       return {
@@ -165,6 +168,10 @@ ${textContent}
     return null;
   }
 
+  getEffects(_params: WebFetchToolParams): ToolEffects {
+    return {};
+  }
+
   getDescription(params: WebFetchToolParams): string {
     const displayPrompt =
       params.prompt.length > 100
@@ -238,6 +245,7 @@ ${textContent}
         [{ role: 'user', parts: [{ text: userPrompt }] }],
         { tools: [{ urlContext: {} }] },
         signal, // Pass signal
+        ModelPurpose.WEB_FETCH,
       );
 
       console.debug(
@@ -5,7 +5,7 @@
  */
 
 import { GroundingMetadata } from '@google/genai';
-import { BaseTool, ToolResult } from './tools.js';
+import { BaseTool, ToolEffects, ToolResult } from './tools.js';
 import { Type } from '@google/genai';
 import { SchemaValidator } from '../utils/schemaValidator.js';
 
@@ -99,6 +99,10 @@ export class WebSearchTool extends BaseTool<
     return null;
   }
 
+  getEffects(_params: WebSearchToolParams): ToolEffects {
+    return {};
+  }
+
   getDescription(params: WebSearchToolParams): string {
     return `Searching the web for: "${params.query}"`;
   }
@@ -15,6 +15,7 @@ import {
   ToolEditConfirmationDetails,
   ToolConfirmationOutcome,
   ToolCallConfirmationDetails,
+  ToolEffects,
 } from './tools.js';
 import { Type } from '@google/genai';
 import { SchemaValidator } from '../utils/schemaValidator.js';
@@ -144,6 +145,10 @@ export class WriteFileTool
     return null;
   }
 
+  getEffects(params: WriteFileToolParams): ToolEffects {
+    return { writes: [params.file_path] };
+  }
+
   getDescription(params: WriteFileToolParams): string {
     if (!params.file_path || !params.content) {
       return `Model did not provide valid parameters for write file tool`;
@@ -258,6 +263,7 @@ export class WriteFileTool
       }
 
       fs.writeFileSync(params.file_path, fileContent, 'utf8');
+      this.config.getLspManager().didWriteFile(params.file_path);
 
       // Generate diff for display result
       const fileName = path.basename(params.file_path);
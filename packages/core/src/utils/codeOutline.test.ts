@@ -0,0 +1,202 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { buildRepoMap, formatOutline, outlineSource } from './codeOutline.js';
+import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
+
+describe('codeOutline', () => {
+  describe('outlineSource', () => {
+    it('should outline TypeScript declarations and their exports', async () => {
+      const source = [
+        'import fs from "fs";', // 1
+        '', // 2
+        '/** A server. */', // 3
+        'export class Server {', // 4
+        '  constructor(private port: number) {}', // 5
+        '  start(): void {', // 6
+        '    fs.readFileSync("x");', // 7
+        '  }', // 8
+        '  private stop = () => {};', // 9
+        '}', // 10
+        '', // 11
+        'interface Options {', // 12
+        '  port: number;', // 13
+        '}', // 14
+        'export const createServer = (options: Options) =>', // 15
+        '  new Server(options.port);', // 16
+        'const VERSION = 1;', // 17
+        'function helper() {}', // 18
+        'export { helper };', // 19
+      ].join('\n');
+
+      expect(formatOutline((await outlineSource('server.ts', source))!)).toBe(
+        [
+          'export class Server (L4-10)',
+          '  constructor Server (L5-5)',
+          '  method start (L6-8)',
+          '  method stop (L9-9)',
+          'interface Options (L12-14)',
+          'export function createServer (L15-16)',
+          'variable VERSION (L17-17)',
+          'export function helper (L18-18)',
+        ].join('\n'),
+      );
+    });
+
+    it('should outline Python classes, methods and functions', async () => {
+      const source = [
+        'class Store:', // 1
+        '    def __init__(self):', // 2
+        '        self.items = []', // 3
+        '', // 4
+        '    async def load(self):', // 5
+        '        def parse(line):', // 6
+        '            return line', // 7
+        '        return []', // 8
+        '', // 9
+        'def _private():', // 10
+        '    pass', // 11
+      ].join('\n');
+
+      expect(formatOutline((await outlineSource('store.py', source))!)).toBe(
+        [
+          'export class Store (L1-8)',
+          '  method __init__ (L2-3)',
+          '  method load (L5-8)',
+          'function _private (L10-11)',
+        ].join('\n'),
+      );
+    });
+
+    it('should outline Go types, functions and methods', async () => {
+      const source = [
+        'package server', // 1
+        '', // 2
+        'type Server struct {', // 3
+        '\tport int', // 4
+        '}', // 5
+        '', // 6
+        'type handler func()', // 7
+        '', // 8
+        'func (s *Server) Start() error {', // 9
+        '\tfmt.Println("{")', // 10
+        '\treturn nil', // 11
+        '}', // 12
+        '', // 13
+        'func newServer() *Server {', // 14
+        '\treturn &Server{}', // 15
+        '}', // 16
+      ].join('\n');
+
+      expect(formatOutline((await outlineSource('server.go', source))!)).toBe(
+        [
+          'export struct Server (L3-5)',
+          'type handler (L7-7)',
+          'export method Server.Start (L9-12)',
+          'function newServer (L14-16)',
+        ].join('\n'),
+      );
+    });
+
+    it('should outline Java types, constructors and methods', async () => {
+      const source = [
+        'package server;', // 1
+        '', // 2
+        'public class Server {', // 3
+        '  private final int port;', // 4
+        '', // 5
+        '  public Server(int port) {', // 6
+        '    this.port = port;', // 7
+        '  }', // 8
+        '', // 9
+        '  @Override', // 10
+        '  public List<String> routes(String prefix) {', // 11
+        '    return List.of(prefix);', // 12
+        '  }', // 13
+        '', // 14
+        '  interface Handler {', // 15
+        '    void handle(Request request);', // 16
+        '  }', // 17
+        '}', // 18
+      ].join('\n');
+
+      expect(formatOutline((await outlineSource('Server.java', source))!)).toBe(
+        [
+          'export class Server (L3-18)',
+          '  constructor Server (L6-8)',
+          '  method routes (L11-13)',
+          '  interface Handler (L15-17)',
+          '    method handle (L16-16)',
+        ].join('\n'),
+      );
+    });
+
+    it('should not outline unsupported languages', async () => {
+      expect(await outlineSource('main.rs', 'fn main() {}')).toBeUndefined();
+    });
+  });
+
+  describe('buildRepoMap', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-map-test-'));
+      fs.mkdirSync(path.join(tempDir, 'src', 'deep'), { recursive: true });
+      fs.writeFileSync(
+        path.join(tempDir, 'index.ts'),
+        'export function main() {}\n',
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'src', 'store.py'),
+        'class Store:\n    pass\n\ndef load():\n    pass\n',
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'src', 'deep', 'util.ts'),
+        'export const util = () => 1;\n',
+      );
+      fs.writeFileSync(path.join(tempDir, 'README.md'), '# Project\n');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should list the top-level symbols of each file, shallow files first', async () => {
+      const map = await buildRepoMap(
+        tempDir,
+        new FileDiscoveryService(tempDir),
+        1000,
+      );
+
+      expect(map).toBe(
+        [
+          `Top-level symbols of the source files in ${tempDir}:`,
+          'index.ts: function main',
+          'src/store.py: class Store, function load',
+          'src/deep/util.ts: function util',
+        ].join('\n'),
+      );
+    });
+
+    it('should leave out files beyond the token budget', async () => {
+      const map = await buildRepoMap(
+        tempDir,
+        new FileDiscoveryService(tempDir),
+        10,
+      );
+
+      expect(map).toContain('index.ts: function main');
+      expect(map).not.toContain('src/deep/util.ts');
+      expect(map).toContain(
+        '... 2 more file(s) not shown; use the code_outline tool to see them.',
+      );
+    });
+  });
+});
@@ -0,0 +1,694 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import type ts from 'typescript';
+import { glob } from 'glob';
+import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
+
+/** Files larger than this are not outlined, e.g. generated or minified code. */
+export const MAX_OUTLINE_FILE_BYTES = 512 * 1024;
+/** Files that the repository map reads at most, to bound its startup cost. */
+const MAX_REPO_MAP_FILES = 1000;
+/** Rough size of a token, for budgeting the repository map. */
+const CHARS_PER_TOKEN = 4;
+export const DEFAULT_REPO_MAP_MAX_TOKENS = 2000;
+
+export type OutlineLanguage =
+  | 'typescript'
+  | 'javascript'
+  | 'python'
+  | 'go'
+  | 'java';
+
+export type OutlineSymbolKind =
+  | 'class'
+  | 'interface'
+  | 'struct'
+  | 'enum'
+  | 'record'
+  | 'type'
+  | 'namespace'
+  | 'function'
+  | 'method'
+  | 'constructor'
+  | 'variable';
+
+export interface OutlineSymbol {
+  name: string;
+  kind: OutlineSymbolKind;
+  /** First and last line of the declaration, counting from 1. */
+  startLine: number;
+  endLine: number;
+  /**
+   * Whether a top-level symbol is visible outside its file or package: it is
+   * exported in TypeScript and JavaScript, public in Java, capitalized in Go
+   * and not prefixed with `_` in Python. Always false for members.
+   */
+  exported: boolean;
+  children: OutlineSymbol[];
+}
+
+/** Settings of the map of top-level symbols sent at the start of a chat. */
+export interface RepoMapSettings {
+  enabled?: boolean;
+  /** Approximate size of the map in tokens. */
+  maxTokens?: number;
+}
+
+const LANGUAGES_BY_EXTENSION: Record<string, OutlineLanguage> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.go': 'go',
+  '.java': 'java',
+};
+
+export const OUTLINE_FILE_PATTERN = `**/*.{${Object.keys(LANGUAGES_BY_EXTENSION)
+  .map((extension) => extension.slice(1))
+  .join(',')}}`;
+
+/** The language of a file that can be outlined, by its extension. */
+export function getOutlineLanguage(
+  filePath: string,
+): OutlineLanguage | undefined {
+  return LANGUAGES_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+}
+
+// --- TypeScript and JavaScript ---
+
+let typescriptModule: Promise<typeof ts> | undefined;
+
+/** Loads the TypeScript compiler the first time that a file is outlined. */
+function loadTypeScript(): Promise<typeof ts> {
+  typescriptModule ??= import('typescript').then((module) => module.default);
+  return typescriptModule;
+}
+
+function getScriptKind(typescript: typeof ts, filePath: string): ts.ScriptKind {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.tsx':
+      return typescript.ScriptKind.TSX;
+    case '.jsx':
+      return typescript.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return typescript.ScriptKind.JS;
+    default:
+      return typescript.ScriptKind.TS;
+  }
+}
+
+function hasModifier(
+  typescript: typeof ts,
+  node: ts.Node,
+  kind: ts.SyntaxKind,
+): boolean {
+  const modifiers = typescript.canHaveModifiers(node)
+    ? typescript.getModifiers(node)
+    : undefined;
+  return modifiers?.some((modifier) => modifier.kind === kind) ?? false;
+}
+
+async function outlineTypeScript(
+  filePath: string,
+  content: string,
+): Promise<OutlineSymbol[]> {
+  const typescript = await loadTypeScript();
+  const sourceFile = typescript.createSourceFile(
+    filePath,
+    content,
+    typescript.ScriptTarget.Latest,
+    false,
+    getScriptKind(typescript, filePath),
+  );
+  const lineOf = (position: number) =>
+    sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+  const createSymbol = (
+    node: ts.Node,
+    name: string,
+    kind: OutlineSymbolKind,
+    exported = false,
+    children: OutlineSymbol[] = [],
+  ): OutlineSymbol => ({
+    name,
+    kind,
+    startLine: lineOf(node.getStart(sourceFile)),
+    endLine: lineOf(node.getEnd()),
+    exported,
+    children,
+  });
+
+  // Names exported by `export { a, b as c }` and `export default a`.
+  const exportedNames = new Set<string>();
+  for (const statement of sourceFile.statements) {
+    if (
+      typescript.isExportDeclaration(statement) &&
+      !statement.moduleSpecifier &&
+      statement.exportClause &&
+      typescript.isNamedExports(statement.exportClause)
+    ) {
+      for (const element of statement.exportClause.elements) {
+        exportedNames.add((element.propertyName ?? element.name).text);
+      }
+    } else if (
+      typescript.isExportAssignment(statement) &&
+      typescript.isIdentifier(statement.expression)
+    ) {
+      exportedNames.add(statement.expression.text);
+    }
+  }
+
+  const outlineMembers = (
+    className: string,
+    members: ts.NodeArray<ts.ClassElement>,
+  ): OutlineSymbol[] => {
+    const symbols: OutlineSymbol[] = [];
+    for (const member of members) {
+      const name = member.name?.getText(sourceFile);
+      if (typescript.isConstructorDeclaration(member)) {
+        symbols.push(createSymbol(member, className, 'constructor'));
+      } else if (typescript.isMethodDeclaration(member) && name) {
+        symbols.push(createSymbol(member, name, 'method'));
+      } else if (typescript.isGetAccessor(member) && name) {
+        symbols.push(createSymbol(member, `get ${name}`, 'method'));
+      } else if (typescript.isSetAccessor(member) && name) {
+        symbols.push(createSymbol(member, `set ${name}`, 'method'));
+      } else if (
+        typescript.isPropertyDeclaration(member) &&
+        name &&
+        member.initializer &&
+        (typescript.isArrowFunction(member.initializer) ||
+          typescript.isFunctionExpression(member.initializer))
+      ) {
+        symbols.push(createSymbol(member, name, 'method'));
+      }
+    }
+    return symbols;
+  };
+
+  const outlineStatements = (
+    statements: ts.NodeArray<ts.Statement>,
+    isTopLevel: boolean,
+  ): OutlineSymbol[] => {
+    const symbols: OutlineSymbol[] = [];
+    const isExported = (node: ts.Node, name: string) =>
+      isTopLevel &&
+      (hasModifier(typescript, node, typescript.SyntaxKind.ExportKeyword) ||
+        exportedNames.has(name));
+
+    for (const statement of statements) {
+      if (typescript.isFunctionDeclaration(statement)) {
+        const name = statement.name?.text ?? 'default';
+        symbols.push(
+          createSymbol(
+            statement,
+            name,
+            'function',
+            isExported(statement, name),
+          ),
+        );
+      } else if (typescript.isClassDeclaration(statement)) {
+        const name = statement.name?.text ?? 'default';
+        symbols.push(
+          createSymbol(
+            statement,
+            name,
+            'class',
+            isExported(statement, name),
+            outlineMembers(name, statement.members),
+          ),
+        );
+      } else if (typescript.isInterfaceDeclaration(statement)) {
+        const name = statement.name.text;
+        symbols.push(
+          createSymbol(
+            statement,
+            name,
+            'interface',
+            isExported(statement, name),
+          ),
+        );
+      } else if (typescript.isTypeAliasDeclaration(statement)) {
+        const name = statement.name.text;
+        symbols.push(
+          createSymbol(statement, name, 'type', isExported(statement, name)),
+        );
+      } else if (typescript.isEnumDeclaration(statement)) {
+        const name = statement.name.text;
+        symbols.push(
+          createSymbol(statement, name, 'enum', isExported(statement, name)),
+        );
+      } else if (typescript.isModuleDeclaration(statement)) {
+        const name = statement.name.text;
+        const body =
+          statement.body && typescript.isModuleBlock(statement.body)
+            ? outlineStatements(statement.body.statements, false)
+            : [];
+        symbols.push(
+          createSymbol(
+            statement,
+            name,
+            'namespace',
+            isExported(statement, name),
+            body,
+          ),
+        );
+      } else if (typescript.isVariableStatement(statement)) {
+        const declarations = statement.declarationList.declarations;
+        for (const declaration of declarations) {
+          if (!typescript.isIdentifier(declaration.name)) {
+            continue; // Destructuring declares no single symbol.
+          }
+          const name = declaration.name.text;
+          const initializer = declaration.initializer;
+          const kind: OutlineSymbolKind =
+            initializer &&
+            (typescript.isArrowFunction(initializer) ||
+              typescript.isFunctionExpression(initializer))
+              ? 'function'
+              : initializer && typescript.isClassExpression(initializer)
+                ? 'class'
+                : 'variable';
+          const symbol = createSymbol(
+            declaration,
+            name,
+            kind,
+            isExported(statement, name),
+            initializer && typescript.isClassExpression(initializer)
+              ? outlineMembers(name, initializer.members)
+              : [],
+          );
+          if (declarations.length === 1) {
+            // Include `export const` in the range of the only declaration.
+            symbol.startLine = lineOf(statement.getStart(sourceFile));
+          }
+          symbols.push(symbol);
+        }
+      }
+    }
+    return symbols;
+  };
+
+  return outlineStatements(sourceFile.statements, true);
+}
+
+// --- Python, Go and Java ---
+
+/** A symbol found by a regex, whose children are found by their ranges. */
+type FlatSymbol = Omit<OutlineSymbol, 'children'>;
+
+/** Removes string literals and line comments, which may contain braces. */
+function stripStringsAndComments(line: string): string {
+  return line
+    .replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|`[^`]*`/g, '""')
+    .replace(/\/\/.*$/, '');
+}
+
+/**
+ * Finds the line (0-based) that closes the brace block of the declaration
+ * starting at `startIndex`. A declaration without a block, such as an
+ * abstract method, ends at its `;`.
+ */
+function findBlockEnd(lines: string[], startIndex: number): number {
+  let depth = 0;
+  let opened = false;
+  for (let i = startIndex; i < lines.length; i++) {
+    const line = stripStringsAndComments(lines[i]);
+    for (const char of line) {
+      if (char === '{') {
+        depth++;
+        opened = true;
+      } else if (char === '}') {
+        depth--;
+        if (opened && depth <= 0) {
+          return i;
+        }
+      }
+    }
+    if (!opened && (line.includes(';') || i - startIndex >= 10)) {
+      return i;
+    }
+  }
+  return opened ? lines.length - 1 : startIndex;
+}
+
+/**
+ * Nests symbols in the symbols whose ranges contain them. Only the children
+ * of symbols for which `canHaveChildren` is true are kept, so that e.g.
+ * local functions don't show up in an outline.
+ */
+function nestSymbols(
+  flatSymbols: FlatSymbol[],
+  canHaveChildren: (symbol: OutlineSymbol) => boolean,
+): OutlineSymbol[] {
+  const roots: OutlineSymbol[] = [];
+  const stack: OutlineSymbol[] = [];
+  const sorted = [...flatSymbols].sort(
+    (a, b) => a.startLine - b.startLine || b.endLine - a.endLine,
+  );
+  for (const flatSymbol of sorted) {
+    const symbol: OutlineSymbol = { ...flatSymbol, children: [] };
+    while (
+      stack.length > 0 &&
+      stack[stack.length - 1].endLine < symbol.endLine
+    ) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    if (!parent) {
+      roots.push(symbol);
+    } else if (canHaveChildren(parent)) {
+      parent.children.push(symbol);
+      symbol.exported = false;
+    } else {
+      continue;
+    }
+    stack.push(symbol);
+  }
+  return roots;
+}
+
+const PYTHON_DEFINITION = /^([ \t]*)(?:async[ \t]+)?(def|class)[ \t]+(\w+)/;
+
+function outlinePython(lines: string[]): OutlineSymbol[] {
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+  const symbols: FlatSymbol[] = [];
+  lines.forEach((line, index) => {
+    const match = line.match(PYTHON_DEFINITION);
+    if (!match) {
+      return;
+    }
+    const indent = match[1].length;
+    // The body ends before the next line that is indented as much as the
+    // definition, or less.
+    let endIndex = index;
+    for (let i = index + 1; i < lines.length; i++) {
+      const trimmed = lines[i].trim();
+      if (!trimmed) {
+        continue;
+      }
+      if (indentOf(lines[i]) <= indent && !trimmed.startsWith(')')) {
+        break;
+      }
+      endIndex = i;
+    }
+    symbols.push({
+      name: match[3],
+      kind: match[2] === 'class' ? 'class' : 'function',
+      startLine: index + 1,
+      endLine: endIndex + 1,
+      exported: indent === 0 && !match[3].startsWith('_'),
+    });
+  });
+
+  const nested = nestSymbols(symbols, (symbol) => symbol.kind === 'class');
+  const markMethods = (symbol: OutlineSymbol) => {
+    for (const child of symbol.children) {
+      if (child.kind === 'function') {
+        child.kind = 'method';
+      }
+      markMethods(child);
+    }
+  };
+  nested.forEach(markMethods);
+  return nested;
+}
+
+const GO_FUNCTION =
+  /^func\s*(?:\(\s*(?:\w+\s+)?\*?\s*(\w+)[^)]*\)\s*)?(\w+)\s*[([]/;
+const GO_TYPE = /^type\s+(\w+)(?:\[[^\]]*\])?\s+(struct|interface)?/;
+
+function outlineGo(lines: string[]): OutlineSymbol[] {
+  const symbols: OutlineSymbol[] = [];
+  lines.forEach((line, index) => {
+    const functionMatch = line.match(GO_FUNCTION);
+    if (functionMatch) {
+      const [, receiver, name] = functionMatch;
+      symbols.push({
+        name: receiver ? `${receiver}.${name}` : name,
+        kind: receiver ? 'method' : 'function',
+        startLine: index + 1,
+        endLine: findBlockEnd(lines, index) + 1,
+        exported: /^[A-Z]/.test(name),
+        children: [],
+      });
+      return;
+    }
+    const typeMatch = line.match(GO_TYPE);
+    if (typeMatch) {
+      const [, name, kind] = typeMatch;
+      symbols.push({
+        name,
+        kind: kind === 'struct' ? 'struct' : kind ? 'interface' : 'type',
+        startLine: index + 1,
+        endLine: (kind ? findBlockEnd(lines, index) : index) + 1,
+        exported: /^[A-Z]/.test(name),
+        children: [],
+      });
+    }
+  });
+  return symbols;
+}
+
+const JAVA_TYPE =
+  /^\s*(?:@\w+(?:\([^)]*\))?\s+)*((?:(?:public|protected|private|static|final|abstract|sealed|non-sealed|strictfp)\s+)*)(class|interface|enum|record|@interface)\s+(\w+)/;
+const JAVA_METHOD =
+  /^\s*(?:(?:public|protected|private|static|final|abstract|synchronized|native|default|strictfp)\s+)*(?:<[^>]*>\s+)?([\w.$]+(?:<.*>)?(?:\[\])*)\s+(\w+)\s*\(/;
+const JAVA_CONSTRUCTOR =
+  /^\s*(?:(?:public|protected|private)\s+)?([A-Z]\w*)\s*\([^;]*$/;
+/**
+ * Words that can't be the return type or name of a method: statements that
+ * look like method declarations, and the modifiers of constructors.
+ */
+const JAVA_NON_METHOD_WORDS = new Set([
+  'public',
+  'protected',
+  'private',
+  'return',
+  'new',
+  'throw',
+  'else',
+  'if',
+  'for',
+  'while',
+  'switch',
+  'catch',
+  'case',
+  'yield',
+]);
+
+function outlineJava(lines: string[]): OutlineSymbol[] {
+  const symbols: FlatSymbol[] = [];
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+    if (
+      trimmed.startsWith('//') ||
+      trimmed.startsWith('*') ||
+      trimmed.startsWith('/*')
+    ) {
+      return;
+    }
+    const endLine = () => findBlockEnd(lines, index) + 1;
+
+    const typeMatch = line.match(JAVA_TYPE);
+    if (typeMatch) {
+      const [, modifiers, keyword, name] = typeMatch;
+      symbols.push({
+        name,
+        kind:
+          keyword === 'enum'
+            ? 'enum'
+            : keyword === 'record'
+              ? 'record'
+              : keyword === 'class'
+                ? 'class'
+                : 'interface',
+        startLine: index + 1,
+        endLine: endLine(),
+        exported: /\bpublic\b/.test(modifiers),
+      });
+      return;
+    }
+    const methodMatch = line.match(JAVA_METHOD);
+    if (
+      methodMatch &&
+      !JAVA_NON_METHOD_WORDS.has(methodMatch[1]) &&
+      !JAVA_NON_METHOD_WORDS.has(methodMatch[2])
+    ) {
+      symbols.push({
+        name: methodMatch[2],
+        kind: 'method',
+        startLine: index + 1,
+        endLine: endLine(),
+        exported: false,
+      });
+      return;
+    }
+    const constructorMatch = line.match(JAVA_CONSTRUCTOR);
+    if (constructorMatch) {
+      symbols.push({
+        name: constructorMatch[1],
+        kind: 'constructor',
+        startLine: index + 1,
+        endLine: endLine(),
+        exported: false,
+      });
+    }
+  });
+
+  const isType = (symbol: OutlineSymbol) =>
+    symbol.kind !== 'method' && symbol.kind !== 'constructor';
+  const nested = nestSymbols(symbols, isType);
+  // Calls such as `Foo(x)` look like constructors; keep only those that are
+  // named after the class that contains them.
+  const removeFalseConstructors = (symbol: OutlineSymbol) => {
+    symbol.children = symbol.children.filter(
+      (child) => child.kind !== 'constructor' || child.name === symbol.name,
+    );
+    symbol.children.forEach(removeFalseConstructors);
+  };
+  nested.forEach(removeFalseConstructors);
+  return nested.filter((symbol) => symbol.kind !== 'constructor');
+}
+
+/**
+ * Extracts the classes, functions, methods and other declarations of a
+ * source file, with their line ranges. TypeScript and JavaScript are parsed
+ * with the TypeScript compiler; Python, Go and Java are scanned with regular
+ * expressions, which may miss unusually formatted declarations.
+ *
+ * @returns The top-level symbols with their members, or undefined if the
+ *   language of the file is not supported.
+ */
+export async function outlineSource(
+  filePath: string,
+  content: string,
+): Promise<OutlineSymbol[] | undefined> {
+  switch (getOutlineLanguage(filePath)) {
+    case 'typescript':
+    case 'javascript':
+      return outlineTypeScript(filePath, content);
+    case 'python':
+      return outlinePython(content.split(/\r?\n/));
+    case 'go':
+      return outlineGo(content.split(/\r?\n/));
+    case 'java':
+      return outlineJava(content.split(/\r?\n/));
+    default:
+      return undefined;
+  }
+}
+
+/** Formats symbols as an indented list, one symbol per line. */
+export function formatOutline(symbols: OutlineSymbol[], depth = 0): string {
+  return symbols
+    .map((symbol) => {
+      const line = `${'  '.repeat(depth)}${symbol.exported ? 'export ' : ''}${symbol.kind} ${symbol.name} (L${symbol.startLine}-${symbol.endLine})`;
+      return symbol.children.length > 0
+        ? `${line}\n${formatOutline(symbol.children, depth + 1)}`
+        : line;
+    })
+    .join('\n');
+}
+
+/**
+ * Finds the files that can be outlined in a directory, relative to it and
+ * in stable order, respecting the ignore files of the project.
+ */
+export async function findOutlineFiles(
+  directory: string,
+  fileService: FileDiscoveryService,
+  signal?: AbortSignal,
+): Promise<string[]> {
+  const files = await glob(OUTLINE_FILE_PATTERN, {
+    cwd: directory,
+    nodir: true,
+    dot: false,
+    ignore: ['**/node_modules/**', '**/.git/**'],
+    follow: false,
+    signal,
+  });
+  return fileService
+    .filterFiles(files.map((file) => path.join(directory, file)))
+    .map((file) => path.relative(directory, file))
+    .sort();
+}
+
+/**
+ * Builds a compact map of the top-level symbols of the source files of a
+ * project, one file per line, for the start of a chat. Files closer to the
+ * root come first, and files are left out once the map reaches `maxTokens`.
+ *
+ * @returns The map, or an empty string if no symbols were found.
+ */
+export async function buildRepoMap(
+  rootDirectory: string,
+  fileService: FileDiscoveryService,
+  maxTokens: number,
+  signal?: AbortSignal,
+): Promise<string> {
+  const depthOf = (file: string) => file.split(path.sep).length;
+  const files = (await findOutlineFiles(rootDirectory, fileService, signal))
+    .sort((a, b) => depthOf(a) - depthOf(b) || a.localeCompare(b))
+    .slice(0, MAX_REPO_MAP_FILES);
+
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const lines: string[] = [];
+  let chars = 0;
+  let omittedFiles = 0;
+  for (const file of files) {
+    if (chars >= maxChars) {
+      omittedFiles++;
+      continue;
+    }
+    const absolutePath = path.join(rootDirectory, file);
+    let symbols: OutlineSymbol[] | undefined;
+    try {
+      const stats = await fs.stat(absolutePath);
+      if (stats.size > MAX_OUTLINE_FILE_BYTES) {
+        continue;
+      }
+      symbols = await outlineSource(
+        file,
+        await fs.readFile(absolutePath, 'utf-8'),
+      );
+    } catch {
+      continue; // Deleted or unreadable since it was found.
+    }
+    if (!symbols?.length) {
+      continue;
+    }
+    const line = `${file.split(path.sep).join('/')}: ${symbols
+      .map((symbol) => `${symbol.kind} ${symbol.name}`)
+      .join(', ')}`;
+    if (chars + line.length > maxChars) {
+      omittedFiles++;
+      chars = maxChars;
+      continue;
+    }
+    lines.push(line);
+    chars += line.length + 1;
+  }
+
+  if (lines.length === 0) {
+    return '';
+  }
+  if (omittedFiles > 0) {
+    lines.push(
+      `... ${omittedFiles} more file(s) not shown; use the code_outline tool to see them.`,
+    );
+  }
+  return `Top-level symbols of the source files in ${rootDirectory}:\n${lines.join('\n')}`;
+}
@@ -17,14 +17,13 @@ import { ReadFileTool } from '../tools/read-file.js';
 import { ReadManyFilesTool } from '../tools/read-many-files.js';
 import { GrepTool } from '../tools/grep.js';
 import { LruCache } from './LruCache.js';
-import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
+import { ModelPurpose } from '../config/models.js';
 import {
   isFunctionResponse,
   isFunctionCall,
 } from '../utils/messageInspectors.js';
 import * as fs from 'fs';
 
-const EditModel = DEFAULT_GEMINI_FLASH_MODEL;
 const EditConfig: GenerateContentConfig = {
   thinkingConfig: {
     thinkingBudget: 0,
@@ -410,7 +409,7 @@ Return ONLY the corrected target snippet in the specified JSON format with the k
       contents,
       OLD_STRING_CORRECTION_SCHEMA,
       abortSignal,
-      EditModel,
+      ModelPurpose.EDIT_CORRECTION,
       EditConfig,
     );
 
@@ -498,7 +497,7 @@ Return ONLY the corrected string in the specified JSON format with the key 'corr
       contents,
       NEW_STRING_CORRECTION_SCHEMA,
       abortSignal,
-      EditModel,
+      ModelPurpose.EDIT_CORRECTION,
       EditConfig,
     );
 
@@ -567,7 +566,7 @@ Return ONLY the corrected string in the specified JSON format with the key 'corr
       contents,
       CORRECT_NEW_STRING_ESCAPING_SCHEMA,
       abortSignal,
-      EditModel,
+      ModelPurpose.EDIT_CORRECTION,
       EditConfig,
     );
 
@@ -633,7 +632,7 @@ Return ONLY the corrected string in the specified JSON format with the key 'corr
       contents,
       CORRECT_STRING_ESCAPING_SCHEMA,
       abortSignal,
-      EditModel,
+      ModelPurpose.EDIT_CORRECTION,
       EditConfig,
     );
 
@@ -216,6 +216,10 @@ describe('fileUtils', () => {
       expect(detectFileType('image.icon.svg')).toBe('svg');
     });
 
+    it('should detect notebook type by extension', () => {
+      expect(detectFileType('analysis.ipynb')).toBe('notebook');
+    });
+
     it('should detect pdf type by extension', () => {
       mockMimeLookup.mockReturnValueOnce('application/pdf');
       expect(detectFileType('file.pdf')).toBe('pdf');
@@ -380,6 +384,36 @@ describe('fileUtils', () => {
       expect(result.returnDisplay).toContain('Read SVG as text');
     });
 
+    it('should render a notebook as cells', async () => {
+      const testNotebookFilePath = path.join(tempRootDir, 'test.ipynb');
+      actualNodeFs.writeFileSync(
+        testNotebookFilePath,
+        JSON.stringify({
+          cells: [
+            {
+              cell_type: 'code',
+              metadata: {},
+              source: ['print(1)'],
+              outputs: [{ output_type: 'stream', name: 'stdout', text: '1\n' }],
+              execution_count: 1,
+            },
+          ],
+          metadata: {},
+          nbformat: 4,
+          nbformat_minor: 5,
+        }),
+      );
+
+      const result = await processSingleFileContent(
+        testNotebookFilePath,
+        tempRootDir,
+      );
+
+      expect(result.llmContent).toBe(
+        'Jupyter notebook with 1 cell:\n\n<cell index="0" type="code" execution_count="1">\nprint(1)\n</cell>\n<output type="stream">\n1\n</output>',
+      );
+    });
+
     it('should skip binary files', async () => {
       actualNodeFs.writeFileSync(
         testBinaryFilePath,
@@ -8,6 +8,7 @@ import fs from 'fs';
 import path from 'path';
 import { PartUnion } from '@google/genai';
 import mime from 'mime-types';
+import { parseNotebook, renderNotebook } from './notebook.js';
 
 // Constants for text file processing
 const DEFAULT_MAX_LINES_TEXT_FILE = 2000;
@@ -94,11 +95,19 @@ export function isBinaryFile(filePath: string): boolean {
 /**
  * Detects the type of file based on extension and content.
  * @param filePath Path to the file.
- * @returns 'text', 'image', 'pdf', 'audio', 'video', or 'binary'.
+ * @returns 'text', 'image', 'pdf', 'audio', 'video', 'binary', 'svg', or 'notebook'.
  */
 export function detectFileType(
   filePath: string,
-): 'text' | 'image' | 'pdf' | 'audio' | 'video' | 'binary' | 'svg' {
+):
+  | 'text'
+  | 'image'
+  | 'pdf'
+  | 'audio'
+  | 'video'
+  | 'binary'
+  | 'svg'
+  | 'notebook' {
   const ext = path.extname(filePath).toLowerCase();
 
   // The mimetype for "ts" is MPEG transport stream (a video format) but we want
@@ -111,6 +120,10 @@ export function detectFileType(
     return 'svg';
   }
 
+  if (ext === '.ipynb') {
+    return 'notebook';
+  }
+
   const lookedUpMimeType = mime.lookup(filePath); // Returns false if not found, or the mime type string
   if (lookedUpMimeType) {
     if (lookedUpMimeType.startsWith('image/')) {
@@ -183,7 +196,59 @@ export interface ProcessedFileReadResult {
 }
 
 /**
- * Reads and processes a single file, handling text, images, and PDFs.
+ * Selects and truncates the lines of text content for the model.
+ * @param offset Optional offset (0-based line number).
+ * @param limit Optional limit (number of lines to show).
+ */
+function formatTextContent(
+  content: string,
+  offset?: number,
+  limit?: number,
+): ProcessedFileReadResult {
+  const lines = content.split('\n');
+  const originalLineCount = lines.length;
+
+  const startLine = offset || 0;
+  const effectiveLimit =
+    limit === undefined ? DEFAULT_MAX_LINES_TEXT_FILE : limit;
+  // Ensure endLine does not exceed originalLineCount
+  const endLine = Math.min(startLine + effectiveLimit, originalLineCount);
+  // Ensure selectedLines doesn't try to slice beyond array bounds if startLine is too high
+  const actualStartLine = Math.min(startLine, originalLineCount);
+  const selectedLines = lines.slice(actualStartLine, endLine);
+
+  let linesWereTruncatedInLength = false;
+  const formattedLines = selectedLines.map((line) => {
+    if (line.length > MAX_LINE_LENGTH_TEXT_FILE) {
+      linesWereTruncatedInLength = true;
+      return line.substring(0, MAX_LINE_LENGTH_TEXT_FILE) + '... [truncated]';
+    }
+    return line;
+  });
+
+  const contentRangeTruncated = endLine < originalLineCount;
+  const isTruncated = contentRangeTruncated || linesWereTruncatedInLength;
+
+  let llmTextContent = '';
+  if (contentRangeTruncated) {
+    llmTextContent += `[File content truncated: showing lines ${actualStartLine + 1}-${endLine} of ${originalLineCount} total lines. Use offset/limit parameters to view more.]\n`;
+  } else if (linesWereTruncatedInLength) {
+    llmTextContent += `[File content partially truncated: some lines exceeded maximum length of ${MAX_LINE_LENGTH_TEXT_FILE} characters.]\n`;
+  }
+  llmTextContent += formattedLines.join('\n');
+
+  return {
+    llmContent: llmTextContent,
+    returnDisplay: isTruncated ? '(truncated)' : '',
+    isTruncated,
+    originalLineCount,
+    linesShown: [actualStartLine + 1, endLine],
+  };
+}
+
+/**
+ * Reads and processes a single file, handling text, Jupyter notebooks, images,
+ * and PDFs.
  * @param filePath Absolute path to the file.
  * @param rootDirectory Absolute path to the project root for relative path display.
  * @param offset Optional offset for text files (0-based line number).
@@ -255,47 +320,17 @@ export async function processSingleFileContent(
       }
       case 'text': {
         const content = await fs.promises.readFile(filePath, 'utf8');
-        const lines = content.split('\n');
-        const originalLineCount = lines.length;
-
-        const startLine = offset || 0;
-        const effectiveLimit =
-          limit === undefined ? DEFAULT_MAX_LINES_TEXT_FILE : limit;
-        // Ensure endLine does not exceed originalLineCount
-        const endLine = Math.min(startLine + effectiveLimit, originalLineCount);
-        // Ensure selectedLines doesn't try to slice beyond array bounds if startLine is too high
-        const actualStartLine = Math.min(startLine, originalLineCount);
-        const selectedLines = lines.slice(actualStartLine, endLine);
-
-        let linesWereTruncatedInLength = false;
-        const formattedLines = selectedLines.map((line) => {
-          if (line.length > MAX_LINE_LENGTH_TEXT_FILE) {
-            linesWereTruncatedInLength = true;
-            return (
-              line.substring(0, MAX_LINE_LENGTH_TEXT_FILE) + '... [truncated]'
-            );
-          }
-          return line;
-        });
-
-        const contentRangeTruncated = endLine < originalLineCount;
-        const isTruncated = contentRangeTruncated || linesWereTruncatedInLength;
-
-        let llmTextContent = '';
-        if (contentRangeTruncated) {
-          llmTextContent += `[File content truncated: showing lines ${actualStartLine + 1}-${endLine} of ${originalLineCount} total lines. Use offset/limit parameters to view more.]\n`;
-        } else if (linesWereTruncatedInLength) {
-          llmTextContent += `[File content partially truncated: some lines exceeded maximum length of ${MAX_LINE_LENGTH_TEXT_FILE} characters.]\n`;
+        return formatTextContent(content, offset, limit);
+      }
+      case 'notebook': {
+        const content = await fs.promises.readFile(filePath, 'utf8');
+        let rendered: string;
+        try {
+          rendered = renderNotebook(parseNotebook(content));
+        } catch {
+          rendered = content; // Show a malformed notebook as the text it is.
         }
-        llmTextContent += formattedLines.join('\n');
-
-        return {
-          llmContent: llmTextContent,
-          returnDisplay: isTruncated ? '(truncated)' : '',
-          isTruncated,
-          originalLineCount,
-          linesShown: [actualStartLine + 1, endLine],
-        };
+        return formatTextContent(rendered, offset, limit);
       }
       case 'image':
       case 'pdf':
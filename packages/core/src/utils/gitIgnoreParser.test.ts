@@ -7,8 +7,9 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { GitIgnoreParser } from './gitIgnoreParser.js';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { isGitRepository } from './gitUtils.js';
+import { findGitRoot, isGitRepository } from './gitUtils.js';
 
 // Mock fs module
 vi.mock('fs');
@@ -172,4 +173,123 @@ src/*.tmp
       expect(parser.getPatterns()).toEqual(['.git', '*.log', '!important.log']);
     });
   });
+
+  describe('nested ignore files', () => {
+    let files: Record<string, string>;
+
+    beforeEach(() => {
+      files = {
+        [path.join(mockProjectRoot, '.gitignore')]: '*.log\nbuild/\n',
+        [path.join(mockProjectRoot, 'packages', 'a', '.gitignore')]:
+          'dist/\n!keep.log\n/local.txt\n!build/keep.js\n',
+      };
+      vi.mocked(fs.readFileSync).mockImplementation((filePath) => {
+        const content = files[filePath as string];
+        if (content === undefined) {
+          throw new Error('ENOENT');
+        }
+        return content;
+      });
+    });
+
+    it('should apply ignore files below their directory', () => {
+      parser.loadGitRepoPatterns();
+
+      expect(parser.isIgnored('packages/a/dist/index.js')).toBe(true);
+      expect(parser.isIgnored('packages/b/dist/index.js')).toBe(false);
+      expect(parser.isIgnored('packages/a/local.txt')).toBe(true);
+      expect(parser.isIgnored('packages/a/src/local.txt')).toBe(false);
+    });
+
+    it('should let deeper ignore files override their parents', () => {
+      parser.loadGitRepoPatterns();
+
+      expect(parser.isIgnored('packages/a/keep.log')).toBe(false);
+      expect(parser.isIgnored('packages/a/src/keep.log')).toBe(false);
+      expect(parser.isIgnored('packages/b/keep.log')).toBe(true);
+      // A file can't be re-included if its directory is excluded.
+      expect(parser.isIgnored('packages/a/build/keep.js')).toBe(true);
+    });
+
+    it('should read the ignore file of each directory once', () => {
+      parser.loadGitRepoPatterns();
+      parser.isIgnored('packages/a/dist/index.js');
+      parser.isIgnored('packages/a/src/index.ts');
+
+      const reads = vi
+        .mocked(fs.readFileSync)
+        .mock.calls.filter(
+          ([filePath]) =>
+            filePath ===
+            path.join(mockProjectRoot, 'packages', 'a', '.gitignore'),
+        );
+      expect(reads).toHaveLength(1);
+    });
+
+    it('should apply the ignore files of the git root above the project', () => {
+      vi.mocked(findGitRoot).mockReturnValueOnce(path.dirname(mockProjectRoot));
+      files[path.join(path.dirname(mockProjectRoot), '.gitignore')] =
+        'project/generated/\n';
+      parser = new GitIgnoreParser(mockProjectRoot);
+      parser.loadGitRepoPatterns();
+
+      expect(parser.isIgnored('generated/api.ts')).toBe(true);
+      expect(parser.isIgnored('dist/index.js')).toBe(false);
+    });
+
+    it('should apply core.excludesFile with the lowest precedence', () => {
+      files[path.join(mockProjectRoot, '.git', 'config')] =
+        '[core]\n\texcludesFile = ~/global-ignore\n';
+      files[path.join(os.homedir(), 'global-ignore')] = '*.swp\n';
+      files[path.join(mockProjectRoot, '.gitignore')] = '!keep.swp\n';
+      parser.loadGitRepoPatterns();
+
+      expect(parser.isIgnored('src/a.swp')).toBe(true);
+      expect(parser.isIgnored('src/keep.swp')).toBe(false);
+    });
+
+    it('should list the ignore files that were read for the root', () => {
+      files[path.join(mockProjectRoot, '.git', 'config')] =
+        '[core]\n\texcludesFile = ~/global-ignore\n';
+      parser.loadGitRepoPatterns();
+      parser.loadPatterns('.geminiignore');
+
+      expect(parser.getIgnoreFiles()).toEqual([
+        path.join(mockProjectRoot, '.gitignore'),
+        path.join(mockProjectRoot, '.git', 'info', 'exclude'),
+        path.join(os.homedir(), 'global-ignore'),
+        path.join(mockProjectRoot, '.geminiignore'),
+      ]);
+    });
+
+    it('should explain which rule decides whether a path is ignored', () => {
+      parser.loadGitRepoPatterns();
+      const nestedFile = path.join(
+        mockProjectRoot,
+        'packages',
+        'a',
+        '.gitignore',
+      );
+
+      expect(parser.explain('packages/a/dist/index.js')).toEqual({
+        source: nestedFile,
+        line: 1,
+        pattern: 'dist/',
+        ignored: true,
+      });
+      expect(parser.explain('packages/a/keep.log')).toEqual({
+        source: nestedFile,
+        line: 2,
+        pattern: '!keep.log',
+        ignored: false,
+      });
+      expect(parser.explain('.git/config')).toEqual({
+        source: undefined,
+        line: 0,
+        pattern: '.git',
+        ignored: true,
+      });
+      expect(parser.explain('src/index.ts')).toBeUndefined();
+    });
+  });
 });
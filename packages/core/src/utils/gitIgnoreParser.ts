@@ -5,75 +5,361 @@
  */
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import ignore, { type Ignore } from 'ignore';
-import { isGitRepository } from './gitUtils.js';
+import { findGitRoot, isGitRepository } from './gitUtils.js';
+
+/** The rule that decides whether a path is ignored. */
+export interface IgnoreRuleMatch {
+  /** The ignore file of the rule, or undefined for built-in rules. */
+  source?: string;
+  /** The line of the rule in its ignore file, counting from 1. */
+  line: number;
+  pattern: string;
+  /** False if the rule is a negation (`!pattern`) that re-includes the path. */
+  ignored: boolean;
+}
 
 export interface GitIgnoreFilter {
   isIgnored(filePath: string): boolean;
   getPatterns(): string[];
+  /** Finds the rule that decides whether the path is ignored, if any. */
+  explain(filePath: string): IgnoreRuleMatch | undefined;
+  /**
+   * The ignore files that were read for the root of the project, whether or
+   * not they exist. The ignore files of subdirectories aren't included.
+   */
+  getIgnoreFiles(): string[];
+}
+
+interface RuleOrigin {
+  source?: string;
+  line: number;
+  pattern: string;
+  /** The pattern relative to the root that paths are matched from. */
+  rebased: string;
+}
+
+/** Ignore files that are read in each directory below a base directory. */
+interface NestedIgnoreFile {
+  fileName: string;
+  baseDir: string;
+}
+
+/**
+ * Makes a pattern of an ignore file in `prefix` (relative to the matching
+ * root, with `/` separators) relative to the matching root. As in git, a
+ * pattern with a slash at its start or middle is relative to the directory
+ * of its ignore file, and other patterns match at any depth below it.
+ */
+function rebasePattern(pattern: string, prefix: string): string {
+  if (!prefix) {
+    return pattern;
+  }
+  const negated = pattern.startsWith('!');
+  let body = negated ? pattern.slice(1) : pattern;
+  const anchored = body.replace(/\/$/, '').includes('/');
+  body = body.replace(/^\//, '');
+  const rebased = anchored ? `${prefix}/${body}` : `${prefix}/**/${body}`;
+  return negated ? `!${rebased}` : rebased;
+}
+
+/** Expands a leading `~/` to the home directory, as git does. */
+function expandHome(filePath: string): string {
+  return filePath.startsWith('~/')
+    ? path.join(os.homedir(), filePath.slice(2))
+    : filePath;
+}
+
+/** Reads the value of `core.excludesFile` from a git config file. */
+function readExcludesFileSetting(configPath: string): string | undefined {
+  let content: string | undefined;
+  try {
+    content = fs.readFileSync(configPath, 'utf-8');
+  } catch (_error) {
+    return undefined;
+  }
+  let inCoreSection = false;
+  let value: string | undefined;
+  for (const line of (content ?? '').split(/\r?\n/)) {
+    const section = line.match(/^\s*\[([^\]\s]+)/);
+    if (section) {
+      inCoreSection = section[1].toLowerCase() === 'core';
+      continue;
+    }
+    const setting = line.match(/^\s*excludesfile\s*=\s*(.*?)\s*$/i);
+    if (inCoreSection && setting) {
+      value = setting[1].replace(/^"(.*)"$/, '$1');
+    }
+  }
+  return value;
 }
 
+/**
+ * Finds the user's global ignore file: `core.excludesFile` from the
+ * repository, global or XDG git config, in that order, or else git's default
+ * of `$XDG_CONFIG_HOME/git/ignore`.
+ */
+function getExcludesFile(gitDir: string): string {
+  const xdgConfigHome =
+    process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  const configFiles = [
+    path.join(gitDir, 'config'),
+    path.join(os.homedir(), '.gitconfig'),
+    path.join(xdgConfigHome, 'git', 'config'),
+  ];
+  for (const configFile of configFiles) {
+    const excludesFile = readExcludesFileSetting(configFile);
+    if (excludesFile) {
+      return expandHome(excludesFile);
+    }
+  }
+  return path.join(xdgConfigHome, 'git', 'ignore');
+}
+
+/** Finds the git directory, which a `.git` file points to in worktrees. */
+function getGitDir(gitRoot: string): string {
+  const dotGit = path.join(gitRoot, '.git');
+  try {
+    if (fs.statSync(dotGit, { throwIfNoEntry: false })?.isFile()) {
+      const gitDir = fs
+        .readFileSync(dotGit, 'utf-8')
+        .match(/^gitdir:\s*(.+)$/m)?.[1];
+      if (gitDir) {
+        return path.resolve(gitRoot, gitDir.trim());
+      }
+    }
+  } catch (_error) {
+    // Fall back to the default location.
+  }
+  return dotGit;
+}
+
+/**
+ * Decides whether paths are ignored with git's semantics: ignore files in
+ * subdirectories apply below them and take precedence over those of their
+ * parents, the rules of each file apply in order with the last match
+ * winning, and a path can't be re-included if its parent directory is
+ * excluded. The ignore files of subdirectories are read as paths below them
+ * are checked, once per directory.
+ */
 export class GitIgnoreParser implements GitIgnoreFilter {
   private projectRoot: string;
+  /** The root that all patterns are rebased to: the git root, if any. */
+  private matchRoot: string;
   private ig: Ignore = ignore();
   private patterns: string[] = [];
+  private origins: RuleOrigin[] = [];
+  private nestedFiles: NestedIgnoreFile[] = [];
+  private ignoreFiles: string[] = [];
+  /** The directories whose nested ignore files were read, by file name. */
+  private loadedDirs = new Set<string>();
 
   constructor(projectRoot: string) {
     this.projectRoot = path.resolve(projectRoot);
+    this.matchRoot = findGitRoot(this.projectRoot) ?? this.projectRoot;
   }
 
+  /**
+   * Loads the ignore rules of the git repository: `.gitignore` files, the
+   * repository's `info/exclude` file and the user's `core.excludesFile`.
+   */
   loadGitRepoPatterns(): void {
     if (!isGitRepository(this.projectRoot)) return;
 
     // Always ignore .git directory regardless of .gitignore content
-    this.addPatterns(['.git']);
+    this.patterns.push('.git');
 
-    const patternFiles = ['.gitignore', path.join('.git', 'info', 'exclude')];
-    for (const pf of patternFiles) {
-      this.loadPatterns(pf);
-    }
+    const gitignorePath = path.join(this.matchRoot, '.gitignore');
+    const gitignore = this.readIgnoreFile(gitignorePath);
+    const gitDir = getGitDir(this.matchRoot);
+    const excludePath = path.join(gitDir, 'info', 'exclude');
+    const exclude = this.readIgnoreFile(excludePath);
+    const excludesFilePath = getExcludesFile(gitDir);
+    const excludesFile = this.readIgnoreFile(excludesFilePath);
+    this.ignoreFiles.push(gitignorePath, excludePath, excludesFilePath);
+
+    // Later rules take precedence, so the files are added from the least
+    // specific to the most specific.
+    this.addRules(excludesFile, this.matchRoot);
+    this.addRules(exclude, this.matchRoot);
+    this.addRules(gitignore, this.matchRoot);
+    this.addRules([{ line: 0, pattern: '.git' }], this.matchRoot);
+    this.patterns.push(
+      ...[gitignore, exclude, excludesFile].flatMap((rules) =>
+        rules.map((rule) => rule.pattern),
+      ),
+    );
+    this.nestedFiles.push({ fileName: '.gitignore', baseDir: this.matchRoot });
+    this.loadedDirs.add(this.dirKey('.gitignore', this.matchRoot));
   }
 
+  /**
+   * Loads the patterns of the ignore file with the given name in the project
+   * root. If the name is a plain file name, such as `.geminiignore`, the
+   * files with that name in subdirectories of the project apply too.
+   */
   loadPatterns(patternsFileName: string): void {
     const patternsFilePath = path.join(this.projectRoot, patternsFileName);
-    let content: string;
+    this.ignoreFiles.push(patternsFilePath);
+    const rules = this.readIgnoreFile(patternsFilePath);
+    this.addRules(rules, path.dirname(patternsFilePath));
+    this.patterns.push(...rules.map((rule) => rule.pattern));
+    if (path.basename(patternsFileName) === patternsFileName) {
+      this.nestedFiles.push({
+        fileName: patternsFileName,
+        baseDir: this.projectRoot,
+      });
+      this.loadedDirs.add(this.dirKey(patternsFileName, this.projectRoot));
+    }
+  }
+
+  private dirKey(fileName: string, dir: string): string {
+    return `${fileName}\0${dir}`;
+  }
+
+  /** Reads the rules of an ignore file, or none if it doesn't exist. */
+  private readIgnoreFile(
+    filePath: string,
+  ): Array<{ source?: string; line: number; pattern: string }> {
+    let content: string | undefined;
     try {
-      content = fs.readFileSync(patternsFilePath, 'utf-8');
+      content = fs.readFileSync(filePath, 'utf-8');
     } catch (_error) {
       // ignore file not found
-      return;
+      return [];
     }
-    const patterns = (content ?? '')
+    return (content ?? '')
       .split('\n')
-      .map((p) => p.trim())
-      .filter((p) => p !== '' && !p.startsWith('#'));
-    this.addPatterns(patterns);
+      .map((pattern, index) => ({
+        source: filePath,
+        line: index + 1,
+        pattern: pattern.trim(),
+      }))
+      .filter((rule) => rule.pattern !== '' && !rule.pattern.startsWith('#'));
   }
 
-  private addPatterns(patterns: string[]) {
-    this.ig.add(patterns);
-    this.patterns.push(...patterns);
+  private addRules(
+    rules: Array<{ source?: string; line: number; pattern: string }>,
+    dir: string,
+  ) {
+    const prefix = path.relative(this.matchRoot, dir).replace(/\\/g, '/');
+    for (const rule of rules) {
+      const rebased = rebasePattern(rule.pattern, prefix);
+      this.ig.add({ pattern: rebased, mark: String(this.origins.length) });
+      this.origins.push({ ...rule, rebased });
+    }
   }
 
-  isIgnored(filePath: string): boolean {
-    const relativePath = path.isAbsolute(filePath)
-      ? path.relative(this.projectRoot, filePath)
-      : filePath;
+  /**
+   * Reads the nested ignore files of the directories that contain a path,
+   * from the top down so that deeper files take precedence.
+   */
+  private loadNestedFiles(relativePath: string) {
+    if (this.nestedFiles.length === 0) {
+      return;
+    }
+    const segments = relativePath.split('/').filter(Boolean);
+    segments.pop(); // A directory's own ignore file doesn't apply to it.
+    let dir = this.matchRoot;
+    for (const segment of segments) {
+      dir = path.join(dir, segment);
+      for (const { fileName, baseDir } of this.nestedFiles) {
+        const key = this.dirKey(fileName, dir);
+        if (this.loadedDirs.has(key) || !dir.startsWith(baseDir + path.sep)) {
+          continue;
+        }
+        this.loadedDirs.add(key);
+        this.addRules(this.readIgnoreFile(path.join(dir, fileName)), dir);
+      }
+    }
+  }
 
-    if (relativePath === '' || relativePath.startsWith('..')) {
-      return false;
+  private toAbsolutePath(filePath: string): string {
+    return path.isAbsolute(filePath)
+      ? filePath
+      : path.join(this.projectRoot, filePath);
+  }
+
+  /**
+   * Makes a path relative to the matching root, with `/` separators, or
+   * returns undefined if it is outside the project.
+   */
+  private toMatchPath(filePath: string): string | undefined {
+    const absolutePath = this.toAbsolutePath(filePath);
+    const relativeToProject = path.relative(this.projectRoot, absolutePath);
+    if (relativeToProject === '' || relativeToProject.startsWith('..')) {
+      return undefined;
     }
 
-    let normalizedPath = relativePath.replace(/\\/g, '/');
-    if (normalizedPath.startsWith('./')) {
-      normalizedPath = normalizedPath.substring(2);
+    let normalizedPath = path
+      .relative(this.matchRoot, absolutePath)
+      .replace(/\\/g, '/');
+    if (/[\\/]$/.test(filePath)) {
+      normalizedPath += '/';
     }
+    this.loadNestedFiles(normalizedPath);
+    return normalizedPath;
+  }
 
-    return this.ig.ignores(normalizedPath);
+  isIgnored(filePath: string): boolean {
+    const matchPath = this.toMatchPath(filePath.replace(/\\/g, '/'));
+    return matchPath !== undefined && this.ig.ignores(matchPath);
+  }
+
+  explain(filePath: string): IgnoreRuleMatch | undefined {
+    let checkedPath = filePath.replace(/\\/g, '/');
+    try {
+      if (
+        !checkedPath.endsWith('/') &&
+        fs
+          .statSync(this.toAbsolutePath(checkedPath), {
+            throwIfNoEntry: false,
+          })
+          ?.isDirectory()
+      ) {
+        checkedPath += '/';
+      }
+    } catch (_error) {
+      // Check the path as a file.
+    }
+    const matchPath = this.toMatchPath(checkedPath);
+    if (matchPath === undefined) {
+      return undefined;
+    }
+
+    const result = this.ig.test(matchPath);
+    const toMatch = (origin: RuleOrigin, ignored: boolean) => ({
+      source: origin.source,
+      line: origin.line,
+      pattern: origin.pattern,
+      ignored,
+    });
+    if (result.rule?.mark !== undefined) {
+      return toMatch(this.origins[Number(result.rule.mark)], true);
+    }
+    if (result.unignored) {
+      // The test result doesn't name negations, so find the last one that
+      // matches.
+      for (let i = this.origins.length - 1; i >= 0; i--) {
+        const origin = this.origins[i];
+        if (
+          origin.rebased.startsWith('!') &&
+          ignore().add(origin.rebased.slice(1)).ignores(matchPath)
+        ) {
+          return toMatch(origin, false);
+        }
+      }
+    }
+    return undefined;
   }
 
   getPatterns(): string[] {
     return this.patterns;
   }
+
+  getIgnoreFiles(): string[] {
+    return this.ignoreFiles;
+  }
 }
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createCell,
+  Notebook,
+  parseNotebook,
+  renderNotebook,
+  serializeNotebook,
+  setCellSource,
+} from './notebook.js';
+
+const createNotebook = (): Notebook => ({
+  cells: [
+    {
+      cell_type: 'markdown',
+      metadata: {},
+      source: ['# Analysis\n', 'Loads the data.'],
+    },
+    {
+      cell_type: 'code',
+      metadata: { scrolled: true },
+      source: 'import pandas as pd\ndf = pd.read_csv("data.csv")\ndf',
+      outputs: [
+        {
+          output_type: 'execute_result',
+          data: { 'text/plain': ['   a  b\n', '0  1  2'] },
+        },
+        { output_type: 'display_data', data: { 'image/png': 'iVBOR...' } },
+        {
+          output_type: 'error',
+          ename: 'ValueError',
+          evalue: 'bad',
+          traceback: ['\u001b[31mValueError\u001b[0m: bad'],
+        },
+      ],
+      execution_count: 2,
+    },
+  ],
+  metadata: { language_info: { name: 'python' } },
+  nbformat: 4,
+  nbformat_minor: 5,
+});
+
+describe('notebook', () => {
+  it('should reject JSON that is not a version 4 notebook', () => {
+    expect(() => parseNotebook('{"a": 1}')).toThrow(
+      'Not a Jupyter notebook: it has no list of cells.',
+    );
+    expect(() => parseNotebook('{"cells": [], "nbformat": 3}')).toThrow(
+      'Unsupported notebook format version 3; only version 4 is supported.',
+    );
+  });
+
+  it('should render cells with their index, type, source and text outputs', () => {
+    expect(renderNotebook(createNotebook())).toBe(
+      [
+        'Jupyter notebook (python) with 2 cells:',
+        '',
+        '<cell index="0" type="markdown">',
+        '# Analysis',
+        'Loads the data.',
+        '</cell>',
+        '',
+        '<cell index="1" type="code" execution_count="2">',
+        'import pandas as pd',
+        'df = pd.read_csv("data.csv")',
+        'df',
+        '</cell>',
+        '<output type="execute_result">',
+        '   a  b',
+        '0  1  2',
+        '</output>',
+        '<output type="display_data">',
+        '[image/png output]',
+        '</output>',
+        '<output type="error">',
+        'ValueError: bad',
+        '</output>',
+      ].join('\n'),
+    );
+  });
+
+  it('should truncate long outputs and leave them out on request', () => {
+    const notebook = createNotebook();
+    notebook.cells[1].outputs = [
+      {
+        output_type: 'stream',
+        name: 'stdout',
+        text: Array.from({ length: 50 }, (_, i) => `line ${i}\n`),
+      },
+    ];
+
+    const rendered = renderNotebook(notebook);
+    expect(rendered).toContain(
+      'line 29\n... [output truncated, 50 lines in total]\n</output>',
+    );
+    expect(rendered).not.toContain('line 30');
+    expect(renderNotebook(notebook, { includeOutputs: false })).not.toContain(
+      '<output',
+    );
+  });
+
+  it('should clear the outputs of a code cell whose source is replaced', () => {
+    const cell = setCellSource(createNotebook().cells[1], 'code', 'x = 1\ny');
+
+    expect(cell).toEqual({
+      cell_type: 'code',
+      metadata: { scrolled: true },
+      source: ['x = 1\n', 'y'],
+      outputs: [],
+      execution_count: null,
+    });
+    expect(setCellSource(cell, 'markdown', 'text')).toEqual({
+      cell_type: 'markdown',
+      metadata: { scrolled: true },
+      source: ['text'],
+    });
+  });
+
+  it('should give new cells an id when the format version has them', () => {
+    const notebook = createNotebook();
+
+    expect(createCell(notebook, 'markdown', '# Title').id).toMatch(
+      /^[0-9a-f]{8}$/,
+    );
+    notebook.nbformat_minor = 4;
+    expect(createCell(notebook, 'markdown', '# Title').id).toBeUndefined();
+  });
+
+  it('should keep the indentation of the original file', () => {
+    const notebook = createNotebook();
+
+    expect(serializeNotebook(notebook)).toMatch(/^\{\n "cells": \[\n {2}\{/);
+    expect(
+      serializeNotebook(notebook, JSON.stringify(notebook, null, 2)),
+    ).toMatch(/^\{\n {2}"cells": \[\n {4}\{/);
+  });
+});
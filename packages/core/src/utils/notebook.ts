@@ -0,0 +1,199 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import crypto from 'crypto';
+import stripAnsi from 'strip-ansi';
+
+/** Lines and characters of each cell output that are shown. */
+const MAX_OUTPUT_LINES = 30;
+const MAX_OUTPUT_CHARS = 2000;
+
+export type NotebookCellType = 'code' | 'markdown' | 'raw';
+
+/** A multiline string, which nbformat stores as a string or list of lines. */
+type MultilineString = string | string[];
+
+export interface NotebookOutput {
+  output_type: 'stream' | 'execute_result' | 'display_data' | 'error';
+  name?: string;
+  text?: MultilineString;
+  data?: Record<string, MultilineString | object>;
+  ename?: string;
+  evalue?: string;
+  traceback?: string[];
+}
+
+export interface NotebookCell {
+  cell_type: NotebookCellType;
+  id?: string;
+  metadata: Record<string, unknown>;
+  source: MultilineString;
+  outputs?: NotebookOutput[];
+  execution_count?: number | null;
+}
+
+/** A Jupyter notebook in the nbformat 4 JSON format. */
+export interface Notebook {
+  cells: NotebookCell[];
+  metadata: {
+    kernelspec?: { name?: string; language?: string };
+    language_info?: { name?: string };
+    [key: string]: unknown;
+  };
+  nbformat: number;
+  nbformat_minor: number;
+}
+
+const joinMultiline = (value: MultilineString | undefined): string =>
+  Array.isArray(value) ? value.join('') : (value ?? '');
+
+/**
+ * Parses the content of an `.ipynb` file.
+ * @throws {Error} If the content is not a notebook in the nbformat 4 format.
+ */
+export function parseNotebook(content: string): Notebook {
+  const notebook = JSON.parse(content) as Notebook;
+  if (
+    typeof notebook !== 'object' ||
+    notebook === null ||
+    !Array.isArray(notebook.cells)
+  ) {
+    throw new Error('Not a Jupyter notebook: it has no list of cells.');
+  }
+  notebook.metadata ??= {};
+  if (notebook.nbformat !== 4) {
+    throw new Error(
+      `Unsupported notebook format version ${notebook.nbformat}; only version 4 is supported.`,
+    );
+  }
+  return notebook;
+}
+
+/**
+ * Serializes a notebook the way Jupyter does, keeping the indentation of the
+ * file it was read from so that diffs of the file stay small.
+ */
+export function serializeNotebook(
+  notebook: Notebook,
+  originalContent?: string,
+): string {
+  const indent = originalContent?.match(/^\{\r?\n([ \t]+)"/)?.[1] ?? 1;
+  return JSON.stringify(notebook, null, indent) + '\n';
+}
+
+export function getCellSource(cell: NotebookCell): string {
+  return joinMultiline(cell.source);
+}
+
+/** Splits text into lines that keep their line breaks, as nbformat stores them. */
+function toMultiline(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Replaces the source of a cell. Code cells lose their outputs and
+ * execution count, which belonged to the old source.
+ */
+export function setCellSource(
+  cell: NotebookCell,
+  cellType: NotebookCellType,
+  source: string,
+): NotebookCell {
+  const { outputs: _outputs, execution_count: _count, ...rest } = cell;
+  return cellType === 'code'
+    ? {
+        ...rest,
+        cell_type: cellType,
+        source: toMultiline(source),
+        outputs: [],
+        execution_count: null,
+      }
+    : { ...rest, cell_type: cellType, source: toMultiline(source) };
+}
+
+/** Creates a cell, with an id if the notebook's format version has them. */
+export function createCell(
+  notebook: Notebook,
+  cellType: NotebookCellType,
+  source: string,
+): NotebookCell {
+  const cell: NotebookCell = { cell_type: cellType, metadata: {}, source: '' };
+  if (notebook.nbformat_minor >= 5) {
+    cell.id = crypto.randomBytes(4).toString('hex');
+  }
+  return setCellSource(cell, cellType, source);
+}
+
+function truncateOutput(text: string): string {
+  const lines = text.replace(/\n$/, '').split('\n');
+  let shown = lines.slice(0, MAX_OUTPUT_LINES).join('\n');
+  let truncated = lines.length > MAX_OUTPUT_LINES;
+  if (shown.length > MAX_OUTPUT_CHARS) {
+    shown = shown.slice(0, MAX_OUTPUT_CHARS);
+    truncated = true;
+  }
+  return truncated
+    ? `${shown}\n... [output truncated, ${lines.length} lines in total]`
+    : shown;
+}
+
+function renderOutput(output: NotebookOutput): string {
+  switch (output.output_type) {
+    case 'stream':
+      return joinMultiline(output.text);
+    case 'error':
+      return stripAnsi(
+        output.traceback?.length
+          ? output.traceback.join('\n')
+          : `${output.ename}: ${output.evalue}`,
+      );
+    default: {
+      const data = output.data ?? {};
+      if ('text/plain' in data) {
+        return joinMultiline(data['text/plain'] as MultilineString);
+      }
+      // Images, HTML and other rich outputs can't be shown as text.
+      return `[${Object.keys(data).join(', ') || 'empty'} output]`;
+    }
+  }
+}
+
+/**
+ * Renders a notebook as text for the model: each cell with its index, type
+ * and source, and the text of its outputs, truncated. Metadata and rich
+ * outputs such as images are left out.
+ */
+export function renderNotebook(
+  notebook: Notebook,
+  options: { includeOutputs?: boolean } = {},
+): string {
+  const { includeOutputs = true } = options;
+  const language =
+    notebook.metadata.language_info?.name ??
+    notebook.metadata.kernelspec?.language;
+  const cellTerm = notebook.cells.length === 1 ? 'cell' : 'cells';
+  const parts = [
+    `Jupyter notebook${language ? ` (${language})` : ''} with ${notebook.cells.length} ${cellTerm}:`,
+  ];
+
+  notebook.cells.forEach((cell, index) => {
+    const executionCount =
+      cell.cell_type === 'code' && cell.execution_count != null
+        ? ` execution_count="${cell.execution_count}"`
+        : '';
+    let rendered = `<cell index="${index}" type="${cell.cell_type}"${executionCount}>\n`;
+    const source = getCellSource(cell);
+    rendered += source ? `${source.replace(/\n$/, '')}\n` : '';
+    rendered += '</cell>';
+    if (includeOutputs) {
+      for (const output of cell.outputs ?? []) {
+        rendered += `\n<output type="${output.output_type}">\n${truncateOutput(renderOutput(output))}\n</output>`;
+      }
+    }
+    parts.push(rendered);
+  });
+  return parts.join('\n\n');
+}
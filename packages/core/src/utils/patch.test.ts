@@ -0,0 +1,166 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyHunks, parseUnifiedDiff } from './patch.js';
+
+describe('parseUnifiedDiff', () => {
+  it('should parse the files of a git diff', () => {
+    const patch = `diff --git a/src/a.ts b/src/a.ts
+index 1111111..2222222 100644
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,2 +1,2 @@
+ const a = 1;
+-const b = 2;
++const b = 3;
+diff --git a/new.txt b/new.txt
+new file mode 100644
+--- /dev/null
++++ b/new.txt
+@@ -0,0 +1 @@
++hello
+diff --git a/old.txt b/old.txt
+deleted file mode 100644
+diff --git a/from.txt b/to.txt
+similarity index 100%
+rename from from.txt
+rename to to.txt
+`;
+
+    expect(parseUnifiedDiff(patch)).toEqual([
+      {
+        oldPath: 'src/a.ts',
+        newPath: 'src/a.ts',
+        hunks: [
+          {
+            header: '@@ -1,2 +1,2 @@',
+            oldStart: 1,
+            lines: [' const a = 1;', '-const b = 2;', '+const b = 3;'],
+          },
+        ],
+      },
+      {
+        oldPath: null,
+        newPath: 'new.txt',
+        hunks: [{ header: '@@ -0,0 +1 @@', oldStart: 0, lines: ['+hello'] }],
+      },
+      { oldPath: 'old.txt', newPath: null, hunks: [] },
+      { oldPath: 'from.txt', newPath: 'to.txt', hunks: [] },
+    ]);
+  });
+
+  it('should accept hunks without line numbers and blank context lines', () => {
+    const patch = `--- a.txt
++++ a.txt
+@@ @@
+ one
+
+-two
++TWO
+`;
+
+    expect(parseUnifiedDiff(patch)[0].hunks).toEqual([
+      {
+        header: '@@ @@',
+        oldStart: undefined,
+        lines: [' one', ' ', '-two', '+TWO'],
+      },
+    ]);
+  });
+
+  it('should reject a patch without file changes', () => {
+    expect(() => parseUnifiedDiff('just some text')).toThrow(
+      'Unexpected line 1 in patch: just some text',
+    );
+    expect(() => parseUnifiedDiff('')).toThrow(
+      'The patch does not contain any file changes.',
+    );
+  });
+});
+
+describe('applyHunks', () => {
+  const file =
+    ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\n') + '\n';
+
+  it('should apply a hunk where its header says', () => {
+    const [{ hunks }] = parseUnifiedDiff(`--- f
++++ f
+@@ -4,3 +4,3 @@
+ d
+-e
++E
+ f
+`);
+
+    expect(applyHunks(file, hunks)).toEqual({
+      content: 'a\nb\nc\nd\nE\nf\ng\nh\ni\nj\n',
+      failures: [],
+      fuzz: [],
+    });
+  });
+
+  it('should apply hunks with wrong line numbers, whitespace and context', () => {
+    const [{ hunks }] = parseUnifiedDiff(`--- f
++++ f
+@@ -1,3 +1,3 @@
+ g
+-h${'  '}
++H
+ i
+@@ -20,3 +20,3 @@
+ x
+-j
++J
+`);
+
+    const result = applyHunks(file, hunks);
+
+    expect(result.content).toBe('a\nb\nc\nd\ne\nf\ng\nH\ni\nJ\n');
+    expect(result.failures).toEqual([]);
+    expect(result.fuzz).toEqual([
+      { hunk: 1, line: 7, offset: 6, fuzz: 0, ignoredWhitespace: true },
+      { hunk: 2, line: 10, offset: -11, fuzz: 1, ignoredWhitespace: false },
+    ]);
+  });
+
+  it('should report hunks that do not match', () => {
+    const [{ hunks }] = parseUnifiedDiff(`--- f
++++ f
+@@ -1,2 +1,2 @@
+-a
++A
+ b
+@@ -5,2 +5,2 @@
+-missing
++line
+`);
+
+    const result = applyHunks(file, hunks);
+
+    expect(result.failures).toEqual([
+      {
+        hunk: 2,
+        header: '@@ -5,2 +5,2 @@',
+        reason:
+          'Could not find the context and removed lines of the hunk in the file.',
+      },
+    ]);
+  });
+
+  it('should follow "No newline at end of file" markers', () => {
+    const [{ hunks }] = parseUnifiedDiff(`--- f
++++ f
+@@ -1,2 +1,2 @@
+ one
+-two
+\\ No newline at end of file
++two
+`);
+
+    expect(applyHunks('one\ntwo', hunks).content).toBe('one\ntwo\n');
+  });
+});
@@ -0,0 +1,412 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A hunk of a unified diff. */
+export interface PatchHunk {
+  /** The `@@ ... @@` line that starts the hunk. */
+  header: string;
+  /** The first line of the hunk in the original file, if the header has it. */
+  oldStart?: number;
+  /** The lines of the hunk, each starting with ' ', '-', '+' or '\'. */
+  lines: string[];
+}
+
+/** The changes that a unified diff makes to one file. */
+export interface FilePatch {
+  /** The path of the file before the change, or null if it is created. */
+  oldPath: string | null;
+  /** The path of the file after the change, or null if it is deleted. */
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+/** A hunk that could not be applied, and why. */
+export interface HunkFailure {
+  /** The position of the hunk in its file patch, counting from 1. */
+  hunk: number;
+  header: string;
+  reason: string;
+}
+
+/** Where an applied hunk matched the file, if not exactly where it said. */
+export interface HunkFuzz {
+  hunk: number;
+  /** The line, counting from 1, at which the hunk was applied. */
+  line: number;
+  /** Lines between where the hunk was applied and where its header put it. */
+  offset: number;
+  /** Context lines at the edges of the hunk that were ignored to match it. */
+  fuzz: number;
+  /** Whether whitespace differences were ignored to match the hunk. */
+  ignoredWhitespace: boolean;
+}
+
+export interface ApplyHunksResult {
+  content: string;
+  failures: HunkFailure[];
+  fuzz: HunkFuzz[];
+}
+
+/** Context lines that may be ignored at each edge of a hunk to match it. */
+const MAX_FUZZ = 2;
+
+const HUNK_HEADER_REGEX = /^@@(?: -(\d+)(?:,\d+)? \+\d+(?:,\d+)?)? @@/;
+
+/**
+ * Parses a path of a `---` or `+++` line, dropping timestamps and `/dev/null`.
+ */
+function parseHeaderPath(value: string): string | null {
+  const filePath = value.split('\t')[0].trim();
+  return filePath === '/dev/null' ? null : filePath;
+}
+
+/** Drops the `a/` and `b/` prefixes that git puts on the paths of a diff. */
+function stripGitPrefixes(filePatch: FilePatch): void {
+  const { oldPath, newPath } = filePatch;
+  if (
+    (oldPath === null || oldPath.startsWith('a/')) &&
+    (newPath === null || newPath.startsWith('b/'))
+  ) {
+    filePatch.oldPath = oldPath?.slice(2) ?? null;
+    filePatch.newPath = newPath?.slice(2) ?? null;
+  }
+}
+
+/** Whether a line continues a hunk rather than starting a file patch. */
+const isHunkLine = (lines: string[], index: number): boolean =>
+  index < lines.length &&
+  /^[ +\-\\]/.test(lines[index]) &&
+  !(lines[index].startsWith('--- ') && lines[index + 1]?.startsWith('+++ '));
+
+/**
+ * Parses a unified diff that may cover several files, including git-style
+ * file creation, deletion and renames. Hunk line counts are not required, so
+ * hunks may also have a bare `@@ @@` header.
+ * @throws Error if the diff is malformed.
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n');
+  const filePatches: FilePatch[] = [];
+  let current: FilePatch | undefined;
+  // Whether the current file patch started with a `diff --git` line and has
+  // not had its `---` line yet.
+  let awaitingGitHeader = false;
+  let hunk: PatchHunk | undefined;
+
+  const startFilePatch = (oldPath: string | null, newPath: string | null) => {
+    current = { oldPath, newPath, hunks: [] };
+    filePatches.push(current);
+    hunk = undefined;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const gitMatch = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+    if (gitMatch) {
+      startFilePatch(gitMatch[1], gitMatch[2]);
+      awaitingGitHeader = true;
+      continue;
+    }
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const oldPath = parseHeaderPath(line.slice(4));
+      const newPath = parseHeaderPath(lines[i + 1].slice(4));
+      if (current && awaitingGitHeader) {
+        current.oldPath = oldPath;
+        current.newPath = newPath;
+        hunk = undefined;
+      } else {
+        startFilePatch(oldPath, newPath);
+      }
+      stripGitPrefixes(current!);
+      awaitingGitHeader = false;
+      i++;
+      continue;
+    }
+    const hunkMatch = line.match(HUNK_HEADER_REGEX);
+    if (hunkMatch) {
+      if (!current) {
+        throw new Error(
+          `Hunk "${line}" is not preceded by "---" and "+++" lines that name its file.`,
+        );
+      }
+      hunk = {
+        header: hunkMatch[0],
+        oldStart: hunkMatch[1] !== undefined ? Number(hunkMatch[1]) : undefined,
+        lines: [],
+      };
+      current.hunks.push(hunk);
+      awaitingGitHeader = false;
+      continue;
+    }
+    if (current && awaitingGitHeader) {
+      if (line.startsWith('new file mode')) {
+        current.oldPath = null;
+      } else if (line.startsWith('deleted file mode')) {
+        current.newPath = null;
+      } else if (line.startsWith('rename from ')) {
+        current.oldPath = line.slice('rename from '.length);
+      } else if (line.startsWith('rename to ')) {
+        current.newPath = line.slice('rename to '.length);
+      }
+      // Other extended header lines, such as `index`, carry nothing we use.
+      continue;
+    }
+    if (hunk) {
+      if (line === '') {
+        // Editors and models often drop the space of empty context lines, but
+        // a blank line may also separate the patches of two files.
+        let next = i + 1;
+        while (lines[next] === '') {
+          next++;
+        }
+        if (isHunkLine(lines, next)) {
+          hunk.lines.push(' ');
+        }
+        continue;
+      }
+      if (isHunkLine(lines, i)) {
+        hunk.lines.push(line);
+        continue;
+      }
+    }
+    if (line.trim() === '') {
+      continue;
+    }
+    if (line.startsWith('Index: ') || /^=+$/.test(line)) {
+      // Headers of `svn diff` and of diffs made by the `diff` package.
+      continue;
+    }
+    throw new Error(`Unexpected line ${i + 1} in patch: ${line}`);
+  }
+
+  if (filePatches.length === 0) {
+    throw new Error('The patch does not contain any file changes.');
+  }
+  for (const filePatch of filePatches) {
+    const { oldPath, newPath, hunks } = filePatch;
+    if (oldPath === null && newPath === null) {
+      throw new Error('The patch has a file without a path.');
+    }
+    // Creations of empty files, deletions and renames need no hunks.
+    if (hunks.length === 0 && oldPath !== null && oldPath === newPath) {
+      throw new Error(`The patch for ${oldPath} has no hunks.`);
+    }
+  }
+  return filePatches;
+}
+
+/** Line comparisons, from the strictest to the most lenient. */
+const LINE_COMPARISONS: Array<{
+  ignoredWhitespace: boolean;
+  equal: (a: string, b: string) => boolean;
+}> = [
+  { ignoredWhitespace: false, equal: (a, b) => a === b },
+  { ignoredWhitespace: true, equal: (a, b) => a.trimEnd() === b.trimEnd() },
+  { ignoredWhitespace: true, equal: (a, b) => a.trim() === b.trim() },
+];
+
+/**
+ * Finds where a block of lines occurs in a file, searching outwards from the
+ * expected index so that the nearest occurrence wins.
+ */
+function findBlock(
+  fileLines: string[],
+  block: string[],
+  expectedIndex: number,
+  minIndex: number,
+  equal: (a: string, b: string) => boolean,
+): number | undefined {
+  const maxIndex = fileLines.length - block.length;
+  if (maxIndex < minIndex) {
+    return undefined;
+  }
+  const matchesAt = (index: number) =>
+    block.every((line, offset) => equal(fileLines[index + offset], line));
+  const start = Math.min(Math.max(expectedIndex, minIndex), maxIndex);
+  for (let distance = 0; ; distance++) {
+    const after = start + distance;
+    const before = start - distance;
+    if (after > maxIndex && before < minIndex) {
+      return undefined;
+    }
+    if (after <= maxIndex && matchesAt(after)) {
+      return after;
+    }
+    if (distance > 0 && before >= minIndex && matchesAt(before)) {
+      return before;
+    }
+  }
+}
+
+/** Counts the context lines at the start of the lines of a hunk. */
+function countLeadingContext(changeLines: string[]): number {
+  let count = 0;
+  while (count < changeLines.length && changeLines[count].startsWith(' ')) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Applies the hunks of a file patch to the content of the file, in order.
+ * Hunks that do not match exactly where their header says are matched
+ * nearby, then with whitespace differences ignored, and then with up to two
+ * context lines at each edge ignored, like `patch` does with its fuzz factor.
+ * Hunks that still do not match are reported as failures.
+ */
+export function applyHunks(
+  content: string,
+  hunks: PatchHunk[],
+): ApplyHunksResult {
+  const normalizedContent = content.replace(/\r\n/g, '\n');
+  let endsWithNewline =
+    normalizedContent === '' || normalizedContent.endsWith('\n');
+  const fileLines =
+    normalizedContent === '' ? [] : normalizedContent.split('\n');
+  if (normalizedContent.endsWith('\n')) {
+    fileLines.pop();
+  }
+
+  const failures: HunkFailure[] = [];
+  const fuzz: HunkFuzz[] = [];
+  // Lines added minus lines removed by the hunks applied so far.
+  let delta = 0;
+  // Hunks apply in order, so each one must come after the previous one.
+  let minIndex = 0;
+
+  hunks.forEach((hunk, hunkIndex) => {
+    const changeLines = hunk.lines.filter((line) => !line.startsWith('\\'));
+    const expectedIndex =
+      hunk.oldStart !== undefined
+        ? Math.max(hunk.oldStart - 1, 0) + delta
+        : minIndex;
+    const oldSide = (lines: string[]) =>
+      lines
+        .filter((line) => !line.startsWith('+'))
+        .map((line) => line.slice(1));
+
+    let match:
+      | {
+          index: number;
+          changes: string[];
+          dropLeading: number;
+          fuzz: number;
+          ignoredWhitespace: boolean;
+        }
+      | undefined;
+    if (oldSide(changeLines).length === 0) {
+      // A hunk without context is inserted after the line its header names.
+      match = {
+        index:
+          hunk.oldStart !== undefined
+            ? Math.min(
+                Math.max(hunk.oldStart + delta, minIndex),
+                fileLines.length,
+              )
+            : fileLines.length,
+        changes: changeLines,
+        dropLeading: 0,
+        fuzz: 0,
+        ignoredWhitespace: false,
+      };
+    }
+    const leadingContext = countLeadingContext(changeLines);
+    const trailingContext = countLeadingContext([...changeLines].reverse());
+    for (let level = 0; !match && level <= MAX_FUZZ; level++) {
+      const dropLeading = Math.min(level, leadingContext);
+      const dropTrailing = Math.min(level, trailingContext);
+      if (level > 0 && dropLeading + dropTrailing === 0) {
+        break;
+      }
+      const changes = changeLines.slice(
+        dropLeading,
+        changeLines.length - dropTrailing,
+      );
+      const block = oldSide(changes);
+      if (block.length === 0) {
+        break;
+      }
+      for (const { equal, ignoredWhitespace } of LINE_COMPARISONS) {
+        const index = findBlock(
+          fileLines,
+          block,
+          expectedIndex + dropLeading,
+          minIndex,
+          equal,
+        );
+        if (index !== undefined) {
+          match = {
+            index,
+            changes,
+            dropLeading,
+            fuzz: Math.max(dropLeading, dropTrailing),
+            ignoredWhitespace,
+          };
+          break;
+        }
+      }
+    }
+
+    if (!match) {
+      failures.push({
+        hunk: hunkIndex + 1,
+        header: hunk.header,
+        reason:
+          'Could not find the context and removed lines of the hunk in the file.',
+      });
+      return;
+    }
+
+    // Keep the file's own text for context lines, which may differ from the
+    // hunk in whitespace.
+    const replacement: string[] = [];
+    let removedCount = 0;
+    for (const line of match.changes) {
+      if (line.startsWith('+')) {
+        replacement.push(line.slice(1));
+      } else {
+        if (line.startsWith(' ')) {
+          replacement.push(fileLines[match.index + removedCount]);
+        }
+        removedCount++;
+      }
+    }
+    fileLines.splice(match.index, removedCount, ...replacement);
+
+    const offset =
+      hunk.oldStart !== undefined && removedCount > 0
+        ? match.index - match.dropLeading - expectedIndex
+        : 0;
+    if (offset !== 0 || match.fuzz > 0 || match.ignoredWhitespace) {
+      fuzz.push({
+        hunk: hunkIndex + 1,
+        line: match.index + 1,
+        offset,
+        fuzz: match.fuzz,
+        ignoredWhitespace: match.ignoredWhitespace,
+      });
+    }
+    delta += replacement.length - removedCount;
+    minIndex = match.index + replacement.length;
+
+    // "\ No newline at end of file" follows the last line of the old file,
+    // of the new file, or of both when that line is context.
+    const markedLines = hunk.lines.filter((_, index) =>
+      hunk.lines[index + 1]?.startsWith('\\'),
+    );
+    if (markedLines.length > 0 && minIndex === fileLines.length) {
+      endsWithNewline = !markedLines.some((line) => !line.startsWith('-'));
+    }
+  });
+
+  const newContent = fileLines.join('\n');
+  return {
+    content:
+      endsWithNewline && fileLines.length > 0 ? `${newContent}\n` : newContent,
+    failures,
+    fuzz,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { limitToolOutput } from './toolOutput.js';
+
+describe('limitToolOutput', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-output-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should return output within the limit unchanged', () => {
+    expect(
+      limitToolOutput('short', { maxChars: 5, outputDir, name: 'tool' }),
+    ).toBe('short');
+    expect(fs.readdirSync(outputDir)).toEqual([]);
+  });
+
+  it('should keep the head and tail and save the full output', () => {
+    const output = 'head-' + 'x'.repeat(100) + '-tail';
+
+    const result = limitToolOutput(output, {
+      maxChars: 10,
+      outputDir,
+      name: 'run_shell_command-stdout',
+    });
+
+    const [outputFile] = fs.readdirSync(outputDir);
+    expect(outputFile).toMatch(/^run_shell_command-stdout-[0-9a-f]+\.txt$/);
+    expect(fs.readFileSync(path.join(outputDir, outputFile), 'utf-8')).toBe(
+      output,
+    );
+    expect(result).toBe(
+      `head-\n\n... [100 characters truncated. The full output was saved to ${path.join(outputDir, outputFile)}, which can be inspected with commands such as grep, head or tail.] ...\n\n-tail`,
+    );
+  });
+});
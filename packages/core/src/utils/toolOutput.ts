@@ -0,0 +1,57 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { getErrorMessage } from './errors.js';
+
+/** Characters of output that tools return to the model unless configured. */
+export const DEFAULT_MAX_TOOL_OUTPUT_CHARS = 50_000;
+
+export interface ToolOutputLimit {
+  /** Characters of output that are returned to the model. */
+  maxChars: number;
+  /** Directory to which the full output is saved when it is truncated. */
+  outputDir: string;
+  /** Prefix of the name of the file that holds the full output. */
+  name: string;
+}
+
+/**
+ * Keeps the head and tail of output that exceeds its limit. The full output
+ * is saved to a file, and a note in the middle tells the model where to find
+ * it.
+ */
+export function limitToolOutput(
+  output: string,
+  { maxChars, outputDir, name }: ToolOutputLimit,
+): string {
+  if (output.length <= maxChars) {
+    return output;
+  }
+
+  let location: string;
+  try {
+    const outputFile = path.join(
+      outputDir,
+      `${name}-${crypto.randomBytes(6).toString('hex')}.txt`,
+    );
+    fs.mkdirSync(outputDir, { recursive: true });
+    fs.writeFileSync(outputFile, output);
+    location = `The full output was saved to ${outputFile}, which can be inspected with commands such as grep, head or tail.`;
+  } catch (error) {
+    location = `The full output could not be saved: ${getErrorMessage(error)}`;
+  }
+
+  const headLength = Math.ceil(maxChars / 2);
+  const tailLength = maxChars - headLength;
+  return [
+    output.slice(0, headLength),
+    `\n\n... [${output.length - maxChars} characters truncated. ${location}] ...\n\n`,
+    output.slice(output.length - tailLength),
+  ].join('');
+}